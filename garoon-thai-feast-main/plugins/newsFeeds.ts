@@ -0,0 +1,80 @@
+import type { Plugin } from "vite";
+import { FeedArticle, FeedCategory, FEED_ITEM_LIMIT, buildAtomFeed, buildRssFeed, getFeedPaths } from "../src/lib/feeds";
+import project from "../src/integrations/supabase/project.json";
+
+// Writes the RSS and Atom feeds from src/lib/feeds.ts into the build output,
+// so crawlers and feed readers get static XML. Feeds reflect the articles
+// live at build time; rebuild to pick up newly published ones.
+
+// The site's own project by default; the anon key only sees what the site
+// itself shows
+interface NewsFeedsOptions {
+  // Feeds need absolute links, taken from VITE_SITE_URL
+  siteUrl?: string;
+  supabaseUrl?: string;
+  supabaseAnonKey?: string;
+}
+
+type FeedArticleRow = FeedArticle & { category_id: string | null };
+type FeedCategoryRow = FeedCategory & { id: string };
+
+export const newsFeeds = (options: NewsFeedsOptions): Plugin => {
+  const supabaseUrl = (options.supabaseUrl || project.url).replace(/\/+$/, "");
+  const supabaseKey = options.supabaseAnonKey || project.anonKey;
+
+  const fetchRows = async <T>(path: string): Promise<T[]> => {
+    const response = await fetch(`${supabaseUrl}/rest/v1/${path}`, {
+      headers: { apikey: supabaseKey, Authorization: `Bearer ${supabaseKey}` },
+    });
+    if (!response.ok) throw new Error(`${response.status} ${await response.text()}`);
+    return (await response.json()) as T[];
+  };
+
+  let serverBuild = false;
+
+  return {
+    name: "news-feeds",
+    apply: "build",
+    configResolved(config) {
+      // The prerender step's server bundle doesn't need feeds
+      serverBuild = !!config.build.ssr;
+    },
+    async generateBundle() {
+      if (serverBuild) return;
+      const siteUrl = options.siteUrl?.replace(/\/+$/, "");
+      if (!siteUrl) {
+        this.warn("VITE_SITE_URL is not set, so no news feeds were written");
+        return;
+      }
+
+      // Same filter as LIVE_ARTICLE_STATUSES in src/lib/articles.ts
+      const live = `status=in.(published,scheduled)&published_at=lte.${encodeURIComponent(new Date().toISOString())}`;
+      let articles: FeedArticleRow[];
+      let categories: FeedCategoryRow[];
+      try {
+        [articles, categories] = await Promise.all([
+          fetchRows<FeedArticleRow>(
+            `articles?select=slug,title,content,category,category_id,featured_image,published_at,created_at,updated_at&${live}&order=published_at.desc`
+          ),
+          fetchRows<FeedCategoryRow>("article_categories?select=id,name,slug,description"),
+        ]);
+      } catch (error) {
+        // A failed fetch shouldn't block a deploy; the site works without feeds
+        this.warn(`Could not load articles for the news feeds: ${error instanceof Error ? error.message : error}`);
+        return;
+      }
+
+      const emitFeeds = (category: FeedCategoryRow | null, feedArticles: FeedArticleRow[]) => {
+        const paths = getFeedPaths(category?.slug);
+        const feed = { siteUrl, category, articles: feedArticles.slice(0, FEED_ITEM_LIMIT) };
+        this.emitFile({ type: "asset", fileName: paths.rss.slice(1), source: buildRssFeed(feed) });
+        this.emitFile({ type: "asset", fileName: paths.atom.slice(1), source: buildAtomFeed(feed) });
+      };
+
+      emitFeeds(null, articles);
+      categories.forEach(category =>
+        emitFeeds(category, articles.filter(article => article.category_id === category.id))
+      );
+    },
+  };
+};
@@ -0,0 +1,163 @@
+import { copyFile, mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { build, type Plugin, type ResolvedConfig } from "vite";
+
+// Renders the public routes to static HTML once the client build is done:
+// src/entry-server.tsx is built for Node into dist-ssr/, loads a snapshot of
+// the content from Supabase and renders each route into a copy of index.html.
+// Other routes, and any host fallback, still get the plain SPA shell. The
+// sitemap from the same snapshot is written to sitemap.xml and listed in
+// robots.txt.
+//
+// `npm run prerender` re-runs just this step against the last build, for
+// content changes that don't need a new bundle (see supabase/add-prerender-hook.sql).
+
+const SERVER_ENTRY = "src/entry-server.tsx";
+const SERVER_DIR = "dist-ssr";
+const TEMPLATE_FILE = "template.html";
+const SNAPSHOT_FILE = "snapshot.json";
+
+interface PrerenderOptions {
+  // Canonical and Open Graph URLs are absolute, taken from VITE_SITE_URL
+  siteUrl?: string;
+  // Render from a saved snapshot instead of querying Supabase
+  snapshotFile?: string;
+}
+
+// The exports of src/entry-server.tsx; the snapshot is only passed through
+interface ServerEntry {
+  loadSnapshot: () => Promise<unknown>;
+  getPrerenderRoutes: (snapshot: unknown) => string[];
+  getSitemapXml: (snapshot: unknown) => string | null;
+  render: (path: string, snapshot: unknown) => { html: string; head: string[]; dataScript: string };
+}
+
+export interface PrerenderApi {
+  run: () => Promise<void>;
+}
+
+// The Supabase client reads localStorage when it's created
+const installStorage = () => {
+  if ("localStorage" in globalThis) return;
+  const values = new Map<string, string>();
+  const storage = {
+    get length() {
+      return values.size;
+    },
+    key: (index: number) => [...values.keys()][index] ?? null,
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: string) => void values.set(key, String(value)),
+    removeItem: (key: string) => void values.delete(key),
+    clear: () => values.clear(),
+  };
+  Object.defineProperty(globalThis, "localStorage", { value: storage, configurable: true });
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Drops the defaults in index.html that the page's own tags replace
+const removeDefaultTags = (template: string, head: string[]) => {
+  let html = template;
+  if (head.some(tag => tag.startsWith("<title>"))) {
+    html = html.replace(/\s*<title>[\s\S]*?<\/title>/, "");
+  }
+  head
+    .map(tag => tag.match(/^<meta (?:name|property)="([^"]+)"/)?.[1])
+    .forEach(key => {
+      if (key) html = html.replace(new RegExp(`\\s*<meta (?:name|property)="${escapeRegExp(key)}"[^>]*>`), "");
+    });
+  return html;
+};
+
+const getOutputFile = (outDir: string, route: string) =>
+  path.join(outDir, route === "/" ? "" : route.slice(1), "index.html");
+
+// Also points the Sitemap line of robots.txt, copied from public/, at it
+const writeSitemap = async (outDir: string, siteUrl: string, xml: string) => {
+  await writeFile(path.join(outDir, "sitemap.xml"), xml);
+
+  const robotsFile = path.join(outDir, "robots.txt");
+  const robots = await readFile(robotsFile, "utf-8").catch(() => "User-agent: *\nAllow: /\n");
+  const rules = robots.replace(/^Sitemap:.*$\n?/gim, "").trimEnd();
+  await writeFile(robotsFile, `${rules}\n\nSitemap: ${siteUrl.replace(/\/+$/, "")}/sitemap.xml\n`);
+};
+
+export const prerender = (options: PrerenderOptions): Plugin<PrerenderApi> => {
+  let config: ResolvedConfig;
+
+  const run = async () => {
+    const serverDir = path.resolve(config.root, SERVER_DIR);
+    const outDir = path.resolve(config.root, config.build.outDir);
+    installStorage();
+
+    // The query string makes repeat runs in one process load the new bundle
+    const server = (await import(
+      `${pathToFileURL(path.join(serverDir, "entry-server.js")).href}?t=${Date.now()}`
+    )) as ServerEntry;
+    const snapshot = options.snapshotFile
+      ? JSON.parse(await readFile(path.resolve(config.root, options.snapshotFile), "utf-8"))
+      : await server.loadSnapshot();
+    await writeFile(path.join(serverDir, SNAPSHOT_FILE), JSON.stringify(snapshot, null, 2));
+
+    // Render every page before writing any, so a failure leaves the last
+    // complete set in place
+    const template = await readFile(path.join(serverDir, TEMPLATE_FILE), "utf-8");
+    const pages = server.getPrerenderRoutes(snapshot).map(route => {
+      const page = server.render(route, snapshot);
+      const html = removeDefaultTags(template, page.head)
+        .replace("</head>", () => `  ${page.head.join("\n    ")}\n  </head>`)
+        .replace('<div id="root"></div>', () => `<div id="root">${page.html}</div>\n    ${page.dataScript}`);
+      return { file: getOutputFile(outDir, route), html };
+    });
+
+    for (const page of pages) {
+      await mkdir(path.dirname(page.file), { recursive: true });
+      await writeFile(page.file, page.html);
+    }
+    config.logger.info(`Prerendered ${pages.length} pages`);
+
+    const sitemapXml = server.getSitemapXml(snapshot);
+    if (sitemapXml && options.siteUrl) {
+      await writeSitemap(outDir, options.siteUrl, sitemapXml);
+    } else {
+      config.logger.warn("The sitemap hasn't been generated yet, so no sitemap.xml was written");
+    }
+  };
+
+  return {
+    name: "prerender",
+    apply: "build",
+    api: { run },
+    configResolved(resolved) {
+      config = resolved;
+    },
+    async closeBundle() {
+      // The server build below runs these plugins too
+      if (config.build.ssr) return;
+      if (!options.siteUrl) {
+        config.logger.warn("VITE_SITE_URL is not set, so no pages were prerendered");
+        return;
+      }
+
+      try {
+        await build({
+          configFile: config.configFile,
+          mode: config.mode,
+          logLevel: "warn",
+          build: {
+            ssr: SERVER_ENTRY,
+            outDir: SERVER_DIR,
+            emptyOutDir: true,
+            copyPublicDir: false,
+          },
+        });
+        await copyFile(path.resolve(config.root, config.build.outDir, "index.html"), path.resolve(config.root, SERVER_DIR, TEMPLATE_FILE));
+        await run();
+      } catch (error) {
+        // Same as the feeds: the SPA shell still works, so don't block a deploy
+        config.logger.warn(`Pages were not prerendered: ${(error as { message?: string })?.message ?? error}`);
+      }
+    },
+  };
+};
@@ -0,0 +1,109 @@
+// One-off migration: move base64 data URLs stored in image columns into the
+// "media" storage bucket and replace them with public URLs.
+//
+//   SUPABASE_SERVICE_ROLE_KEY=... npm run migrate:images -- --dry-run
+//   SUPABASE_SERVICE_ROLE_KEY=... npm run migrate:images
+//
+// Uses the service role key because it has to read and update every row.
+// Run supabase/create-media-storage.sql first. Bucket name and folder layout
+// match src/lib/media.ts.
+import { readFile } from "node:fs/promises";
+import { createClient } from "@supabase/supabase-js";
+
+const project = JSON.parse(await readFile(new URL("../src/integrations/supabase/project.json", import.meta.url), "utf-8"));
+
+const SUPABASE_URL = process.env.SUPABASE_URL || project.url;
+const SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const MEDIA_BUCKET = "media";
+const dryRun = process.argv.includes("--dry-run");
+
+const TARGETS = [
+  { table: "menu_items", column: "image_url", folder: "menu", label: "name" },
+  { table: "articles", column: "featured_image", folder: "articles", label: "title" },
+  { table: "seo_settings", column: "og_image", folder: "seo", label: "id" },
+];
+
+const EXTENSIONS = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+};
+
+if (!SERVICE_ROLE_KEY) {
+  console.error("SUPABASE_SERVICE_ROLE_KEY is required");
+  process.exit(1);
+}
+
+const supabase = createClient(SUPABASE_URL, SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+});
+
+const slugify = (value) =>
+  String(value).toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 60) || "image";
+
+// "data:image/png;base64,iVBOR..." => { contentType, bytes }
+const parseDataUrl = (dataUrl) => {
+  const match = dataUrl.match(/^data:([^;,]+)(;base64)?,(.*)$/s);
+  if (!match) return null;
+  const [, contentType, isBase64, payload] = match;
+  const bytes = isBase64 ? Buffer.from(payload, "base64") : Buffer.from(decodeURIComponent(payload));
+  return { contentType, bytes };
+};
+
+const migrateTarget = async ({ table, column, folder, label }) => {
+  // Fetch ids first so the multi-megabyte values are only loaded one row at a time
+  const { data: rows, error } = await supabase
+    .from(table)
+    .select(label === "id" ? "id" : `id, ${label}`)
+    .like(column, "data:%");
+
+  if (error) throw error;
+  console.log(`${table}.${column}: ${rows.length} inline image(s)`);
+
+  let migrated = 0;
+  for (const row of rows) {
+    const { data: record, error: fetchError } = await supabase
+      .from(table)
+      .select(column)
+      .eq("id", row.id)
+      .single();
+    if (fetchError) throw fetchError;
+
+    const parsed = parseDataUrl(record[column]);
+    const extension = parsed && EXTENSIONS[parsed.contentType];
+    if (!parsed || !extension) {
+      console.warn(`  skipped ${row[label]}: unsupported data URL`);
+      continue;
+    }
+
+    const path = `${folder}/${Date.now()}-migrated-${slugify(row[label])}.${extension}`;
+    console.log(`  ${row[label]} -> ${path} (${Math.round(parsed.bytes.length / 1024)} KB)`);
+    if (dryRun) continue;
+
+    const { error: uploadError } = await supabase.storage
+      .from(MEDIA_BUCKET)
+      .upload(path, parsed.bytes, {
+        contentType: parsed.contentType,
+        cacheControl: "31536000",
+        upsert: false,
+      });
+    if (uploadError) throw uploadError;
+
+    const url = supabase.storage.from(MEDIA_BUCKET).getPublicUrl(path).data.publicUrl;
+    const { error: updateError } = await supabase
+      .from(table)
+      .update({ [column]: url })
+      .eq("id", row.id);
+    if (updateError) throw updateError;
+    migrated++;
+  }
+
+  return migrated;
+};
+
+let total = 0;
+for (const target of TARGETS) {
+  total += await migrateTarget(target);
+}
+console.log(dryRun ? "Dry run complete, nothing was changed." : `Migrated ${total} image(s).`);
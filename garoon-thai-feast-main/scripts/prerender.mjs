@@ -0,0 +1,18 @@
+// Re-renders the prerendered pages in dist/ from fresh Supabase content,
+// without rebuilding the app. Needs the dist/ and dist-ssr/ output of a
+// previous `npm run build` with VITE_SITE_URL set.
+//
+//   npm run prerender
+//   PRERENDER_SNAPSHOT=dist-ssr/snapshot.json npm run prerender
+//
+// The second form re-renders from the last snapshot, e.g. after a template
+// change. Hosts that can't run this step can point the prerender hook in
+// SEO settings at a build hook instead (supabase/add-prerender-hook.sql).
+import { resolveConfig } from "vite";
+
+const config = await resolveConfig({}, "build", "production");
+const plugin = config.plugins.find(({ name }) => name === "prerender");
+
+await plugin.api.run();
+// The Supabase client keeps timers running
+process.exit(0);
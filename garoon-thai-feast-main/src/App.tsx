@@ -2,45 +2,71 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { ReactNode, useEffect } from "react";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "./hooks/useAuth";
+import { CartProvider } from "./hooks/useCart";
+import { SeoProvider } from "./hooks/useSeo";
 import ProtectedRoute from "./components/ProtectedRoute";
 import Index from "./pages/Index";
 import Menu from "./pages/Menu";
 import About from "./pages/About";
 import News from "./pages/News";
 import Article from "./pages/Article";
+import Reservations from "./pages/Reservations";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/admin/Dashboard";
 import NotFound from "./pages/NotFound";
+import { markHydrated } from "./lib/prerender";
 
 const queryClient = new QueryClient();
 
-const App = () => (
-  <QueryClientProvider client={queryClient}>
-    <AuthProvider>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            <Route path="/" element={<Index />} />
-            <Route path="/menu" element={<Menu />} />
-            <Route path="/about" element={<About />} />
-            <Route path="/news" element={<News />} />
-            <Route path="/news/:id" element={<Article />} />
-            <Route path="/auth" element={<Auth />} />
-            <Route path="/admin" element={
-              <ProtectedRoute>
-                <Dashboard />
-              </ProtectedRoute>
-            } />
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
-      </TooltipProvider>
-    </AuthProvider>
-  </QueryClientProvider>
-);
+interface AppProps {
+  // The prerenderer swaps in a StaticRouter for the page it's rendering
+  router?: (routes: ReactNode) => ReactNode;
+}
+
+const browserRouter = (routes: ReactNode) => <BrowserRouter>{routes}</BrowserRouter>;
+
+const App = ({ router = browserRouter }: AppProps) => {
+  useEffect(() => {
+    markHydrated();
+  }, []);
+
+  return (
+    <QueryClientProvider client={queryClient}>
+      <AuthProvider>
+        <CartProvider>
+          <SeoProvider>
+            <TooltipProvider>
+              <Toaster />
+              <Sonner />
+              {router(
+                <Routes>
+                  <Route path="/" element={<Index />} />
+                  <Route path="/menu" element={<Menu />} />
+                  <Route path="/about" element={<About />} />
+                  <Route path="/news" element={<News />} />
+                  <Route path="/news/category/:category" element={<News />} />
+                  <Route path="/news/tag/:tag" element={<News />} />
+                  <Route path="/news/preview/:id" element={<Article preview />} />
+                  <Route path="/news/:slug" element={<Article />} />
+                  <Route path="/reservations" element={<Reservations />} />
+                  <Route path="/auth" element={<Auth />} />
+                  <Route path="/admin" element={
+                    <ProtectedRoute>
+                      <Dashboard />
+                    </ProtectedRoute>
+                  } />
+                  <Route path="*" element={<NotFound />} />
+                </Routes>
+              )}
+            </TooltipProvider>
+          </SeoProvider>
+        </CartProvider>
+      </AuthProvider>
+    </QueryClientProvider>
+  );
+};
 
 export default App;
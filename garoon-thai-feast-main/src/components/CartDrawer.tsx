@@ -0,0 +1,330 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Sheet, SheetContent, SheetDescription, SheetFooter, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { useCart } from "@/hooks/useCart";
+import { useToast } from "@/hooks/use-toast";
+import { useSiteSeo } from "@/hooks/useSeo";
+import { formatPickupTime, formatPrice, getPickupSlots, placeOrder } from "@/lib/orders";
+import { formatModifiers } from "@/lib/menuOptions";
+import { CheckCircle2, Minus, Plus, ShoppingBag, Trash2 } from "lucide-react";
+
+type CheckoutStep = "cart" | "details" | "payment" | "confirmed";
+
+const emptyDetails = {
+  name: "",
+  email: "",
+  phone: "",
+  pickupTime: "",
+  notes: "",
+};
+
+const CartDrawer = () => {
+  const { items, itemCount, subtotal, isOpen, setIsOpen, updateQuantity, removeItem, clearCart } = useCart();
+  const [step, setStep] = useState<CheckoutStep>("cart");
+  const [details, setDetails] = useState(emptyDetails);
+  const [pickupSlots, setPickupSlots] = useState<Date[]>([]);
+  const [placing, setPlacing] = useState(false);
+  const [confirmation, setConfirmation] = useState<{ orderId: string; total: number; pickupTime: Date } | null>(null);
+  const { contactInfo } = useSiteSeo();
+  const { toast } = useToast();
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open && step === "confirmed") {
+      setStep("cart");
+      setConfirmation(null);
+    }
+  };
+
+  const goToDetails = () => {
+    setPickupSlots(getPickupSlots(contactInfo?.business_hours));
+    setStep("details");
+  };
+
+  const goToPayment = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!details.name.trim() || !details.phone.trim() || !details.email.includes('@')) {
+      toast({
+        title: "Missing Information",
+        description: "Please enter your name, phone number and a valid email",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (!details.pickupTime) {
+      toast({
+        title: "Pickup Time",
+        description: "Please choose a pickup time",
+        variant: "destructive",
+      });
+      return;
+    }
+    setStep("payment");
+  };
+
+  const handlePlaceOrder = async () => {
+    setPlacing(true);
+    try {
+      const pickupTime = new Date(details.pickupTime);
+      const result = await placeOrder({
+        customerName: details.name,
+        customerEmail: details.email,
+        customerPhone: details.phone,
+        pickupTime,
+        notes: details.notes,
+        items,
+      });
+      setConfirmation({ ...result, pickupTime });
+      clearCart();
+      setDetails(emptyDetails);
+      setStep("confirmed");
+    } catch (error) {
+      console.error('Error placing order:', error);
+      toast({
+        title: "Order Failed",
+        description: error instanceof Error ? error.message : "Failed to place order. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setPlacing(false);
+    }
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={handleOpenChange}>
+      <SheetContent className="flex flex-col w-full sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle className="font-playfair text-2xl">
+            {step === "confirmed" ? "Order Confirmed" : "Your Order"}
+          </SheetTitle>
+          <SheetDescription>
+            {step === "cart" && `${itemCount} item${itemCount === 1 ? "" : "s"} for pickup`}
+            {step === "details" && "Tell us who's collecting and when"}
+            {step === "payment" && "Review and place your order"}
+            {step === "confirmed" && "Thank you! We've received your order."}
+          </SheetDescription>
+        </SheetHeader>
+
+        {step === "cart" && (
+          <>
+            <div className="flex-1 overflow-y-auto space-y-4 py-4">
+              {items.length === 0 ? (
+                <div className="text-center py-12 text-muted-foreground">
+                  <ShoppingBag className="h-12 w-12 mx-auto mb-4 text-thai-gold" />
+                  Your cart is empty. Add some dishes from our menu.
+                </div>
+              ) : (
+                items.map((item) => (
+                  <div key={item.lineId} className="flex items-center gap-3">
+                    {item.imageUrl && (
+                      <img src={item.imageUrl} alt={item.name} className="h-14 w-14 rounded object-cover" />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium truncate">{item.name}</p>
+                      {item.modifiers.length > 0 && (
+                        <p className="text-xs text-muted-foreground">{formatModifiers(item.modifiers)}</p>
+                      )}
+                      <p className="text-sm text-muted-foreground">{formatPrice(item.unitPrice)}</p>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => updateQuantity(item.lineId, item.quantity - 1)}
+                        aria-label={`Decrease ${item.name} quantity`}
+                      >
+                        <Minus className="h-3 w-3" />
+                      </Button>
+                      <span className="w-8 text-center">{item.quantity}</span>
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => updateQuantity(item.lineId, item.quantity + 1)}
+                        aria-label={`Increase ${item.name} quantity`}
+                      >
+                        <Plus className="h-3 w-3" />
+                      </Button>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeItem(item.lineId)}
+                      className="text-destructive hover:text-destructive"
+                      aria-label={`Remove ${item.name}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+            <Separator />
+            <div className="flex justify-between font-semibold text-lg py-2">
+              <span>Subtotal</span>
+              <span className="text-thai-gold">{formatPrice(subtotal)}</span>
+            </div>
+            <SheetFooter>
+              <Button variant="hero" className="w-full" disabled={items.length === 0} onClick={goToDetails}>
+                Checkout
+              </Button>
+            </SheetFooter>
+          </>
+        )}
+
+        {step === "details" && (
+          <form onSubmit={goToPayment} className="flex-1 flex flex-col">
+            <div className="flex-1 overflow-y-auto space-y-4 py-4">
+              <div>
+                <Label htmlFor="order-name">Name *</Label>
+                <Input
+                  id="order-name"
+                  value={details.name}
+                  onChange={(e) => setDetails({ ...details, name: e.target.value })}
+                  placeholder="Your full name"
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="order-phone">Phone *</Label>
+                <Input
+                  id="order-phone"
+                  type="tel"
+                  value={details.phone}
+                  onChange={(e) => setDetails({ ...details, phone: e.target.value })}
+                  placeholder="021 123 4567"
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="order-email">Email *</Label>
+                <Input
+                  id="order-email"
+                  type="email"
+                  value={details.email}
+                  onChange={(e) => setDetails({ ...details, email: e.target.value })}
+                  placeholder="your.email@example.com"
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="order-pickup">Pickup Time *</Label>
+                <Select
+                  value={details.pickupTime}
+                  onValueChange={(value) => setDetails({ ...details, pickupTime: value })}
+                >
+                  <SelectTrigger id="order-pickup">
+                    <SelectValue placeholder="Choose a pickup time" />
+                  </SelectTrigger>
+                  <SelectContent className="max-h-60 overflow-y-auto">
+                    {pickupSlots.map((slot) => (
+                      <SelectItem key={slot.toISOString()} value={slot.toISOString()}>
+                        {formatPickupTime(slot)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {pickupSlots.length === 0 && (
+                  <p className="text-sm text-muted-foreground mt-1">
+                    We're not taking pickup orders for the next week. Please call us.
+                  </p>
+                )}
+              </div>
+              <div>
+                <Label htmlFor="order-notes">Notes</Label>
+                <Textarea
+                  id="order-notes"
+                  value={details.notes}
+                  onChange={(e) => setDetails({ ...details, notes: e.target.value })}
+                  placeholder="Allergies or special requests"
+                  rows={3}
+                />
+              </div>
+            </div>
+            <SheetFooter className="gap-2">
+              <Button type="button" variant="outline" onClick={() => setStep("cart")}>
+                Back
+              </Button>
+              <Button type="submit" variant="hero">
+                Continue to Payment
+              </Button>
+            </SheetFooter>
+          </form>
+        )}
+
+        {step === "payment" && (
+          <>
+            <div className="flex-1 overflow-y-auto space-y-4 py-4">
+              <div className="space-y-2 text-sm">
+                {items.map((item) => (
+                  <div key={item.lineId} className="flex justify-between gap-2">
+                    <span>
+                      {item.quantity} × {item.name}
+                      {item.modifiers.length > 0 && (
+                        <span className="block text-xs text-muted-foreground">{formatModifiers(item.modifiers)}</span>
+                      )}
+                    </span>
+                    <span>{formatPrice(item.unitPrice * item.quantity)}</span>
+                  </div>
+                ))}
+              </div>
+              <Separator />
+              <div className="flex justify-between font-semibold text-lg">
+                <span>Total</span>
+                <span className="text-thai-gold">{formatPrice(subtotal)}</span>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Pickup at {details.pickupTime && formatPickupTime(new Date(details.pickupTime))} for {details.name}
+              </p>
+              <div>
+                <Label className="mb-2 block">Payment Method</Label>
+                <RadioGroup value="pay_at_pickup">
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="pay_at_pickup" id="pay-at-pickup" />
+                    <Label htmlFor="pay-at-pickup">Pay at pickup</Label>
+                  </div>
+                  <div className="flex items-center space-x-2 opacity-50">
+                    <RadioGroupItem value="online" id="pay-online" disabled />
+                    <Label htmlFor="pay-online">Pay online (coming soon)</Label>
+                  </div>
+                </RadioGroup>
+              </div>
+            </div>
+            <SheetFooter className="gap-2">
+              <Button variant="outline" onClick={() => setStep("details")} disabled={placing}>
+                Back
+              </Button>
+              <Button variant="hero" onClick={handlePlaceOrder} disabled={placing}>
+                {placing ? "Placing Order..." : "Place Order"}
+              </Button>
+            </SheetFooter>
+          </>
+        )}
+
+        {step === "confirmed" && confirmation && (
+          <div className="flex-1 flex flex-col items-center justify-center text-center space-y-4">
+            <CheckCircle2 className="h-16 w-16 text-thai-green" />
+            <p className="text-lg font-semibold">
+              Pickup at {formatPickupTime(confirmation.pickupTime)}
+            </p>
+            <p className="text-muted-foreground">
+              Order #{confirmation.orderId.slice(0, 8).toUpperCase()} · {formatPrice(confirmation.total)} to pay at pickup
+            </p>
+            <Button variant="hero" onClick={() => handleOpenChange(false)}>
+              Done
+            </Button>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default CartDrawer;
@@ -0,0 +1,64 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { useSiteSeo } from "@/hooks/useSeo";
+import { hasInjectedTrackingScripts, injectCustomScripts, parseCustomScripts } from "@/lib/customScripts";
+import { CookieConsent, getCookieConsent, onCookieConsentChange, setCookieConsent } from "@/lib/consent";
+import { isHydrating } from "@/lib/prerender";
+import { Cookie } from "lucide-react";
+
+// Loads the admin-configured scripts from seo_settings. JSON-LD is plain data
+// and always added; tracking scripts wait for cookie consent.
+const CustomScripts = () => {
+  const { settings } = useSiteSeo();
+  // Unknown until after hydration on prerendered pages, which were rendered
+  // without the banner
+  const [consent, setConsent] = useState<CookieConsent | undefined>(() => isHydrating() ? undefined : getCookieConsent());
+
+  const scripts = useMemo(
+    () => parseCustomScripts(settings?.custom_scripts).scripts,
+    [settings?.custom_scripts]
+  );
+  const trackingScripts = scripts.filter(script => script.kind === "external");
+
+  useEffect(() => {
+    setConsent(getCookieConsent());
+    return onCookieConsentChange(setConsent);
+  }, []);
+
+  useEffect(() => {
+    injectCustomScripts(scripts.filter(script => script.kind === "json-ld" || consent === "granted"));
+  }, [scripts, consent]);
+
+  const handleDecline = () => {
+    setCookieConsent("denied");
+    if (hasInjectedTrackingScripts()) window.location.reload();
+  };
+
+  if (trackingScripts.length === 0 || consent !== null) return null;
+
+  return (
+    <div
+      role="dialog"
+      aria-label="Cookie consent"
+      className="fixed bottom-4 left-4 right-4 md:left-auto md:max-w-md z-50 rounded-lg border border-thai-gold/30 bg-background p-4 shadow-lg"
+    >
+      <div className="flex items-start gap-3">
+        <Cookie className="h-5 w-5 mt-0.5 text-thai-gold flex-shrink-0" />
+        <p className="text-sm text-muted-foreground">
+          We use analytics cookies to understand how visitors use our site. You can change your mind at any
+          time from the link in the footer.
+        </p>
+      </div>
+      <div className="flex justify-end gap-2 mt-3">
+        <Button variant="outline" size="sm" onClick={handleDecline}>
+          Decline
+        </Button>
+        <Button variant="hero" size="sm" onClick={() => setCookieConsent("granted")}>
+          Accept
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default CustomScripts;
@@ -1,19 +1,24 @@
 import { useState, useEffect } from "react";
 import { Link } from "react-router-dom";
-import { MapPin, Phone, Mail, Clock, Facebook, LucideStar, LucideCircle } from "lucide-react";
+import { MapPin, Phone, Mail, Clock } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import tripAdvisor from '/tripadvisor.svg'
-
-interface BusinessHours {
-  [day: string]: string;
-}
-
-interface SocialLinks {
-  facebook?: string;
-  google?: string;
-  tripadvisor?: string;
-}
+import { setCookieConsent } from "@/lib/consent";
+import type { ContactInfo as ContactRow } from "@/lib/contactInfo";
+import { getPrerendered } from "@/lib/prerender";
+import {
+  BusinessHours,
+  formatExceptionDate,
+  formatIntervals,
+  getUpcomingExceptions,
+  getWeeklySummary,
+  hasBusinessHours,
+  parseBusinessHours,
+} from "@/lib/businessHours";
+import { useNow } from "@/hooks/useNow";
+import OpeningStatus from "@/components/OpeningStatus";
+import SocialIcon from "@/components/SocialIcon";
+import { DEFAULT_SOCIAL_LINKS, SocialLink, getSocialLinks, getSocialPlatform } from "@/lib/socialLinks";
 
 interface ContactInfo {
   id: string;
@@ -21,38 +26,25 @@ interface ContactInfo {
   phone: string | null;
   email: string | null;
   business_hours: BusinessHours;
-  social_links: SocialLinks;
+  social_links: SocialLink[];
   maps_link: string | null;
 }
 
-// Replace GoogleIcon with a LucideCircle containing a G for a more consistent outline look
-const GoogleIcon = (props: React.SVGProps<SVGSVGElement>) => (
-  <span style={{ display: 'inline-flex', alignItems: 'center', justifyContent: 'center', position: 'relative', width: 20, height: 20 }}>
-    <LucideCircle className="h-5 w-5" {...props} />
-    <span style={{
-      position: 'absolute',
-      left: 0,
-      top: 0,
-      width: '100%',
-      height: '100%',
-      display: 'flex',
-      alignItems: 'center',
-      justifyContent: 'center',
-      fontWeight: 700,
-      fontSize: '0.95rem',
-      color: 'currentColor',
-      fontFamily: 'Arial, Helvetica, sans-serif',
-      pointerEvents: 'none',
-      userSelect: 'none',
-    }}>G</span>
-  </span>
-);
+const parseContactInfo = (data: ContactRow): ContactInfo => ({
+  ...data,
+  business_hours: parseBusinessHours(data.business_hours),
+  social_links: getSocialLinks(data.social_links),
+});
 
 const Footer = () => {
   const currentYear = new Date().getFullYear();
-  const [contactInfo, setContactInfo] = useState<ContactInfo | null>(null);
-  const [loading, setLoading] = useState(true);
+  // Prerendered pages start with the row they were built with
+  const [prerendered] = useState(() => getPrerendered("contactInfo"));
+  const [contactInfo, setContactInfo] = useState<ContactInfo | null>(() => prerendered ? parseContactInfo(prerendered) : null);
+  const [loading, setLoading] = useState(!prerendered);
   const { toast } = useToast();
+  const now = useNow();
+  const socialLinks = contactInfo?.social_links ?? DEFAULT_SOCIAL_LINKS;
 
   useEffect(() => {
     const fetchContactInfo = async () => {
@@ -71,29 +63,7 @@ const Footer = () => {
             variant: "destructive",
           });
         } else {
-          // Parse business_hours and social_links if they are strings (JSON) or null
-          const parsedData = { ...data };
-          // Ensure business_hours is always an object
-          if (!parsedData.business_hours || typeof parsedData.business_hours === 'string') {
-            try {
-              parsedData.business_hours = typeof parsedData.business_hours === 'string'
-                ? JSON.parse(parsedData.business_hours)
-                : (parsedData.business_hours || {});
-            } catch {
-              parsedData.business_hours = {};
-            }
-          }
-          // Ensure social_links is always an object
-          if (!parsedData.social_links || typeof parsedData.social_links === 'string') {
-            try {
-              parsedData.social_links = typeof parsedData.social_links === 'string'
-                ? JSON.parse(parsedData.social_links)
-                : (parsedData.social_links || {});
-            } catch {
-              parsedData.social_links = {};
-            }
-          }
-          setContactInfo(parsedData as ContactInfo);
+          setContactInfo(parseContactInfo(data));
         }
       } catch (error) {
         console.error('Error fetching contact info:', error);
@@ -147,45 +117,25 @@ const Footer = () => {
               Authentic Thai cuisine crafted with passion and tradition. Experience 
               the vibrant flavors of Thailand in every dish.
             </p>
-            <div className="space-y-2">
-              <div className="font-semibold text-thai-gold text-sm">Find Us & Leave a Review</div>
-              <div className="flex space-x-4">
-                {/* Facebook */}
-                <a
-                  href={contactInfo?.social_links?.facebook || "http://www.facebook.com/EasyGoThai/reviews"}
-                  className="text-thai-beige-dark hover:text-thai-gold transition-colors"
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  aria-disabled={!contactInfo?.social_links?.facebook}
-                  aria-label="Facebook"
-                >
-                  <Facebook className="h-5 w-5" />
-                </a>
-                {/* Google (custom icon) */}
-                <a
-                  href={contactInfo?.social_links?.google || "https://www.google.com/search?q=easy+go+thai+restaurant&sca_esv=b7645fb63843d7af&rlz=1C1CHBF_enNZ1079NZ1079&ei=Auq8aJfVFvuWg8UP74aSwQs&oq=easygo+thai+r&gs_lp=Egxnd3Mtd2l6LXNlcnAiDWVhc3lnbyB0aGFpIHIqAggBMgUQABiABDIGEAAYFhgeMgUQABjvBTIIEAAYgAQYogQyCBAAGKIEGIkFMggQABiABBiiBDIFEAAY7wVIzURQiSZYtzBwAXgBkAEAmAHCAaABsQeqAQMwLja4AQHIAQD4AQGYAgagApUGwgIKEAAYsAMY1gQYR8ICDRAAGLADGNYEGEcYyQPCAg4QABiABBiwAxiSAxiKBcICCxAAGIAEGIYDGIoFmAMAiAYBkAYJkgcDMS41oAfFHrIHAzAuNbgHjgbCBwUwLjMuM8gHEw&sclient=gws-wiz-serp#lrd=0x6d6ddebd52fec907:0x4afd0197496c5b83,1"}
-                  className="hover:opacity-80 transition-opacity"
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  aria-disabled={!contactInfo?.social_links?.google}
-                  aria-label="Google Reviews"
-                >
-                  <GoogleIcon className="h-5 w-5" />
-                </a>
-                {/* TripAdvisor (using Star icon) */}
-                <a
-                  href={contactInfo?.social_links?.tripadvisor || "https://www.tripadvisor.co.nz/Restaurant_Review-g1760740-d7711451-Reviews-EasyGo_Thai-Mount_Maunganui_Tauranga_Bay_of_Plenty_Region_North_Island.html"}
-                  className="text-thai-beige-dark hover:text-thai-gold transition-colors"
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  aria-disabled={!contactInfo?.social_links?.tripadvisor}
-                  aria-label="TripAdvisor"
-                >
-                  {/*<LucideStar className="h-5 w-5" />*/}
-                  <img src={tripAdvisor} className="h-5 w-5"/>
-                </a>
+            {socialLinks.length > 0 && (
+              <div className="space-y-2">
+                <div className="font-semibold text-thai-gold text-sm">Find Us & Leave a Review</div>
+                <div className="flex space-x-4">
+                  {socialLinks.map(link => (
+                    <a
+                      key={`${link.platform}-${link.url}`}
+                      href={link.url}
+                      className="text-thai-beige-dark hover:text-thai-gold transition-colors"
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      aria-label={getSocialPlatform(link.platform)?.name}
+                    >
+                      <SocialIcon platform={link.platform} />
+                    </a>
+                  ))}
+                </div>
               </div>
-            </div>
+            )}
           </div>
 
           {/* Quick Links */}
@@ -255,17 +205,28 @@ const Footer = () => {
           {/* Hours */}
           <div className="space-y-4">
             <h3 className="font-semibold text-thai-gold">Business Hours</h3>
+            <OpeningStatus />
             <div className="space-y-2">
-              {contactInfo?.business_hours && Object.keys(contactInfo.business_hours).length > 0 ? (
-                Object.entries(contactInfo.business_hours).map(([day, hours], index) => (
-                  <div key={day} className={index === 0 ? "flex items-start space-x-3" : "text-sm text-thai-beige-dark ml-7"}>
-                    {index === 0 && <Clock className="h-4 w-4 mt-1 text-thai-gold flex-shrink-0" />}
-                    <div className="text-sm text-thai-beige-dark">
-                      <div className="font-medium">{day}</div>
-                      <div>{hours as string}</div>
+              {contactInfo && hasBusinessHours(contactInfo.business_hours) ? (
+                <>
+                  {getWeeklySummary(contactInfo.business_hours).map(({ days, hours }, index) => (
+                    <div key={days} className={index === 0 ? "flex items-start space-x-3" : "text-sm text-thai-beige-dark ml-7"}>
+                      {index === 0 && <Clock className="h-4 w-4 mt-1 text-thai-gold flex-shrink-0" />}
+                      <div className="text-sm text-thai-beige-dark">
+                        <div className="font-medium">{days}</div>
+                        <div>{hours}</div>
+                      </div>
+                    </div>
+                  ))}
+                  {now && getUpcomingExceptions(contactInfo.business_hours, now, 14).map(exception => (
+                    <div key={exception.date} className="text-sm text-thai-beige-dark ml-7">
+                      <div className="font-medium text-thai-gold">
+                        {exception.label || "Special hours"} ({formatExceptionDate(exception.date)})
+                      </div>
+                      <div>{formatIntervals(exception.intervals)}</div>
                     </div>
-                  </div>
-                ))
+                  ))}
+                </>
               ) : (
                 <span className="italic text-thai-beige-dark/60">Not available</span>
               )}
@@ -285,6 +246,13 @@ const Footer = () => {
             <a href="#" className="text-sm text-thai-beige-dark hover:text-thai-gold transition-colors">
               Terms of Service
             </a>
+            <button
+              type="button"
+              onClick={() => setCookieConsent(null)}
+              className="text-sm text-thai-beige-dark hover:text-thai-gold transition-colors"
+            >
+              Cookie Preferences
+            </button>
           </div>
         </div>
       </div>
@@ -1,12 +1,15 @@
 import { useState } from "react";
 import { Link, useLocation } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { Menu, X } from "lucide-react";
+import { Menu, ShoppingBag, X } from "lucide-react";
+import { useCart } from "@/hooks/useCart";
+import OpeningStatus from "@/components/OpeningStatus";
 import logo from '/logo.jpg'
 
 const Header = () => {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const location = useLocation();
+  const { itemCount, setIsOpen: setCartOpen } = useCart();
 
   const navigation = [
     { name: "Home", href: "/" },
@@ -53,29 +56,55 @@ const Header = () => {
 
           {/* CTA Buttons */}
           <div className="hidden md:flex items-center space-x-4">
-            {/*<Button variant="elegant" size="sm">*/}
-            {/*  <a href="https://www.order.store/store/easygo-thai-restaurant-and-takeaways/KpMs6bO6RsCV6m8RKZRVHw ">Order Now</a>*/}
-            {/*</Button>*/}
+            <OpeningStatus className="hidden xl:inline-flex" />
+            <Button variant="elegant" size="sm" onClick={() => setCartOpen(true)} className="relative">
+              <ShoppingBag className="h-4 w-4 mr-2" />
+              Order Now
+              {itemCount > 0 && (
+                <span className="absolute -top-2 -right-2 bg-thai-red text-white text-xs font-bold rounded-full h-5 min-w-5 px-1 flex items-center justify-center">
+                  {itemCount}
+                </span>
+              )}
+            </Button>
             <Button variant="hero" size="sm" asChild>
+              <Link to="/reservations">Reserve Table</Link>
+            </Button>
+            <Button variant="ghost" size="sm" asChild>
               <Link to="/auth">Admin</Link>
             </Button>
           </div>
 
-          {/* Mobile Menu Button */}
-          <Button
-            variant="ghost"
-            size="icon"
-            className="md:hidden"
-            onClick={() => setIsMenuOpen(!isMenuOpen)}
-          >
-            {isMenuOpen ? <X className="h-5 w-5" /> : <Menu className="h-5 w-5" />}
-          </Button>
+          {/* Mobile Buttons */}
+          <div className="flex items-center md:hidden">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="relative"
+              onClick={() => setCartOpen(true)}
+              aria-label="Open cart"
+            >
+              <ShoppingBag className="h-5 w-5" />
+              {itemCount > 0 && (
+                <span className="absolute top-0 right-0 bg-thai-red text-white text-xs font-bold rounded-full h-4 min-w-4 px-1 flex items-center justify-center">
+                  {itemCount}
+                </span>
+              )}
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setIsMenuOpen(!isMenuOpen)}
+            >
+              {isMenuOpen ? <X className="h-5 w-5" /> : <Menu className="h-5 w-5" />}
+            </Button>
+          </div>
         </div>
 
         {/* Mobile Navigation */}
         {isMenuOpen && (
           <div className="md:hidden py-4 border-t border-thai-gold/20">
             <nav className="flex flex-col space-y-4">
+              <OpeningStatus className="self-start" />
               {navigation.map((item) => (
                 <Link
                   key={item.name}
@@ -91,12 +120,21 @@ const Header = () => {
                 </Link>
               ))}
               <div className="flex flex-col space-y-2 pt-4">
-                {/*<Button variant="elegant" size="sm" onClick={() => setIsMenuOpen(false)}>*/}
-                {/*  Order Now*/}
-                {/*</Button>*/}
-                {/*<Button variant="hero" size="sm" onClick={() => setIsMenuOpen(false)}>*/}
-                {/*  Reserve Table*/}
-                {/*</Button>*/}
+                <Button
+                  variant="elegant"
+                  size="sm"
+                  onClick={() => {
+                    setIsMenuOpen(false);
+                    setCartOpen(true);
+                  }}
+                >
+                  Order Now
+                </Button>
+                <Button variant="hero" size="sm" asChild>
+                  <Link to="/reservations" onClick={() => setIsMenuOpen(false)}>
+                    Reserve Table
+                  </Link>
+                </Button>
               </div>
             </nav>
           </div>
@@ -0,0 +1,24 @@
+interface HoneypotFieldProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+// Moved off screen rather than display: none, which some bots skip. Screen
+// readers and the tab order ignore it too.
+const HoneypotField = ({ id, value, onChange }: HoneypotFieldProps) => (
+  <div className="absolute -left-[10000px] top-auto h-px w-px overflow-hidden" aria-hidden="true">
+    <label htmlFor={id}>Leave this field empty</label>
+    <input
+      id={id}
+      name="website"
+      type="text"
+      tabIndex={-1}
+      autoComplete="off"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+    />
+  </div>
+);
+
+export default HoneypotField;
@@ -1,12 +1,19 @@
 import { ReactNode } from "react";
 import Header from "./Header";
 import Footer from "./Footer";
+import CartDrawer from "./CartDrawer";
+import CustomScripts from "./CustomScripts";
+import { useSiteSeo, useStructuredData } from "@/hooks/useSeo";
+import { buildRestaurantSchema } from "@/lib/structuredData";
 
 interface LayoutProps {
   children: ReactNode;
 }
 
 const Layout = ({ children }: LayoutProps) => {
+  const { settings, contactInfo, loading } = useSiteSeo();
+  useStructuredData("restaurant", loading ? null : buildRestaurantSchema(contactInfo, settings));
+
   return (
     <div className="min-h-screen flex flex-col">
       <Header />
@@ -14,6 +21,8 @@ const Layout = ({ children }: LayoutProps) => {
         {children}
       </main>
       <Footer />
+      <CartDrawer />
+      <CustomScripts />
     </div>
   );
 };
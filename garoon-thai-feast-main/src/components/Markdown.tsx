@@ -0,0 +1,104 @@
+import { Fragment, ReactNode, useMemo } from "react";
+import { Link } from "react-router-dom";
+import { MarkdownBlock, MarkdownInline, parseMarkdown } from "@/lib/markdown";
+import { cn } from "@/lib/utils";
+
+interface MarkdownProps {
+  content: string | null | undefined;
+  className?: string;
+}
+
+// The article title is the page's h1, so "# Heading" renders as an h2
+const HEADING_CLASSES = [
+  "font-playfair text-3xl font-bold mt-10 mb-4",
+  "font-playfair text-2xl font-bold mt-8 mb-3",
+  "font-playfair text-xl font-semibold mt-6 mb-3",
+  "text-lg font-semibold mt-6 mb-2",
+  "text-base font-semibold mt-4 mb-2",
+];
+
+const renderInline = (nodes: MarkdownInline[]): ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case "text":
+        return <Fragment key={index}>{node.value}</Fragment>;
+      case "strong":
+        return <strong key={index} className="font-semibold">{renderInline(node.children)}</strong>;
+      case "em":
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case "code":
+        return <code key={index} className="rounded bg-muted px-1.5 py-0.5 font-mono text-[0.9em]">{node.value}</code>;
+      case "break":
+        return <br key={index} />;
+      case "image":
+        return (
+          <img
+            key={index}
+            src={node.src}
+            alt={node.alt}
+            loading="lazy"
+            className="my-6 w-full rounded-lg"
+          />
+        );
+      case "link":
+        // Internal links stay in the SPA; everything else opens in a new tab
+        return node.href.startsWith("/") || node.href.startsWith("#") ? (
+          <Link key={index} to={node.href} className="text-thai-gold underline underline-offset-2 hover:text-thai-gold/80">
+            {renderInline(node.children)}
+          </Link>
+        ) : (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="text-thai-gold underline underline-offset-2 hover:text-thai-gold/80"
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+
+const renderBlocks = (blocks: MarkdownBlock[]): ReactNode[] =>
+  blocks.map((block, index) => {
+    switch (block.type) {
+      case "heading": {
+        const level = Math.min(block.level + 1, 6);
+        const Tag = `h${level}` as "h2" | "h3" | "h4" | "h5" | "h6";
+        return <Tag key={index} className={HEADING_CLASSES[level - 2]}>{renderInline(block.children)}</Tag>;
+      }
+      case "paragraph":
+        return <p key={index} className="mb-5 leading-relaxed">{renderInline(block.children)}</p>;
+      case "list": {
+        const items = block.items.map((item, itemIndex) => (
+          <li key={itemIndex} className="pl-1">{renderInline(item)}</li>
+        ));
+        return block.ordered
+          ? <ol key={index} className="mb-5 ml-6 list-decimal space-y-1">{items}</ol>
+          : <ul key={index} className="mb-5 ml-6 list-disc space-y-1">{items}</ul>;
+      }
+      case "blockquote":
+        return (
+          <blockquote key={index} className="mb-5 border-l-4 border-thai-gold/50 pl-4 italic text-muted-foreground">
+            {renderBlocks(block.children)}
+          </blockquote>
+        );
+      case "code":
+        return (
+          <pre key={index} className="mb-5 overflow-x-auto rounded-lg bg-muted p-4 font-mono text-sm">
+            <code>{block.value}</code>
+          </pre>
+        );
+      case "hr":
+        return <hr key={index} className="my-8 border-thai-gold/20" />;
+    }
+  });
+
+// Renders article Markdown as React elements; raw HTML is shown as text
+const Markdown = ({ content, className }: MarkdownProps) => {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+  return <div className={cn("text-foreground", className)}>{renderBlocks(blocks)}</div>;
+};
+
+export default Markdown;
@@ -0,0 +1,149 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { formatPrice } from "@/lib/orders";
+import {
+  MenuOptionGroup,
+  SelectedModifier,
+  describeGroupRule,
+  formatPriceDelta,
+  getModifiersTotal,
+  getSelectedModifiers,
+  isGroupRequired,
+  validateOptionSelection,
+} from "@/lib/menuOptions";
+import { Minus, Plus } from "lucide-react";
+
+interface MenuItemOptionsDialogProps {
+  item: { id: string; name: string; price: number; description?: string } | null;
+  groups: MenuOptionGroup[];
+  onOpenChange: (open: boolean) => void;
+  onAdd: (modifiers: SelectedModifier[], quantity: number) => void;
+}
+
+const MenuItemOptionsDialog = ({ item, groups, onOpenChange, onAdd }: MenuItemOptionsDialogProps) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [quantity, setQuantity] = useState(1);
+
+  // Start each item fresh
+  useEffect(() => {
+    setSelectedIds([]);
+    setQuantity(1);
+  }, [item?.id]);
+
+  if (!item) return null;
+
+  const modifiers = getSelectedModifiers(groups, selectedIds);
+  const unitPrice = item.price + getModifiersTotal(modifiers);
+  const validationError = validateOptionSelection(groups, selectedIds);
+
+  const selectSingle = (group: MenuOptionGroup, optionId: string) => {
+    const groupOptionIds = group.menu_options.map(option => option.id);
+    setSelectedIds(prev => [...prev.filter(id => !groupOptionIds.includes(id)), optionId]);
+  };
+
+  const toggleOption = (group: MenuOptionGroup, optionId: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      if (!checked) return prev.filter(id => id !== optionId);
+      const groupCount = group.menu_options.filter(option => prev.includes(option.id)).length;
+      return groupCount >= group.max_select ? prev : [...prev, optionId];
+    });
+  };
+
+  const handleAdd = () => {
+    if (validationError) return;
+    onAdd(modifiers, quantity);
+  };
+
+  return (
+    <Dialog open={!!item} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-playfair text-2xl">{item.name}</DialogTitle>
+          {item.description && <DialogDescription>{item.description}</DialogDescription>}
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {groups.map(group => (
+            <div key={group.id} className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h4 className="font-semibold">{group.name}</h4>
+                <Badge variant={isGroupRequired(group) ? "default" : "outline"}>
+                  {isGroupRequired(group) ? `Required · ${describeGroupRule(group)}` : describeGroupRule(group)}
+                </Badge>
+              </div>
+              {group.max_select === 1 ? (
+                <RadioGroup
+                  value={group.menu_options.find(option => selectedIds.includes(option.id))?.id ?? ""}
+                  onValueChange={(value) => selectSingle(group, value)}
+                >
+                  {group.menu_options.map(option => (
+                    <div key={option.id} className="flex items-center justify-between">
+                      <div className="flex items-center space-x-2">
+                        <RadioGroupItem value={option.id} id={`option-${option.id}`} />
+                        <Label htmlFor={`option-${option.id}`}>{option.name}</Label>
+                      </div>
+                      <span className="text-sm text-muted-foreground">{formatPriceDelta(option.price_delta)}</span>
+                    </div>
+                  ))}
+                </RadioGroup>
+              ) : (
+                <div className="space-y-2">
+                  {group.menu_options.map(option => (
+                    <div key={option.id} className="flex items-center justify-between">
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`option-${option.id}`}
+                          checked={selectedIds.includes(option.id)}
+                          onCheckedChange={(checked) => toggleOption(group, option.id, checked === true)}
+                        />
+                        <Label htmlFor={`option-${option.id}`}>{option.name}</Label>
+                      </div>
+                      <span className="text-sm text-muted-foreground">{formatPriceDelta(option.price_delta)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+          {validationError && (
+            <p className="text-sm text-muted-foreground">{validationError}</p>
+          )}
+        </div>
+
+        <DialogFooter className="flex-col sm:flex-row gap-2 sm:justify-between sm:items-center">
+          <div className="flex items-center gap-1">
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setQuantity(Math.max(1, quantity - 1))}
+              aria-label="Decrease quantity"
+            >
+              <Minus className="h-3 w-3" />
+            </Button>
+            <span className="w-8 text-center">{quantity}</span>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setQuantity(quantity + 1)}
+              aria-label="Increase quantity"
+            >
+              <Plus className="h-3 w-3" />
+            </Button>
+          </div>
+          <Button variant="hero" onClick={handleAdd} disabled={!!validationError} title={validationError ?? undefined}>
+            Add {quantity} to Order · {formatPrice(unitPrice * quantity)}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MenuItemOptionsDialog;
@@ -0,0 +1,41 @@
+import { useMemo } from "react";
+import { cn } from "@/lib/utils";
+import { useSiteSeo } from "@/hooks/useSeo";
+import { useNow } from "@/hooks/useNow";
+import { formatOpeningStatus, getOpeningStatus, hasBusinessHours, parseBusinessHours } from "@/lib/businessHours";
+
+interface OpeningStatusProps {
+  className?: string;
+}
+
+// "Open now · closes 9pm" from contact_info.business_hours, on the
+// restaurant's clock. Renders nothing until hours are known and the page has
+// hydrated, as prerendered HTML can't know the time it's viewed at.
+const OpeningStatus = ({ className }: OpeningStatusProps) => {
+  const { contactInfo } = useSiteSeo();
+  const now = useNow();
+  const hours = useMemo(() => parseBusinessHours(contactInfo?.business_hours), [contactInfo]);
+
+  if (!now || !hasBusinessHours(hours)) return null;
+
+  const status = getOpeningStatus(hours, now);
+  const { label, detail } = formatOpeningStatus(status);
+
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-2 rounded-full border px-3 py-1 text-xs font-medium",
+        status.isOpen
+          ? "border-thai-green/30 bg-thai-green/10 text-thai-green"
+          : "border-thai-red/30 bg-thai-red/10 text-thai-red",
+        className
+      )}
+    >
+      <span className={`h-2 w-2 rounded-full ${status.isOpen ? "bg-thai-green" : "bg-thai-red"}`} aria-hidden="true" />
+      {label}
+      {detail && <span className="font-normal opacity-80">· {detail}</span>}
+    </span>
+  );
+};
+
+export default OpeningStatus;
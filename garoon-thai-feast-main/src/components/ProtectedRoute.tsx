@@ -2,14 +2,17 @@ import { ReactNode } from "react";
 import { Navigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
 import { Card, CardContent } from "@/components/ui/card";
-import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Loader2, ShieldAlert } from "lucide-react";
+import { Permission } from "@/lib/permissions";
 
 interface ProtectedRouteProps {
   children: ReactNode;
+  permission?: Permission;
 }
 
-const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
-  const { user, loading } = useAuth();
+const ProtectedRoute = ({ children, permission = "dashboard:view" }: ProtectedRouteProps) => {
+  const { user, loading, hasPermission, signOut } = useAuth();
 
   if (loading) {
     return (
@@ -28,7 +31,27 @@ const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
     return <Navigate to="/auth" replace />;
   }
 
+  if (!hasPermission(permission)) {
+    return (
+      <div className="min-h-screen bg-hero-gradient flex items-center justify-center p-4">
+        <Card className="card-elegant border-thai-gold/20 max-w-md">
+          <CardContent className="flex flex-col items-center text-center space-y-4 p-6">
+            <ShieldAlert className="h-10 w-10 text-thai-red" />
+            <h1 className="font-playfair text-xl font-bold text-foreground">Access Denied</h1>
+            <p className="text-muted-foreground">
+              Your account ({user.email}) has not been given access to the admin dashboard.
+              Please ask the restaurant owner to assign you a role.
+            </p>
+            <Button variant="hero" onClick={signOut}>
+              Sign Out
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return <>{children}</>;
 };
 
-export default ProtectedRoute;
\ No newline at end of file
+export default ProtectedRoute;
@@ -0,0 +1,53 @@
+import { Facebook, Globe, Instagram, LucideCircle, Twitter, Youtube } from "lucide-react";
+import tripAdvisor from '/tripadvisor.svg'
+import type { SocialPlatform } from "@/lib/socialLinks";
+
+// A LucideCircle with a letter in it, for brands lucide has no icon for
+const LetterIcon = ({ letter }: { letter: string }) => (
+  <span style={{ display: 'inline-flex', alignItems: 'center', justifyContent: 'center', position: 'relative', width: 20, height: 20 }}>
+    <LucideCircle className="h-5 w-5" />
+    <span style={{
+      position: 'absolute',
+      left: 0,
+      top: 0,
+      width: '100%',
+      height: '100%',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      fontWeight: 700,
+      fontSize: letter.length > 1 ? '0.6rem' : '0.95rem',
+      color: 'currentColor',
+      fontFamily: 'Arial, Helvetica, sans-serif',
+      pointerEvents: 'none',
+      userSelect: 'none',
+    }}>{letter}</span>
+  </span>
+);
+
+const SocialIcon = ({ platform }: { platform: SocialPlatform }) => {
+  switch (platform) {
+    case "facebook":
+      return <Facebook className="h-5 w-5" />;
+    case "instagram":
+      return <Instagram className="h-5 w-5" />;
+    case "youtube":
+      return <Youtube className="h-5 w-5" />;
+    case "x":
+      return <Twitter className="h-5 w-5" />;
+    case "google":
+      return <LetterIcon letter="G" />;
+    case "tripadvisor":
+      return <img src={tripAdvisor} alt="" className="h-5 w-5" />;
+    case "tiktok":
+      return <LetterIcon letter="T" />;
+    case "ubereats":
+      return <LetterIcon letter="UE" />;
+    case "doordash":
+      return <LetterIcon letter="D" />;
+    default:
+      return <Globe className="h-5 w-5" />;
+  }
+};
+
+export default SocialIcon;
@@ -8,31 +8,80 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, Edit, Trash2, Eye, Calendar, FileText } from "lucide-react";
+import { Plus, Edit, Trash2, Eye, Calendar, FileText, Clock, History, ExternalLink, Link2 } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
+import MediaField from "@/components/admin/MediaField";
+import MarkdownEditor from "@/components/admin/MarkdownEditor";
+import TagInput from "@/components/admin/TagInput";
+import ArticleRevisionsPanel from "@/components/admin/ArticleRevisionsPanel";
+import { stripMarkdown } from "@/lib/markdown";
+import {
+  ArticleCategory,
+  ArticleTag,
+  fetchArticleCategories,
+  fetchArticleTags,
+  fetchTagsForArticle,
+  setArticleTags,
+} from "@/lib/articleTaxonomy";
+import {
+  ARTICLE_STATUS_LABELS,
+  ArticleRow,
+  ArticleStatus,
+  SLUG_PATTERN,
+  createArticlePreviewLink,
+  findAvailableSlug,
+  formatPublishAt,
+  getArticlePreviewPath,
+  slugify,
+  toDateTimeLocalValue,
+} from "@/lib/articles";
 
 const articleSchema = z.object({
   title: z.string().min(1, "Title is required"),
+  slug: z.string().optional().refine(value => !value || SLUG_PATTERN.test(value), {
+    message: "Use lowercase letters, numbers and single hyphens",
+  }),
   content: z.string().min(1, "Content is required"),
-  category: z.string().optional(),
+  category_id: z.string().optional(),
+  tags: z.array(z.string()),
   featured_image: z.string().optional(),
   meta_title: z.string().optional(),
   meta_description: z.string().optional(),
   meta_keywords: z.string().optional(),
-  status: z.enum(["draft", "published"])
+  status: z.enum(["draft", "published", "scheduled"]),
+  publish_at: z.string().optional(),
+}).refine(data => data.status !== "scheduled" || !!data.publish_at, {
+  message: "Pick a date and time to publish",
+  path: ["publish_at"],
 });
 
 type ArticleFormData = z.infer<typeof articleSchema>;
 
+// A new publish time must be in the future. Keeping the time an article is
+// already scheduled for is fine even once it has passed, so other edits to it
+// still save.
+const getArticleSchema = (editingArticle: Article | null) => articleSchema.refine(data => {
+  if (data.status !== "scheduled" || !data.publish_at) return true;
+  const keepsSchedule = editingArticle?.status === "scheduled"
+    && data.publish_at === toDateTimeLocalValue(editingArticle.published_at);
+  return keepsSchedule || new Date(data.publish_at).getTime() > Date.now();
+}, {
+  message: "The publish time must be in the future",
+  path: ["publish_at"],
+});
+
 interface Article {
   id: string;
+  slug: string;
   title: string;
   content: string;
   category?: string;
+  category_id?: string;
   featured_image?: string;
   meta_title?: string;
   meta_description?: string;
@@ -48,14 +97,18 @@ const ArticleManager = () => {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingArticle, setEditingArticle] = useState<Article | null>(null);
   const [loading, setLoading] = useState(false);
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  // New articles take their slug from the title until it's edited by hand
+  const [slugEdited, setSlugEdited] = useState(false);
+  const [dialogTab, setDialogTab] = useState<"edit" | "history">("edit");
+  const [categories, setCategories] = useState<ArticleCategory[]>([]);
+  const [allTags, setAllTags] = useState<ArticleTag[]>([]);
   const { toast } = useToast();
 
   const { register, handleSubmit, reset, setValue, watch, formState: { errors } } = useForm<ArticleFormData>({
-    resolver: zodResolver(articleSchema),
+    resolver: zodResolver(getArticleSchema(editingArticle)),
     defaultValues: {
-      status: "draft"
+      status: "draft",
+      tags: []
     }
   });
 
@@ -65,6 +118,22 @@ const ArticleManager = () => {
     fetchArticles();
   }, []);
 
+  // Refreshed each time the dialog opens, in case they were edited on the Topics tab
+  useEffect(() => {
+    if (isDialogOpen) fetchTaxonomy();
+  }, [isDialogOpen]);
+
+  // Categories and tags for the form; managed in ArticleTaxonomyManager
+  const fetchTaxonomy = async () => {
+    try {
+      const [categoryRows, tagRows] = await Promise.all([fetchArticleCategories(), fetchArticleTags()]);
+      setCategories(categoryRows);
+      setAllTags(tagRows);
+    } catch (error) {
+      console.error('Error fetching categories and tags:', error);
+    }
+  };
+
   const fetchArticles = async () => {
     try {
       const { data, error } = await supabase
@@ -84,54 +153,26 @@ const ArticleManager = () => {
     }
   };
 
-  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      if (file.size > 2 * 1024 * 1024) { // 2MB
-        toast({
-          title: "Image too large",
-          description: "Please upload an image smaller than 2MB.",
-          variant: "destructive",
-        });
-        e.target.value = "";
-        setImageFile(null);
-        setImagePreview(null);
-        return;
-      }
-      setImageFile(file);
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setImagePreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
-    } else {
-      setImageFile(null);
-      setImagePreview(null);
-    }
-  };
-
-  const getBase64FromFile = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => {
-        resolve(reader.result as string);
-      };
-      reader.onerror = reject;
-      reader.readAsDataURL(file);
-    });
+  // Published articles keep their original date; scheduled ones use the picked time
+  const getPublishedAt = (data: ArticleFormData) => {
+    if (data.status === "scheduled" && data.publish_at) return new Date(data.publish_at).toISOString();
+    if (data.status !== "published") return null;
+    if (editingArticle?.status === "published" && editingArticle.published_at) return editingArticle.published_at;
+    return new Date().toISOString();
   };
 
   const onSubmit = async (data: ArticleFormData) => {
     setLoading(true);
     try {
-      let featuredImageBase64 = data.featured_image;
-      if (imageFile) {
-        featuredImageBase64 = await getBase64FromFile(imageFile);
-      }
+      const { publish_at, tags, ...fields } = data;
+      const requestedSlug = data.slug || slugify(data.title);
+      const slug = await findAvailableSlug(requestedSlug, editingArticle?.id);
       const articleData = {
-        ...data,
-        featured_image: featuredImageBase64,
-        published_at: data.status === "published" ? new Date().toISOString() : null
+        ...fields,
+        slug,
+        category_id: data.category_id || null,
+        featured_image: data.featured_image || null,
+        published_at: getPublishedAt(data),
       };
 
       if (editingArticle) {
@@ -146,9 +187,13 @@ const ArticleManager = () => {
           throw error;
         }
 
+        await setArticleTags(editingArticle.id, tags);
+
         toast({
           title: "Success",
-          description: "Article updated successfully",
+          description: slug === requestedSlug
+            ? "Article updated successfully"
+            : `Article updated. /news/${requestedSlug} was taken, so it was saved as /news/${slug}`,
         });
       } else {
         const { data: result, error } = await supabase
@@ -161,18 +206,23 @@ const ArticleManager = () => {
           throw error;
         }
 
+        if (result?.[0]) await setArticleTags(result[0].id, tags);
+
         toast({
           title: "Success",
-          description: "Article created successfully",
+          description: slug === requestedSlug
+            ? "Article created successfully"
+            : `Article created. /news/${requestedSlug} was taken, so it was saved as /news/${slug}`,
         });
       }
 
       setIsDialogOpen(false);
       setEditingArticle(null);
       reset({
-        status: "draft"
+        status: "draft",
+        tags: []
       });
-      await fetchArticles();
+      await Promise.all([fetchArticles(), fetchTaxonomy()]);
     } catch (error) {
       console.error('Error saving article:', error);
       toast({
@@ -185,19 +235,38 @@ const ArticleManager = () => {
     }
   };
 
-  const handleEdit = (article: Article) => {
+  const fillForm = (article: Article) => {
     setEditingArticle(article);
     setValue("title", article.title);
+    setValue("slug", article.slug);
+    setSlugEdited(true);
     setValue("content", article.content);
-    setValue("category", article.category || "");
+    setValue("category_id", article.category_id || "");
     setValue("featured_image", article.featured_image || "");
     setValue("meta_title", article.meta_title || "");
     setValue("meta_description", article.meta_description || "");
     setValue("meta_keywords", article.meta_keywords || "");
-    setValue("status", article.status === "scheduled" ? "draft" : article.status);
-    setImageFile(null);
-    setImagePreview(article.featured_image || null);
+    setValue("status", article.status);
+    setValue("publish_at", article.status === "scheduled" ? toDateTimeLocalValue(article.published_at) : "");
+  };
+
+  const handleEdit = async (article: Article) => {
+    fillForm(article);
+    setValue("tags", []);
+    setDialogTab("edit");
     setIsDialogOpen(true);
+    try {
+      const tags = await fetchTagsForArticle(article.id);
+      setValue("tags", tags.map(tag => tag.name));
+    } catch (error) {
+      console.error('Error fetching article tags:', error);
+    }
+  };
+
+  // A restored revision is saved straight away, so the form and list follow it
+  const handleRevisionRestored = (article: ArticleRow) => {
+    fillForm(article);
+    fetchArticles();
   };
 
   const handleDelete = async (id: string) => {
@@ -226,20 +295,42 @@ const ArticleManager = () => {
     }
   };
 
+  // Lets people without an admin account, e.g. the owners, review a draft
+  const handleSharePreview = async (article: Article) => {
+    try {
+      const { url, expiresAt } = await createArticlePreviewLink(article.id);
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: "Preview link copied",
+        description: `Anyone with the link can view "${article.title}" until ${formatPublishAt(expiresAt)}`,
+      });
+    } catch (error) {
+      console.error('Error creating preview link:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create preview link",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleNewArticle = () => {
     setEditingArticle(null);
     reset({
       status: "draft",
       title: "",
+      slug: "",
       content: "",
-      category: "",
+      category_id: "",
+      tags: [],
       featured_image: "",
       meta_title: "",
       meta_description: "",
-      meta_keywords: ""
+      meta_keywords: "",
+      publish_at: ""
     });
-    setImageFile(null);
-    setImagePreview(null);
+    setSlugEdited(false);
+    setDialogTab("edit");
     setIsDialogOpen(true);
   };
 
@@ -262,117 +353,199 @@ const ArticleManager = () => {
               New Article
             </Button>
           </DialogTrigger>
-          <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>
                 {editingArticle ? "Edit Article" : "Create New Article"}
               </DialogTitle>
             </DialogHeader>
-            
-            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div>
-                  <Label htmlFor="title">Article Title *</Label>
-                  <Input 
-                    id="title" 
-                    {...register("title")} 
-                    placeholder="Enter article title"
-                  />
-                  {errors.title && (
-                    <p className="text-sm text-destructive">{errors.title.message}</p>
-                  )}
-                </div>
-
-                <div>
-                  <Label htmlFor="category">Category</Label>
-                  <Input 
-                    id="category" 
-                    {...register("category")} 
-                    placeholder="e.g., News, Events, Updates"
+
+            <Tabs value={dialogTab} onValueChange={(value) => setDialogTab(value as "edit" | "history")}>
+              {editingArticle && (
+                <TabsList className="mb-2">
+                  <TabsTrigger value="edit">
+                    <Edit className="h-4 w-4 mr-2" />
+                    Edit
+                  </TabsTrigger>
+                  <TabsTrigger value="history">
+                    <History className="h-4 w-4 mr-2" />
+                    History
+                  </TabsTrigger>
+                </TabsList>
+              )}
+
+              <TabsContent value="edit">
+                <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="title">Article Title *</Label>
+                      <Input 
+                        id="title" 
+                        {...register("title", {
+                          onChange: (e) => {
+                            if (!slugEdited) setValue("slug", slugify(e.target.value));
+                          },
+                        })} 
+                        placeholder="Enter article title"
+                      />
+                      {errors.title && (
+                        <p className="text-sm text-destructive">{errors.title.message}</p>
+                      )}
+                    </div>
+
+                    <div>
+                      <Label htmlFor="slug">URL Slug</Label>
+                      <Input
+                        id="slug"
+                        {...register("slug", {
+                          onChange: () => setSlugEdited(true),
+                        })}
+                        placeholder="generated-from-the-title"
+                      />
+                      <p className="text-sm text-muted-foreground mt-1">
+                        /news/{watch("slug") || "…"}
+                        {editingArticle && watch("slug") !== editingArticle.slug && (
+                          <> · links to /news/{editingArticle.slug} will redirect here</>
+                        )}
+                      </p>
+                      {errors.slug && (
+                        <p className="text-sm text-destructive">{errors.slug.message}</p>
+                      )}
+                    </div>
+
+                    <div>
+                      <Label htmlFor="category_id">Category</Label>
+                      <Select
+                        value={watch("category_id") || "none"}
+                        onValueChange={(value) => setValue("category_id", value === "none" ? "" : value)}
+                      >
+                        <SelectTrigger id="category_id">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">No category</SelectItem>
+                          {categories.map((category) => (
+                            <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div>
+                      <Label htmlFor="tags">Tags</Label>
+                      <TagInput
+                        id="tags"
+                        value={watch("tags") || []}
+                        onChange={(value) => setValue("tags", value)}
+                        suggestions={allTags.map(tag => tag.name)}
+                        placeholder="Type a tag and press Enter"
+                      />
+                    </div>
+                  </div>
+
+                  <MediaField
+                    id="featured_image"
+                    label="Featured Image"
+                    value={watch("featured_image")}
+                    onChange={(url) => setValue("featured_image", url)}
+                    folder="articles"
+                    preset="article"
                   />
-                </div>
-              </div>
-
-              <div>
-                <Label htmlFor="featured_image">Featured Image</Label>
-                <Input
-                  id="featured_image"
-                  type="file"
-                  accept="image/*"
-                  onChange={handleImageChange}
-                />
-                {imagePreview && (
-                  <img src={imagePreview} alt="Preview" className="mt-2 max-h-32 rounded" />
-                )}
-              </div>
-
-              <div>
-                <Label htmlFor="content">Article Content *</Label>
-                <Textarea 
-                  id="content" 
-                  {...register("content")} 
-                  placeholder="Write your article content here..."
-                  rows={10}
-                />
-                {errors.content && (
-                  <p className="text-sm text-destructive">{errors.content.message}</p>
-                )}
-              </div>
-
-              <div>
-                <Label htmlFor="status">Publication Status</Label>
-                <Select value={status} onValueChange={(value: "draft" | "published") => setValue("status", value)}>
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="draft">Draft</SelectItem>
-                    <SelectItem value="published">Published</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-
-              {/* SEO Fields */}
-              <div className="border-t pt-4">
-                <h4 className="font-semibold mb-3">SEO Settings</h4>
-                <div className="space-y-3">
+
                   <div>
-                    <Label htmlFor="meta_title">Meta Title</Label>
-                    <Input 
-                      id="meta_title" 
-                      {...register("meta_title")} 
-                      placeholder="SEO title for this article"
+                    <Label htmlFor="content">Article Content *</Label>
+                    <MarkdownEditor
+                      id="content"
+                      value={watch("content") || ""}
+                      onChange={(value) => setValue("content", value, { shouldValidate: !!errors.content })}
+                      placeholder="Write your article content here..."
                     />
+                    {errors.content && (
+                      <p className="text-sm text-destructive">{errors.content.message}</p>
+                    )}
                   </div>
+
                   <div>
-                    <Label htmlFor="meta_description">Meta Description</Label>
-                    <Textarea 
-                      id="meta_description" 
-                      {...register("meta_description")} 
-                      placeholder="SEO description for this article"
-                      rows={2}
-                    />
+                    <Label htmlFor="status">Publication Status</Label>
+                    <Select value={status} onValueChange={(value: ArticleStatus) => setValue("status", value)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="draft">Draft</SelectItem>
+                        <SelectItem value="published">Published</SelectItem>
+                        <SelectItem value="scheduled">Scheduled</SelectItem>
+                      </SelectContent>
+                    </Select>
                   </div>
-                  <div>
-                    <Label htmlFor="meta_keywords">Meta Keywords</Label>
-                    <Input 
-                      id="meta_keywords" 
-                      {...register("meta_keywords")} 
-                      placeholder="thai restaurant, news, events"
-                    />
+
+                  {status === "scheduled" && (
+                    <div>
+                      <Label htmlFor="publish_at">Publish At *</Label>
+                      <Input
+                        id="publish_at"
+                        type="datetime-local"
+                        {...register("publish_at")}
+                        min={toDateTimeLocalValue(new Date().toISOString())}
+                      />
+                      <p className="text-sm text-muted-foreground mt-1">
+                        In your local time. The article goes live automatically at this time.
+                      </p>
+                      {errors.publish_at && (
+                        <p className="text-sm text-destructive">{errors.publish_at.message}</p>
+                      )}
+                    </div>
+                  )}
+
+                  {/* SEO Fields */}
+                  <div className="border-t pt-4">
+                    <h4 className="font-semibold mb-3">SEO Settings</h4>
+                    <div className="space-y-3">
+                      <div>
+                        <Label htmlFor="meta_title">Meta Title</Label>
+                        <Input 
+                          id="meta_title" 
+                          {...register("meta_title")} 
+                          placeholder="SEO title for this article"
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="meta_description">Meta Description</Label>
+                        <Textarea 
+                          id="meta_description" 
+                          {...register("meta_description")} 
+                          placeholder="SEO description for this article"
+                          rows={2}
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="meta_keywords">Meta Keywords</Label>
+                        <Input 
+                          id="meta_keywords" 
+                          {...register("meta_keywords")} 
+                          placeholder="thai restaurant, news, events"
+                        />
+                      </div>
+                    </div>
                   </div>
-                </div>
-              </div>
-
-              <div className="flex justify-end space-x-2 pt-4">
-                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
-                  Cancel
-                </Button>
-                <Button type="submit" variant="hero" disabled={loading}>
-                  {loading ? "Saving..." : editingArticle ? "Update" : "Create"}
-                </Button>
-              </div>
-            </form>
+
+                  <div className="flex justify-end space-x-2 pt-4">
+                    <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                      Cancel
+                    </Button>
+                    <Button type="submit" variant="hero" disabled={loading}>
+                      {loading ? "Saving..." : editingArticle ? "Update" : "Create"}
+                    </Button>
+                  </div>
+                </form>
+              </TabsContent>
+
+              {editingArticle && (
+                <TabsContent value="history">
+                  <ArticleRevisionsPanel article={editingArticle} onRestored={handleRevisionRestored} />
+                </TabsContent>
+              )}
+            </Tabs>
           </DialogContent>
         </Dialog>
       </div>
@@ -398,8 +571,9 @@ const ArticleManager = () => {
                   <TableCell>
                     <div>
                       <div className="font-medium">{article.title}</div>
+                      <div className="text-xs text-muted-foreground">/news/{article.slug}</div>
                       <div className="text-sm text-muted-foreground">
-                        {article.content.substring(0, 100)}...
+                        {stripMarkdown(article.content).substring(0, 100)}...
                       </div>
                     </div>
                   </TableCell>
@@ -410,16 +584,23 @@ const ArticleManager = () => {
                   </TableCell>
                   <TableCell>
                     <Badge 
-                      variant={article.status === "published" ? "default" : "secondary"}
+                      variant={article.status === "published" ? "default" : article.status === "scheduled" ? "outline" : "secondary"}
                       className="flex items-center gap-1 w-fit"
                     >
                       {article.status === "published" ? (
                         <Eye className="h-3 w-3" />
+                      ) : article.status === "scheduled" ? (
+                        <Clock className="h-3 w-3" />
                       ) : (
                         <FileText className="h-3 w-3" />
                       )}
-                      {article.status}
+                      {ARTICLE_STATUS_LABELS[article.status]}
                     </Badge>
+                    {article.status === "scheduled" && article.published_at && (
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {formatPublishAt(article.published_at)}
+                      </div>
+                    )}
                   </TableCell>
                   <TableCell>
                     <div className="flex items-center gap-1 text-sm text-muted-foreground">
@@ -436,6 +617,19 @@ const ArticleManager = () => {
                       >
                         <Edit className="h-4 w-4" />
                       </Button>
+                      <Button variant="ghost" size="sm" title="Preview" asChild>
+                        <a href={getArticlePreviewPath(article.id)} target="_blank" rel="noopener noreferrer">
+                          <ExternalLink className="h-4 w-4" />
+                        </a>
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Copy shareable preview link"
+                        onClick={() => handleSharePreview(article)}
+                      >
+                        <Link2 className="h-4 w-4" />
+                      </Button>
                       <Button
                         variant="ghost"
                         size="sm"
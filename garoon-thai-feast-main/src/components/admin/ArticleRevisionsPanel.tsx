@@ -0,0 +1,252 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { History, RotateCcw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { DiffRow, diffLines, hasChanges, toSideBySide } from "@/lib/diff";
+import {
+  ARTICLE_STATUS_LABELS,
+  ArticleRevision,
+  ArticleRow,
+  REVISION_FIELDS,
+  RevisionField,
+  fetchArticleRevisions,
+  formatPublishAt,
+  restoreArticleRevision,
+} from "@/lib/articles";
+
+type ArticleSnapshot = { id: string } & { [K in RevisionField]?: string | null };
+
+interface ArticleRevisionsPanelProps {
+  article: ArticleSnapshot;
+  onRestored: (article: ArticleRow) => void;
+}
+
+const FIELD_LABELS: Record<RevisionField, string> = {
+  title: "Title",
+  slug: "Slug",
+  content: "Content",
+  category: "Category",
+  featured_image: "Featured image",
+  meta_title: "Meta title",
+  meta_description: "Meta description",
+  meta_keywords: "Meta keywords",
+};
+
+// Unchanged lines kept around each change; longer unchanged runs are folded
+const CONTEXT_LINES = 2;
+
+type DisplayRow = DiffRow | { folded: number };
+
+const foldUnchanged = (rows: DiffRow[]): DisplayRow[] => {
+  const changed = rows.map(row => row.left?.type !== "same" || row.right?.type !== "same");
+  const visible = rows.map((_, index) =>
+    changed.slice(Math.max(0, index - CONTEXT_LINES), index + CONTEXT_LINES + 1).some(Boolean)
+  );
+
+  const display: DisplayRow[] = [];
+  rows.forEach((row, index) => {
+    if (visible[index]) {
+      display.push(row);
+      return;
+    }
+    const last = display[display.length - 1];
+    if (last && "folded" in last) {
+      last.folded += 1;
+    } else {
+      display.push({ folded: 1 });
+    }
+  });
+  return display;
+};
+
+const cellClass = (type: "same" | "removed" | "added" | undefined) =>
+  cn(
+    "px-2 py-0.5 whitespace-pre-wrap break-words font-mono text-xs min-h-[1.25rem]",
+    type === "removed" && "bg-destructive/10 text-destructive",
+    type === "added" && "bg-green-500/10 text-green-700",
+    !type && "bg-muted/40"
+  );
+
+// Revision list and a side-by-side comparison with the saved article, shown in
+// the ArticleManager edit dialog
+const ArticleRevisionsPanel = ({ article, onRestored }: ArticleRevisionsPanelProps) => {
+  const [revisions, setRevisions] = useState<ArticleRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [restoring, setRestoring] = useState(false);
+  const { toast } = useToast();
+
+  const handleError = useCallback((description: string, error: unknown) => {
+    console.error(description, error);
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const loadRevisions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await fetchArticleRevisions(article.id);
+      setRevisions(data);
+      // The newest revision matches the saved article, so start with the one before it
+      setSelectedId(current => current && data.some(revision => revision.id === current)
+        ? current
+        : (data[1] ?? data[0])?.id ?? null);
+    } catch (error) {
+      handleError("Failed to load revision history", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [article.id, handleError]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions]);
+
+  const selected = revisions.find(revision => revision.id === selectedId) ?? null;
+
+  const changedFields = useMemo(() => {
+    if (!selected) return [];
+    return REVISION_FIELDS.filter(field =>
+      field !== "content" && (selected[field] ?? "") !== (article[field] ?? "")
+    );
+  }, [selected, article]);
+
+  const contentRows = useMemo(() => {
+    if (!selected) return [];
+    const lines = diffLines(selected.content, article.content);
+    return hasChanges(lines) ? foldUnchanged(toSideBySide(lines)) : [];
+  }, [selected, article.content]);
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    if (!confirm("Restore this revision? Unsaved changes in the editor will be lost.")) return;
+
+    setRestoring(true);
+    try {
+      const restored = await restoreArticleRevision(selected);
+      const notes = [
+        restored.slug !== selected.slug &&
+          `/news/${selected.slug} is used by another article, so it was saved as /news/${restored.slug}.`,
+        restored.category_id !== selected.category_id &&
+          `The category "${selected.category}" no longer exists, so the current one was kept.`,
+      ].filter(Boolean);
+      toast({
+        title: "Success",
+        description: ["Revision restored.", ...notes].join(" "),
+      });
+      onRestored(restored);
+      await loadRevisions();
+    } catch (error) {
+      handleError("Failed to restore revision", error);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  if (loading && revisions.length === 0) {
+    return <div className="text-center py-8 text-muted-foreground">Loading history...</div>;
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        No revisions yet. One is saved every time the article is updated.
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-[14rem_1fr] gap-4">
+      <ul className="space-y-1 md:max-h-[60vh] overflow-y-auto" aria-label="Revisions">
+        {revisions.map((revision, index) => (
+          <li key={revision.id}>
+            <button
+              type="button"
+              onClick={() => setSelectedId(revision.id)}
+              className={cn(
+                "w-full text-left rounded-md border px-3 py-2 text-sm transition-colors",
+                revision.id === selectedId ? "border-thai-gold bg-thai-gold/10" : "hover:bg-muted"
+              )}
+            >
+              <div className="font-medium">{formatPublishAt(revision.created_at)}</div>
+              <div className="text-xs text-muted-foreground truncate">
+                {revision.created_by_name || "Unknown author"}
+              </div>
+              <div className="flex gap-1 mt-1">
+                {index === 0 && <Badge variant="default">Current</Badge>}
+                {revision.status && <Badge variant="outline">{ARTICLE_STATUS_LABELS[revision.status]}</Badge>}
+              </div>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {selected && (
+        <div className="space-y-4 min-w-0">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm text-muted-foreground">
+              <History className="inline h-4 w-4 mr-1" />
+              Revision from {formatPublishAt(selected.created_at)} compared with the saved article
+            </p>
+            <Button
+              type="button"
+              variant="hero"
+              size="sm"
+              onClick={handleRestore}
+              disabled={restoring || (changedFields.length === 0 && contentRows.length === 0)}
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              {restoring ? "Restoring..." : "Restore this revision"}
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-2 text-xs font-semibold text-muted-foreground">
+            <div className="px-2">This revision</div>
+            <div className="px-2">Current</div>
+          </div>
+
+          {changedFields.length === 0 && contentRows.length === 0 && (
+            <p className="text-sm text-muted-foreground">This revision matches the saved article.</p>
+          )}
+
+          {changedFields.map(field => (
+            <div key={field}>
+              <div className="text-sm font-medium mb-1">{FIELD_LABELS[field]}</div>
+              <div className="grid grid-cols-2 gap-px rounded-md border overflow-hidden">
+                <div className={cellClass("removed")}>{selected[field] || "—"}</div>
+                <div className={cellClass("added")}>{article[field] || "—"}</div>
+              </div>
+            </div>
+          ))}
+
+          {contentRows.length > 0 && (
+            <div>
+              <div className="text-sm font-medium mb-1">{FIELD_LABELS.content}</div>
+              <div className="grid grid-cols-2 gap-px rounded-md border overflow-hidden max-h-[50vh] overflow-y-auto">
+                {contentRows.map((row, index) =>
+                  "folded" in row ? (
+                    <div key={index} className="col-span-2 px-2 py-1 text-xs text-muted-foreground bg-muted text-center">
+                      {row.folded} unchanged {row.folded === 1 ? "line" : "lines"}
+                    </div>
+                  ) : (
+                    <div key={index} className="contents">
+                      <div className={cellClass(row.left?.type)}>{row.left?.value}</div>
+                      <div className={cellClass(row.right?.type)}>{row.right?.value}</div>
+                    </div>
+                  )
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ArticleRevisionsPanel;
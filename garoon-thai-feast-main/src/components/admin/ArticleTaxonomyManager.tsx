@@ -0,0 +1,342 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Edit, FolderOpen, GitMerge, Plus, Tag, Trash2 } from "lucide-react";
+import {
+  TaxonomyEntry,
+  deleteArticleCategory,
+  deleteArticleTag,
+  fetchCategoryEntries,
+  fetchTagEntries,
+  getCategoryPath,
+  getTagPath,
+  mergeArticleCategories,
+  mergeArticleTags,
+  saveArticleCategory,
+  saveArticleTag,
+} from "@/lib/articleTaxonomy";
+
+interface TaxonomyConfig {
+  noun: string;
+  title: string;
+  icon: typeof Tag;
+  hasDescription: boolean;
+  getPath: (entry: { slug: string }) => string;
+  fetch: () => Promise<TaxonomyEntry[]>;
+  save: (values: { name: string; description?: string }, id?: string) => Promise<void>;
+  merge: (sourceId: string, targetId: string) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+const CATEGORY_CONFIG: TaxonomyConfig = {
+  noun: "category",
+  title: "Categories",
+  icon: FolderOpen,
+  hasDescription: true,
+  getPath: getCategoryPath,
+  fetch: fetchCategoryEntries,
+  save: saveArticleCategory,
+  merge: mergeArticleCategories,
+  remove: deleteArticleCategory,
+};
+
+const TAG_CONFIG: TaxonomyConfig = {
+  noun: "tag",
+  title: "Tags",
+  icon: Tag,
+  hasDescription: false,
+  getPath: getTagPath,
+  fetch: fetchTagEntries,
+  save: saveArticleTag,
+  merge: mergeArticleTags,
+  remove: deleteArticleTag,
+};
+
+const getErrorMessage = (error: unknown, noun: string, fallback: string) => {
+  // Names are unique regardless of case; clashing slugs are numbered instead
+  if (error && typeof error === "object" && "code" in error && error.code === "23505") {
+    return `A ${noun} with that name already exists. Merge into it instead.`;
+  }
+  return error instanceof Error ? error.message : fallback;
+};
+
+const TaxonomySection = ({ config }: { config: TaxonomyConfig }) => {
+  const [entries, setEntries] = useState<TaxonomyEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [editing, setEditing] = useState<TaxonomyEntry | null>(null);
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [merging, setMerging] = useState<TaxonomyEntry | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const handleError = useCallback((error: unknown, defaultMessage: string) => {
+    console.error(error);
+    toast({
+      title: "Error",
+      description: getErrorMessage(error, config.noun, defaultMessage),
+      variant: "destructive",
+    });
+  }, [toast, config.noun]);
+
+  const loadEntries = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setEntries(await config.fetch());
+    } catch (error) {
+      handleError(error, `Failed to load ${config.title.toLowerCase()}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [config, handleError]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const openEditor = (entry: TaxonomyEntry | null) => {
+    setEditing(entry);
+    setName(entry?.name || "");
+    setDescription(entry?.description || "");
+    setIsEditOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    setIsSaving(true);
+    try {
+      await config.save({ name, description }, editing?.id);
+      toast({
+        title: "Success",
+        description: editing
+          ? `Renamed to "${name.trim()}". Its articles now show the new name.`
+          : `The ${config.noun} "${name.trim()}" was created`,
+      });
+      setIsEditOpen(false);
+      await loadEntries();
+    } catch (error) {
+      handleError(error, `Failed to save ${config.noun}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleMerge = async () => {
+    const target = entries.find(entry => entry.id === mergeTargetId);
+    if (!merging || !target) return;
+    setIsSaving(true);
+    try {
+      await config.merge(merging.id, target.id);
+      toast({
+        title: "Success",
+        description: `"${merging.name}" was merged into "${target.name}"`,
+      });
+      setMerging(null);
+      await loadEntries();
+    } catch (error) {
+      handleError(error, `Failed to merge ${config.noun}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (entry: TaxonomyEntry) => {
+    const usage = entry.articleCount > 0
+      ? ` It is used by ${entry.articleCount} article${entry.articleCount === 1 ? "" : "s"}, which will keep their content.`
+      : "";
+    if (!confirm(`Delete the ${config.noun} "${entry.name}"?${usage}`)) return;
+    try {
+      await config.remove(entry.id);
+      toast({
+        title: "Success",
+        description: `The ${config.noun} was deleted`,
+      });
+      await loadEntries();
+    } catch (error) {
+      handleError(error, `Failed to delete ${config.noun}`);
+    }
+  };
+
+  return (
+    <Card className="card-elegant border-thai-gold/20">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>{config.title} ({entries.length})</CardTitle>
+        <Button variant="hero" size="sm" onClick={() => openEditor(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New {config.noun}
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Articles</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.map((entry) => (
+              <TableRow key={entry.id}>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <config.icon className="h-4 w-4 text-thai-gold" />
+                    <div>
+                      <div className="font-medium">{entry.name}</div>
+                      <div className="text-xs text-muted-foreground">{config.getPath(entry)}</div>
+                    </div>
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <span className="text-sm font-mono">{entry.articleCount}</span>
+                </TableCell>
+                <TableCell>
+                  <div className="flex space-x-2">
+                    <Button variant="ghost" size="sm" title="Rename" onClick={() => openEditor(entry)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title={`Merge into another ${config.noun}`}
+                      disabled={entries.length < 2}
+                      onClick={() => {
+                        setMerging(entry);
+                        setMergeTargetId("");
+                      }}
+                    >
+                      <GitMerge className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Delete"
+                      onClick={() => handleDelete(entry)}
+                      className="text-destructive hover:text-destructive"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {!isLoading && entries.length === 0 && (
+          <div className="text-center py-8 text-muted-foreground">
+            No {config.title.toLowerCase()} yet.
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? `Rename ${config.noun}` : `New ${config.noun}`}</DialogTitle>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSave();
+            }}
+            className="space-y-4"
+          >
+            <div>
+              <Label htmlFor={`${config.noun}-name`}>Name *</Label>
+              <Input
+                id={`${config.noun}-name`}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={config.noun === "tag" ? "e.g., Curry" : "e.g., Events"}
+              />
+              {editing && (
+                <p className="text-sm text-muted-foreground mt-1">
+                  The listing page moves to a URL based on the new name.
+                </p>
+              )}
+            </div>
+            {config.hasDescription && (
+              <div>
+                <Label htmlFor={`${config.noun}-description`}>Description</Label>
+                <Textarea
+                  id={`${config.noun}-description`}
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  placeholder="Shown to search engines for the category page"
+                  rows={2}
+                />
+              </div>
+            )}
+            <div className="flex justify-end space-x-2 pt-2">
+              <Button type="button" variant="outline" onClick={() => setIsEditOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" variant="hero" disabled={isSaving || !name.trim()}>
+                {isSaving ? "Saving..." : editing ? "Rename" : "Create"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!merging} onOpenChange={(open) => !open && setMerging(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Merge "{merging?.name}"</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Its articles move to the {config.noun} you pick, then "{merging?.name}" is deleted.
+            </p>
+            <div>
+              <Label htmlFor={`${config.noun}-merge-target`}>Merge into</Label>
+              <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+                <SelectTrigger id={`${config.noun}-merge-target`}>
+                  <SelectValue placeholder={`Choose a ${config.noun}`} />
+                </SelectTrigger>
+                <SelectContent>
+                  {entries.filter(entry => entry.id !== merging?.id).map(entry => (
+                    <SelectItem key={entry.id} value={entry.id}>
+                      {entry.name} ({entry.articleCount})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex justify-end space-x-2 pt-2">
+              <Button type="button" variant="outline" onClick={() => setMerging(null)}>
+                Cancel
+              </Button>
+              <Button variant="hero" onClick={handleMerge} disabled={isSaving || !mergeTargetId}>
+                {isSaving ? "Merging..." : "Merge"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+// News categories and tags: create, rename, merge duplicates and delete
+const ArticleTaxonomyManager = () => (
+  <div className="space-y-6">
+    <h2 className="font-playfair text-2xl font-bold text-foreground">Categories & Tags</h2>
+    <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+      <TaxonomySection config={CATEGORY_CONFIG} />
+      <TaxonomySection config={TAG_CONFIG} />
+    </div>
+  </div>
+);
+
+export default ArticleTaxonomyManager;
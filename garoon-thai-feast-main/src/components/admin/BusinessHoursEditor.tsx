@@ -0,0 +1,215 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Copy, Plus, Trash2 } from "lucide-react";
+import {
+  BusinessHoursDraft,
+  HoursExceptionDraft,
+  IntervalDraft,
+  WEEK_ORDER,
+  createExceptionDraft,
+  createIntervalDraft,
+  formatDayName,
+} from "@/lib/businessHours";
+
+interface BusinessHoursEditorProps {
+  hours: BusinessHoursDraft;
+  onChange: (hours: BusinessHoursDraft) => void;
+}
+
+interface IntervalRowsProps {
+  idPrefix: string;
+  intervals: IntervalDraft[];
+  onChange: (intervals: IntervalDraft[]) => void;
+}
+
+// One line per shift; a second line is a split shift, e.g. lunch and dinner
+const IntervalRows = ({ idPrefix, intervals, onChange }: IntervalRowsProps) => {
+  const updateInterval = (intervalId: string, changes: Partial<IntervalDraft>) => {
+    onChange(intervals.map(interval => interval.id === intervalId ? { ...interval, ...changes } : interval));
+  };
+
+  return (
+    <div className="space-y-2">
+      {intervals.map((interval, index) => (
+        <div key={interval.id} className="flex items-center gap-2">
+          <Input
+            id={`${idPrefix}-open-${index}`}
+            type="time"
+            value={interval.open}
+            onChange={(e) => updateInterval(interval.id, { open: e.target.value })}
+            className="w-32"
+            aria-label="Opens"
+          />
+          <span className="text-muted-foreground">to</span>
+          <Input
+            id={`${idPrefix}-close-${index}`}
+            type="time"
+            value={interval.close}
+            onChange={(e) => updateInterval(interval.id, { close: e.target.value })}
+            className="w-32"
+            aria-label="Closes"
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(intervals.filter(existing => existing.id !== interval.id))}
+            className="text-destructive hover:text-destructive"
+            aria-label="Remove shift"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={() => {
+          const last = intervals[intervals.length - 1];
+          // A second shift usually starts after the first, e.g. dinner after lunch
+          onChange([...intervals, last ? createIntervalDraft("17:00", "21:00") : createIntervalDraft()]);
+        }}
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        {intervals.length ? "Add shift" : "Add opening hours"}
+      </Button>
+    </div>
+  );
+};
+
+const BusinessHoursEditor = ({ hours, onChange }: BusinessHoursEditorProps) => {
+  const setDay = (weekday: number, intervals: IntervalDraft[]) => {
+    onChange({ ...hours, weekly: hours.weekly.map((existing, index) => index === weekday ? intervals : existing) });
+  };
+
+  const copyToAllDays = (weekday: number) => {
+    const source = hours.weekly[weekday];
+    onChange({
+      ...hours,
+      weekly: hours.weekly.map(() => source.map(interval => createIntervalDraft(interval.open, interval.close))),
+    });
+  };
+
+  const updateException = (exceptionId: string, changes: Partial<HoursExceptionDraft>) => {
+    onChange({
+      ...hours,
+      exceptions: hours.exceptions.map(exception => exception.id === exceptionId ? { ...exception, ...changes } : exception),
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        {WEEK_ORDER.map(weekday => {
+          const intervals = hours.weekly[weekday];
+          const dayName = formatDayName(weekday);
+          return (
+            <div key={weekday} className="flex flex-col md:flex-row md:items-start gap-3 border-b border-thai-gold/10 pb-3">
+              <div className="flex items-center gap-3 md:w-48 md:pt-2">
+                <Switch
+                  id={`hours-open-${weekday}`}
+                  checked={intervals.length > 0}
+                  onCheckedChange={(checked) => setDay(weekday, checked ? [createIntervalDraft()] : [])}
+                />
+                <Label htmlFor={`hours-open-${weekday}`} className="font-medium">{dayName}</Label>
+              </div>
+              <div className="flex-1">
+                {intervals.length ? (
+                  <IntervalRows
+                    idPrefix={`hours-${weekday}`}
+                    intervals={intervals}
+                    onChange={(next) => setDay(weekday, next)}
+                  />
+                ) : (
+                  <p className="text-sm text-muted-foreground md:pt-2">Closed</p>
+                )}
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => copyToAllDays(weekday)}
+                title={`Use ${dayName}'s hours for every day`}
+              >
+                <Copy className="h-4 w-4 mr-1" />
+                Copy to all
+              </Button>
+            </div>
+          );
+        })}
+        <p className="text-sm text-muted-foreground">
+          Set a closing time of 12:00 AM to stay open until midnight, or an earlier time such as 1:00 AM for a late night.
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <h4 className="font-semibold">Holidays and closures</h4>
+            <p className="text-sm text-muted-foreground">
+              Dates that don't follow the weekly hours. Leave the hours empty to close for the day.
+            </p>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({ ...hours, exceptions: [...hours.exceptions, createExceptionDraft()] })}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Date
+          </Button>
+        </div>
+
+        {hours.exceptions.map(exception => (
+          <div key={exception.id} className="border border-thai-gold/20 rounded-lg p-4 space-y-3">
+            <div className="flex flex-col sm:flex-row sm:items-end gap-2">
+              <div>
+                <Label htmlFor={`exception-date-${exception.id}`}>Date</Label>
+                <Input
+                  id={`exception-date-${exception.id}`}
+                  type="date"
+                  value={exception.date}
+                  onChange={(e) => updateException(exception.id, { date: e.target.value })}
+                  className="w-44"
+                />
+              </div>
+              <div className="flex-1">
+                <Label htmlFor={`exception-label-${exception.id}`}>Name</Label>
+                <Input
+                  id={`exception-label-${exception.id}`}
+                  value={exception.label}
+                  onChange={(e) => updateException(exception.id, { label: e.target.value })}
+                  placeholder="e.g., Christmas Day"
+                />
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => onChange({ ...hours, exceptions: hours.exceptions.filter(existing => existing.id !== exception.id) })}
+                className="text-destructive hover:text-destructive"
+                aria-label="Remove date"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            {!exception.intervals.length && (
+              <p className="text-sm text-muted-foreground">Closed all day</p>
+            )}
+            <IntervalRows
+              idPrefix={`exception-${exception.id}`}
+              intervals={exception.intervals}
+              onChange={(intervals) => updateException(exception.id, { intervals })}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BusinessHoursEditor;
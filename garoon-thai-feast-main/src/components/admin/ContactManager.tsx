@@ -4,19 +4,29 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import BusinessHoursEditor from "@/components/admin/BusinessHoursEditor";
+import SocialLinksEditor from "@/components/admin/SocialLinksEditor";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { Save, MapPin, Phone, Mail, Clock } from "lucide-react";
+import { Save, MapPin, Phone, Mail, Clock, Share2 } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
+import {
+  BusinessHoursDraft,
+  fromBusinessHoursDraft,
+  parseBusinessHours,
+  serializeBusinessHours,
+  toBusinessHoursDraft,
+  validateBusinessHoursDraft,
+} from "@/lib/businessHours";
+import { SocialLinkDraft, fromSocialLinkDrafts, toSocialLinkDrafts, validateSocialLinkDrafts } from "@/lib/socialLinks";
 
 const contactSchema = z.object({
   address: z.string().optional(),
   email: z.string().email().optional().or(z.literal("")),
   phone: z.string().optional(),
-  maps_link: z.string().optional(),
-  business_hours: z.string().optional()
+  maps_link: z.string().optional()
 });
 
 type ContactFormData = z.infer<typeof contactSchema>;
@@ -36,6 +46,8 @@ interface ContactInfo {
 const ContactManager = () => {
   const [contactInfo, setContactInfo] = useState<ContactInfo | null>(null);
   const [loading, setLoading] = useState(false);
+  const [businessHours, setBusinessHours] = useState<BusinessHoursDraft>(() => toBusinessHoursDraft(parseBusinessHours(null)));
+  const [socialLinks, setSocialLinks] = useState<SocialLinkDraft[]>(() => toSocialLinkDrafts(null));
   const { toast } = useToast();
 
   const { register, handleSubmit, setValue, formState: { errors } } = useForm<ContactFormData>({
@@ -61,7 +73,8 @@ const ContactManager = () => {
         setValue("email", data.email || "");
         setValue("phone", data.phone || "");
         setValue("maps_link", data.maps_link || "");
-        setValue("business_hours", JSON.stringify(data.business_hours || {}, null, 2));
+        setBusinessHours(toBusinessHoursDraft(parseBusinessHours(data.business_hours)));
+        setSocialLinks(toSocialLinkDrafts(data.social_links));
       }
     } catch (error) {
       console.error('Error fetching contact info:', error);
@@ -73,25 +86,28 @@ const ContactManager = () => {
     }
   };
 
+  // Shown under the editors as well as on save
+  const hoursError = validateBusinessHoursDraft(businessHours);
+  const socialLinksError = validateSocialLinkDrafts(socialLinks);
+
   const onSubmit = async (data: ContactFormData) => {
+    if (hoursError || socialLinksError) {
+      toast({
+        title: "Error",
+        description: hoursError || socialLinksError,
+        variant: "destructive",
+      });
+      return;
+    }
     setLoading(true);
     try {
-      let businessHours = {};
-      try {
-        if (data.business_hours) {
-          businessHours = JSON.parse(data.business_hours);
-        }
-      } catch (e) {
-        // If JSON parsing fails, treat as plain text
-        businessHours = { text: data.business_hours };
-      }
-
       const contactData = {
         address: data.address,
         email: data.email,
         phone: data.phone,
         maps_link: data.maps_link,
-        business_hours: businessHours
+        business_hours: serializeBusinessHours(fromBusinessHoursDraft(businessHours)),
+        social_links: fromSocialLinkDrafts(socialLinks)
       };
 
       if (contactInfo) {
@@ -207,19 +223,30 @@ const ContactManager = () => {
               Business Hours
             </CardTitle>
           </CardHeader>
-          <CardContent>
-            <div>
-              <Label htmlFor="business_hours">Hours (JSON format or plain text)</Label>
-              <Textarea 
-                id="business_hours" 
-                {...register("business_hours")} 
-                placeholder='{"monday": "11:00 AM - 10:00 PM", "tuesday": "11:00 AM - 10:00 PM"} or plain text'
-                rows={6}
-              />
-              <p className="text-sm text-muted-foreground mt-1">
-                You can enter plain text or JSON format for structured data
-              </p>
-            </div>
+          <CardContent className="space-y-4">
+            <BusinessHoursEditor hours={businessHours} onChange={setBusinessHours} />
+            {hoursError && (
+              <p className="text-sm text-destructive">{hoursError}</p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Social & Review Links */}
+        <Card className="card-elegant border-thai-gold/20">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Share2 className="h-5 w-5 text-thai-gold" />
+              Social & Review Links
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Shown as icons in the footer, in this order, and listed for search engines.
+            </p>
+            <SocialLinksEditor links={socialLinks} onChange={setSocialLinks} />
+            {socialLinksError && (
+              <p className="text-sm text-destructive">{socialLinksError}</p>
+            )}
           </CardContent>
         </Card>
 
@@ -1,27 +1,71 @@
 import { useState, useEffect, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
-import { Mail, Trash2, Eye, Loader2 } from "lucide-react";
-import { supabase } from "@/integrations/supabase/client";
+import { Archive, Mail, Trash2, Eye, Loader2, ShieldCheck } from "lucide-react";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { cn } from "@/lib/utils";
+import {
+  CONTACT_MESSAGE_STATUSES,
+  CONTACT_MESSAGE_STATUS_LABELS,
+  ContactMessage,
+  ContactMessageStatus,
+  deleteContactMessage,
+  fetchContactMessages,
+  toContactMessagesCsv,
+  updateContactMessage,
+} from "@/lib/contactMessages";
+import ContactMessageThread from "@/components/admin/ContactMessageThread";
 
-interface ContactMessage {
-  id: string;
-  name: string;
-  email: string;
-  message: string;
-  created_at: string;
+interface ContactMessageManagerProps {
+  // Called with the number of new messages whenever it changes
+  onUnreadCountChange?: (count: number) => void;
 }
 
-const ContactMessageManager = () => {
+const MESSAGE_FILTERS: { value: string; label: string; statuses: ContactMessageStatus[] }[] = [
+  { value: "inbox", label: "Inbox", statuses: ["new", "read", "replied"] },
+  { value: "new", label: "New", statuses: ["new"] },
+  { value: "replied", label: "Replied", statuses: ["replied"] },
+  { value: "archived", label: "Archived", statuses: ["archived"] },
+  { value: "spam", label: "Spam", statuses: ["spam"] },
+];
+
+const statusVariant = (status: ContactMessageStatus) => {
+  switch (status) {
+    case "new":
+      return "default";
+    case "spam":
+      return "destructive";
+    case "archived":
+      return "outline";
+    default:
+      return "secondary";
+  }
+};
+
+const ContactMessageManager = ({ onUnreadCountChange }: ContactMessageManagerProps) => {
   const [messages, setMessages] = useState<ContactMessage[]>([]);
-  const [selectedMessage, setSelectedMessage] = useState<ContactMessage | null>(null);
+  const [hasLoaded, setHasLoaded] = useState(false);
+  const [filter, setFilter] = useState("inbox");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [notes, setNotes] = useState("");
+  const [isSavingNotes, setIsSavingNotes] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [messageToDelete, setMessageToDelete] = useState<ContactMessage | null>(null);
   const { toast } = useToast();
 
+  const selectedMessage = messages.find(message => message.id === selectedId) ?? null;
+  const unreadCount = messages.filter(message => message.status === "new").length;
+  const activeFilter = MESSAGE_FILTERS.find(option => option.value === filter) ?? MESSAGE_FILTERS[0];
+  const visibleMessages = messages.filter(message => activeFilter.statuses.includes(message.status));
+
   const handleError = useCallback((error: unknown, defaultMessage: string) => {
     console.error(error);
     toast({
@@ -34,23 +78,8 @@ const ContactMessageManager = () => {
   const loadMessages = useCallback(async () => {
     setIsLoading(true);
     try {
-      const { data: dbMessages, error: dbError } = await supabase
-        .from('contact_messages')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (dbError) {
-        handleError(dbError, "Failed to load contact messages");
-        setMessages([]);
-        return;
-      }
-
-      if (!dbMessages) {
-        setMessages([]);
-        return;
-      }
-
-      setMessages(dbMessages as ContactMessage[]);
+      setMessages(await fetchContactMessages());
+      setHasLoaded(true);
     } catch (error) {
       handleError(error, "Failed to load contact messages");
     } finally {
@@ -62,22 +91,57 @@ const ContactMessageManager = () => {
     loadMessages();
   }, [loadMessages]);
 
+  useEffect(() => {
+    if (hasLoaded) onUnreadCountChange?.(unreadCount);
+  }, [hasLoaded, unreadCount, onUnreadCountChange]);
+
+  const setLocalStatus = (id: string, status: ContactMessageStatus) => {
+    setMessages(prev => prev.map(message => message.id === id ? { ...message, status } : message));
+  };
+
+  const changeStatus = async (message: ContactMessage, status: ContactMessageStatus) => {
+    const previous = message.status;
+    setLocalStatus(message.id, status);
+    try {
+      await updateContactMessage(message.id, { status });
+    } catch (error) {
+      setLocalStatus(message.id, previous);
+      handleError(error, "Failed to update message");
+    }
+  };
+
+  const openMessage = (message: ContactMessage) => {
+    setSelectedId(message.id);
+    setNotes(message.internal_notes ?? "");
+    if (message.status === "new") changeStatus(message, "read");
+  };
+
+  const saveNotes = async () => {
+    if (!selectedMessage) return;
+    setIsSavingNotes(true);
+    try {
+      const internalNotes = notes.trim() || null;
+      await updateContactMessage(selectedMessage.id, { internal_notes: internalNotes });
+      setMessages(prev => prev.map(message =>
+        message.id === selectedMessage.id ? { ...message, internal_notes: internalNotes } : message
+      ));
+      toast({
+        title: "Success",
+        description: "Notes saved",
+      });
+    } catch (error) {
+      handleError(error, "Failed to save notes");
+    } finally {
+      setIsSavingNotes(false);
+    }
+  };
+
   const deleteMessage = async (message: ContactMessage) => {
     setIsLoading(true);
     try {
-      if (!message.id) {
-        handleError(new Error("Invalid message data"), "Failed to delete message");
-        return;
-      }
-      const { error: dbError } = await supabase
-        .from('contact_messages')
-        .delete()
-        .eq('id', message.id);
-      if (dbError) {
-        handleError(dbError, "Failed to delete message");
-        return;
-      }
-      setMessages(messages.filter(msg => msg.id !== message.id));
+      await deleteContactMessage(message.id);
+      setMessages(prev => prev.filter(msg => msg.id !== message.id));
+      if (selectedId === message.id) setSelectedId(null);
       toast({
         title: "Success",
         description: "Message deleted successfully",
@@ -90,23 +154,14 @@ const ContactMessageManager = () => {
     }
   };
 
-  const sanitizeInput = (input: string | undefined): string => {
-    if (!input) return '';
-    return input.replace(/[<>]/g, '').trim();
-  };
-
-  const formatDate = (timestamp: string) => {
-    return new Date(timestamp).toLocaleString();
+  const formatDate = (timestamp: string | null) => {
+    return timestamp ? new Date(timestamp).toLocaleString() : "";
   };
 
   const exportMessages = () => {
     try {
-      const csvContent = "data:text/csv;charset=utf-8," 
-        + "Name,Email,Message,Created At\n"
-        + messages.map(msg =>
-            `"${msg.name}","${msg.email}","${msg.message}","${msg.created_at}"`
-          ).join("\n");
-      
+      const csvContent = "data:text/csv;charset=utf-8," + toContactMessagesCsv(visibleMessages);
+
       const encodedUri = encodeURI(csvContent);
       const link = document.createElement("a");
       link.setAttribute("href", encodedUri);
@@ -114,7 +169,7 @@ const ContactMessageManager = () => {
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
-      
+
       toast({
         title: "Export Successful",
         description: "Contact messages have been exported to CSV",
@@ -144,18 +199,31 @@ const ContactMessageManager = () => {
       </div>
 
       <Card className="card-elegant border-thai-gold/20">
-        <CardHeader>
+        <CardHeader className="space-y-4">
           <CardTitle className="flex items-center gap-2">
             <Mail className="h-5 w-5 text-thai-gold" />
-            Contact Form Messages ({messages.length})
+            Contact Form Messages ({visibleMessages.length})
           </CardTitle>
+          <Tabs value={filter} onValueChange={setFilter}>
+            <TabsList>
+              {MESSAGE_FILTERS.map(option => {
+                const count = messages.filter(message => option.statuses.includes(message.status)).length;
+                return (
+                  <TabsTrigger key={option.value} value={option.value}>
+                    {option.label}
+                    {count > 0 && <span className="ml-1 text-xs text-muted-foreground">({count})</span>}
+                  </TabsTrigger>
+                );
+              })}
+            </TabsList>
+          </Tabs>
         </CardHeader>
         <CardContent>
           {isLoading ? (
             <div className="flex justify-center items-center py-8">
               <Loader2 className="h-6 w-6 animate-spin" />
             </div>
-          ) : messages.length === 0 ? (
+          ) : visibleMessages.length === 0 ? (
             <div className="text-center py-8 text-muted-foreground">
               No contact messages found.
             </div>
@@ -163,33 +231,71 @@ const ContactMessageManager = () => {
             <Table>
               <TableHeader>
                 <TableRow>
+                  <TableHead>Status</TableHead>
                   <TableHead>Name</TableHead>
-                  <TableHead>Email</TableHead>
+                  <TableHead>Subject</TableHead>
                   <TableHead>Date</TableHead>
                   <TableHead>Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {messages.map((message, index) => (
-                  <TableRow key={index}>
-                    <TableCell className="font-medium">{message.name}</TableCell>
-                    <TableCell>{message.email}</TableCell>
-                    <TableCell>{formatDate(message.created_at)}</TableCell>
+                {visibleMessages.map((message) => (
+                  <TableRow key={message.id} className={cn(message.status === "new" && "font-semibold")}>
+                    <TableCell>
+                      <Badge variant={statusVariant(message.status)}>
+                        {CONTACT_MESSAGE_STATUS_LABELS[message.status]}
+                      </Badge>
+                      {message.spam_score > 0 && (
+                        <div className="text-xs font-normal text-muted-foreground mt-1" title={message.spam_reasons.join(", ")}>
+                          Spam score {message.spam_score}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div>{message.name}</div>
+                      <div className="text-sm font-normal text-muted-foreground">{message.email}</div>
+                    </TableCell>
+                    <TableCell className="max-w-xs truncate">
+                      {message.subject || <span className="font-normal text-muted-foreground">{message.message.slice(0, 60)}</span>}
+                    </TableCell>
+                    <TableCell className="font-normal">{formatDate(message.created_at)}</TableCell>
                     <TableCell>
                       <div className="flex space-x-2">
                         <Button
                           variant="ghost"
                           size="sm"
-                          onClick={() => setSelectedMessage(message)}
+                          onClick={() => openMessage(message)}
+                          aria-label="View message"
                         >
                           <Eye className="h-4 w-4" />
                         </Button>
+                        {message.status === "spam" ? (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => changeStatus(message, "new")}
+                            aria-label="Not spam"
+                            title="Not spam: move to the inbox"
+                          >
+                            <ShieldCheck className="h-4 w-4" />
+                          </Button>
+                        ) : message.status !== "archived" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => changeStatus(message, "archived")}
+                            aria-label="Archive message"
+                          >
+                            <Archive className="h-4 w-4" />
+                          </Button>
+                        )}
                         <Button
                           variant="ghost"
                           size="sm"
                           onClick={() => setMessageToDelete(message)}
                           className="text-destructive hover:text-destructive hover:bg-destructive/10"
                           disabled={isLoading}
+                          aria-label="Delete message"
                         >
                           <Trash2 className="h-4 w-4" />
                         </Button>
@@ -209,7 +315,7 @@ const ContactMessageManager = () => {
           <AlertDialogHeader>
             <AlertDialogTitle>Are you sure?</AlertDialogTitle>
             <AlertDialogDescription>
-              This action cannot be undone. This will permanently delete the message.
+              This action cannot be undone. This will permanently delete the message and its replies.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -224,58 +330,74 @@ const ContactMessageManager = () => {
         </AlertDialogContent>
       </AlertDialog>
 
-      {/* Message Detail Modal with improved accessibility */}
-      {selectedMessage && (
-        <div 
-          className="fixed inset-0 bg-black/50 flex items-center justify-center z-50"
-          role="dialog"
-          aria-modal="true"
-          aria-labelledby="message-detail-title"
-        >
-          <div 
-            className="bg-background p-6 rounded-lg max-w-2xl w-full mx-4 max-h-[80vh] overflow-y-auto"
-            onClick={e => e.stopPropagation()}
-          >
-            <div className="flex justify-between items-start mb-4">
-              <h3 className="text-xl font-semibold">Message Details</h3>
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => setSelectedMessage(null)}
-              >
-                ×
-              </Button>
-            </div>
-            <div className="space-y-4">
-              <div>
-                <label className="text-sm font-medium text-muted-foreground">From:</label>
-                <p className="font-medium">{selectedMessage.name} ({selectedMessage.email})</p>
-              </div>
-              <div>
-                <label className="text-sm font-medium text-muted-foreground">Date:</label>
-                <p>{formatDate(selectedMessage.created_at)}</p>
-              </div>
-              <div>
-                <label className="text-sm font-medium text-muted-foreground">Message:</label>
-                <div className="mt-2 p-4 bg-muted rounded-lg">
-                  <p className="whitespace-pre-wrap">{selectedMessage.message}</p>
+      <Dialog open={!!selectedMessage} onOpenChange={(open) => !open && setSelectedId(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          {selectedMessage && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{selectedMessage.subject || "Message"}</DialogTitle>
+                <DialogDescription>
+                  From {selectedMessage.name} ({selectedMessage.email})
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="message-status">Status</Label>
+                  <Select
+                    value={selectedMessage.status}
+                    onValueChange={(value) => changeStatus(selectedMessage, value as ContactMessageStatus)}
+                  >
+                    <SelectTrigger id="message-status">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CONTACT_MESSAGE_STATUSES.map(status => (
+                        <SelectItem key={status} value={status}>{CONTACT_MESSAGE_STATUS_LABELS[status]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="md:col-span-2 space-y-2">
+                  <Label htmlFor="message-notes">Internal notes</Label>
+                  <Textarea
+                    id="message-notes"
+                    rows={2}
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="Only visible to staff"
+                  />
+                  <div className="flex justify-end">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={saveNotes}
+                      disabled={isSavingNotes || notes.trim() === (selectedMessage.internal_notes ?? "")}
+                    >
+                      {isSavingNotes ? "Saving..." : "Save Notes"}
+                    </Button>
+                  </div>
                 </div>
               </div>
-            </div>
-            <div className="flex justify-end gap-2 mt-6">
-              <Button
-                variant="outline"
-                onClick={() => window.open(`mailto:${selectedMessage.email}`)}
-              >
-                Reply via Email
-              </Button>
-              <Button onClick={() => setSelectedMessage(null)}>
-                Close
-              </Button>
-            </div>
-          </div>
-        </div>
-      )}
+
+              {selectedMessage.spam_score > 0 && (
+                <div className="text-sm p-3 rounded-lg border border-thai-red/30 bg-thai-red/5">
+                  <span className="font-medium">Spam score {selectedMessage.spam_score}</span>
+                  {selectedMessage.spam_reasons.length > 0 && (
+                    <span className="text-muted-foreground">: {selectedMessage.spam_reasons.join(", ")}</span>
+                  )}
+                </div>
+              )}
+
+              <ContactMessageThread
+                key={selectedMessage.id}
+                message={selectedMessage}
+                onReplied={() => setLocalStatus(selectedMessage.id, "replied")}
+              />
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -0,0 +1,142 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Reply } from "lucide-react";
+import {
+  ContactMessage,
+  ContactMessageReply,
+  fetchContactMessageReplies,
+  getReplyMailto,
+  getReplySubject,
+  logContactMessageReply,
+} from "@/lib/contactMessages";
+
+interface ContactMessageThreadProps {
+  message: ContactMessage;
+  onReplied: () => void;
+}
+
+const formatDate = (timestamp: string | null) => timestamp ? new Date(timestamp).toLocaleString() : "";
+
+// The original message, the replies logged against it, and a composer for the next one
+const ContactMessageThread = ({ message, onReplied }: ContactMessageThreadProps) => {
+  const [replies, setReplies] = useState<ContactMessageReply[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [subject, setSubject] = useState(() => getReplySubject(message));
+  const [body, setBody] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const { toast } = useToast();
+
+  const loadReplies = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setReplies(await fetchContactMessageReplies(message.id));
+    } catch (error) {
+      console.error(error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load replies",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [message.id, toast]);
+
+  useEffect(() => {
+    loadReplies();
+  }, [loadReplies]);
+
+  const draftReply = async () => {
+    if (!subject.trim() || !body.trim()) {
+      toast({
+        title: "Error",
+        description: "Add a subject and a message before drafting a reply",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Opened first so the browser doesn't treat it as a popup after the await
+    window.open(getReplyMailto(message.email, subject.trim(), body.trim()));
+    setIsSending(true);
+    try {
+      const reply = await logContactMessageReply(message, subject, body);
+      setReplies(prev => [...prev, reply]);
+      setBody("");
+      onReplied();
+      toast({
+        title: "Success",
+        description: "Reply drafted in your email app and logged. Send it from there.",
+      });
+    } catch (error) {
+      console.error(error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to log reply",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-3">
+        <div className="p-4 bg-muted rounded-lg">
+          <div className="flex justify-between gap-2 text-sm text-muted-foreground mb-2">
+            <span>{message.name} &lt;{message.email}&gt;</span>
+            <span>{formatDate(message.created_at)}</span>
+          </div>
+          <p className="whitespace-pre-wrap">{message.message}</p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-2">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : replies.map(reply => (
+          <div key={reply.id} className="p-4 rounded-lg border border-thai-gold/20 ml-6">
+            <div className="flex justify-between gap-2 text-sm text-muted-foreground mb-2">
+              <span>Drafted reply: {reply.subject}</span>
+              <span>{formatDate(reply.created_at)}</span>
+            </div>
+            <p className="whitespace-pre-wrap">{reply.body}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-3 border-t border-thai-gold/20 pt-4">
+        <div>
+          <Label htmlFor="reply-subject">Subject</Label>
+          <Input id="reply-subject" value={subject} onChange={(e) => setSubject(e.target.value)} />
+        </div>
+        <div>
+          <Label htmlFor="reply-body">Reply to {message.email}</Label>
+          <Textarea
+            id="reply-body"
+            rows={5}
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder={`Hi ${message.name},`}
+          />
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-sm text-muted-foreground">
+            Opens as a draft in your email app, to send from there, and is saved to this thread.
+          </p>
+          <Button onClick={draftReply} disabled={isSending}>
+            {isSending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Reply className="h-4 w-4 mr-2" />}
+            Draft Reply
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ContactMessageThread;
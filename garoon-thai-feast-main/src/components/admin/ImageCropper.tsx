@@ -0,0 +1,177 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { useToast } from "@/hooks/use-toast";
+import { ZoomIn } from "lucide-react";
+import {
+  CROP_PRESETS,
+  CropPresetKey,
+  CropState,
+  DEFAULT_CROP,
+  cropImage,
+  getCropRect,
+  loadImage,
+} from "@/lib/imageCrop";
+
+interface ImageCropperProps {
+  file: File;
+  preset: CropPresetKey;
+  busy?: boolean;
+  onCancel: () => void;
+  onConfirm: (image: Blob) => void;
+}
+
+const PREVIEW_WIDTH = 480;
+
+const clamp = (value: number) => Math.max(-1, Math.min(1, value));
+
+// Crop and resize an image in the browser before it's uploaded.
+// Drag the preview to pan, use the slider to zoom.
+const ImageCropper = ({ file, preset: initialPreset, busy, onCancel, onConfirm }: ImageCropperProps) => {
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [preset, setPreset] = useState<CropPresetKey>(initialPreset);
+  const [crop, setCrop] = useState<CropState>(DEFAULT_CROP);
+  const [cropping, setCropping] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const url = URL.createObjectURL(file);
+    let cancelled = false;
+    loadImage(url)
+      .then(loaded => { if (!cancelled) setImage(loaded); })
+      .catch(error => {
+        console.error('Error loading image:', error);
+        toast({
+          title: "Error",
+          description: "Could not read this image",
+          variant: "destructive",
+        });
+      });
+    return () => {
+      cancelled = true;
+      URL.revokeObjectURL(url);
+    };
+  }, [file, toast]);
+
+  const aspect = CROP_PRESETS[preset].aspect;
+  const rect = image ? getCropRect(image.naturalWidth, image.naturalHeight, aspect, crop) : null;
+
+  // Redraw the preview whenever the crop changes
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !image || !rect) return;
+    canvas.width = PREVIEW_WIDTH;
+    canvas.height = Math.round(PREVIEW_WIDTH * (rect.height / rect.width));
+    canvas.getContext("2d")?.drawImage(image, rect.x, rect.y, rect.width, rect.height, 0, 0, canvas.width, canvas.height);
+  }, [image, rect]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!dragRef.current || !image || !rect) return;
+    const scale = rect.width / e.currentTarget.clientWidth;
+    const dx = (e.clientX - dragRef.current.x) * scale;
+    const dy = (e.clientY - dragRef.current.y) * scale;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    const halfSpareX = (image.naturalWidth - rect.width) / 2;
+    const halfSpareY = (image.naturalHeight - rect.height) / 2;
+    setCrop(prev => ({
+      ...prev,
+      offsetX: halfSpareX > 0 ? clamp(prev.offsetX - dx / halfSpareX) : 0,
+      offsetY: halfSpareY > 0 ? clamp(prev.offsetY - dy / halfSpareY) : 0,
+    }));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleConfirm = async () => {
+    if (!image || !rect) return;
+    setCropping(true);
+    try {
+      // Keep PNG for transparency, otherwise JPEG keeps files small
+      const type = file.type === "image/png" ? "image/png" : "image/jpeg";
+      onConfirm(await cropImage(image, rect, CROP_PRESETS[preset].maxWidth, type));
+    } catch (error) {
+      console.error('Error cropping image:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to crop image",
+        variant: "destructive",
+      });
+    } finally {
+      setCropping(false);
+    }
+  };
+
+  const outputWidth = rect ? Math.round(Math.min(rect.width, CROP_PRESETS[preset].maxWidth)) : 0;
+  const outputHeight = rect ? Math.round(outputWidth * (rect.height / rect.width)) : 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(CROP_PRESETS) as CropPresetKey[]).map(key => (
+          <Button
+            key={key}
+            type="button"
+            size="sm"
+            variant={preset === key ? "hero" : "outline"}
+            onClick={() => {
+              setPreset(key);
+              setCrop(DEFAULT_CROP);
+            }}
+          >
+            {CROP_PRESETS[key].label}
+          </Button>
+        ))}
+      </div>
+
+      <div className="flex justify-center bg-muted/50 rounded-lg p-2">
+        {image ? (
+          <canvas
+            ref={canvasRef}
+            className="max-w-full h-auto cursor-move touch-none rounded"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          />
+        ) : (
+          <p className="text-sm text-muted-foreground py-12">Loading image...</p>
+        )}
+      </div>
+
+      <div className="flex items-center gap-3">
+        <ZoomIn className="h-4 w-4 text-muted-foreground" />
+        <Slider
+          min={1}
+          max={3}
+          step={0.05}
+          value={[crop.zoom]}
+          aria-label="Zoom"
+          onValueChange={([zoom]) => setCrop(prev => ({ ...prev, zoom }))}
+        />
+        <span className="text-xs text-muted-foreground whitespace-nowrap">
+          {outputWidth} × {outputHeight}px
+        </span>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={busy || cropping}>
+          Cancel
+        </Button>
+        <Button type="button" variant="hero" onClick={handleConfirm} disabled={!image || busy || cropping}>
+          {busy || cropping ? "Uploading..." : "Crop & Upload"}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ImageCropper;
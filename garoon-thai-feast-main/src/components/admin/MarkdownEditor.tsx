@@ -0,0 +1,142 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import Markdown from "@/components/Markdown";
+import MediaPickerDialog from "@/components/admin/MediaPickerDialog";
+import { MediaAsset } from "@/lib/media";
+import { Bold, Heading2, ImagePlus, Italic, Link2, List, ListOrdered, Quote } from "lucide-react";
+
+interface MarkdownEditorProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  rows?: number;
+}
+
+type Edit = { text: string; selectionStart: number; selectionEnd: number };
+
+// Wrap the selection in markers, e.g. **bold**
+const wrapSelection = (value: string, start: number, end: number, before: string, after: string, fallback: string): Edit => {
+  const selected = value.slice(start, end) || fallback;
+  return {
+    text: value.slice(0, start) + before + selected + after + value.slice(end),
+    selectionStart: start + before.length,
+    selectionEnd: start + before.length + selected.length,
+  };
+};
+
+// Add a prefix to every line the selection touches, e.g. "- " for a list
+const prefixLines = (value: string, start: number, end: number, prefix: (index: number) => string): Edit => {
+  const lineStart = value.lastIndexOf("\n", start - 1) + 1;
+  const lineEnd = value.indexOf("\n", end) === -1 ? value.length : value.indexOf("\n", end);
+  const block = value.slice(lineStart, lineEnd).split("\n").map((line, index) => prefix(index) + line).join("\n");
+  return {
+    text: value.slice(0, lineStart) + block + value.slice(lineEnd),
+    selectionStart: lineStart,
+    selectionEnd: lineStart + block.length,
+  };
+};
+
+// Markdown textarea with a formatting toolbar and a live preview
+const MarkdownEditor = ({ id, value, onChange, placeholder, rows = 14 }: MarkdownEditorProps) => {
+  const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+  const [pickerOpen, setPickerOpen] = useState(false);
+
+  const applyEdit = (edit: (value: string, start: number, end: number) => Edit) => {
+    const textarea = textareaRef.current;
+    const start = textarea?.selectionStart ?? value.length;
+    const end = textarea?.selectionEnd ?? value.length;
+    const result = edit(value, start, end);
+    onChange(result.text);
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(result.selectionStart, result.selectionEnd);
+    });
+  };
+
+  const insertImage = (url: string, asset: MediaAsset) => {
+    const alt = (asset.alt_text || asset.file_name).replace(/[[\]]/g, "");
+    applyEdit((text, start, end) => {
+      const snippet = `\n\n![${alt}](${url})\n\n`;
+      return {
+        text: text.slice(0, start) + snippet + text.slice(end),
+        selectionStart: start + snippet.length,
+        selectionEnd: start + snippet.length,
+      };
+    });
+  };
+
+  const tools = [
+    { label: "Bold", icon: Bold, edit: (v: string, s: number, e: number) => wrapSelection(v, s, e, "**", "**", "bold text") },
+    { label: "Italic", icon: Italic, edit: (v: string, s: number, e: number) => wrapSelection(v, s, e, "*", "*", "italic text") },
+    { label: "Heading", icon: Heading2, edit: (v: string, s: number, e: number) => prefixLines(v, s, e, () => "## ") },
+    { label: "Link", icon: Link2, edit: (v: string, s: number, e: number) => wrapSelection(v, s, e, "[", "](https://)", "link text") },
+    { label: "Bulleted list", icon: List, edit: (v: string, s: number, e: number) => prefixLines(v, s, e, () => "- ") },
+    { label: "Numbered list", icon: ListOrdered, edit: (v: string, s: number, e: number) => prefixLines(v, s, e, index => `${index + 1}. `) },
+    { label: "Quote", icon: Quote, edit: (v: string, s: number, e: number) => prefixLines(v, s, e, () => "> ") },
+  ];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-1 rounded-md border bg-muted/40 p-1" role="toolbar" aria-label="Formatting">
+        {tools.map(tool => (
+          <Button
+            key={tool.label}
+            type="button"
+            variant="ghost"
+            size="sm"
+            title={tool.label}
+            aria-label={tool.label}
+            onClick={() => applyEdit(tool.edit)}
+          >
+            <tool.icon className="h-4 w-4" />
+          </Button>
+        ))}
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          title="Insert image"
+          aria-label="Insert image"
+          onClick={() => setPickerOpen(true)}
+        >
+          <ImagePlus className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <Textarea
+          id={id}
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder}
+          rows={rows}
+          className="font-mono text-sm"
+        />
+        <div className="rounded-md border p-4 overflow-y-auto max-h-[28rem] bg-background" aria-label="Preview">
+          {value.trim() ? (
+            <Markdown content={value} className="text-sm" />
+          ) : (
+            <p className="text-sm text-muted-foreground italic">The preview appears here as you type.</p>
+          )}
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Markdown: **bold**, *italic*, ## heading, - list, [link](https://…), ![image](url). HTML is shown as plain text.
+      </p>
+
+      <MediaPickerDialog
+        open={pickerOpen}
+        onOpenChange={setPickerOpen}
+        folder="articles"
+        preset="article"
+        onSelect={insertImage}
+      />
+    </div>
+  );
+};
+
+export default MarkdownEditor;
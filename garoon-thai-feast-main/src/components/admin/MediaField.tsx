@@ -0,0 +1,62 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import MediaPickerDialog from "@/components/admin/MediaPickerDialog";
+import { CropPresetKey } from "@/lib/imageCrop";
+import { MediaFolder } from "@/lib/media";
+import { ImageIcon, X } from "lucide-react";
+
+interface MediaFieldProps {
+  id: string;
+  label: string;
+  value?: string | null;
+  onChange: (url: string) => void;
+  folder: MediaFolder;
+  preset: CropPresetKey;
+}
+
+// Image form field backed by the media library picker
+const MediaField = ({ id, label, value, onChange, folder, preset }: MediaFieldProps) => {
+  const [pickerOpen, setPickerOpen] = useState(false);
+
+  return (
+    <div>
+      <Label htmlFor={id}>{label}</Label>
+      <div className="flex items-start gap-3 mt-1">
+        {value ? (
+          <img src={value} alt="Preview" className="max-h-32 max-w-[12rem] rounded border object-contain" />
+        ) : (
+          <div className="h-24 w-32 rounded border border-dashed flex items-center justify-center text-muted-foreground">
+            <ImageIcon className="h-6 w-6" />
+          </div>
+        )}
+        <div className="flex flex-col gap-2">
+          <Button id={id} type="button" variant="outline" size="sm" onClick={() => setPickerOpen(true)}>
+            {value ? "Change Image" : "Choose Image"}
+          </Button>
+          {value && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange("")}
+              className="text-destructive hover:text-destructive"
+            >
+              <X className="h-4 w-4 mr-1" />
+              Remove
+            </Button>
+          )}
+        </div>
+      </div>
+      <MediaPickerDialog
+        open={pickerOpen}
+        onOpenChange={setPickerOpen}
+        folder={folder}
+        preset={preset}
+        onSelect={(url) => onChange(url)}
+      />
+    </div>
+  );
+};
+
+export default MediaField;
@@ -0,0 +1,293 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useRole } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import MediaUploader from "@/components/admin/MediaUploader";
+import {
+  MediaAsset,
+  MediaUsage,
+  deleteMediaAsset,
+  fetchMediaAssets,
+  fetchMediaUsage,
+  formatFileSize,
+  getMediaUrl,
+  matchesMediaSearch,
+  updateMediaAltText,
+} from "@/lib/media";
+import { Copy, ImageIcon, Search, Trash2, Upload } from "lucide-react";
+
+const USAGE_LABELS: Record<MediaUsage["type"], string> = {
+  menu: "Menu item",
+  article: "Article",
+  seo: "SEO",
+};
+
+const MediaLibrary = () => {
+  const [assets, setAssets] = useState<MediaAsset[]>([]);
+  const [usage, setUsage] = useState<Record<string, MediaUsage[]>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [search, setSearch] = useState("");
+  const [showUnused, setShowUnused] = useState(false);
+  const [showUploader, setShowUploader] = useState(false);
+  const [selectedAsset, setSelectedAsset] = useState<MediaAsset | null>(null);
+  const [altText, setAltText] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const { can } = useRole();
+  const { toast } = useToast();
+
+  const handleError = useCallback((error: unknown, defaultMessage: string) => {
+    console.error(error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : defaultMessage,
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const loadMedia = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [assetList, usageMap] = await Promise.all([fetchMediaAssets(), fetchMediaUsage()]);
+      setAssets(assetList);
+      setUsage(usageMap);
+    } catch (error) {
+      handleError(error, "Failed to load the media library");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [handleError]);
+
+  useEffect(() => {
+    loadMedia();
+  }, [loadMedia]);
+
+  const getUsage = (asset: MediaAsset) => usage[getMediaUrl(asset.path)] || [];
+
+  const openAsset = (asset: MediaAsset) => {
+    setSelectedAsset(asset);
+    setAltText(asset.alt_text || "");
+  };
+
+  const handleSaveAltText = async () => {
+    if (!selectedAsset) return;
+    setIsSaving(true);
+    try {
+      await updateMediaAltText(selectedAsset.id, altText);
+      const updated = { ...selectedAsset, alt_text: altText.trim() || null };
+      setAssets(prev => prev.map(asset => asset.id === updated.id ? updated : asset));
+      setSelectedAsset(updated);
+      toast({
+        title: "Success",
+        description: "Alt text updated",
+      });
+    } catch (error) {
+      handleError(error, "Failed to update alt text");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (asset: MediaAsset) => {
+    if (getUsage(asset).length > 0) return;
+    if (!confirm(`Delete ${asset.file_name}? This cannot be undone.`)) return;
+    try {
+      await deleteMediaAsset(asset);
+      setAssets(prev => prev.filter(existing => existing.id !== asset.id));
+      setSelectedAsset(null);
+      toast({
+        title: "Success",
+        description: "Image deleted",
+      });
+    } catch (error) {
+      handleError(error, "Failed to delete image");
+    }
+  };
+
+  const handleCopyUrl = async (asset: MediaAsset) => {
+    try {
+      await navigator.clipboard.writeText(getMediaUrl(asset.path));
+      toast({
+        title: "Copied",
+        description: "Image URL copied to clipboard",
+      });
+    } catch (error) {
+      handleError(error, "Failed to copy URL");
+    }
+  };
+
+  const handleUploaded = (asset: MediaAsset) => {
+    setAssets(prev => [asset, ...prev]);
+    setShowUploader(false);
+  };
+
+  const filteredAssets = assets
+    .filter(asset => matchesMediaSearch(asset, search))
+    .filter(asset => !showUnused || getUsage(asset).length === 0);
+  const missingAltCount = assets.filter(asset => !asset.alt_text).length;
+  const selectedUsage = selectedAsset ? getUsage(selectedAsset) : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <h2 className="font-playfair text-2xl font-bold text-foreground">Media Library</h2>
+        <div className="flex flex-wrap gap-2 items-center">
+          <div className="relative w-full md:w-72">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by file name or alt text..."
+              className="pl-9"
+              aria-label="Search media"
+            />
+          </div>
+          <Button variant={showUnused ? "hero" : "outline"} size="sm" onClick={() => setShowUnused(!showUnused)}>
+            Unused only
+          </Button>
+          <Button variant="hero" onClick={() => setShowUploader(!showUploader)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Upload
+          </Button>
+        </div>
+      </div>
+
+      {showUploader && (
+        <Card className="card-elegant border-thai-gold/20">
+          <CardHeader>
+            <CardTitle>Upload Image</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <MediaUploader folder="library" preset="original" onUploaded={handleUploaded} />
+          </CardContent>
+        </Card>
+      )}
+
+      {missingAltCount > 0 && (
+        <p className="text-sm text-muted-foreground">
+          {missingAltCount} image{missingAltCount === 1 ? " is" : "s are"} missing alt text.
+        </p>
+      )}
+
+      {filteredAssets.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          <ImageIcon className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          {isLoading ? "Loading media..." : "No images found."}
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4">
+          {filteredAssets.map(asset => {
+            const assetUsage = getUsage(asset);
+            return (
+              <Card
+                key={asset.id}
+                className="card-elegant border-thai-gold/20 overflow-hidden cursor-pointer hover:border-thai-gold transition-colors"
+                onClick={() => openAsset(asset)}
+              >
+                <img
+                  src={getMediaUrl(asset.path)}
+                  alt={asset.alt_text || asset.file_name}
+                  className="w-full aspect-[4/3] object-cover bg-muted"
+                  loading="lazy"
+                />
+                <CardContent className="p-2 space-y-1">
+                  <p className="text-xs font-medium truncate">{asset.file_name}</p>
+                  <div className="flex flex-wrap gap-1">
+                    <Badge variant={assetUsage.length ? "default" : "secondary"} className="text-[10px]">
+                      {assetUsage.length ? `Used ${assetUsage.length}×` : "Unused"}
+                    </Badge>
+                    {!asset.alt_text && (
+                      <Badge variant="outline" className="text-[10px]">No alt</Badge>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={!!selectedAsset} onOpenChange={(open) => !open && setSelectedAsset(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          {selectedAsset && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="truncate">{selectedAsset.file_name}</DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4">
+                <img
+                  src={getMediaUrl(selectedAsset.path)}
+                  alt={selectedAsset.alt_text || selectedAsset.file_name}
+                  className="w-full max-h-80 object-contain rounded border bg-muted"
+                />
+                <div className="flex flex-wrap gap-2 text-sm text-muted-foreground">
+                  {selectedAsset.width && selectedAsset.height && (
+                    <span>{selectedAsset.width} × {selectedAsset.height}px</span>
+                  )}
+                  <span>· {formatFileSize(selectedAsset.size_bytes)}</span>
+                  <span>· {new Date(selectedAsset.created_at).toLocaleDateString()}</span>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="asset-alt-text">Alt Text</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="asset-alt-text"
+                      value={altText}
+                      onChange={(e) => setAltText(e.target.value)}
+                      placeholder="Describe the image for screen readers"
+                    />
+                    <Button variant="hero" onClick={handleSaveAltText} disabled={isSaving}>
+                      {isSaving ? "Saving..." : "Save"}
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Used By</Label>
+                  {selectedUsage.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Not used anywhere yet.</p>
+                  ) : (
+                    <ul className="text-sm space-y-1">
+                      {selectedUsage.map(entry => (
+                        <li key={`${entry.type}-${entry.id}`} className="flex items-center gap-2">
+                          <Badge variant="outline">{USAGE_LABELS[entry.type]}</Badge>
+                          {entry.label}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+
+                <div className="flex justify-between gap-2 pt-2">
+                  <Button variant="outline" onClick={() => handleCopyUrl(selectedAsset)}>
+                    <Copy className="h-4 w-4 mr-2" />
+                    Copy URL
+                  </Button>
+                  {can("media:delete") && (
+                    <Button
+                      variant="ghost"
+                      onClick={() => handleDelete(selectedAsset)}
+                      disabled={selectedUsage.length > 0}
+                      title={selectedUsage.length > 0 ? "Remove it from everything that uses it first" : undefined}
+                      className="text-destructive hover:text-destructive"
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default MediaLibrary;
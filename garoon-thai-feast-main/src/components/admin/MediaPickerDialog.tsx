@@ -0,0 +1,139 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import MediaUploader from "@/components/admin/MediaUploader";
+import { CropPresetKey } from "@/lib/imageCrop";
+import { MediaAsset, MediaFolder, fetchMediaAssets, getMediaUrl, matchesMediaSearch } from "@/lib/media";
+import { Check, ImageIcon, Search } from "lucide-react";
+
+interface MediaPickerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  folder: MediaFolder;
+  preset: CropPresetKey;
+  onSelect: (url: string, asset: MediaAsset) => void;
+}
+
+// Choose an existing image from the media library or upload a new one
+const MediaPickerDialog = ({ open, onOpenChange, folder, preset, onSelect }: MediaPickerDialogProps) => {
+  const [assets, setAssets] = useState<MediaAsset[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [search, setSearch] = useState("");
+  const [selected, setSelected] = useState<MediaAsset | null>(null);
+  const [tab, setTab] = useState("library");
+  const { toast } = useToast();
+
+  const loadAssets = useCallback(async () => {
+    setLoading(true);
+    try {
+      setAssets(await fetchMediaAssets());
+    } catch (error) {
+      console.error('Error fetching media:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the media library",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (!open) return;
+    setSelected(null);
+    setSearch("");
+    setTab("library");
+    loadAssets();
+  }, [open, loadAssets]);
+
+  const choose = (asset: MediaAsset) => {
+    onSelect(getMediaUrl(asset.path), asset);
+    onOpenChange(false);
+  };
+
+  const filteredAssets = assets.filter(asset => matchesMediaSearch(asset, search));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Choose Image</DialogTitle>
+          <DialogDescription>Reuse an image from the media library or upload a new one.</DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={tab} onValueChange={setTab}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="library">Media Library</TabsTrigger>
+            <TabsTrigger value="upload">Upload New</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="library" className="space-y-4">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search by file name or alt text..."
+                className="pl-9"
+                aria-label="Search media"
+              />
+            </div>
+
+            {filteredAssets.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <ImageIcon className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                {loading ? "Loading images..." : "No images found."}
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3 max-h-[50vh] overflow-y-auto p-1">
+                {filteredAssets.map(asset => (
+                  <button
+                    key={asset.id}
+                    type="button"
+                    onClick={() => setSelected(asset)}
+                    onDoubleClick={() => choose(asset)}
+                    className={`relative rounded-lg overflow-hidden border-2 transition-colors text-left ${
+                      selected?.id === asset.id ? "border-thai-gold" : "border-transparent hover:border-thai-gold/40"
+                    }`}
+                  >
+                    <img
+                      src={getMediaUrl(asset.path)}
+                      alt={asset.alt_text || asset.file_name}
+                      className="w-full aspect-[4/3] object-cover bg-muted"
+                      loading="lazy"
+                    />
+                    <p className="text-xs truncate px-2 py-1">{asset.alt_text || asset.file_name}</p>
+                    {selected?.id === asset.id && (
+                      <span className="absolute top-2 right-2 bg-thai-gold text-white rounded-full p-1">
+                        <Check className="h-3 w-3" />
+                      </span>
+                    )}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="button" variant="hero" disabled={!selected} onClick={() => selected && choose(selected)}>
+                Use Image
+              </Button>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="upload">
+            <MediaUploader folder={folder} preset={preset} onUploaded={choose} />
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MediaPickerDialog;
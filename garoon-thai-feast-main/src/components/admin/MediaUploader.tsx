@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import ImageCropper from "@/components/admin/ImageCropper";
+import { CropPresetKey } from "@/lib/imageCrop";
+import { MAX_IMAGE_BYTES, MediaAsset, MediaFolder, uploadMediaAsset, validateImageFile } from "@/lib/media";
+import { Upload } from "lucide-react";
+
+interface MediaUploaderProps {
+  folder: MediaFolder;
+  preset: CropPresetKey;
+  onUploaded: (asset: MediaAsset) => void;
+}
+
+// Animated GIFs would lose their animation on a canvas
+const isCroppable = (file: File) => file.type !== "image/gif";
+
+// Pick a file, crop it to a preset and upload it to the media library
+const MediaUploader = ({ folder, preset, onUploaded }: MediaUploaderProps) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [altText, setAltText] = useState("");
+  const [uploading, setUploading] = useState(false);
+  const [inputKey, setInputKey] = useState(0);
+  const { toast } = useToast();
+
+  const reset = () => {
+    setFile(null);
+    setAltText("");
+    setInputKey(key => key + 1);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+    const fileError = validateImageFile(selected);
+    if (fileError) {
+      toast({
+        title: "Invalid image",
+        description: fileError,
+        variant: "destructive",
+      });
+      e.target.value = "";
+      return;
+    }
+    setFile(selected);
+  };
+
+  const upload = async (image: Blob) => {
+    if (!file) return;
+    if (image.size > MAX_IMAGE_BYTES) {
+      toast({
+        title: "Image too large",
+        description: "The cropped image is over 2MB. Try zooming in or using a JPEG.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setUploading(true);
+    try {
+      const asset = await uploadMediaAsset(image, folder, { fileName: file.name, altText });
+      toast({
+        title: "Success",
+        description: "Image uploaded to the media library",
+      });
+      reset();
+      onUploaded(asset);
+    } catch (error) {
+      console.error('Error uploading image:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to upload image",
+        variant: "destructive",
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor={`media-file-${folder}`}>Image</Label>
+          <Input
+            key={inputKey}
+            id={`media-file-${folder}`}
+            type="file"
+            accept="image/jpeg,image/png,image/webp,image/gif"
+            onChange={handleFileChange}
+            disabled={uploading}
+          />
+        </div>
+        <div>
+          <Label htmlFor={`media-alt-${folder}`}>Alt Text</Label>
+          <Input
+            id={`media-alt-${folder}`}
+            value={altText}
+            onChange={(e) => setAltText(e.target.value)}
+            placeholder="Describe the image for screen readers"
+          />
+        </div>
+      </div>
+
+      {file && isCroppable(file) && (
+        <ImageCropper
+          key={file.name + file.lastModified}
+          file={file}
+          preset={preset}
+          busy={uploading}
+          onCancel={reset}
+          onConfirm={upload}
+        />
+      )}
+
+      {file && !isCroppable(file) && (
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={reset} disabled={uploading}>
+            Cancel
+          </Button>
+          <Button type="button" variant="hero" onClick={() => upload(file)} disabled={uploading}>
+            <Upload className="h-4 w-4 mr-2" />
+            {uploading ? "Uploading..." : "Upload"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MediaUploader;
@@ -1,4 +1,4 @@
-import { useState, useEffect, ChangeEvent } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -15,6 +15,15 @@ import { Plus, Edit, Trash2, DollarSign, Eye, EyeOff, Search, X } from "lucide-r
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
+import MenuOptionGroupsEditor from "@/components/admin/MenuOptionGroupsEditor";
+import MediaField from "@/components/admin/MediaField";
+import {
+  OptionGroupDraft,
+  fetchMenuOptionGroups,
+  saveMenuOptionGroups,
+  toOptionGroupDrafts,
+  validateOptionGroupDrafts,
+} from "@/lib/menuOptions";
 
 const menuItemSchema = z.object({
   name: z.string().min(1, "Name is required"),
@@ -109,11 +118,15 @@ const MenuManager = () => {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingItem, setEditingItem] = useState<MenuItem | null>(null);
   const [loading, setLoading] = useState(false);
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [search, setSearch] = useState("");
   const [searchInput, setSearchInput] = useState("");
   const [selectedCategoryId, setSelectedCategoryId] = useState<string>("all");
+  const [optionGroups, setOptionGroups] = useState<OptionGroupDraft[]>([]);
+  // Never save over an item's options if they failed to load
+  const [optionGroupsLoaded, setOptionGroupsLoaded] = useState(true);
+  // The item whose options should be shown, so a slow load for one item
+  // can't land in the dialog after switching to another
+  const editingItemId = useRef<string | null>(null);
   const { toast } = useToast();
 
   const { register, handleSubmit, reset, setValue, watch, formState: { errors } } = useForm<MenuItemFormData>({
@@ -141,54 +154,22 @@ const MenuManager = () => {
     return () => clearTimeout(handler);
   }, [searchInput]);
 
-  const handleImageChange = (e: ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      if (file.size > 2 * 1024 * 1024) { // 2MB
-        toast({
-          title: "Image too large",
-          description: "Please upload an image smaller than 2MB.",
-          variant: "destructive",
-        });
-        e.target.value = "";
-        setImageFile(null);
-        setImagePreview(null);
-        return;
-      }
-      setImageFile(file);
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setImagePreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
-    } else {
-      setImageFile(null);
-      setImagePreview(null);
-    }
-  };
-
-  const getBase64FromFile = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => {
-        resolve(reader.result as string);
-      };
-      reader.onerror = reject;
-      reader.readAsDataURL(file);
-    });
-  };
-
   const onSubmit = async (data: MenuItemFormData) => {
     console.log('onSubmit called', data); // DEBUG
+    const optionsError = validateOptionGroupDrafts(optionGroups);
+    if (optionsError) {
+      toast({
+        title: "Error",
+        description: optionsError,
+        variant: "destructive",
+      });
+      return;
+    }
     setLoading(true);
     try {
-      let imageBase64 = data.image_url;
-      if (imageFile) {
-        imageBase64 = await getBase64FromFile(imageFile);
-      }
       const menuItemData = {
         ...data,
-        image_url: imageBase64,
+        image_url: data.image_url || null,
         price: parseFloat(data.price),
         category_id: data.category_id || null,
         is_active: data.is_active ?? true,
@@ -197,6 +178,7 @@ const MenuManager = () => {
         is_spicy: data.is_spicy ?? false, // new
         is_vegetarian: data.is_vegetarian ?? false, // new
       };
+      let menuItemId = editingItem?.id;
       if (editingItem) {
         const { error } = await supabase
           .from('menu_items')
@@ -217,7 +199,7 @@ const MenuManager = () => {
           description: "Menu item updated successfully",
         });
       } else {
-        const { error } = await supabase
+        const { data: inserted, error } = await supabase
           .from('menu_items')
           .insert([menuItemData])
           .select();
@@ -230,13 +212,28 @@ const MenuManager = () => {
           });
           return;
         }
+        menuItemId = inserted?.[0]?.id;
         toast({
           title: "Success",
           description: "Menu item created successfully",
         });
       }
+      if (menuItemId && optionGroupsLoaded) {
+        try {
+          await saveMenuOptionGroups(menuItemId, optionGroups);
+        } catch (optionsSaveError) {
+          console.error('Error saving menu options:', optionsSaveError);
+          toast({
+            title: "Error",
+            description: "Menu item saved, but its options could not be saved",
+            variant: "destructive",
+          });
+          return;
+        }
+      }
       setIsDialogOpen(false);
       setEditingItem(null);
+      editingItemId.current = null;
       reset({
         is_active: true,
         is_gluten_free: false,
@@ -244,8 +241,7 @@ const MenuManager = () => {
         is_spicy: false, // new
         is_vegetarian: false, // new
       });
-      setImageFile(null);
-      setImagePreview(null);
+      setOptionGroups([]);
       await fetchMenuItems(setMenuItems, toast);
     } catch (error) {
       console.error('Error saving menu item:', error);
@@ -259,8 +255,9 @@ const MenuManager = () => {
     }
   };
 
-  const handleEdit = (item: MenuItem) => {
+  const handleEdit = async (item: MenuItem) => {
     setEditingItem(item);
+    editingItemId.current = item.id;
     setValue("name", item.name);
     setValue("description", item.description || "");
     setValue("price", item.price.toString());
@@ -274,9 +271,23 @@ const MenuManager = () => {
     setValue("is_vegan", item.is_vegan ?? false);
     setValue("is_spicy", item.is_spicy ?? false); // new
     setValue("is_vegetarian", item.is_vegetarian ?? false); // new
-    setImageFile(null);
-    setImagePreview(item.image_url || null);
+    setOptionGroups([]);
+    setOptionGroupsLoaded(false);
     setIsDialogOpen(true);
+    try {
+      const groups = await fetchMenuOptionGroups(item.id);
+      if (editingItemId.current !== item.id) return;
+      setOptionGroups(toOptionGroupDrafts(groups));
+      setOptionGroupsLoaded(true);
+    } catch (error) {
+      if (editingItemId.current !== item.id) return;
+      console.error('Error fetching menu options:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load options for this item",
+        variant: "destructive",
+      });
+    }
   };
 
   const handleDelete = async (id: string) => {
@@ -314,6 +325,7 @@ const MenuManager = () => {
   const handleNewItem = () => {
     console.log('handleNewItem called'); // DEBUG
     setEditingItem(null);
+    editingItemId.current = null;
     reset({
       is_active: true,
       is_gluten_free: false,
@@ -329,8 +341,8 @@ const MenuManager = () => {
       meta_description: "",
       meta_keywords: ""
     });
-    setImageFile(null);
-    setImagePreview(null);
+    setOptionGroups([]);
+    setOptionGroupsLoaded(true);
     setIsDialogOpen(true);
   };
 
@@ -497,18 +509,14 @@ const MenuManager = () => {
                     </SelectContent>
                   </Select>
                 </div>
-                <div>
-                  <Label htmlFor="image_file">Image Upload</Label>
-                  <Input
-                    id="image_file"
-                    type="file"
-                    accept="image/*"
-                    onChange={handleImageChange}
-                  />
-                  {imagePreview && (
-                    <img src={imagePreview} alt="Preview" className="mt-2 max-h-32 rounded" />
-                  )}
-                </div>
+                <MediaField
+                  id="image_url"
+                  label="Image"
+                  value={watch("image_url")}
+                  onChange={(url) => setValue("image_url", url)}
+                  folder="menu"
+                  preset="menu"
+                />
               </div>
 
               {/* Gluten Free, Vegan, Spicy, Vegetarian Switches */}
@@ -531,6 +539,14 @@ const MenuManager = () => {
                 </div>
               </div>
 
+              <div className="border-t pt-4">
+                {optionGroupsLoaded ? (
+                  <MenuOptionGroupsEditor groups={optionGroups} onChange={setOptionGroups} />
+                ) : (
+                  <p className="text-sm text-muted-foreground">Loading options...</p>
+                )}
+              </div>
+
               {/* SEO Fields */}
               <div className="border-t pt-4">
                 <h4 className="font-semibold mb-3">SEO Settings</h4>
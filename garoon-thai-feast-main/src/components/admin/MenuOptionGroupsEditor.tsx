@@ -0,0 +1,207 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import {
+  OptionDraft,
+  OptionGroupDraft,
+  createOptionDraft,
+  createOptionGroupDraft,
+  describeGroupRule,
+} from "@/lib/menuOptions";
+
+interface MenuOptionGroupsEditorProps {
+  groups: OptionGroupDraft[];
+  onChange: (groups: OptionGroupDraft[]) => void;
+}
+
+const moveItem = <T,>(list: T[], index: number, offset: number) => {
+  const target = index + offset;
+  if (target < 0 || target >= list.length) return list;
+  const next = [...list];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+const MenuOptionGroupsEditor = ({ groups, onChange }: MenuOptionGroupsEditorProps) => {
+  const updateGroup = (groupId: string, changes: Partial<OptionGroupDraft>) => {
+    onChange(groups.map(group => group.id === groupId ? { ...group, ...changes } : group));
+  };
+
+  const updateOption = (group: OptionGroupDraft, optionId: string, changes: Partial<OptionDraft>) => {
+    updateGroup(group.id, {
+      options: group.options.map(option => option.id === optionId ? { ...option, ...changes } : option),
+    });
+  };
+
+  const setRequired = (group: OptionGroupDraft, required: boolean) => {
+    updateGroup(group.id, { min_select: required ? Math.max(1, group.min_select) : 0 });
+  };
+
+  const setLimit = (group: OptionGroupDraft, field: "min_select" | "max_select", value: string) => {
+    const count = Math.max(field === "max_select" ? 1 : 0, parseInt(value, 10) || 0);
+    updateGroup(group.id, { [field]: count });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="font-semibold">Options</h4>
+          <p className="text-sm text-muted-foreground">
+            e.g. choice of protein, spice level or extras. Price changes are added to the item price.
+          </p>
+        </div>
+        <Button type="button" variant="outline" size="sm" onClick={() => onChange([...groups, createOptionGroupDraft()])}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Group
+        </Button>
+      </div>
+
+      {groups.map((group, groupIndex) => (
+        <div key={group.id} className="border border-thai-gold/20 rounded-lg p-4 space-y-3">
+          <div className="flex items-end gap-2">
+            <div className="flex-1">
+              <Label htmlFor={`group-name-${group.id}`}>Group Name</Label>
+              <Input
+                id={`group-name-${group.id}`}
+                value={group.name}
+                onChange={(e) => updateGroup(group.id, { name: e.target.value })}
+                placeholder="e.g., Choice of Protein"
+              />
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(moveItem(groups, groupIndex, -1))}
+              disabled={groupIndex === 0}
+              aria-label="Move group up"
+            >
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(moveItem(groups, groupIndex, 1))}
+              disabled={groupIndex === groups.length - 1}
+              aria-label="Move group down"
+            >
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(groups.filter(existing => existing.id !== group.id))}
+              className="text-destructive hover:text-destructive"
+              aria-label="Remove group"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="flex items-center gap-2">
+              <Switch
+                id={`group-required-${group.id}`}
+                checked={group.min_select > 0}
+                onCheckedChange={(checked) => setRequired(group, checked)}
+              />
+              <Label htmlFor={`group-required-${group.id}`}>Required</Label>
+            </div>
+            <div className="w-24">
+              <Label htmlFor={`group-min-${group.id}`}>Min</Label>
+              <Input
+                id={`group-min-${group.id}`}
+                type="number"
+                min={0}
+                value={group.min_select}
+                onChange={(e) => setLimit(group, "min_select", e.target.value)}
+              />
+            </div>
+            <div className="w-24">
+              <Label htmlFor={`group-max-${group.id}`}>Max</Label>
+              <Input
+                id={`group-max-${group.id}`}
+                type="number"
+                min={1}
+                value={group.max_select}
+                onChange={(e) => setLimit(group, "max_select", e.target.value)}
+              />
+            </div>
+            <Badge variant="outline">{describeGroupRule(group)}</Badge>
+          </div>
+
+          <div className="space-y-2">
+            {group.options.map((option, optionIndex) => (
+              <div key={option.id} className="flex items-center gap-2">
+                <Input
+                  value={option.name}
+                  onChange={(e) => updateOption(group, option.id, { name: e.target.value })}
+                  placeholder="Option name"
+                  aria-label="Option name"
+                  className="flex-1"
+                />
+                <Input
+                  type="number"
+                  step="0.01"
+                  value={option.price_delta}
+                  onChange={(e) => updateOption(group, option.id, { price_delta: parseFloat(e.target.value) || 0 })}
+                  aria-label="Price change"
+                  className="w-24"
+                />
+                <Switch
+                  checked={option.is_active}
+                  onCheckedChange={(checked) => updateOption(group, option.id, { is_active: checked })}
+                  aria-label="Available"
+                  title="Available"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateGroup(group.id, { options: moveItem(group.options, optionIndex, -1) })}
+                  disabled={optionIndex === 0}
+                  aria-label="Move option up"
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateGroup(group.id, {
+                    options: group.options.filter(existing => existing.id !== option.id),
+                  })}
+                  className="text-destructive hover:text-destructive"
+                  aria-label="Remove option"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => updateGroup(group.id, { options: [...group.options, createOptionDraft()] })}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Option
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      {groups.length === 0 && (
+        <p className="text-sm text-muted-foreground text-center py-2">No options for this item.</p>
+      )}
+    </div>
+  );
+};
+
+export default MenuOptionGroupsEditor;
@@ -11,8 +11,13 @@ interface NewsletterSubscriber {
   email: string;
   is_subscribed: boolean;
   subscribed_at: string;
+  spam_score: number;
 }
 
+// Set by subscribe_newsletter() when the form was sent only a few seconds
+// after it was shown
+const isLikelyBot = (subscriber: NewsletterSubscriber) => subscriber.spam_score > 0;
+
 const NewsletterSubscriberManager = () => {
   const [subscribers, setSubscribers] = useState<NewsletterSubscriber[]>([]);
   const [loading, setLoading] = useState(false);
@@ -99,9 +104,9 @@ const NewsletterSubscriberManager = () => {
   const exportSubscribers = () => {
     try {
       const csvContent = "data:text/csv;charset=utf-8," +
-        "Email,Subscription Status,Subscribed Date\n" +
+        "Email,Subscription Status,Subscribed Date,Likely Bot\n" +
         subscribers.map(sub => 
-          `"${sub.email}","${sub.is_subscribed ? 'Subscribed' : 'Unsubscribed'}","${sub.subscribed_at}"`
+          `"${sub.email}","${sub.is_subscribed ? 'Subscribed' : 'Unsubscribed'}","${sub.subscribed_at}","${isLikelyBot(sub) ? 'Yes' : 'No'}"`
         ).join("\n");
       
       const encodedUri = encodeURI(csvContent);
@@ -227,9 +232,16 @@ const NewsletterSubscriberManager = () => {
                   <TableRow key={index}>
                     <TableCell className="font-medium">{subscriber.email}</TableCell>
                     <TableCell>
-                      <Badge variant={subscriber.is_subscribed ? "default" : "secondary"}>
-                        {subscriber.is_subscribed ? 'Subscribed' : 'Unsubscribed'}
-                      </Badge>
+                      <div className="flex flex-wrap gap-1">
+                        <Badge variant={subscriber.is_subscribed ? "default" : "secondary"}>
+                          {subscriber.is_subscribed ? 'Subscribed' : 'Unsubscribed'}
+                        </Badge>
+                        {isLikelyBot(subscriber) && (
+                          <Badge variant="outline" className="border-destructive text-destructive" title={`Spam score ${subscriber.spam_score}`}>
+                            Likely bot
+                          </Badge>
+                        )}
+                      </div>
                     </TableCell>
                     <TableCell>{formatDate(subscriber.subscribed_at)}</TableCell>
                     <TableCell>
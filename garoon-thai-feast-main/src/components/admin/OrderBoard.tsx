@@ -0,0 +1,339 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, ArrowRight, Bell, BellOff, ChefHat, Clock, Phone, X } from "lucide-react";
+import {
+  ORDER_BOARD_STATUSES,
+  ORDER_STATUS_LABELS,
+  OrderStatus,
+  OrderWithItems,
+  formatPrice,
+  getNextOrderStatus,
+  getPreviousOrderStatus,
+} from "@/lib/orders";
+import { formatModifiers, parseOrderItemModifiers } from "@/lib/menuOptions";
+
+const ORDER_SELECT = '*, order_items(*)';
+
+const startOfToday = () => {
+  const date = new Date();
+  date.setHours(0, 0, 0, 0);
+  return date.toISOString();
+};
+
+const formatElapsed = (from: string, now: number) => {
+  const minutes = Math.max(0, Math.floor((now - new Date(from).getTime()) / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+// Short two-tone chime generated with the Web Audio API, so no sound file is needed
+const playChime = (context: AudioContext) => {
+  [880, 1320].forEach((frequency, index) => {
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    const start = context.currentTime + index * 0.25;
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.3, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + 0.4);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(start);
+    oscillator.stop(start + 0.4);
+  });
+};
+
+const OrderBoard = () => {
+  const [orders, setOrders] = useState<OrderWithItems[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const [soundEnabled, setSoundEnabled] = useState(false);
+  const [draggedOrderId, setDraggedOrderId] = useState<string | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const soundEnabledRef = useRef(false);
+  const { toast } = useToast();
+
+  const handleError = useCallback((error: unknown, defaultMessage: string) => {
+    console.error(error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : defaultMessage,
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const loadOrders = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      // Everything still in progress, plus anything collected today
+      const { data, error } = await supabase
+        .from('orders')
+        .select(ORDER_SELECT)
+        .or(`status.in.(new,accepted,preparing,ready),created_at.gte.${startOfToday()}`)
+        .neq('status', 'cancelled')
+        .order('pickup_time', { ascending: true });
+
+      if (error) throw error;
+      setOrders((data || []) as OrderWithItems[]);
+    } catch (error) {
+      handleError(error, "Failed to load orders");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [handleError]);
+
+  const alertNewOrder = useCallback((order: OrderWithItems) => {
+    toast({
+      title: "New order",
+      description: `${order.customer_name} · pickup ${formatTime(order.pickup_time)}`,
+    });
+    if (soundEnabledRef.current && audioContextRef.current) {
+      playChime(audioContextRef.current);
+    }
+  }, [toast]);
+
+  const refreshOrder = useCallback(async (orderId: string, isNew: boolean) => {
+    const { data, error } = await supabase
+      .from('orders')
+      .select(ORDER_SELECT)
+      .eq('id', orderId)
+      .maybeSingle();
+
+    if (error || !data) {
+      if (error) console.error('Error refreshing order:', error);
+      return;
+    }
+
+    const order = data as OrderWithItems;
+    setOrders(prev => {
+      const others = prev.filter(existing => existing.id !== order.id);
+      if (order.status === "cancelled") return others;
+      return [...others, order].sort((a, b) => a.pickup_time.localeCompare(b.pickup_time));
+    });
+    if (isNew) alertNewOrder(order);
+  }, [alertNewOrder]);
+
+  useEffect(() => {
+    loadOrders();
+  }, [loadOrders]);
+
+  // Live updates instead of polling
+  useEffect(() => {
+    const channel = supabase
+      .channel('kitchen-orders')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'orders' },
+        (payload) => {
+          if (payload.eventType === 'DELETE') {
+            const removedId = (payload.old as { id?: string }).id;
+            setOrders(prev => prev.filter(order => order.id !== removedId));
+            return;
+          }
+          refreshOrder((payload.new as { id: string }).id, payload.eventType === 'INSERT');
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [refreshOrder]);
+
+  // Keep elapsed-time timers ticking
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const toggleSound = async () => {
+    // Browsers only allow audio after a user gesture, so the context is created here
+    if (!audioContextRef.current) {
+      audioContextRef.current = new AudioContext();
+    }
+    await audioContextRef.current.resume();
+    const enabled = !soundEnabled;
+    setSoundEnabled(enabled);
+    soundEnabledRef.current = enabled;
+    if (enabled) playChime(audioContextRef.current);
+  };
+
+  const updateStatus = async (order: OrderWithItems, status: OrderStatus) => {
+    if (order.status === status) return;
+    const previous = orders;
+    setOrders(prev => prev.map(existing => existing.id === order.id ? { ...existing, status } : existing));
+    try {
+      const { error } = await supabase
+        .from('orders')
+        .update({ status, updated_at: new Date().toISOString() })
+        .eq('id', order.id);
+
+      if (error) throw error;
+      if (status === "cancelled") {
+        setOrders(prev => prev.filter(existing => existing.id !== order.id));
+      }
+    } catch (error) {
+      setOrders(previous);
+      handleError(error, "Failed to update order");
+    }
+  };
+
+  const handleCancel = (order: OrderWithItems) => {
+    if (confirm(`Cancel the order for ${order.customer_name}?`)) {
+      updateStatus(order, "cancelled");
+    }
+  };
+
+  const handleDrop = (status: OrderStatus) => {
+    const order = orders.find(existing => existing.id === draggedOrderId);
+    setDraggedOrderId(null);
+    if (order) updateStatus(order, status);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="font-playfair text-2xl font-bold text-foreground">Kitchen Orders</h2>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={toggleSound}>
+            {soundEnabled ? <Bell className="h-4 w-4 mr-2" /> : <BellOff className="h-4 w-4 mr-2" />}
+            {soundEnabled ? "Sound On" : "Sound Off"}
+          </Button>
+          <Button variant="outline" onClick={loadOrders} disabled={isLoading}>
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-5 gap-4">
+        {ORDER_BOARD_STATUSES.map((status) => {
+          const columnOrders = orders.filter(order => order.status === status);
+          return (
+            <div
+              key={status}
+              className="bg-muted/50 rounded-lg p-3 min-h-[12rem]"
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={() => handleDrop(status)}
+            >
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="font-semibold">{ORDER_STATUS_LABELS[status]}</h3>
+                <Badge variant="secondary">{columnOrders.length}</Badge>
+              </div>
+              <div className="space-y-3">
+                {columnOrders.map((order) => {
+                  const next = getNextOrderStatus(order.status);
+                  const previous = getPreviousOrderStatus(order.status);
+                  const isLate = order.status !== "collected" && order.status !== "ready"
+                    && new Date(order.pickup_time).getTime() < now;
+                  return (
+                    <Card
+                      key={order.id}
+                      draggable
+                      onDragStart={() => setDraggedOrderId(order.id)}
+                      onDragEnd={() => setDraggedOrderId(null)}
+                      className={`card-elegant cursor-grab ${isLate ? "border-thai-red" : "border-thai-gold/20"}`}
+                    >
+                      <CardHeader className="p-3 pb-0">
+                        <CardTitle className="text-base flex items-center justify-between">
+                          <span className="truncate">{order.customer_name}</span>
+                          <span className="text-xs text-muted-foreground font-mono">
+                            #{order.id.slice(0, 6).toUpperCase()}
+                          </span>
+                        </CardTitle>
+                        <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+                          <Badge variant={isLate ? "destructive" : "outline"} className="flex items-center gap-1">
+                            <Clock className="h-3 w-3" />
+                            Pickup {formatTime(order.pickup_time)}
+                          </Badge>
+                          <Badge variant="outline">{formatElapsed(order.created_at, now)} ago</Badge>
+                        </div>
+                      </CardHeader>
+                      <CardContent className="p-3 space-y-2">
+                        <Table>
+                          <TableBody>
+                            {order.order_items.map((item) => {
+                              const modifiers = parseOrderItemModifiers(item.modifiers);
+                              return (
+                                <TableRow key={item.id}>
+                                  <TableCell className="p-1 font-semibold w-8 align-top">{item.quantity}×</TableCell>
+                                  <TableCell className="p-1">
+                                    {item.name}
+                                    {modifiers.length > 0 && (
+                                      <span className="block text-xs text-muted-foreground">{formatModifiers(modifiers)}</span>
+                                    )}
+                                  </TableCell>
+                                </TableRow>
+                              );
+                            })}
+                          </TableBody>
+                        </Table>
+                        {order.notes && (
+                          <p className="text-xs bg-thai-gold/10 rounded p-2">{order.notes}</p>
+                        )}
+                        <div className="flex items-center justify-between text-xs text-muted-foreground">
+                          <a href={`tel:${order.customer_phone}`} className="flex items-center gap-1 hover:text-thai-gold">
+                            <Phone className="h-3 w-3" />
+                            {order.customer_phone}
+                          </a>
+                          <span className="font-semibold text-foreground">{formatPrice(order.total)}</span>
+                        </div>
+                        <div className="flex gap-1">
+                          {previous && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => updateStatus(order, previous)}
+                              aria-label={`Move back to ${ORDER_STATUS_LABELS[previous]}`}
+                            >
+                              <ArrowLeft className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {next && (
+                            <Button
+                              variant="hero"
+                              size="sm"
+                              className="flex-1"
+                              onClick={() => updateStatus(order, next)}
+                            >
+                              {ORDER_STATUS_LABELS[next]}
+                              <ArrowRight className="h-4 w-4 ml-1" />
+                            </Button>
+                          )}
+                          {order.status !== "collected" && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleCancel(order)}
+                              className="text-destructive hover:text-destructive"
+                              aria-label="Cancel order"
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+                {columnOrders.length === 0 && (
+                  <div className="text-center py-6 text-sm text-muted-foreground">
+                    <ChefHat className="h-6 w-6 mx-auto mb-2 opacity-50" />
+                    No orders
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default OrderBoard;
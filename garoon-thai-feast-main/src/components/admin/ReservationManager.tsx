@@ -0,0 +1,403 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useRole } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { formatMinutes } from "@/lib/businessHours";
+import {
+  RESERVATION_STATUS_LABELS,
+  Reservation,
+  ReservationSettings,
+  ReservationStatus,
+  getRestaurantToday,
+  toDateValue,
+} from "@/lib/reservations";
+import { CalendarDays, Check, Phone, Settings, Trash2, Users, UserCheck, UserX, X } from "lucide-react";
+
+const statusVariant = (status: ReservationStatus) => {
+  switch (status) {
+    case "confirmed":
+    case "seated":
+      return "default";
+    case "pending":
+      return "secondary";
+    default:
+      return "destructive";
+  }
+};
+
+// "17:30:00" => "5:30pm"
+const formatSlot = (timeSlot: string) => {
+  const [hours, minutes] = timeSlot.split(":").map(Number);
+  return formatMinutes(hours * 60 + minutes);
+};
+
+const ReservationManager = () => {
+  const [reservations, setReservations] = useState<Reservation[]>([]);
+  const [date, setDate] = useState(() => toDateValue(getRestaurantToday()));
+  const [isLoading, setIsLoading] = useState(false);
+  const [settings, setSettings] = useState<ReservationSettings | null>(null);
+  const [isSavingSettings, setIsSavingSettings] = useState(false);
+  const { can } = useRole();
+  const { toast } = useToast();
+
+  const handleError = useCallback((error: unknown, defaultMessage: string) => {
+    console.error(error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : defaultMessage,
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const loadReservations = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('reservations')
+        .select('*')
+        .eq('reservation_date', date)
+        .order('time_slot', { ascending: true });
+
+      if (error) throw error;
+      setReservations((data || []) as Reservation[]);
+    } catch (error) {
+      handleError(error, "Failed to load reservations");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [date, handleError]);
+
+  const loadSettings = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('reservation_settings')
+        .select('*')
+        .maybeSingle();
+
+      if (error) throw error;
+      setSettings(data);
+    } catch (error) {
+      handleError(error, "Failed to load reservation settings");
+    }
+  }, [handleError]);
+
+  useEffect(() => {
+    loadReservations();
+  }, [loadReservations]);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  const updateStatus = async (reservation: Reservation, status: ReservationStatus) => {
+    try {
+      const { error } = await supabase
+        .from('reservations')
+        .update({ status, updated_at: new Date().toISOString() })
+        .eq('id', reservation.id);
+
+      if (error) throw error;
+      setReservations(prev => prev.map(existing =>
+        existing.id === reservation.id ? { ...existing, status } : existing
+      ));
+    } catch (error) {
+      handleError(error, "Failed to update reservation");
+    }
+  };
+
+  const handleCancel = (reservation: Reservation) => {
+    if (confirm(`Cancel the booking for ${reservation.name}?`)) {
+      updateStatus(reservation, "cancelled");
+    }
+  };
+
+  const handleDelete = async (reservation: Reservation) => {
+    if (!confirm(`Delete the booking for ${reservation.name}? This cannot be undone.`)) return;
+    try {
+      const { error } = await supabase
+        .from('reservations')
+        .delete()
+        .eq('id', reservation.id);
+
+      if (error) throw error;
+      setReservations(prev => prev.filter(existing => existing.id !== reservation.id));
+    } catch (error) {
+      handleError(error, "Failed to delete reservation");
+    }
+  };
+
+  const handleSaveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!settings) return;
+    setIsSavingSettings(true);
+    try {
+      const { error } = await supabase
+        .from('reservation_settings')
+        .update({
+          slot_interval_minutes: settings.slot_interval_minutes,
+          max_covers_per_slot: settings.max_covers_per_slot,
+          max_party_size: settings.max_party_size,
+          last_seating_minutes: settings.last_seating_minutes,
+          booking_window_days: settings.booking_window_days,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', settings.id);
+
+      if (error) throw error;
+      toast({
+        title: "Success",
+        description: "Reservation settings updated",
+      });
+    } catch (error) {
+      handleError(error, "Failed to save reservation settings");
+    } finally {
+      setIsSavingSettings(false);
+    }
+  };
+
+  const updateSetting = (field: keyof ReservationSettings, value: string) => {
+    if (!settings) return;
+    setSettings({ ...settings, [field]: parseInt(value, 10) || 0 });
+  };
+
+  const activeReservations = reservations.filter(r => r.status !== "cancelled" && r.status !== "no_show");
+  const totalCovers = activeReservations.reduce((sum, r) => sum + r.party_size, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-4">
+        <h2 className="font-playfair text-2xl font-bold text-foreground">Reservations</h2>
+        <div className="flex gap-2 items-center">
+          <Input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="w-auto"
+            aria-label="Reservation date"
+          />
+          <Button variant="outline" onClick={() => setDate(toDateValue(getRestaurantToday()))}>
+            Today
+          </Button>
+          <Button variant="outline" onClick={loadReservations} disabled={isLoading}>
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Card className="card-elegant border-thai-gold/20">
+          <CardContent className="p-4 flex items-center gap-3">
+            <CalendarDays className="h-8 w-8 text-thai-gold" />
+            <div>
+              <p className="text-2xl font-bold">{activeReservations.length}</p>
+              <p className="text-sm text-muted-foreground">Bookings</p>
+            </div>
+          </CardContent>
+        </Card>
+        <Card className="card-elegant border-thai-gold/20">
+          <CardContent className="p-4 flex items-center gap-3">
+            <Users className="h-8 w-8 text-thai-gold" />
+            <div>
+              <p className="text-2xl font-bold">{totalCovers}</p>
+              <p className="text-sm text-muted-foreground">Covers</p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="card-elegant border-thai-gold/20">
+        <CardHeader>
+          <CardTitle className="font-playfair">Bookings</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {reservations.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <CalendarDays className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>{isLoading ? "Loading bookings..." : "No bookings for this date."}</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Guest</TableHead>
+                  <TableHead>Party</TableHead>
+                  <TableHead>Notes</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reservations.map((reservation) => (
+                  <TableRow key={reservation.id}>
+                    <TableCell className="font-semibold">{formatSlot(reservation.time_slot)}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{reservation.name}</div>
+                      <a
+                        href={`tel:${reservation.phone}`}
+                        className="text-xs text-muted-foreground flex items-center gap-1 hover:text-thai-gold"
+                      >
+                        <Phone className="h-3 w-3" />
+                        {reservation.phone}
+                      </a>
+                      <div className="text-xs text-muted-foreground">{reservation.email}</div>
+                    </TableCell>
+                    <TableCell>{reservation.party_size}</TableCell>
+                    <TableCell className="max-w-xs text-sm text-muted-foreground">{reservation.notes}</TableCell>
+                    <TableCell>
+                      <Badge variant={statusVariant(reservation.status)}>
+                        {RESERVATION_STATUS_LABELS[reservation.status]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        {reservation.status === "pending" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => updateStatus(reservation, "confirmed")}
+                            title="Confirm"
+                          >
+                            <Check className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {(reservation.status === "pending" || reservation.status === "confirmed") && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => updateStatus(reservation, "seated")}
+                              title="Seat"
+                            >
+                              <UserCheck className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => updateStatus(reservation, "no_show")}
+                              title="Mark no-show"
+                            >
+                              <UserX className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleCancel(reservation)}
+                              title="Cancel"
+                              className="text-destructive hover:text-destructive"
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </>
+                        )}
+                        {can("reservations:configure") && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(reservation)}
+                            title="Delete"
+                            className="text-destructive hover:text-destructive"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {can("reservations:configure") && settings && (
+        <Card className="card-elegant border-thai-gold/20">
+          <CardHeader>
+            <CardTitle className="font-playfair flex items-center gap-2">
+              <Settings className="h-5 w-5" />
+              Booking Rules
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSaveSettings} className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Time slots are generated from the opening hours in the Contact tab.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label>Slot Length</Label>
+                  <Select
+                    value={settings.slot_interval_minutes.toString()}
+                    onValueChange={(value) => updateSetting("slot_interval_minutes", value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="15">15 minutes</SelectItem>
+                      <SelectItem value="30">30 minutes</SelectItem>
+                      <SelectItem value="60">60 minutes</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="max-covers">Max Covers per Slot</Label>
+                  <Input
+                    id="max-covers"
+                    type="number"
+                    min={1}
+                    value={settings.max_covers_per_slot}
+                    onChange={(e) => updateSetting("max_covers_per_slot", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="max-party">Max Party Size</Label>
+                  <Input
+                    id="max-party"
+                    type="number"
+                    min={1}
+                    value={settings.max_party_size}
+                    onChange={(e) => updateSetting("max_party_size", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="last-seating">Last Seating (minutes before close)</Label>
+                  <Input
+                    id="last-seating"
+                    type="number"
+                    min={0}
+                    value={settings.last_seating_minutes}
+                    onChange={(e) => updateSetting("last_seating_minutes", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="booking-window">Booking Window (days ahead)</Label>
+                  <Input
+                    id="booking-window"
+                    type="number"
+                    min={1}
+                    value={settings.booking_window_days}
+                    onChange={(e) => updateSetting("booking_window_days", e.target.value)}
+                  />
+                </div>
+              </div>
+              <Button type="submit" variant="hero" disabled={isSavingSettings}>
+                {isSavingSettings ? "Saving..." : "Save Rules"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default ReservationManager;
@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -6,17 +6,26 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { Save, Search, Globe, Code, Image } from "lucide-react";
+import { useRole } from "@/hooks/useAuth";
+import { Save, Search, Globe, Code, Image, CheckCircle2, XCircle, MapIcon, RefreshCw, ExternalLink, FileCode } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
+import MediaField from "@/components/admin/MediaField";
+import { ALLOWED_SCRIPT_HOSTS, parseCustomScripts } from "@/lib/customScripts";
+import { SITEMAP_URL, fetchSitemapStatus, rebuildSitemap } from "@/lib/sitemap";
+import { fetchPrerenderHook, rerunPrerender, savePrerenderHookUrl } from "@/lib/prerenderHook";
 
 const seoSchema = z.object({
   site_meta_title: z.string().optional(),
   site_meta_description: z.string().optional(),
   site_meta_keywords: z.string().optional(),
   og_image: z.string().optional(),
-  custom_scripts: z.string().optional()
+  custom_scripts: z.string().optional(),
+  site_url: z.string().trim().url("Enter the full address, e.g. https://easygothai.co.nz").or(z.literal("")).optional(),
+  // The database only accepts https:// hooks
+  prerender_hook_url: z.string().trim().url("Enter the full hook URL")
+    .startsWith("https://", "The hook URL must start with https://").or(z.literal("")).optional()
 });
 
 type SEOFormData = z.infer<typeof seoSchema>;
@@ -28,6 +37,7 @@ interface SEOSettings {
   site_meta_keywords?: string;
   og_image?: string;
   custom_scripts?: string;
+  site_url?: string;
   created_at: string;
   updated_at: string;
 }
@@ -35,21 +45,106 @@ interface SEOSettings {
 const SEOManager = () => {
   const [seoSettings, setSeoSettings] = useState<SEOSettings | null>(null);
   const [loading, setLoading] = useState(false);
+  const [sitemap, setSitemap] = useState<{ url_count: number; generated_at: string } | null>(null);
+  const [rebuilding, setRebuilding] = useState(false);
+  const [prerenderHook, setPrerenderHook] = useState<{ url: string | null; requested_at: string | null; last_sent_at: string | null } | null>(null);
+  const [rerunning, setRerunning] = useState(false);
   const { toast } = useToast();
+  const { can } = useRole();
+  // Editors can't read the hook, so they only get the Re-run button
+  const canConfigurePrerender = can("seo:configure");
 
-  const fileInputRef = useRef<HTMLInputElement | null>(null);
-
-  const { register, handleSubmit, setValue, watch } = useForm<SEOFormData>({
+  const { register, handleSubmit, setValue, watch, formState: { errors } } = useForm<SEOFormData>({
     resolver: zodResolver(seoSchema)
   });
 
   // Watch og_image for preview
   const ogImage = watch("og_image");
+  const customScripts = watch("custom_scripts");
+  const scriptPreview = useMemo(() => parseCustomScripts(customScripts), [customScripts]);
 
   useEffect(() => {
     fetchSEOSettings();
+    fetchSitemap();
+    fetchPrerender();
   }, []);
 
+  const fetchPrerender = async () => {
+    try {
+      const hook = await fetchPrerenderHook();
+      setPrerenderHook(hook);
+      setValue("prerender_hook_url", hook?.url || "");
+    } catch (error) {
+      console.error('Error fetching prerender hook:', error);
+    }
+  };
+
+  const handleRerunPrerender = async () => {
+    setRerunning(true);
+    try {
+      const sentAt = await rerunPrerender();
+      if (!sentAt) {
+        toast({
+          title: "Error",
+          description: "No hook URL is set yet",
+          variant: "destructive",
+        });
+        return;
+      }
+      await fetchPrerender();
+      toast({
+        title: "Success",
+        description: "Prerendering requested. The pages update when the build finishes.",
+      });
+    } catch (error) {
+      console.error('Error requesting prerender:', error);
+      toast({
+        title: "Error",
+        description: "Failed to request prerendering",
+        variant: "destructive",
+      });
+    } finally {
+      setRerunning(false);
+    }
+  };
+
+  const fetchSitemap = async () => {
+    try {
+      setSitemap(await fetchSitemapStatus());
+    } catch (error) {
+      console.error('Error fetching sitemap status:', error);
+    }
+  };
+
+  const handleRebuildSitemap = async () => {
+    setRebuilding(true);
+    try {
+      const generatedAt = await rebuildSitemap();
+      if (!generatedAt) {
+        toast({
+          title: "Error",
+          description: "Save the site URL first; the sitemap needs it to build links",
+          variant: "destructive",
+        });
+        return;
+      }
+      await fetchSitemap();
+      toast({
+        title: "Success",
+        description: "Sitemap rebuilt",
+      });
+    } catch (error) {
+      console.error('Error rebuilding sitemap:', error);
+      toast({
+        title: "Error",
+        description: "Failed to rebuild the sitemap",
+        variant: "destructive",
+      });
+    } finally {
+      setRebuilding(false);
+    }
+  };
+
   const fetchSEOSettings = async () => {
     try {
       const { data, error } = await supabase
@@ -66,6 +161,7 @@ const SEOManager = () => {
         setValue("site_meta_keywords", data.site_meta_keywords || "");
         setValue("og_image", data.og_image || "");
         setValue("custom_scripts", data.custom_scripts || "");
+        setValue("site_url", data.site_url || "");
       }
     } catch (error) {
       console.error('Error fetching SEO settings:', error);
@@ -79,12 +175,22 @@ const SEOManager = () => {
 
   const onSubmit = async (data: SEOFormData) => {
     console.log('Submitting SEO settings data:', data);
+    if (scriptPreview.issues.length > 0) {
+      toast({
+        title: "Error",
+        description: "Fix the problems with the custom scripts before saving",
+        variant: "destructive",
+      });
+      return;
+    }
     setLoading(true);
     try {
+      const { prerender_hook_url, ...settings } = data;
+      const values = { ...settings, site_url: settings.site_url?.replace(/\/+$/, "") || null };
       if (seoSettings) {
         const { data: result, error } = await supabase
           .from('seo_settings')
-          .update(data)
+          .update(values)
           .eq('id', seoSettings.id)
           .select();
 
@@ -97,7 +203,7 @@ const SEOManager = () => {
       } else {
         const { data: result, error } = await supabase
           .from('seo_settings')
-          .insert([data])
+          .insert([values])
           .select();
 
         if (error) {
@@ -108,12 +214,17 @@ const SEOManager = () => {
         console.log('Insert result:', result);
       }
 
+      if ((prerender_hook_url || null) !== (prerenderHook?.url || null)) {
+        await savePrerenderHookUrl(prerender_hook_url || null);
+      }
+
       toast({
         title: "Success",
         description: "SEO settings updated successfully",
       });
       
-      await fetchSEOSettings();
+      // Saving a new site URL regenerates the sitemap
+      await Promise.all([fetchSEOSettings(), fetchSitemap(), fetchPrerender()]);
     } catch (error) {
       console.error('Error saving SEO settings:', error);
       toast({
@@ -126,28 +237,6 @@ const SEOManager = () => {
     }
   };
 
-  // Add image upload handler with 2MB limit
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-    if (file.size > 2 * 1024 * 1024) { // 2MB
-      toast({
-        title: "Image too large",
-        description: "Please upload an image smaller than 2MB.",
-        variant: "destructive",
-      });
-      e.target.value = "";
-      return;
-    }
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      if (typeof reader.result === "string") {
-        setValue("og_image", reader.result, { shouldValidate: true });
-      }
-    };
-    reader.readAsDataURL(file);
-  };
-
   return (
     <div className="space-y-6">
       <h2 className="font-playfair text-2xl font-bold text-foreground">SEO Settings</h2>
@@ -213,29 +302,18 @@ const SEOManager = () => {
           </CardHeader>
           <CardContent>
             <div>
-              <Label htmlFor="og_image">Open Graph Image</Label>
-              <input
-                id="og_image_upload"
-                type="file"
-                accept="image/*"
-                ref={fileInputRef}
-                onChange={handleImageUpload}
-                className="block mb-2 mt-1"
+              <MediaField
+                id="og_image"
+                label="Open Graph Image"
+                value={ogImage}
+                onChange={(url) => setValue("og_image", url, { shouldValidate: true })}
+                folder="seo"
+                preset="og"
               />
-              {ogImage && (
-                <div className="mb-2">
-                  <img
-                    src={ogImage}
-                    alt="Open Graph Preview"
-                    className="max-h-40 rounded border"
-                    style={{ objectFit: "contain" }}
-                  />
-                </div>
-              )}
               {/* Hidden input to keep og_image in form state */}
               <input type="hidden" {...register("og_image")} />
               <p className="text-sm text-muted-foreground mt-1">
-                Upload an image (will be stored as base64). Recommended size: 1200x630 pixels. This image will be shown when your site is shared on social media.
+                Images are cropped to 1200x630 pixels. This image will be shown when your site is shared on social media.
               </p>
             </div>
           </CardContent>
@@ -251,17 +329,179 @@ const SEOManager = () => {
           </CardHeader>
           <CardContent>
             <div>
-              <Label htmlFor="custom_scripts">Custom HTML/JavaScript</Label>
+              <Label htmlFor="custom_scripts">Script Tags</Label>
               <Textarea 
                 id="custom_scripts" 
                 {...register("custom_scripts")} 
-                placeholder="<!-- Google Analytics, Facebook Pixel, or other tracking codes -->"
+                placeholder={'<script async src="https://www.googletagmanager.com/gtag/js?id=G-XXXX"></script>'}
                 rows={6}
+                className="font-mono text-xs"
               />
               <p className="text-sm text-muted-foreground mt-1">
-                Add custom HTML, CSS, or JavaScript code. This will be injected into the head section of your website.
+                Only <code>&lt;script src&gt;</code> tags from {ALLOWED_SCRIPT_HOSTS.join(", ")} and
+                inline <code>application/ld+json</code> blocks are allowed. Tracking scripts only load
+                after a visitor accepts cookies.
               </p>
             </div>
+
+            {(scriptPreview.scripts.length > 0 || scriptPreview.issues.length > 0) && (
+              <div className="mt-4 space-y-2">
+                <h4 className="text-sm font-semibold">Preview</h4>
+                <ul className="space-y-1 text-sm">
+                  {scriptPreview.scripts.map((script, index) => (
+                    <li key={`script-${index}`} className="flex items-start gap-2">
+                      <CheckCircle2 className="h-4 w-4 mt-0.5 text-thai-green flex-shrink-0" />
+                      <span className="break-all">
+                        {script.kind === "external"
+                          ? `Loads ${script.src} after cookie consent`
+                          : `Adds structured data (${script.type})`}
+                      </span>
+                    </li>
+                  ))}
+                  {scriptPreview.issues.map((issue, index) => (
+                    <li key={`issue-${index}`} className="flex items-start gap-2 text-destructive">
+                      <XCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                      <span className="break-all">
+                        <code className="text-xs">{issue.snippet}</code> — {issue.message}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Sitemap */}
+        <Card className="card-elegant border-thai-gold/20">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <MapIcon className="h-5 w-5 text-thai-gold" />
+              Sitemap
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <Label htmlFor="site_url">Site URL</Label>
+              <Input
+                id="site_url"
+                {...register("site_url")}
+                placeholder="https://easygothai.co.nz"
+              />
+              {errors.site_url ? (
+                <p className="text-sm text-destructive mt-1">{errors.site_url.message}</p>
+              ) : (
+                <p className="text-sm text-muted-foreground mt-1">
+                  The public address of the website. Every link in the sitemap starts with it.
+                </p>
+              )}
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 rounded-md border border-thai-gold/20 p-3">
+              <div className="text-sm">
+                {sitemap ? (
+                  <>
+                    <div className="font-medium">
+                      Last generated {new Date(sitemap.generated_at).toLocaleString()}
+                    </div>
+                    <div className="text-muted-foreground">
+                      {sitemap.url_count} URLs. It updates by itself when articles are published or the menu changes.
+                    </div>
+                  </>
+                ) : (
+                  <div className="text-muted-foreground">
+                    Not generated yet. Save the site URL to create it.
+                  </div>
+                )}
+              </div>
+              <div className="flex gap-2">
+                {sitemap && (
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={SITEMAP_URL} target="_blank" rel="noopener noreferrer">
+                      <ExternalLink className="h-4 w-4 mr-2" />
+                      View
+                    </a>
+                  </Button>
+                )}
+                <Button
+                  type="button"
+                  variant="elegant"
+                  size="sm"
+                  onClick={handleRebuildSitemap}
+                  disabled={rebuilding}
+                >
+                  <RefreshCw className={`h-4 w-4 mr-2 ${rebuilding ? 'animate-spin' : ''}`} />
+                  {rebuilding ? "Rebuilding..." : "Rebuild now"}
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Prerendering */}
+        <Card className="card-elegant border-thai-gold/20">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileCode className="h-5 w-5 text-thai-gold" />
+              Prerendering
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {canConfigurePrerender ? (
+              <div>
+                <Label htmlFor="prerender_hook_url">Rebuild hook URL</Label>
+                <Input
+                  id="prerender_hook_url"
+                  type="url"
+                  {...register("prerender_hook_url")}
+                  placeholder="https://api.netlify.com/build_hooks/..."
+                />
+                {errors.prerender_hook_url ? (
+                  <p className="text-sm text-destructive mt-1">{errors.prerender_hook_url.message}</p>
+                ) : (
+                  <p className="text-sm text-muted-foreground mt-1">
+                    The home, menu, about and news pages are built as static HTML for search engines and fast first loads.
+                    This URL is called, at most once a minute, when articles, the menu, contact details or these settings change.
+                  </p>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                The home, menu, about and news pages are built as static HTML and rebuilt when content changes.
+                Owners and managers set the rebuild hook.
+              </p>
+            )}
+
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 rounded-md border border-thai-gold/20 p-3">
+              <div className="text-sm">
+                {!canConfigurePrerender ? (
+                  <div className="text-muted-foreground">Rebuild the pages now instead of waiting for the next change.</div>
+                ) : prerenderHook?.last_sent_at ? (
+                  <>
+                    <div className="font-medium">
+                      Last requested {new Date(prerenderHook.last_sent_at).toLocaleString()}
+                    </div>
+                    {prerenderHook.requested_at && prerenderHook.requested_at > prerenderHook.last_sent_at && (
+                      <div className="text-muted-foreground">Changes since then are queued.</div>
+                    )}
+                  </>
+                ) : (
+                  <div className="text-muted-foreground">
+                    Not requested yet. Until a hook URL is set, the pages update on the next deploy.
+                  </div>
+                )}
+              </div>
+              <Button
+                type="button"
+                variant="elegant"
+                size="sm"
+                onClick={handleRerunPrerender}
+                disabled={rerunning || (canConfigurePrerender && !prerenderHook?.url)}
+              >
+                <RefreshCw className={`h-4 w-4 mr-2 ${rerunning ? 'animate-spin' : ''}`} />
+                {rerunning ? "Requesting..." : "Re-run now"}
+              </Button>
+            </div>
           </CardContent>
         </Card>
 
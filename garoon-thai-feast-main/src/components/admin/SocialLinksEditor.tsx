@@ -0,0 +1,102 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import SocialIcon from "@/components/SocialIcon";
+import { SOCIAL_PLATFORMS, SocialLinkDraft, SocialPlatform, createSocialLinkDraft } from "@/lib/socialLinks";
+
+interface SocialLinksEditorProps {
+  links: SocialLinkDraft[];
+  onChange: (links: SocialLinkDraft[]) => void;
+}
+
+const moveItem = <T,>(list: T[], index: number, offset: number) => {
+  const target = index + offset;
+  if (target < 0 || target >= list.length) return list;
+  const next = [...list];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+const SocialLinksEditor = ({ links, onChange }: SocialLinksEditorProps) => {
+  const updateLink = (linkId: string, changes: Partial<SocialLinkDraft>) => {
+    onChange(links.map(link => link.id === linkId ? { ...link, ...changes } : link));
+  };
+
+  return (
+    <div className="space-y-3">
+      {links.map((link, index) => (
+        <div key={link.id} className="flex flex-col sm:flex-row sm:items-center gap-2">
+          <div className="flex items-center gap-2 sm:w-52">
+            <span className="text-thai-gold flex-shrink-0">
+              <SocialIcon platform={link.platform} />
+            </span>
+            <Select
+              value={link.platform}
+              onValueChange={(value) => updateLink(link.id, { platform: value as SocialPlatform })}
+            >
+              <SelectTrigger aria-label="Platform">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SOCIAL_PLATFORMS.map(platform => (
+                  <SelectItem key={platform.id} value={platform.id}>{platform.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex flex-1 items-center gap-2">
+            <Input
+              type="url"
+              value={link.url}
+              onChange={(e) => updateLink(link.id, { url: e.target.value })}
+              placeholder="https://..."
+              aria-label="Link"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(moveItem(links, index, -1))}
+              disabled={index === 0}
+              aria-label="Move up"
+            >
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(moveItem(links, index, 1))}
+              disabled={index === links.length - 1}
+              aria-label="Move down"
+            >
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(links.filter(existing => existing.id !== link.id))}
+              className="text-destructive hover:text-destructive"
+              aria-label="Remove link"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      {!links.length && (
+        <p className="text-sm text-muted-foreground">No links. The footer won't show any.</p>
+      )}
+
+      <Button type="button" variant="outline" size="sm" onClick={() => onChange([...links, createSocialLinkDraft()])}>
+        <Plus className="h-4 w-4 mr-1" />
+        Add Link
+      </Button>
+    </div>
+  );
+};
+
+export default SocialLinksEditor;
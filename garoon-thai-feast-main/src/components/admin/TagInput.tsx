@@ -0,0 +1,77 @@
+import { KeyboardEvent, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { X } from "lucide-react";
+import { normalizeTagNames } from "@/lib/articleTaxonomy";
+
+interface TagInputProps {
+  id: string;
+  value: string[];
+  onChange: (value: string[]) => void;
+  suggestions?: string[];
+  placeholder?: string;
+}
+
+// Tags as removable chips. Enter or a comma adds the typed tag; existing tags
+// are offered as suggestions so spelling stays consistent.
+const TagInput = ({ id, value, onChange, suggestions = [], placeholder }: TagInputProps) => {
+  const [draft, setDraft] = useState("");
+
+  const addTags = (text: string) => {
+    const next = normalizeTagNames([...value, ...text.split(",")]);
+    if (next.length !== value.length) onChange(next);
+    setDraft("");
+  };
+
+  const removeTag = (tag: string) => onChange(value.filter(existing => existing !== tag));
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if ((e.key === "Enter" || e.key === ",") && draft.trim()) {
+      e.preventDefault();
+      addTags(draft);
+    } else if (e.key === "Backspace" && !draft && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    }
+  };
+
+  const taken = new Set(value.map(tag => tag.toLowerCase()));
+  const available = suggestions.filter(tag => !taken.has(tag.toLowerCase()));
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map(tag => (
+            <Badge key={tag} variant="secondary" className="gap-1">
+              {tag}
+              <button
+                type="button"
+                onClick={() => removeTag(tag)}
+                aria-label={`Remove ${tag}`}
+                className="hover:text-destructive"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <Input
+        id={id}
+        value={draft}
+        list={`${id}-suggestions`}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => draft.trim() && addTags(draft)}
+        placeholder={placeholder}
+      />
+      <datalist id={`${id}-suggestions`}>
+        {available.map(tag => (
+          <option key={tag} value={tag} />
+        ))}
+      </datalist>
+    </div>
+  );
+};
+
+export default TagInput;
@@ -4,15 +4,18 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { APP_ROLES, ROLE_LABELS, isAppRole } from "@/lib/permissions";
 import { Users, Mail, Calendar, Search, Download, Trash2 } from "lucide-react";
 
 interface Profile {
   id: string;
   user_id: string;
   display_name?: string;
-  role: string;
+  role: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -30,6 +33,7 @@ const UserManager = () => {
   const [searchTerm, setSearchTerm] = useState("");
   const [loading, setLoading] = useState(false);
   const { toast } = useToast();
+  const { user } = useAuth();
 
   useEffect(() => {
     fetchProfiles();
@@ -74,6 +78,30 @@ const UserManager = () => {
     }
   };
 
+  const handleRoleChange = async (profile: Profile, role: string) => {
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update({ role: role === "none" ? null : role })
+        .eq('id', profile.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `Role updated for ${profile.display_name || "user"}`,
+      });
+      fetchProfiles();
+    } catch (error) {
+      console.error('Error updating role:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update user role",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleDeleteSubscription = async (id: string) => {
     if (confirm("Are you sure you want to delete this subscription?")) {
       try {
@@ -193,7 +221,26 @@ const UserManager = () => {
                     {profile.display_name || "No name set"}
                   </TableCell>
                   <TableCell>
-                    <Badge variant="outline">{profile.role}</Badge>
+                    {profile.user_id === user?.id ? (
+                      <Badge variant="outline">
+                        {isAppRole(profile.role) ? ROLE_LABELS[profile.role] : "No access"}
+                      </Badge>
+                    ) : (
+                      <Select
+                        value={isAppRole(profile.role) ? profile.role : "none"}
+                        onValueChange={(value) => handleRoleChange(profile, value)}
+                      >
+                        <SelectTrigger className="w-36">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">No access</SelectItem>
+                          {APP_ROLES.map((role) => (
+                            <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
                   </TableCell>
                   <TableCell>{formatDate(profile.created_at)}</TableCell>
                   <TableCell>{formatDate(profile.updated_at)}</TableCell>
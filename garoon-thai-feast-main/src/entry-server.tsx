@@ -0,0 +1,98 @@
+import { renderToString } from "react-dom/server";
+import { StaticRouter } from "react-router-dom/server";
+import App from "./App";
+import { fetchLiveArticleCategories, searchArticles } from "@/lib/articleSearch";
+import { fetchLiveArticles, getArticlePath } from "@/lib/articles";
+import { fetchArticleCategory, fetchArticleTags, fetchRelatedArticles, fetchTagsForArticle } from "@/lib/articleTaxonomy";
+import { fetchContactInfo } from "@/lib/contactInfo";
+import { fetchPublicMenu } from "@/lib/menuOptions";
+import {
+  PRERENDER_DATA_ID,
+  PrerenderData,
+  PrerenderSnapshot,
+  getPrerenderHead,
+  resetPrerenderHead,
+  serializeForScript,
+  setPrerenderData,
+} from "@/lib/prerender";
+import { fetchSiteSeoSettings, renderSeoTags } from "@/lib/seo";
+import { fetchSitemapXml } from "@/lib/sitemap";
+import { renderStructuredData } from "@/lib/structuredData";
+
+// Server entry for the prerender step. plugins/prerender.ts builds it with
+// Vite's SSR build and runs it in Node after the client build.
+
+const STATIC_ROUTES = ["/", "/menu", "/about", "/news"];
+
+// Loads everything the prerendered pages show, through the same queries the
+// pages use in the browser
+export const loadSnapshot = async (): Promise<PrerenderSnapshot> => {
+  const [seoSettings, contactInfo, menu, newsPage, categories, tags, liveArticles, sitemapXml] = await Promise.all([
+    fetchSiteSeoSettings(),
+    fetchContactInfo(),
+    fetchPublicMenu(),
+    searchArticles({ page: 1 }),
+    fetchLiveArticleCategories(),
+    fetchArticleTags(),
+    fetchLiveArticles(),
+    fetchSitemapXml(),
+  ]);
+
+  const articles = await Promise.all(liveArticles.map(async article => {
+    const [category, articleTags, related] = await Promise.all([
+      article.category_id ? fetchArticleCategory(article.category_id) : Promise.resolve(null),
+      fetchTagsForArticle(article.id),
+      fetchRelatedArticles(article.id),
+    ]);
+    return { article, category, tags: articleTags, related };
+  }));
+
+  return {
+    generatedAt: new Date().toISOString(),
+    seoSettings,
+    contactInfo,
+    menu,
+    news: { ...newsPage, categories, tags },
+    articles,
+    sitemapXml,
+  };
+};
+
+export const getPrerenderRoutes = (snapshot: PrerenderSnapshot) => [
+  ...STATIC_ROUTES,
+  ...snapshot.articles.map(({ article }) => getArticlePath(article)),
+];
+
+export const getSitemapXml = (snapshot: PrerenderSnapshot) => snapshot.sitemapXml ?? null;
+
+const getPageData = (path: string, snapshot: PrerenderSnapshot): PrerenderData => ({
+  path,
+  seoSettings: snapshot.seoSettings,
+  contactInfo: snapshot.contactInfo,
+  menu: path === "/menu" ? snapshot.menu : undefined,
+  news: path === "/news" ? snapshot.news : undefined,
+  article: snapshot.articles.find(({ article }) => getArticlePath(article) === path),
+});
+
+// One page: html goes in #root, head replaces the matching tags from
+// index.html, and dataScript carries the data the browser hydrates with
+export const render = (path: string, snapshot: PrerenderSnapshot) => {
+  const data = getPageData(path, snapshot);
+  setPrerenderData(data);
+  resetPrerenderHead();
+
+  const html = renderToString(
+    <App router={routes => <StaticRouter location={path}>{routes}</StaticRouter>} />
+  );
+  const { seo, structuredData, feed } = getPrerenderHead();
+  const head = [
+    ...(seo ? renderSeoTags(seo, feed) : []),
+    ...Object.entries(structuredData).map(([id, json]) => renderStructuredData(id, json)),
+  ];
+
+  return {
+    html,
+    head,
+    dataScript: `<script id="${PRERENDER_DATA_ID}" type="application/json">${serializeForScript(data)}</script>`,
+  };
+};
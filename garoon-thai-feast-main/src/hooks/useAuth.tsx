@@ -1,12 +1,15 @@
-import { createContext, useContext, useEffect, useState } from "react";
+import { createContext, useCallback, useContext, useEffect, useState } from "react";
 import { User, Session } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
+import { AppRole, Permission, isAppRole, roleHasPermission } from "@/lib/permissions";
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
+  role: AppRole | null;
   loading: boolean;
   signOut: () => Promise<void>;
+  hasPermission: (permission: Permission) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -14,7 +17,10 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [role, setRole] = useState<AppRole | null>(null);
+  // Id of the user the current role was loaded for, so a stale role is never used
+  const [roleUserId, setRoleUserId] = useState<string | null>(null);
+  const [sessionLoading, setSessionLoading] = useState(true);
 
   useEffect(() => {
     // Set up auth state listener
@@ -22,7 +28,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
       (event, session) => {
         setSession(session);
         setUser(session?.user ?? null);
-        setLoading(false);
+        setSessionLoading(false);
       }
     );
 
@@ -30,21 +36,64 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     supabase.auth.getSession().then(({ data: { session } }) => {
       setSession(session);
       setUser(session?.user ?? null);
-      setLoading(false);
+      setSessionLoading(false);
     });
 
     return () => subscription.unsubscribe();
   }, []);
 
+  const userId = user?.id ?? null;
+
+  // Load the staff role for the signed-in user from their profile. Keyed on the
+  // user id so token refreshes don't refetch it.
+  useEffect(() => {
+    if (!userId) {
+      setRole(null);
+      setRoleUserId(null);
+      return;
+    }
+
+    let cancelled = false;
+    const fetchRole = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('profiles')
+          .select('role')
+          .eq('user_id', userId)
+          .maybeSingle();
+
+        if (error) throw error;
+        if (!cancelled) setRole(isAppRole(data?.role) ? data.role : null);
+      } catch (error) {
+        console.error('Error fetching user role:', error);
+        if (!cancelled) setRole(null);
+      } finally {
+        if (!cancelled) setRoleUserId(userId);
+      }
+    };
+    fetchRole();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
   const signOut = async () => {
     await supabase.auth.signOut();
   };
 
+  const hasPermission = useCallback(
+    (permission: Permission) => roleUserId === userId && roleHasPermission(role, permission),
+    [role, roleUserId, userId]
+  );
+
   const value = {
     user,
     session,
-    loading,
+    role,
+    loading: sessionLoading || (!!userId && roleUserId !== userId),
     signOut,
+    hasPermission,
   };
 
   return (
@@ -60,4 +109,9 @@ export const useAuth = () => {
     throw new Error("useAuth must be used within an AuthProvider");
   }
   return context;
-};
\ No newline at end of file
+};
+
+export const useRole = () => {
+  const { role, hasPermission } = useAuth();
+  return { role, can: hasPermission };
+};
@@ -0,0 +1,132 @@
+import { createContext, useContext, useEffect, useState } from "react";
+import { CartItem, fetchCartItemImages, getCartLineId, getCartSubtotal } from "@/lib/orders";
+import { isHydrating } from "@/lib/prerender";
+
+const CART_STORAGE_KEY = "garoon_cart";
+
+interface CartContextType {
+  items: CartItem[];
+  itemCount: number;
+  subtotal: number;
+  isOpen: boolean;
+  setIsOpen: (open: boolean) => void;
+  addItem: (item: Omit<CartItem, "lineId" | "quantity">, quantity?: number) => void;
+  updateQuantity: (lineId: string, quantity: number) => void;
+  removeItem: (lineId: string) => void;
+  clearCart: () => void;
+}
+
+const CartContext = createContext<CartContextType | undefined>(undefined);
+
+const loadCart = (): CartItem[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CART_STORAGE_KEY) || "[]");
+    if (!Array.isArray(stored)) return [];
+    // Carts saved before modifiers existed have no lineId or modifiers
+    return stored.map((line: CartItem) => {
+      const modifiers = Array.isArray(line.modifiers) ? line.modifiers : [];
+      return { ...line, modifiers, lineId: line.lineId || getCartLineId(line.menuItemId, modifiers) };
+    });
+  } catch {
+    return [];
+  }
+};
+
+// Image URLs are left out; they're looked up again when the cart is restored
+const saveCart = (items: CartItem[]) => {
+  try {
+    localStorage.setItem(CART_STORAGE_KEY, JSON.stringify(items.map(({ imageUrl, ...line }) => line)));
+  } catch {
+    // Storage full or blocked (e.g. private browsing): the cart just won't survive a reload
+  }
+};
+
+export const CartProvider = ({ children }: { children: React.ReactNode }) => {
+  // A prerendered page was rendered with an empty cart, so the saved one is
+  // restored after hydration
+  const [restored, setRestored] = useState(() => !isHydrating());
+  const [items, setItems] = useState<CartItem[]>(() => restored ? loadCart() : []);
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => {
+    if (restored) return;
+    setItems(loadCart());
+    setRestored(true);
+  }, [restored]);
+
+  // Once, after the saved cart is restored
+  useEffect(() => {
+    if (!restored) return;
+    const menuItemIds = [...new Set(items.filter(line => !line.imageUrl).map(line => line.menuItemId))];
+    if (menuItemIds.length === 0) return;
+
+    fetchCartItemImages(menuItemIds)
+      .then(images => setItems(prev => prev.map(line =>
+        line.imageUrl || !images[line.menuItemId] ? line : { ...line, imageUrl: images[line.menuItemId] }
+      )))
+      .catch(() => {
+        // The cart works without images
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [restored]);
+
+  // Persist the cart so it survives reloads and navigation
+  useEffect(() => {
+    if (restored) saveCart(items);
+  }, [items, restored]);
+
+  const addItem = (item: Omit<CartItem, "lineId" | "quantity">, quantity = 1) => {
+    const lineId = getCartLineId(item.menuItemId, item.modifiers);
+    setItems(prev => {
+      const existing = prev.find(line => line.lineId === lineId);
+      if (existing) {
+        return prev.map(line =>
+          line.lineId === lineId
+            ? { ...line, quantity: line.quantity + quantity }
+            : line
+        );
+      }
+      return [...prev, { ...item, lineId, quantity }];
+    });
+  };
+
+  const updateQuantity = (lineId: string, quantity: number) => {
+    setItems(prev =>
+      quantity < 1
+        ? prev.filter(line => line.lineId !== lineId)
+        : prev.map(line => line.lineId === lineId ? { ...line, quantity } : line)
+    );
+  };
+
+  const removeItem = (lineId: string) => {
+    setItems(prev => prev.filter(line => line.lineId !== lineId));
+  };
+
+  const clearCart = () => setItems([]);
+
+  const value = {
+    items,
+    itemCount: items.reduce((count, line) => count + line.quantity, 0),
+    subtotal: getCartSubtotal(items),
+    isOpen,
+    setIsOpen,
+    addItem,
+    updateQuantity,
+    removeItem,
+    clearCart,
+  };
+
+  return (
+    <CartContext.Provider value={value}>
+      {children}
+    </CartContext.Provider>
+  );
+};
+
+export const useCart = () => {
+  const context = useContext(CartContext);
+  if (context === undefined) {
+    throw new Error("useCart must be used within a CartProvider");
+  }
+  return context;
+};
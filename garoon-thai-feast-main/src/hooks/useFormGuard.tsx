@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { FormGuard, FormName, issueFormToken } from "@/lib/formGuard";
+
+// Null when the token couldn't be fetched; the server then refuses the form
+// with a message asking to reload
+const requestToken = (form: FormName) =>
+  issueFormToken(form).catch((error) => {
+    console.error('Error issuing form token:', error);
+    return null;
+  });
+
+// Honeypot value and form token, for the spam checks. The token is requested
+// after mount, so a prerendered page is timed from hydration, not the build.
+export const useFormGuard = (form: FormName) => {
+  const [honeypot, setHoneypot] = useState("");
+  const token = useRef<Promise<string | null> | null>(null);
+
+  useEffect(() => {
+    token.current = requestToken(form);
+  }, [form]);
+
+  // Each token works once, so every submit, even one that fails, takes the
+  // current token and the form gets a fresh one for the next attempt
+  const getGuard = useCallback(async (): Promise<FormGuard> => {
+    const current = token.current ?? requestToken(form);
+    token.current = requestToken(form);
+    return { honeypot, token: await current };
+  }, [form, honeypot]);
+
+  // After a successful submit
+  const reset = useCallback(() => {
+    setHoneypot("");
+  }, []);
+
+  return { honeypot, setHoneypot, getGuard, reset };
+};
@@ -0,0 +1,15 @@
+import { useEffect, useState } from "react";
+
+// The current time, refreshed every minute. Null for the first render so
+// prerendered markup, built at some earlier time, still hydrates.
+export const useNow = (intervalMs = 60_000) => {
+  const [now, setNow] = useState<Date | null>(null);
+
+  useEffect(() => {
+    setNow(new Date());
+    const timer = window.setInterval(() => setNow(new Date()), intervalMs);
+    return () => window.clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+};
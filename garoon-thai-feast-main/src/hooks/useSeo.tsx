@@ -0,0 +1,87 @@
+import { createContext, useContext, useEffect, useState } from "react";
+import { useLocation } from "react-router-dom";
+import { ContactInfo, fetchContactInfo } from "@/lib/contactInfo";
+import { FeedLinks } from "@/lib/feeds";
+import { collectPrerenderHead, getPrerendered, isHydrating } from "@/lib/prerender";
+import { PageSeo, SiteSeoSettings, applySeo, fetchSiteSeoSettings, resolveSeo, setFeedLinks } from "@/lib/seo";
+import { JsonLd, setStructuredData } from "@/lib/structuredData";
+
+interface SeoContextType {
+  settings: SiteSeoSettings | null;
+  contactInfo: ContactInfo | null;
+  loading: boolean;
+}
+
+const SeoContext = createContext<SeoContextType | undefined>(undefined);
+
+// Loads the site-wide seo_settings and contact_info once; pages layer their
+// own meta on top. Prerendered pages start with the values they were built
+// with, refreshed in the background.
+export const SeoProvider = ({ children }: { children: React.ReactNode }) => {
+  const [settings, setSettings] = useState<SiteSeoSettings | null>(() => getPrerendered("seoSettings") ?? null);
+  const [contactInfo, setContactInfo] = useState<ContactInfo | null>(() => getPrerendered("contactInfo") ?? null);
+  const [loading, setLoading] = useState(() => !isHydrating());
+
+  useEffect(() => {
+    Promise.all([
+      fetchSiteSeoSettings()
+        .then(setSettings)
+        .catch(error => console.error('Error fetching SEO settings:', error)),
+      fetchContactInfo()
+        .then(setContactInfo)
+        .catch(error => console.error('Error fetching contact info:', error)),
+    ]).finally(() => setLoading(false));
+  }, []);
+
+  return (
+    <SeoContext.Provider value={{ settings, contactInfo, loading }}>
+      {children}
+    </SeoContext.Provider>
+  );
+};
+
+export const useSiteSeo = () => {
+  const context = useContext(SeoContext);
+  if (context === undefined) {
+    throw new Error("useSiteSeo must be used within a SeoProvider");
+  }
+  return context;
+};
+
+// Set the document head for the current route. Re-applies whenever the page
+// meta, the site defaults or the path change. On the server the tags are
+// collected for the prerendered HTML instead.
+export const usePageSeo = (page: PageSeo = {}) => {
+  const { settings } = useSiteSeo();
+  const { pathname } = useLocation();
+  const pageKey = JSON.stringify(page);
+  if (import.meta.env.SSR) collectPrerenderHead({ seo: resolveSeo(page, settings, pathname) });
+
+  useEffect(() => {
+    applySeo(resolveSeo(JSON.parse(pageKey), settings, pathname));
+  }, [pageKey, settings, pathname]);
+};
+
+// Keep a JSON-LD block in <head> while the calling component is mounted.
+// Pass null until the data it describes has loaded.
+export const useStructuredData = (id: string, data: JsonLd | null) => {
+  const dataKey = data ? JSON.stringify(data) : null;
+  if (import.meta.env.SSR && data) collectPrerenderHead({ structuredData: { [id]: data } });
+
+  useEffect(() => {
+    setStructuredData(id, dataKey ? JSON.parse(dataKey) : null);
+  }, [id, dataKey]);
+
+  useEffect(() => () => setStructuredData(id, null), [id]);
+};
+
+// Advertise a news feed in <head> while the calling component is mounted
+export const useFeedLinks = (title: string, links: FeedLinks) => {
+  const { rss, atom } = links;
+  if (import.meta.env.SSR) collectPrerenderHead({ feed: { title, links } });
+
+  useEffect(() => {
+    setFeedLinks({ title, links: { rss, atom } });
+    return () => setFeedLinks(null);
+  }, [title, rss, atom]);
+};
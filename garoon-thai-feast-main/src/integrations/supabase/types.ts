@@ -14,9 +14,214 @@ export type Database = {
   }
   public: {
     Tables: {
+      article_categories: {
+        Row: {
+          created_at: string
+          description: string | null
+          display_order: number
+          id: string
+          name: string
+          slug: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          display_order?: number
+          id?: string
+          name: string
+          slug: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          display_order?: number
+          id?: string
+          name?: string
+          slug?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      article_preview_tokens: {
+        Row: {
+          article_id: string
+          created_at: string
+          created_by: string | null
+          expires_at: string
+          token: string
+        }
+        Insert: {
+          article_id: string
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string
+          token?: string
+        }
+        Update: {
+          article_id?: string
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "article_preview_tokens_article_id_fkey"
+            columns: ["article_id"]
+            isOneToOne: false
+            referencedRelation: "articles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      article_revisions: {
+        Row: {
+          article_id: string
+          category: string | null
+          category_id: string | null
+          content: string | null
+          created_at: string
+          created_by: string | null
+          created_by_name: string | null
+          featured_image: string | null
+          id: string
+          meta_description: string | null
+          meta_keywords: string | null
+          meta_title: string | null
+          published_at: string | null
+          slug: string | null
+          status: Database["public"]["Enums"]["article_status"] | null
+          title: string
+        }
+        Insert: {
+          article_id: string
+          category?: string | null
+          category_id?: string | null
+          content?: string | null
+          created_at?: string
+          created_by?: string | null
+          created_by_name?: string | null
+          featured_image?: string | null
+          id?: string
+          meta_description?: string | null
+          meta_keywords?: string | null
+          meta_title?: string | null
+          published_at?: string | null
+          slug?: string | null
+          status?: Database["public"]["Enums"]["article_status"] | null
+          title: string
+        }
+        Update: {
+          article_id?: string
+          category?: string | null
+          category_id?: string | null
+          content?: string | null
+          created_at?: string
+          created_by?: string | null
+          created_by_name?: string | null
+          featured_image?: string | null
+          id?: string
+          meta_description?: string | null
+          meta_keywords?: string | null
+          meta_title?: string | null
+          published_at?: string | null
+          slug?: string | null
+          status?: Database["public"]["Enums"]["article_status"] | null
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "article_revisions_article_id_fkey"
+            columns: ["article_id"]
+            isOneToOne: false
+            referencedRelation: "articles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      article_slug_history: {
+        Row: {
+          article_id: string
+          created_at: string
+          slug: string
+        }
+        Insert: {
+          article_id: string
+          created_at?: string
+          slug: string
+        }
+        Update: {
+          article_id?: string
+          created_at?: string
+          slug?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "article_slug_history_article_id_fkey"
+            columns: ["article_id"]
+            isOneToOne: false
+            referencedRelation: "articles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      article_tag_links: {
+        Row: {
+          article_id: string
+          tag_id: string
+        }
+        Insert: {
+          article_id: string
+          tag_id: string
+        }
+        Update: {
+          article_id?: string
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "article_tag_links_article_id_fkey"
+            columns: ["article_id"]
+            isOneToOne: false
+            referencedRelation: "articles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "article_tag_links_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "article_tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      article_tags: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          slug: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          slug: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          slug?: string
+        }
+        Relationships: []
+      }
       articles: {
         Row: {
           category: string | null
+          category_id: string | null
           content: string | null
           created_at: string
           featured_image: string | null
@@ -25,12 +230,15 @@ export type Database = {
           meta_keywords: string | null
           meta_title: string | null
           published_at: string | null
+          search_vector: unknown | null
+          slug: string
           status: Database["public"]["Enums"]["article_status"] | null
           title: string
           updated_at: string
         }
         Insert: {
           category?: string | null
+          category_id?: string | null
           content?: string | null
           created_at?: string
           featured_image?: string | null
@@ -39,12 +247,15 @@ export type Database = {
           meta_keywords?: string | null
           meta_title?: string | null
           published_at?: string | null
+          search_vector?: never
+          slug?: string
           status?: Database["public"]["Enums"]["article_status"] | null
           title: string
           updated_at?: string
         }
         Update: {
           category?: string | null
+          category_id?: string | null
           content?: string | null
           created_at?: string
           featured_image?: string | null
@@ -53,11 +264,21 @@ export type Database = {
           meta_keywords?: string | null
           meta_title?: string | null
           published_at?: string | null
+          search_vector?: never
+          slug?: string
           status?: Database["public"]["Enums"]["article_status"] | null
           title?: string
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "articles_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "article_categories"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       contact_info: {
         Row: {
@@ -95,23 +316,151 @@ export type Database = {
         }
         Relationships: []
       }
+      contact_message_replies: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          message_id: string
+          sent_by: string | null
+          sent_to: string
+          subject: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          id?: string
+          message_id: string
+          sent_by?: string | null
+          sent_to: string
+          subject: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          message_id?: string
+          sent_by?: string | null
+          sent_to?: string
+          subject?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contact_message_replies_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "contact_messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contact_messages: {
+        Row: {
+          created_at: string | null
+          email: string
+          id: string
+          internal_notes: string | null
+          message: string
+          name: string
+          spam_reasons: string[]
+          spam_score: number
+          status: string
+          subject: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string | null
+          email: string
+          id?: string
+          internal_notes?: string | null
+          message: string
+          name: string
+          spam_reasons?: string[]
+          spam_score?: number
+          status?: string
+          subject?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string | null
+          email?: string
+          id?: string
+          internal_notes?: string | null
+          message?: string
+          name?: string
+          spam_reasons?: string[]
+          spam_score?: number
+          status?: string
+          subject?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      media_assets: {
+        Row: {
+          alt_text: string | null
+          content_type: string
+          created_at: string
+          file_name: string
+          folder: string
+          height: number | null
+          id: string
+          path: string
+          size_bytes: number
+          updated_at: string
+          uploaded_by: string | null
+          width: number | null
+        }
+        Insert: {
+          alt_text?: string | null
+          content_type: string
+          created_at?: string
+          file_name: string
+          folder?: string
+          height?: number | null
+          id?: string
+          path: string
+          size_bytes?: number
+          updated_at?: string
+          uploaded_by?: string | null
+          width?: number | null
+        }
+        Update: {
+          alt_text?: string | null
+          content_type?: string
+          created_at?: string
+          file_name?: string
+          folder?: string
+          height?: number | null
+          id?: string
+          path?: string
+          size_bytes?: number
+          updated_at?: string
+          uploaded_by?: string | null
+          width?: number | null
+        }
+        Relationships: []
+      }
       member_subscriptions: {
         Row: {
           email: string
           id: string
           is_subscribed: boolean | null
+          spam_score: number
           subscribed_at: string
         }
         Insert: {
           email: string
           id?: string
           is_subscribed?: boolean | null
+          spam_score?: number
           subscribed_at?: string
         }
         Update: {
           email?: string
           id?: string
           is_subscribed?: boolean | null
+          spam_score?: number
           subscribed_at?: string
         }
         Relationships: []
@@ -205,6 +554,208 @@ export type Database = {
           },
         ]
       }
+      menu_option_groups: {
+        Row: {
+          created_at: string
+          display_order: number
+          id: string
+          max_select: number
+          menu_item_id: string
+          min_select: number
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          display_order?: number
+          id?: string
+          max_select?: number
+          menu_item_id: string
+          min_select?: number
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          display_order?: number
+          id?: string
+          max_select?: number
+          menu_item_id?: string
+          min_select?: number
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_option_groups_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      menu_options: {
+        Row: {
+          created_at: string
+          display_order: number
+          group_id: string
+          id: string
+          is_active: boolean
+          name: string
+          price_delta: number
+        }
+        Insert: {
+          created_at?: string
+          display_order?: number
+          group_id: string
+          id?: string
+          is_active?: boolean
+          name: string
+          price_delta?: number
+        }
+        Update: {
+          created_at?: string
+          display_order?: number
+          group_id?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          price_delta?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_options_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "menu_option_groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      orders: {
+        Row: {
+          created_at: string
+          customer_email: string
+          customer_name: string
+          customer_phone: string
+          id: string
+          notes: string | null
+          payment_method: string
+          payment_status: string
+          pickup_time: string
+          status: string
+          subtotal: number
+          total: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          customer_email: string
+          customer_name: string
+          customer_phone: string
+          id?: string
+          notes?: string | null
+          payment_method?: string
+          payment_status?: string
+          pickup_time: string
+          status?: string
+          subtotal?: number
+          total?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          customer_email?: string
+          customer_name?: string
+          customer_phone?: string
+          id?: string
+          notes?: string | null
+          payment_method?: string
+          payment_status?: string
+          pickup_time?: string
+          status?: string
+          subtotal?: number
+          total?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      order_items: {
+        Row: {
+          created_at: string
+          id: string
+          line_total: number
+          menu_item_id: string | null
+          modifiers: Json
+          name: string
+          order_id: string
+          quantity: number
+          unit_price: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          line_total: number
+          menu_item_id?: string | null
+          modifiers?: Json
+          name: string
+          order_id: string
+          quantity: number
+          unit_price: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          line_total?: number
+          menu_item_id?: string | null
+          modifiers?: Json
+          name?: string
+          order_id?: string
+          quantity?: number
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_items_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      prerender_hook: {
+        Row: {
+          id: boolean
+          last_sent_at: string | null
+          requested_at: string | null
+          updated_at: string
+          url: string | null
+        }
+        Insert: {
+          id?: boolean
+          last_sent_at?: string | null
+          requested_at?: string | null
+          updated_at?: string
+          url?: string | null
+        }
+        Update: {
+          id?: boolean
+          last_sent_at?: string | null
+          requested_at?: string | null
+          updated_at?: string
+          url?: string | null
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           created_at: string
@@ -232,6 +783,81 @@ export type Database = {
         }
         Relationships: []
       }
+      reservation_settings: {
+        Row: {
+          booking_window_days: number
+          created_at: string
+          id: string
+          last_seating_minutes: number
+          max_covers_per_slot: number
+          max_party_size: number
+          slot_interval_minutes: number
+          updated_at: string
+        }
+        Insert: {
+          booking_window_days?: number
+          created_at?: string
+          id?: string
+          last_seating_minutes?: number
+          max_covers_per_slot?: number
+          max_party_size?: number
+          slot_interval_minutes?: number
+          updated_at?: string
+        }
+        Update: {
+          booking_window_days?: number
+          created_at?: string
+          id?: string
+          last_seating_minutes?: number
+          max_covers_per_slot?: number
+          max_party_size?: number
+          slot_interval_minutes?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      reservations: {
+        Row: {
+          created_at: string
+          email: string
+          id: string
+          name: string
+          notes: string | null
+          party_size: number
+          phone: string
+          reservation_date: string
+          status: string
+          time_slot: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          id?: string
+          name: string
+          notes?: string | null
+          party_size: number
+          phone: string
+          reservation_date: string
+          status?: string
+          time_slot: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          id?: string
+          name?: string
+          notes?: string | null
+          party_size?: number
+          phone?: string
+          reservation_date?: string
+          status?: string
+          time_slot?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       seo_settings: {
         Row: {
           created_at: string
@@ -241,6 +867,7 @@ export type Database = {
           site_meta_description: string | null
           site_meta_keywords: string | null
           site_meta_title: string | null
+          site_url: string | null
           updated_at: string
         }
         Insert: {
@@ -251,6 +878,7 @@ export type Database = {
           site_meta_description?: string | null
           site_meta_keywords?: string | null
           site_meta_title?: string | null
+          site_url?: string | null
           updated_at?: string
         }
         Update: {
@@ -261,16 +889,208 @@ export type Database = {
           site_meta_description?: string | null
           site_meta_keywords?: string | null
           site_meta_title?: string | null
+          site_url?: string | null
           updated_at?: string
         }
         Relationships: []
       }
+      sitemap: {
+        Row: {
+          generated_at: string
+          id: boolean
+          url_count: number
+          xml: string
+        }
+        Insert: {
+          generated_at?: string
+          id?: boolean
+          url_count?: number
+          xml: string
+        }
+        Update: {
+          generated_at?: string
+          id?: boolean
+          url_count?: number
+          xml?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      article_plain_text: {
+        Args: {
+          content: string
+        }
+        Returns: string
+      }
+      create_reservation: {
+        Args: {
+          booking_date: string
+          booking_slot: string
+          guest_email: string
+          guest_name: string
+          guest_party_size: number
+          guest_phone: string
+          notes: string
+        }
+        Returns: Json
+      }
+      get_article_preview: {
+        Args: {
+          preview_token: string
+        }
+        Returns: {
+          category: string | null
+          category_id: string | null
+          content: string | null
+          created_at: string
+          featured_image: string | null
+          id: string
+          meta_description: string | null
+          meta_keywords: string | null
+          meta_title: string | null
+          published_at: string | null
+          search_vector: unknown | null
+          slug: string
+          status: Database["public"]["Enums"]["article_status"] | null
+          title: string
+          updated_at: string
+        }[]
+      }
+      get_related_articles: {
+        Args: {
+          current_article_id: string
+          max_results?: number
+        }
+        Returns: {
+          category: string | null
+          category_id: string | null
+          content: string | null
+          created_at: string
+          featured_image: string | null
+          id: string
+          meta_description: string | null
+          meta_keywords: string | null
+          meta_title: string | null
+          published_at: string | null
+          search_vector: unknown | null
+          slug: string
+          status: Database["public"]["Enums"]["article_status"] | null
+          title: string
+          updated_at: string
+        }[]
+      }
+      get_reservation_availability: {
+        Args: {
+          booking_date: string
+        }
+        Returns: {
+          time_slot: string
+          booked_covers: number
+        }[]
+      }
+      issue_form_token: {
+        Args: {
+          form_name: string
+        }
+        Returns: string
+      }
+      menu_category_anchor: {
+        Args: {
+          category_name: string
+        }
+        Returns: string
+      }
+      merge_article_categories: {
+        Args: {
+          source_id: string
+          target_id: string
+        }
+        Returns: undefined
+      }
+      merge_article_tags: {
+        Args: {
+          source_id: string
+          target_id: string
+        }
+        Returns: undefined
+      }
+      place_order: {
+        Args: {
+          customer_email: string
+          customer_name: string
+          customer_phone: string
+          notes: string
+          order_items: Json
+          pickup_time: string
+        }
+        Returns: Json
+      }
+      rebuild_sitemap: {
+        Args: never
+        Returns: string
+      }
+      rerun_prerender: {
+        Args: never
+        Returns: string
+      }
+      search_articles: {
+        Args: {
+          category_slug?: string
+          page_offset?: number
+          page_size?: number
+          search_query?: string
+          tag_slug?: string
+        }
+        Returns: {
+          id: string
+          slug: string
+          title: string
+          category: string
+          category_id: string
+          featured_image: string
+          published_at: string
+          created_at: string
+          title_highlight: string
+          excerpt: string
+          total_count: number
+        }[]
+      }
+      set_article_tags: {
+        Args: {
+          tag_names: string[]
+          target_article_id: string
+        }
+        Returns: undefined
+      }
+      slugify: {
+        Args: {
+          value: string
+        }
+        Returns: string
+      }
+      submit_contact_message: {
+        Args: {
+          contact_email: string
+          contact_message: string
+          contact_name: string
+          contact_subject: string
+          form_token?: string
+          honeypot: string
+        }
+        Returns: Json
+      }
+      subscribe_newsletter: {
+        Args: {
+          email_address: string
+          form_token?: string
+          honeypot: string
+        }
+        Returns: Json
+      }
     }
     Enums: {
       article_status: "draft" | "published" | "scheduled"
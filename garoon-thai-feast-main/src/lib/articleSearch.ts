@@ -0,0 +1,74 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { LIVE_ARTICLE_STATUSES } from "@/lib/articles";
+
+// Paginated News listing and full-text search, backed by search_articles()
+// in supabase/add-article-search.sql
+
+export type ArticleListItem = Database["public"]["Functions"]["search_articles"]["Returns"][number];
+
+export const NEWS_PAGE_SIZE = 9;
+
+// Markers ts_headline() puts around matches. Control characters, so they
+// can't clash with anything an editor typed.
+const HIGHLIGHT_START = "\u0002";
+const HIGHLIGHT_END = "\u0003";
+
+export interface ArticleSearchParams {
+  query?: string;
+  categorySlug?: string;
+  tagSlug?: string;
+  page?: number;
+}
+
+export const searchArticles = async ({ query, categorySlug, tagSlug, page = 1 }: ArticleSearchParams) => {
+  const { data, error } = await supabase.rpc('search_articles', {
+    search_query: query?.trim() || undefined,
+    category_slug: categorySlug,
+    tag_slug: tagSlug,
+    page_size: NEWS_PAGE_SIZE,
+    page_offset: (page - 1) * NEWS_PAGE_SIZE,
+  });
+
+  if (error) throw error;
+  const articles = data || [];
+  return {
+    articles,
+    total: articles[0]?.total_count ?? 0,
+  };
+};
+
+export const getPageCount = (total: number) => Math.max(1, Math.ceil(total / NEWS_PAGE_SIZE));
+
+// Headline text => plain and highlighted parts, rendered as text and <mark>
+// so nothing in the article is ever treated as HTML
+export const splitHighlights = (text: string) => {
+  const parts: { text: string; highlighted: boolean }[] = [];
+  let rest = text;
+  while (rest) {
+    const start = rest.indexOf(HIGHLIGHT_START);
+    const end = start === -1 ? -1 : rest.indexOf(HIGHLIGHT_END, start + HIGHLIGHT_START.length);
+    if (start === -1 || end === -1) {
+      parts.push({ text: rest, highlighted: false });
+      break;
+    }
+    if (start > 0) parts.push({ text: rest.slice(0, start), highlighted: false });
+    parts.push({ text: rest.slice(start + HIGHLIGHT_START.length, end), highlighted: true });
+    rest = rest.slice(end + HIGHLIGHT_END.length);
+  }
+  return parts;
+};
+
+// Categories with at least one live article, for the News filter
+export const fetchLiveArticleCategories = async () => {
+  const { data, error } = await supabase
+    .from('article_categories')
+    .select('id, name, slug, description, articles!inner(id)')
+    .in('articles.status', LIVE_ARTICLE_STATUSES)
+    .lte('articles.published_at', new Date().toISOString())
+    .order('display_order', { ascending: true })
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(({ articles, ...category }) => category);
+};
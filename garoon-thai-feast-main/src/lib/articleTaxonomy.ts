@@ -0,0 +1,169 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { ArticleRow, slugify } from "@/lib/articles";
+
+// Article categories and tags, see supabase/add-article-categories-and-tags.sql.
+// The database sets slugs from the name, numbering any that are taken;
+// slugify() only fills the insert.
+
+export type ArticleCategory = Database["public"]["Tables"]["article_categories"]["Row"];
+export type ArticleTag = Database["public"]["Tables"]["article_tags"]["Row"];
+
+export const getCategoryPath = (category: { slug: string }) => `/news/category/${category.slug}`;
+
+export const getTagPath = (tag: { slug: string }) => `/news/tag/${tag.slug}`;
+
+// Tag names as typed: trimmed, one space between words, duplicates removed
+// regardless of case
+export const normalizeTagNames = (names: string[]) => {
+  const seen = new Set<string>();
+  return names
+    .map(name => name.trim().replace(/\s+/g, " "))
+    .filter(name => {
+      const key = name.toLowerCase();
+      if (!name || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+export const fetchArticleCategories = async () => {
+  const { data, error } = await supabase
+    .from('article_categories')
+    .select('*')
+    .order('display_order', { ascending: true })
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchArticleTags = async () => {
+  const { data, error } = await supabase
+    .from('article_tags')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchArticleCategory = async (categoryId: string) => {
+  const { data, error } = await supabase
+    .from('article_categories')
+    .select('*')
+    .eq('id', categoryId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+export const fetchTagsForArticle = async (articleId: string): Promise<ArticleTag[]> => {
+  const { data, error } = await supabase
+    .from('article_tag_links')
+    .select('article_tags(*)')
+    .eq('article_id', articleId);
+
+  if (error) throw error;
+  return (data || [])
+    .map(link => link.article_tags)
+    .filter((tag): tag is ArticleTag => !!tag)
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Replaces an article's tags with the given names in one transaction,
+// creating tags that don't exist yet. Names match existing tags
+// case-insensitively or by slug.
+export const setArticleTags = async (articleId: string, names: string[]) => {
+  const { error } = await supabase.rpc('set_article_tags', {
+    target_article_id: articleId,
+    tag_names: normalizeTagNames(names),
+  });
+
+  if (error) throw error;
+};
+
+// Ranked by shared tags, then category, by get_related_articles()
+export const fetchRelatedArticles = async (articleId: string, limit = 3): Promise<ArticleRow[]> => {
+  const { data, error } = await supabase.rpc('get_related_articles', {
+    current_article_id: articleId,
+    max_results: limit,
+  });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const mergeArticleCategories = async (sourceId: string, targetId: string) => {
+  const { error } = await supabase.rpc('merge_article_categories', { source_id: sourceId, target_id: targetId });
+  if (error) throw error;
+};
+
+export const mergeArticleTags = async (sourceId: string, targetId: string) => {
+  const { error } = await supabase.rpc('merge_article_tags', { source_id: sourceId, target_id: targetId });
+  if (error) throw error;
+};
+
+// Categories or tags with the number of articles using each, for the admin
+export type TaxonomyEntry = {
+  id: string;
+  name: string;
+  slug: string;
+  description?: string | null;
+  articleCount: number;
+};
+
+export const fetchCategoryEntries = async (): Promise<TaxonomyEntry[]> => {
+  const { data, error } = await supabase
+    .from('article_categories')
+    .select('*, articles(count)')
+    .order('display_order', { ascending: true })
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(({ articles, ...category }) => ({
+    ...category,
+    articleCount: articles[0]?.count ?? 0,
+  }));
+};
+
+export const fetchTagEntries = async (): Promise<TaxonomyEntry[]> => {
+  const { data, error } = await supabase
+    .from('article_tags')
+    .select('*, article_tag_links(count)')
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(({ article_tag_links, ...tag }) => ({
+    ...tag,
+    articleCount: article_tag_links[0]?.count ?? 0,
+  }));
+};
+
+export const saveArticleCategory = async (values: { name: string; description?: string }, id?: string) => {
+  const row = { name: values.name.trim(), slug: slugify(values.name), description: values.description?.trim() || null };
+  const { error } = id
+    ? await supabase.from('article_categories').update(row).eq('id', id)
+    : await supabase.from('article_categories').insert([row]);
+  if (error) throw error;
+};
+
+export const saveArticleTag = async (values: { name: string }, id?: string) => {
+  const row = { name: values.name.trim(), slug: slugify(values.name) };
+  const { error } = id
+    ? await supabase.from('article_tags').update(row).eq('id', id)
+    : await supabase.from('article_tags').insert([row]);
+  if (error) throw error;
+};
+
+// Articles keep working: they lose the category, or just this tag
+export const deleteArticleCategory = async (id: string) => {
+  const { error } = await supabase.from('article_categories').delete().eq('id', id);
+  if (error) throw error;
+};
+
+export const deleteArticleTag = async (id: string) => {
+  const { error } = await supabase.from('article_tags').delete().eq('id', id);
+  if (error) throw error;
+};
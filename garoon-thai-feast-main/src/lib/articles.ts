@@ -0,0 +1,211 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type ArticleStatus = Database["public"]["Enums"]["article_status"];
+
+export const ARTICLE_STATUS_LABELS: Record<ArticleStatus, string> = {
+  draft: "Draft",
+  scheduled: "Scheduled",
+  published: "Published",
+};
+
+// Scheduled articles go live at published_at even if the publish job hasn't
+// flipped them to published yet. Public queries filter on both so nothing
+// shows early: .in('status', LIVE_ARTICLE_STATUSES).lte('published_at', now)
+export const LIVE_ARTICLE_STATUSES: ArticleStatus[] = ["published", "scheduled"];
+
+// ISO timestamp => value for <input type="datetime-local"> in the browser's timezone
+export const toDateTimeLocalValue = (iso: string | null | undefined) => {
+  if (!iso) return "";
+  const date = new Date(iso);
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
+export const formatPublishAt = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+// Same rules as slugify() and articles_slug_format in supabase/add-article-slugs.sql
+export const SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+// "Songkran Festival 2025!" => "songkran-festival-2025"
+export const slugify = (value: string) =>
+  value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 80)
+    .replace(/-+$/g, "") || "article";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const isUuid = (value: string) => UUID_PATTERN.test(value);
+
+export const getArticlePath = (article: { slug: string }) => `/news/${article.slug}`;
+
+// First free slug of base, base-2, base-3... Slugs held by other articles are
+// taken; old slugs in the history are only reused by the article that had them.
+export const findAvailableSlug = async (base: string, articleId?: string) => {
+  const [articles, history] = await Promise.all([
+    supabase.from('articles').select('id, slug').like('slug', `${base}%`),
+    supabase.from('article_slug_history').select('article_id, slug').like('slug', `${base}%`),
+  ]);
+  const error = articles.error || history.error;
+  if (error) throw error;
+
+  const taken = new Set([
+    ...(articles.data || []).filter(row => row.id !== articleId).map(row => row.slug),
+    ...(history.data || []).filter(row => row.article_id !== articleId).map(row => row.slug),
+  ]);
+  if (!taken.has(base)) return base;
+  let suffix = 2;
+  while (taken.has(`${base}-${suffix}`)) suffix += 1;
+  return `${base}-${suffix}`;
+};
+
+// Where an old slug now lives, or null if it was never used
+export const findRedirectSlug = async (oldSlug: string) => {
+  const { data, error } = await supabase
+    .from('article_slug_history')
+    .select('articles(slug)')
+    .eq('slug', oldSlug)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.articles?.slug ?? null;
+};
+
+export type ArticleRow = Database["public"]["Tables"]["articles"]["Row"];
+
+export type ArticleRevision = Database["public"]["Tables"]["article_revisions"]["Row"];
+
+// Fields a revision restores. Status and publish date stay as they are, so
+// restoring old wording never unpublishes or reschedules an article.
+export const REVISION_FIELDS = [
+  "title",
+  "slug",
+  "content",
+  "category",
+  "featured_image",
+  "meta_title",
+  "meta_description",
+  "meta_keywords",
+] as const;
+
+export type RevisionField = typeof REVISION_FIELDS[number];
+
+// Revisions are written by the record_article_revision trigger on every save
+export const fetchArticleRevisions = async (articleId: string) => {
+  const { data, error } = await supabase
+    .from('article_revisions')
+    .select('*')
+    .eq('article_id', articleId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// The category a revision restores: its category by id, under that category's
+// current name. Undefined leaves the article's category alone, when the
+// category has since been merged or deleted, or for revisions saved before
+// categories were managed that name one that no longer exists.
+const getRevisionCategoryId = async (revision: ArticleRevision) => {
+  if (!revision.category_id) return revision.category?.trim() ? undefined : null;
+
+  const { data, error } = await supabase
+    .from('article_categories')
+    .select('id')
+    .eq('id', revision.category_id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? data.id : undefined;
+};
+
+// Writes the revision's content back to the article, which records a new
+// revision in turn. The old slug is only reused if no other article took it.
+export const restoreArticleRevision = async (revision: ArticleRevision): Promise<ArticleRow> => {
+  const [slug, categoryId] = await Promise.all([
+    findAvailableSlug(revision.slug || slugify(revision.title), revision.article_id),
+    getRevisionCategoryId(revision),
+  ]);
+  const { data, error } = await supabase
+    .from('articles')
+    .update({
+      title: revision.title,
+      slug,
+      content: revision.content,
+      ...(categoryId !== undefined && { category_id: categoryId }),
+      featured_image: revision.featured_image,
+      meta_title: revision.meta_title,
+      meta_description: revision.meta_description,
+      meta_keywords: revision.meta_keywords,
+    })
+    .eq('id', revision.article_id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const getArticlePreviewPath = (articleId: string, token?: string) =>
+  `/news/preview/${articleId}${token ? `?token=${encodeURIComponent(token)}` : ""}`;
+
+// Creates a token for someone without an admin account, e.g. the owners
+// approving a draft. The database sets the 7-day expiry; see
+// supabase/create-article-preview-tokens.sql.
+export const createArticlePreviewLink = async (articleId: string) => {
+  const { data, error } = await supabase
+    .from('article_preview_tokens')
+    .insert([{ article_id: articleId }])
+    .select('token, expires_at')
+    .single();
+
+  if (error) throw error;
+  return {
+    url: `${window.location.origin}${getArticlePreviewPath(articleId, data.token)}`,
+    expiresAt: data.expires_at,
+  };
+};
+
+// Any article regardless of status. Without a token this relies on the admin
+// session, since the read policy lets editors see drafts.
+export const fetchArticlePreview = async (articleId: string, token?: string | null): Promise<ArticleRow | null> => {
+  if (token) {
+    const { data, error } = await supabase.rpc('get_article_preview', { preview_token: token });
+    if (error) throw error;
+    return data?.find(article => article.id === articleId) ?? null;
+  }
+
+  const { data, error } = await supabase
+    .from('articles')
+    .select('*')
+    .eq('id', articleId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// Every article visible to the public, newest first
+export const fetchLiveArticles = async (): Promise<ArticleRow[]> => {
+  const { data, error } = await supabase
+    .from('articles')
+    .select('*')
+    .in('status', LIVE_ARTICLE_STATUSES)
+    .lte('published_at', new Date().toISOString())
+    .order('published_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
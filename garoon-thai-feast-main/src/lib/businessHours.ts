@@ -0,0 +1,460 @@
+import type { Json } from "@/integrations/supabase/types";
+
+// Opening interval in minutes since midnight, e.g. 11:00-22:00 => { open: 660, close: 1320 }.
+// A shift that runs past midnight closes after 1440: 17:00-01:00 => { open: 1020, close: 1500 }.
+export interface TimeInterval {
+  open: number;
+  close: number;
+}
+
+// The restaurant's clock. Dates on the site are shown in it so they read the
+// same for every visitor, and prerendered pages match what the browser renders.
+export const RESTAURANT_TIME_ZONE = "Pacific/Auckland";
+
+export const DAY_NAMES = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"] as const;
+
+const dayIndexFromName = (name: string) =>
+  DAY_NAMES.findIndex(day => day.startsWith(name.trim().toLowerCase().slice(0, 3)));
+
+// "Monday", "Mon - Thu", "Fri, Sat" => list of day indexes (0 = Sunday)
+const parseDayKey = (key: string): number[] => {
+  const days = new Set<number>();
+  key.split(",").forEach(part => {
+    const [start, end] = part.split(/\s*(?:-|–|to)\s*/i);
+    const startIndex = dayIndexFromName(start || "");
+    if (startIndex < 0) return;
+    const endIndex = end ? dayIndexFromName(end) : startIndex;
+    if (endIndex < 0) return;
+    for (let i = startIndex; ; i = (i + 1) % 7) {
+      days.add(i);
+      if (i === endIndex) break;
+    }
+  });
+  return Array.from(days);
+};
+
+// "11:00 AM", "11am", "17:30" => minutes since midnight
+export const parseTimeOfDay = (value: string): number | null => {
+  const match = value.trim().toLowerCase().match(/^(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm)?$/);
+  if (!match) return null;
+  let hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  if (match[3] === "pm" && hours < 12) hours += 12;
+  if (match[3] === "am" && hours === 12) hours = 0;
+  if (hours > 24 || minutes > 59) return null;
+  return hours * 60 + minutes;
+};
+
+// A close at or before the open is the next morning, so 00:00 is midnight
+const toInterval = (open: number, close: number): TimeInterval => ({
+  open,
+  close: close <= open ? close + 24 * 60 : close,
+});
+
+// "11:00 AM - 2:00 PM, 5pm - 9pm" => intervals; "Closed" or unparseable => []
+const parseIntervals = (value: string): TimeInterval[] =>
+  value.split(/[,;&]|\band\b/i).flatMap(range => {
+    const [open, close] = range.split(/\s*(?:-|–|to)\s*/i);
+    const openMinutes = open ? parseTimeOfDay(open) : null;
+    const closeMinutes = close ? parseTimeOfDay(close) : null;
+    if (openMinutes === null || closeMinutes === null) return [];
+    return [toInterval(openMinutes, closeMinutes)];
+  });
+
+// A date that doesn't follow the weekly hours: a public holiday, a closure
+// or special hours. No intervals means closed all day.
+export interface HoursException {
+  date: string; // "YYYY-MM-DD"
+  label: string;
+  intervals: TimeInterval[];
+}
+
+// contact_info.business_hours. weekly is indexed like DAY_NAMES; a day with
+// no intervals is closed, and two intervals are a split shift.
+export interface BusinessHours {
+  weekly: TimeInterval[][];
+  exceptions: HoursException[];
+}
+
+// Stored as { weekly: { monday: [{ open: "11:00", close: "14:00" }, ...], ... },
+// exceptions: [{ date: "2026-12-25", label: "Christmas Day", hours: [] }] }
+// with times as "HH:MM"; a close at or before the open is after midnight.
+type StoredHours = Record<string, Json | undefined>;
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Older rows store it as a JSON string
+const normalizeBusinessHours = (businessHours: Json | null | undefined): StoredHours => {
+  if (typeof businessHours === "string") {
+    try { businessHours = JSON.parse(businessHours) as Json; } catch { return {}; }
+  }
+  if (!businessHours || typeof businessHours !== "object" || Array.isArray(businessHours)) return {};
+  return businessHours;
+};
+
+const isStoredObject = (value: Json | undefined): value is StoredHours =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const sortIntervals = (intervals: TimeInterval[]) => [...intervals].sort((a, b) => a.open - b.open);
+
+const parseStoredIntervals = (value: Json | undefined): TimeInterval[] => {
+  if (typeof value === "string") return parseIntervals(value);
+  if (!Array.isArray(value)) return [];
+  return sortIntervals(value.flatMap(interval => {
+    if (!isStoredObject(interval)) return [];
+    const open = typeof interval.open === "string" ? parseTimeOfDay(interval.open) : null;
+    const close = typeof interval.close === "string" ? parseTimeOfDay(interval.close) : null;
+    if (open === null || close === null) return [];
+    return [toInterval(open, close)];
+  }));
+};
+
+const parseExceptions = (value: Json | undefined): HoursException[] =>
+  (Array.isArray(value) ? value : [])
+    .flatMap(exception => {
+      if (!isStoredObject(exception)) return [];
+      if (typeof exception.date !== "string" || !DATE_KEY_PATTERN.test(exception.date)) return [];
+      return [{
+        date: exception.date,
+        label: typeof exception.label === "string" ? exception.label : "",
+        intervals: parseStoredIntervals(exception.hours),
+      }];
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+// Day-key maps from before the editor: { "Mon - Fri": "11am - 9pm" }
+const getIntervalsForWeekday = (hours: StoredHours, weekday: number): TimeInterval[] => {
+  for (const [key, value] of Object.entries(hours)) {
+    if (typeof value !== "string") continue;
+    if (parseDayKey(key).includes(weekday)) {
+      return sortIntervals(parseIntervals(value));
+    }
+  }
+  return [];
+};
+
+// Free text the old form saved as { text } when it wasn't valid JSON,
+// read line by line as "Monday: 11am - 9pm"
+const parseTextHours = (text: string): StoredHours =>
+  Object.fromEntries(text.split(/\r?\n/).flatMap(line => {
+    const match = line.match(/^\s*([^:]+?)\s*:\s*(.+)$/);
+    return match ? [[match[1], match[2]]] : [];
+  }));
+
+export const parseBusinessHours = (businessHours: Json | null | undefined): BusinessHours => {
+  const stored = normalizeBusinessHours(businessHours);
+  const weekly = stored.weekly;
+  if (isStoredObject(weekly)) {
+    return {
+      weekly: DAY_NAMES.map(day => parseStoredIntervals(weekly[day])),
+      exceptions: parseExceptions(stored.exceptions),
+    };
+  }
+
+  const legacy = typeof stored.text === "string" ? parseTextHours(stored.text) : stored;
+  return {
+    weekly: DAY_NAMES.map((_, weekday) => getIntervalsForWeekday(legacy, weekday)),
+    exceptions: [],
+  };
+};
+
+// 660 => "11:00", the stored format and what <input type="time"> takes.
+// Closes after midnight wrap round: 1440 => "00:00", 1500 => "01:00".
+export const toTimeValue = (minutes: number) => {
+  const wrapped = minutes % (24 * 60);
+  return `${Math.floor(wrapped / 60).toString().padStart(2, "0")}:${(wrapped % 60).toString().padStart(2, "0")}`;
+};
+
+const toStoredIntervals = (intervals: TimeInterval[]) =>
+  intervals.map(interval => ({ open: toTimeValue(interval.open), close: toTimeValue(interval.close) }));
+
+export const serializeBusinessHours = (hours: BusinessHours): Json => ({
+  weekly: Object.fromEntries(DAY_NAMES.map((day, weekday) => [day, toStoredIntervals(hours.weekly[weekday] || [])])),
+  exceptions: hours.exceptions.map(exception => ({
+    date: exception.date,
+    label: exception.label,
+    hours: toStoredIntervals(exception.intervals),
+  })),
+});
+
+// "YYYY-MM-DD" of a date in local time, like HoursException.date
+const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, "0")}-${date.getDate().toString().padStart(2, "0")}`;
+
+// Hours for a "YYYY-MM-DD" date: the exception for that day, or its weekday
+export const getDayHours = (hours: BusinessHours, date: string) => {
+  const exception = hours.exceptions.find(({ date: exceptionDate }) => exceptionDate === date);
+  return {
+    intervals: exception ? exception.intervals : hours.weekly[new Date(`${date}T00:00:00Z`).getUTCDay()],
+    holiday: exception?.label || null,
+  };
+};
+
+// Opening intervals for a given date, holidays and closures included
+export const getIntervalsForDate = (businessHours: Json | null | undefined, date: Date): TimeInterval[] =>
+  getDayHours(parseBusinessHours(businessHours), toDateKey(date)).intervals;
+
+// Opening intervals for each day of the week, indexed like DAY_NAMES
+export const getWeeklyIntervals = (businessHours: Json | null | undefined): TimeInterval[][] =>
+  parseBusinessHours(businessHours).weekly;
+
+export const hasBusinessHours = (hours: BusinessHours) => hours.weekly.some(intervals => intervals.length > 0);
+
+// Wall-clock time at the restaurant, whatever the visitor's time zone
+export interface RestaurantTime {
+  date: string; // "YYYY-MM-DD", like HoursException.date
+  weekday: number;
+  minutes: number;
+}
+
+const restaurantClock = new Intl.DateTimeFormat("en-US", {
+  timeZone: RESTAURANT_TIME_ZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  hourCycle: "h23",
+});
+
+export const getRestaurantTime = (now: Date): RestaurantTime => {
+  const parts = Object.fromEntries(restaurantClock.formatToParts(now).map(part => [part.type, part.value]));
+  const date = `${parts.year}-${parts.month}-${parts.day}`;
+  return {
+    date,
+    weekday: new Date(`${date}T00:00:00Z`).getUTCDay(),
+    minutes: parseInt(parts.hour, 10) * 60 + parseInt(parts.minute, 10),
+  };
+};
+
+// The instant a restaurant wall-clock time happens, e.g. for a pickup slot.
+// Corrected twice so dates either side of a daylight saving change land right.
+export const fromRestaurantTime = (date: string, minutes: number) => {
+  const target = Date.parse(`${date}T00:00:00Z`) + minutes * 60 * 1000;
+  let instant = target;
+  for (let i = 0; i < 2; i++) {
+    const clock = getRestaurantTime(new Date(instant));
+    instant += target - (Date.parse(`${clock.date}T00:00:00Z`) + clock.minutes * 60 * 1000);
+  }
+  return new Date(instant);
+};
+
+// "2026-12-31" + 1 => "2027-01-01"
+export const addDays = (date: string, days: number) => {
+  const value = new Date(`${date}T00:00:00Z`);
+  value.setUTCDate(value.getUTCDate() + days);
+  return value.toISOString().slice(0, 10);
+};
+
+// Exceptions from today at the restaurant on, for the next few weeks
+export const getUpcomingExceptions = (hours: BusinessHours, from: Date, days = 30) => {
+  const start = getRestaurantTime(from).date;
+  const end = addDays(start, days);
+  return hours.exceptions.filter(exception => exception.date >= start && exception.date <= end);
+};
+
+export interface OpeningStatus {
+  isOpen: boolean;
+  closesAt: number | null;
+  // Today's holiday or closure, if any
+  holiday: string | null;
+  // When closed. daysAhead is 0 for later today; null when nothing opens in the next fortnight
+  nextOpening: { date: string; daysAhead: number; opensAt: number } | null;
+}
+
+const STATUS_LOOKAHEAD_DAYS = 14;
+
+export const getOpeningStatus = (hours: BusinessHours, now: Date): OpeningStatus => {
+  const today = getRestaurantTime(now);
+  const { intervals, holiday } = getDayHours(hours, today.date);
+  const current = intervals.find(interval => interval.open <= today.minutes && today.minutes < interval.close);
+  if (current) return { isOpen: true, closesAt: current.close, holiday, nextOpening: null };
+
+  // Still in last night's shift, e.g. 12:30am when yesterday ran 5pm - 1am
+  const lateShift = getDayHours(hours, addDays(today.date, -1)).intervals
+    .find(interval => today.minutes + 24 * 60 < interval.close);
+  if (lateShift) return { isOpen: true, closesAt: lateShift.close - 24 * 60, holiday, nextOpening: null };
+
+  for (let daysAhead = 0; daysAhead <= STATUS_LOOKAHEAD_DAYS; daysAhead++) {
+    const date = addDays(today.date, daysAhead);
+    const next = getDayHours(hours, date).intervals.find(interval => daysAhead > 0 || interval.open > today.minutes);
+    if (next) return { isOpen: false, closesAt: null, holiday, nextOpening: { date, daysAhead, opensAt: next.open } };
+  }
+  return { isOpen: false, closesAt: null, holiday, nextOpening: null };
+};
+
+// "Open now · closes 9pm", "Closed · opens tomorrow 11am",
+// "Closed for Christmas Day · opens Saturday 11am"
+export const formatOpeningStatus = (status: OpeningStatus) => {
+  if (status.isOpen) return { label: "Open now", detail: `closes ${formatClosingTime(status.closesAt)}` };
+
+  const label = status.holiday ? `Closed for ${status.holiday}` : "Closed";
+  const next = status.nextOpening;
+  if (!next) return { label, detail: null };
+
+  const day = next.daysAhead === 0
+    ? ""
+    : next.daysAhead === 1
+      ? "tomorrow "
+      : next.daysAhead < 7
+        ? `${formatDayName(new Date(`${next.date}T00:00:00Z`).getUTCDay())} `
+        : `${formatExceptionDate(next.date)} `;
+  return { label, detail: `opens ${day}${formatMinutes(next.opensAt)}` };
+};
+
+export const formatMinutes = (minutes: number) => {
+  const hours24 = Math.floor(minutes / 60) % 24;
+  const mins = minutes % 60;
+  const suffix = hours24 < 12 ? "am" : "pm";
+  const hours12 = hours24 % 12 || 12;
+  return mins ? `${hours12}:${mins.toString().padStart(2, "0")}${suffix}` : `${hours12}${suffix}`;
+};
+
+// 660 => "11:00"; midnight is "23:59" as schema.org has no 24:00. Later
+// closes wrap round, 1500 => "01:00", which schema.org reads as the next day.
+export const formatTime24 = (minutes: number) => {
+  const value = minutes === 24 * 60 ? minutes - 1 : minutes % (24 * 60);
+  return `${Math.floor(value / 60).toString().padStart(2, "0")}:${(value % 60).toString().padStart(2, "0")}`;
+};
+
+const formatClosingTime = (minutes: number) => (minutes === 24 * 60 ? "midnight" : formatMinutes(minutes));
+
+// "11am – 2pm, 5pm – 9pm", or "Closed"
+export const formatIntervals = (intervals: TimeInterval[]) =>
+  intervals.length
+    ? intervals.map(interval => `${formatMinutes(interval.open)} – ${formatClosingTime(interval.close)}`).join(", ")
+    : "Closed";
+
+// The week as the site shows it, Monday first (indexes into DAY_NAMES)
+export const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const titleCase = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+export const formatDayName = (weekday: number) => titleCase(DAY_NAMES[weekday]);
+
+// Runs of days with the same hours share a line: { days: "Mon – Fri", hours: "11am – 9pm" }
+export const getWeeklySummary = (hours: BusinessHours) => {
+  const runs: { weekdays: number[]; hours: string }[] = [];
+  WEEK_ORDER.forEach(weekday => {
+    const formatted = formatIntervals(hours.weekly[weekday]);
+    const last = runs[runs.length - 1];
+    if (last && last.hours === formatted) last.weekdays.push(weekday);
+    else runs.push({ weekdays: [weekday], hours: formatted });
+  });
+  return runs.map(({ weekdays, hours: formatted }) => ({
+    days: weekdays.length === 1
+      ? formatDayName(weekdays[0])
+      : `${formatDayName(weekdays[0]).slice(0, 3)} – ${formatDayName(weekdays[weekdays.length - 1]).slice(0, 3)}`,
+    hours: formatted,
+  }));
+};
+
+// "2026-12-25" => "Fri 25 Dec", without the visitor's time zone moving the day
+export const formatExceptionDate = (date: string) => {
+  const [year, month, day] = date.split("-").map(Number);
+  const value = new Date(Date.UTC(year, month - 1, day));
+  const part = (options: Intl.DateTimeFormatOptions) => value.toLocaleDateString("en-NZ", { ...options, timeZone: "UTC" });
+  return `${part({ weekday: "short" })} ${part({ day: "numeric" })} ${part({ month: "short" })}`;
+};
+
+// Editable copy for the ContactManager editor. Times are "HH:MM" strings as
+// <input type="time"> gives them, so half-typed values survive until saving.
+export interface IntervalDraft {
+  id: string;
+  open: string;
+  close: string;
+}
+
+export interface HoursExceptionDraft {
+  id: string;
+  date: string;
+  label: string;
+  intervals: IntervalDraft[];
+}
+
+export interface BusinessHoursDraft {
+  weekly: IntervalDraft[][];
+  exceptions: HoursExceptionDraft[];
+}
+
+export const createIntervalDraft = (open = "11:00", close = "21:00"): IntervalDraft => ({
+  id: crypto.randomUUID(),
+  open,
+  close,
+});
+
+export const createExceptionDraft = (date = ""): HoursExceptionDraft => ({
+  id: crypto.randomUUID(),
+  date,
+  label: "",
+  intervals: [],
+});
+
+const toIntervalDrafts = (intervals: TimeInterval[]) =>
+  intervals.map(interval => createIntervalDraft(toTimeValue(interval.open), toTimeValue(interval.close)));
+
+export const toBusinessHoursDraft = (hours: BusinessHours): BusinessHoursDraft => ({
+  weekly: hours.weekly.map(toIntervalDrafts),
+  exceptions: hours.exceptions.map(exception => ({
+    ...createExceptionDraft(exception.date),
+    label: exception.label,
+    intervals: toIntervalDrafts(exception.intervals),
+  })),
+});
+
+const fromIntervalDrafts = (intervals: IntervalDraft[]) =>
+  sortIntervals(intervals.map(interval =>
+    toInterval(parseTimeOfDay(interval.open) ?? 0, parseTimeOfDay(interval.close) ?? 0)
+  ));
+
+// Call validateBusinessHoursDraft first
+export const fromBusinessHoursDraft = (draft: BusinessHoursDraft): BusinessHours => ({
+  weekly: draft.weekly.map(fromIntervalDrafts),
+  exceptions: draft.exceptions
+    .map(exception => ({
+      date: exception.date,
+      label: exception.label.trim(),
+      intervals: fromIntervalDrafts(exception.intervals),
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date)),
+});
+
+const validateIntervalDrafts = (name: string, intervals: IntervalDraft[]): string | null => {
+  for (const interval of intervals) {
+    const open = parseTimeOfDay(interval.open);
+    const close = parseTimeOfDay(interval.close);
+    if (open === null || close === null) return `${name}: enter an opening and closing time for every shift`;
+    if (close !== 0 && close === open) return `${name}: opening and closing times can't be the same`;
+  }
+  const sorted = fromIntervalDrafts(intervals);
+  if (sorted.some((interval, index) => index > 0 && interval.open < sorted[index - 1].close)) {
+    return `${name}: shifts overlap`;
+  }
+  return null;
+};
+
+export const validateBusinessHoursDraft = (draft: BusinessHoursDraft): string | null => {
+  for (const weekday of WEEK_ORDER) {
+    const error = validateIntervalDrafts(formatDayName(weekday), draft.weekly[weekday]);
+    if (error) return error;
+  }
+  // A shift past midnight has to finish before the next day opens
+  for (const weekday of WEEK_ORDER) {
+    const lastClose = Math.max(0, ...fromIntervalDrafts(draft.weekly[weekday]).map(interval => interval.close));
+    const nextDay = (weekday + 1) % 7;
+    const [firstNext] = fromIntervalDrafts(draft.weekly[nextDay]);
+    if (firstNext && lastClose - 24 * 60 > firstNext.open) {
+      return `${formatDayName(weekday)}: the late shift runs into ${formatDayName(nextDay)}'s opening hours`;
+    }
+  }
+  const dates = new Set<string>();
+  for (const exception of draft.exceptions) {
+    if (!DATE_KEY_PATTERN.test(exception.date)) return "Every holiday or closure needs a date";
+    const name = exception.label.trim() || formatExceptionDate(exception.date);
+    if (dates.has(exception.date)) return `${name}: there's already an entry for that date`;
+    dates.add(exception.date);
+    const error = validateIntervalDrafts(name, exception.intervals);
+    if (error) return error;
+  }
+  return null;
+};
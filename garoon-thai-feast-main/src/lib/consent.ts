@@ -0,0 +1,33 @@
+const CONSENT_STORAGE_KEY = "garoon_cookie_consent";
+const CONSENT_EVENT = "garoon:cookie-consent";
+
+// null means the visitor hasn't chosen yet
+export type CookieConsent = "granted" | "denied" | null;
+
+export const getCookieConsent = (): CookieConsent => {
+  try {
+    const stored = localStorage.getItem(CONSENT_STORAGE_KEY);
+    return stored === "granted" || stored === "denied" ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+export const setCookieConsent = (consent: CookieConsent) => {
+  try {
+    if (consent) {
+      localStorage.setItem(CONSENT_STORAGE_KEY, consent);
+    } else {
+      localStorage.removeItem(CONSENT_STORAGE_KEY);
+    }
+  } catch {
+    // Private browsing can block storage; the choice then lasts for this page only
+  }
+  window.dispatchEvent(new CustomEvent<CookieConsent>(CONSENT_EVENT, { detail: consent }));
+};
+
+export const onCookieConsentChange = (listener: (consent: CookieConsent) => void) => {
+  const handler = (event: Event) => listener((event as CustomEvent<CookieConsent>).detail);
+  window.addEventListener(CONSENT_EVENT, handler);
+  return () => window.removeEventListener(CONSENT_EVENT, handler);
+};
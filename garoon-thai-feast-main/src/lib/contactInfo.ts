@@ -0,0 +1,16 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type ContactInfo = Tables<"contact_info">;
+
+// contact_info holds a single row for the restaurant
+export const fetchContactInfo = async () => {
+  const { data, error } = await supabase
+    .from('contact_info')
+    .select('*')
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,133 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { FormGuard, getFormResult, toFormGuardArgs } from "@/lib/formGuard";
+
+export const CONTACT_MESSAGE_STATUSES = ["new", "read", "replied", "archived", "spam"] as const;
+
+export type ContactMessageStatus = typeof CONTACT_MESSAGE_STATUSES[number];
+
+export type ContactMessage = Omit<Tables<"contact_messages">, "status"> & { status: ContactMessageStatus };
+
+export type ContactMessageReply = Tables<"contact_message_replies">;
+
+export const CONTACT_MESSAGE_STATUS_LABELS: Record<ContactMessageStatus, string> = {
+  new: "New",
+  read: "Read",
+  replied: "Replied",
+  archived: "Archived",
+  spam: "Spam",
+};
+
+export interface ContactMessageInput {
+  name: string;
+  email: string;
+  subject?: string;
+  message: string;
+}
+
+// Validated, rate limited and scored by submit_contact_message(); likely
+// spam goes straight to the spam folder
+export const submitContactMessage = async (input: ContactMessageInput, guard: FormGuard) => {
+  const { data, error } = await supabase.rpc('submit_contact_message', {
+    contact_name: input.name.trim(),
+    contact_email: input.email.trim(),
+    contact_subject: input.subject?.trim() ?? "",
+    contact_message: input.message.trim(),
+    ...toFormGuardArgs(guard),
+  });
+
+  if (error) throw error;
+  getFormResult(data, "Failed to send message. Please try again later.");
+};
+
+export const fetchContactMessages = async () => {
+  const { data, error } = await supabase
+    .from('contact_messages')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as ContactMessage[];
+};
+
+// For the badge on the dashboard's Messages tab
+export const fetchUnreadMessageCount = async () => {
+  const { count, error } = await supabase
+    .from('contact_messages')
+    .select('id', { count: 'exact', head: true })
+    .eq('status', 'new');
+
+  if (error) throw error;
+  return count ?? 0;
+};
+
+export const updateContactMessage = async (
+  id: string,
+  changes: { status?: ContactMessageStatus; internal_notes?: string | null }
+) => {
+  const { error } = await supabase
+    .from('contact_messages')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+export const deleteContactMessage = async (id: string) => {
+  const { error } = await supabase
+    .from('contact_messages')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+export const fetchContactMessageReplies = async (messageId: string) => {
+  const { data, error } = await supabase
+    .from('contact_message_replies')
+    .select('*')
+    .eq('message_id', messageId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const getReplySubject = (message: ContactMessage) =>
+  `Re: ${message.subject?.trim() || "Your message to Easy Go Thai"}`;
+
+// Replies are drafted into the staff member's own mail app and sent from
+// there, so this records the draft; a database trigger marks the message as
+// replied
+export const logContactMessageReply = async (message: ContactMessage, subject: string, body: string) => {
+  const { data: { user } } = await supabase.auth.getUser();
+  const { data, error } = await supabase
+    .from('contact_message_replies')
+    .insert({
+      message_id: message.id,
+      sent_to: message.email,
+      subject: subject.trim(),
+      body: body.trim(),
+      sent_by: user?.id ?? null,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const getReplyMailto = (email: string, subject: string, body: string) =>
+  `mailto:${encodeURIComponent(email)}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+
+const escapeCsv = (value: string | null | undefined) => `"${(value ?? "").replace(/"/g, '""')}"`;
+
+export const toContactMessagesCsv = (messages: ContactMessage[]) =>
+  [
+    "Name,Email,Subject,Message,Status,Created At",
+    ...messages.map(message =>
+      [message.name, message.email, message.subject, message.message, CONTACT_MESSAGE_STATUS_LABELS[message.status], message.created_at]
+        .map(escapeCsv)
+        .join(",")
+    ),
+  ].join("\n");
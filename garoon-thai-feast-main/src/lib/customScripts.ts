@@ -0,0 +1,155 @@
+// seo_settings.custom_scripts is free text typed by admins. It is never
+// injected as HTML: only allowlisted <script src> tags and inline JSON-LD
+// survive parsing, and everything else is reported back to SEOManager.
+
+// Hosts (and their subdomains) that external scripts may be loaded from
+export const ALLOWED_SCRIPT_HOSTS = [
+  "googletagmanager.com",
+  "google-analytics.com",
+  "connect.facebook.net",
+  "static.hotjar.com",
+  "plausible.io",
+  "cdn.usefathom.com",
+  "analytics.tiktok.com",
+];
+
+export type CustomScript =
+  | { kind: "external"; src: string; host: string; async: boolean; defer: boolean }
+  | { kind: "json-ld"; json: string; type: string };
+
+export interface CustomScriptIssue {
+  snippet: string;
+  message: string;
+}
+
+export interface ParsedCustomScripts {
+  scripts: CustomScript[];
+  issues: CustomScriptIssue[];
+}
+
+const isAllowedHost = (host: string) =>
+  ALLOWED_SCRIPT_HOSTS.some(allowed => host === allowed || host.endsWith(`.${allowed}`));
+
+const describeNode = (node: Element) => {
+  const html = node.outerHTML.replace(/\s+/g, " ");
+  return html.length > 80 ? `${html.slice(0, 79)}…` : html;
+};
+
+const getJsonLdType = (value: unknown): string => {
+  if (Array.isArray(value)) return value.map(getJsonLdType).join(", ");
+  const type = (value as Record<string, unknown>)["@type"];
+  return typeof type === "string" ? type : "JSON-LD";
+};
+
+const parseScriptElement = (element: HTMLScriptElement): CustomScript | CustomScriptIssue => {
+  const snippet = describeNode(element);
+  const type = (element.getAttribute("type") || "").trim().toLowerCase();
+  const src = element.getAttribute("src");
+
+  if (src) {
+    let url: URL;
+    try {
+      url = new URL(src, "https://invalid.local");
+    } catch {
+      return { snippet, message: "The script URL is not valid." };
+    }
+    if (url.protocol !== "https:" || url.hostname === "invalid.local") {
+      return { snippet, message: "Script URLs must be absolute https:// links." };
+    }
+    if (!isAllowedHost(url.hostname)) {
+      return { snippet, message: `${url.hostname} is not an allowed script host.` };
+    }
+    if (element.textContent?.trim()) {
+      return { snippet, message: "Scripts with a src cannot also contain inline code." };
+    }
+    return {
+      kind: "external",
+      src: url.href,
+      host: url.hostname,
+      async: element.hasAttribute("async"),
+      defer: element.hasAttribute("defer"),
+    };
+  }
+
+  if (type === "application/ld+json") {
+    const text = element.textContent?.trim() || "";
+    try {
+      const value = JSON.parse(text);
+      if (typeof value !== "object" || value === null) {
+        return { snippet, message: "JSON-LD must be an object or an array." };
+      }
+      // Re-serialize so nothing but the parsed JSON reaches the page
+      return { kind: "json-ld", json: JSON.stringify(value), type: getJsonLdType(value) };
+    } catch {
+      return { snippet, message: "The JSON-LD block is not valid JSON." };
+    }
+  }
+
+  return { snippet, message: "Inline JavaScript is not allowed. Use a <script src> from an allowed host." };
+};
+
+export const parseCustomScripts = (source: string | null | undefined): ParsedCustomScripts => {
+  const result: ParsedCustomScripts = { scripts: [], issues: [] };
+  if (!source?.trim()) return result;
+
+  // DOMParser never executes scripts, so parsing untrusted markup here is safe
+  const doc = new DOMParser().parseFromString(`<body>${source}</body>`, "text/html");
+  const seen = new Set<string>();
+
+  Array.from(doc.body.children).forEach(element => {
+    if (!(element instanceof HTMLScriptElement)) {
+      result.issues.push({
+        snippet: describeNode(element),
+        message: `<${element.tagName.toLowerCase()}> elements are not allowed and will be ignored.`,
+      });
+      return;
+    }
+    const parsed = parseScriptElement(element);
+    if ("message" in parsed) {
+      result.issues.push(parsed);
+      return;
+    }
+    const key = parsed.kind === "external" ? parsed.src : parsed.json;
+    if (seen.has(key)) return;
+    seen.add(key);
+    result.scripts.push(parsed);
+  });
+
+  const strayText = Array.from(doc.body.childNodes)
+    .some(node => node.nodeType === Node.TEXT_NODE && node.textContent?.trim());
+  if (strayText) {
+    result.issues.push({ snippet: "Text outside of a tag", message: "Loose text is not allowed and will be ignored." });
+  }
+
+  return result;
+};
+
+// Marks injected tags so a script is only ever added once per page load
+const INJECTED_ATTR = "data-custom-script";
+
+const isInjected = (key: string) =>
+  Array.from(document.head.querySelectorAll(`[${INJECTED_ATTR}]`))
+    .some(element => element.getAttribute(INJECTED_ATTR) === key);
+
+export const injectCustomScripts = (scripts: CustomScript[]) => {
+  scripts.forEach(script => {
+    const key = script.kind === "external" ? script.src : script.json;
+    if (isInjected(key)) return;
+
+    const element = document.createElement("script");
+    element.setAttribute(INJECTED_ATTR, key);
+    if (script.kind === "external") {
+      element.src = script.src;
+      element.async = script.async;
+      element.defer = script.defer;
+    } else {
+      element.type = "application/ld+json";
+      element.textContent = script.json;
+    }
+    document.head.appendChild(element);
+  });
+};
+
+// Tracking scripts can't be unloaded; a reload is the only way to drop them
+export const hasInjectedTrackingScripts = () =>
+  document.head.querySelector(`script[${INJECTED_ATTR}][src]`) !== null;
@@ -0,0 +1,87 @@
+// Line diff for comparing article revisions, based on the longest common
+// subsequence. Articles are at most a few hundred lines, so the O(n·m) table
+// is cheap enough to build in the browser.
+
+export type DiffLine =
+  | { type: "same"; value: string }
+  | { type: "removed"; value: string }
+  | { type: "added"; value: string };
+
+// One row of a side-by-side view. A missing side renders as an empty cell.
+export interface DiffRow {
+  left: { type: "same" | "removed"; value: string } | null;
+  right: { type: "same" | "added"; value: string } | null;
+}
+
+const splitLines = (text: string | null | undefined) =>
+  (text ?? "").replace(/\r\n?/g, "\n").split("\n");
+
+export const diffLines = (before: string | null | undefined, after: string | null | undefined): DiffLine[] => {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: "same", value: a[i] });
+      i += 1;
+      j += 1;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ type: "removed", value: a[i] });
+      i += 1;
+    } else {
+      lines.push({ type: "added", value: b[j] });
+      j += 1;
+    }
+  }
+  while (i < a.length) lines.push({ type: "removed", value: a[i++] });
+  while (j < b.length) lines.push({ type: "added", value: b[j++] });
+
+  return lines;
+};
+
+// Pair removed and added lines in the same run so changed lines sit side by side
+export const toSideBySide = (lines: DiffLine[]): DiffRow[] => {
+  const rows: DiffRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({
+        left: removed[k] ? { type: "removed", value: removed[k].value } : null,
+        right: added[k] ? { type: "added", value: added[k].value } : null,
+      });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of lines) {
+    if (line.type === "removed") {
+      removed.push(line);
+    } else if (line.type === "added") {
+      added.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  }
+  flush();
+
+  return rows;
+};
+
+export const hasChanges = (lines: DiffLine[]) => lines.some(line => line.type !== "same");
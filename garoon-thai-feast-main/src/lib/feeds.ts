@@ -0,0 +1,169 @@
+// RSS 2.0 and Atom feeds for published news. The XML is written at build time
+// by plugins/newsFeeds.ts, so this module only uses relative imports and no
+// browser APIs.
+import { getExcerpt } from "./markdown";
+
+// Same as SITE_NAME in seo.ts, which pulls in the Supabase client and can't
+// be loaded during the build
+const SITE_NAME = "Easy Go Thai";
+
+export const FEED_ITEM_LIMIT = 30;
+
+export interface FeedArticle {
+  slug: string;
+  title: string;
+  content: string | null;
+  category: string | null;
+  featured_image: string | null;
+  published_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FeedCategory {
+  name: string;
+  slug: string;
+  description?: string | null;
+}
+
+export interface FeedLinks {
+  rss: string;
+  atom: string;
+}
+
+// Site-relative paths, e.g. /feeds/news.xml or /feeds/category/events.atom
+export const getFeedPaths = (categorySlug?: string): FeedLinks => {
+  const base = categorySlug ? `/feeds/category/${categorySlug}` : "/feeds/news";
+  return { rss: `${base}.xml`, atom: `${base}.atom` };
+};
+
+export const getFeedTitle = (category?: FeedCategory | null) =>
+  category ? `${SITE_NAME} News: ${category.name}` : `${SITE_NAME} News`;
+
+// Also drops control characters, which aren't allowed anywhere in XML
+const escapeXml = (value: string) =>
+  value
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const IMAGE_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  gif: "image/gif",
+  avif: "image/avif",
+};
+
+// Inline data URLs are left out: feed readers expect a link to download
+const getImage = (siteUrl: string, image: string | null) => {
+  if (!image || image.startsWith("data:")) return null;
+  const url = /^https?:\/\//i.test(image) ? image : `${siteUrl}${image.startsWith("/") ? "" : "/"}${image}`;
+  const extension = url.split(/[?#]/)[0].split(".").pop()?.toLowerCase() ?? "";
+  return { url, type: IMAGE_TYPES[extension] ?? "image/jpeg" };
+};
+
+interface FeedOptions {
+  siteUrl: string;
+  category?: FeedCategory | null;
+  articles: FeedArticle[];
+}
+
+const getFeedMeta = ({ siteUrl, category }: FeedOptions) => ({
+  title: getFeedTitle(category),
+  description: category?.description
+    || (category
+      ? `${category.name} news from ${SITE_NAME}.`
+      : `The latest news, events and specials from ${SITE_NAME}.`),
+  htmlUrl: `${siteUrl}${category ? `/news/category/${category.slug}` : "/news"}`,
+  paths: getFeedPaths(category?.slug),
+});
+
+const getItem = (siteUrl: string, article: FeedArticle) => ({
+  title: article.title,
+  url: `${siteUrl}/news/${article.slug}`,
+  summary: getExcerpt(article.content, 300),
+  published: article.published_at || article.created_at,
+  updated: article.updated_at,
+  category: article.category,
+  image: getImage(siteUrl, article.featured_image),
+});
+
+export const buildRssFeed = (options: FeedOptions) => {
+  const meta = getFeedMeta(options);
+  const items = options.articles.map(article => {
+    const item = getItem(options.siteUrl, article);
+    return [
+      "    <item>",
+      `      <title>${escapeXml(item.title)}</title>`,
+      `      <link>${escapeXml(item.url)}</link>`,
+      `      <guid isPermaLink="true">${escapeXml(item.url)}</guid>`,
+      `      <pubDate>${new Date(item.published).toUTCString()}</pubDate>`,
+      `      <description>${escapeXml(item.summary)}</description>`,
+      item.category && `      <category>${escapeXml(item.category)}</category>`,
+      // The size isn't known without downloading the image; 0 is the accepted placeholder
+      item.image && `      <enclosure url="${escapeXml(item.image.url)}" length="0" type="${item.image.type}" />`,
+      "    </item>",
+    ].filter(Boolean).join("\n");
+  });
+  const lastBuild = options.articles[0]?.published_at || options.articles[0]?.created_at;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    "  <channel>",
+    `    <title>${escapeXml(meta.title)}</title>`,
+    `    <link>${escapeXml(meta.htmlUrl)}</link>`,
+    `    <description>${escapeXml(meta.description)}</description>`,
+    "    <language>en-nz</language>",
+    `    <atom:link href="${escapeXml(`${options.siteUrl}${meta.paths.rss}`)}" rel="self" type="application/rss+xml" />`,
+    lastBuild && `    <lastBuildDate>${new Date(lastBuild).toUTCString()}</lastBuildDate>`,
+    ...items,
+    "  </channel>",
+    "</rss>",
+    "",
+  ].filter(Boolean).join("\n");
+};
+
+export const buildAtomFeed = (options: FeedOptions) => {
+  const meta = getFeedMeta(options);
+  const entries = options.articles.map(article => {
+    const item = getItem(options.siteUrl, article);
+    return [
+      "  <entry>",
+      `    <title>${escapeXml(item.title)}</title>`,
+      `    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}" />`,
+      `    <id>${escapeXml(item.url)}</id>`,
+      `    <published>${new Date(item.published).toISOString()}</published>`,
+      `    <updated>${new Date(item.updated).toISOString()}</updated>`,
+      `    <summary>${escapeXml(item.summary)}</summary>`,
+      item.category && `    <category term="${escapeXml(item.category)}" />`,
+      item.image && `    <link rel="enclosure" type="${item.image.type}" href="${escapeXml(item.image.url)}" />`,
+      "  </entry>",
+    ].filter(Boolean).join("\n");
+  });
+  const updated = options.articles.reduce(
+    (latest, article) => (article.updated_at > latest ? article.updated_at : latest),
+    "1970-01-01T00:00:00.000Z"
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en-NZ">',
+    `  <title>${escapeXml(meta.title)}</title>`,
+    `  <subtitle>${escapeXml(meta.description)}</subtitle>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(meta.htmlUrl)}" />`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(`${options.siteUrl}${meta.paths.atom}`)}" />`,
+    `  <id>${escapeXml(`${options.siteUrl}${meta.paths.atom}`)}</id>`,
+    `  <updated>${new Date(updated).toISOString()}</updated>`,
+    `  <author><name>${escapeXml(SITE_NAME)}</name></author>`,
+    ...entries,
+    "</feed>",
+    "",
+  ].join("\n");
+};
@@ -0,0 +1,38 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Sent with the public contact and newsletter forms and checked by
+// supabase/add-form-spam-protection.sql
+export type FormName = "contact" | "newsletter";
+
+export interface FormGuard {
+  // The hidden HoneypotField; people leave it empty
+  honeypot: string;
+  // From issueFormToken() when the form was shown. The server measures the
+  // time on the form from it, and each token works once.
+  token: string | null;
+}
+
+interface FormResult {
+  success: boolean;
+  message: string;
+}
+
+export const issueFormToken = async (form: FormName) => {
+  const { data, error } = await supabase.rpc('issue_form_token', { form_name: form });
+  if (error) throw error;
+  return data;
+};
+
+export const toFormGuardArgs = (guard: FormGuard) => ({
+  honeypot: guard.honeypot,
+  form_token: guard.token ?? undefined,
+});
+
+// The functions return { success, message }, with a message fit to show the visitor
+export const getFormResult = (data: unknown, defaultMessage: string) => {
+  const result = data as FormResult | null;
+  if (!result?.success) {
+    throw new Error(result?.message || defaultMessage);
+  }
+  return result;
+};
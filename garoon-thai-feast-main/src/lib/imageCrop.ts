@@ -0,0 +1,96 @@
+// Aspect ratio presets for cropping uploads before they go to the media library
+export interface CropPreset {
+  label: string;
+  // width / height; null keeps the original shape
+  aspect: number | null;
+  // Longest output edge in pixels
+  maxWidth: number;
+}
+
+export const CROP_PRESETS = {
+  menu: { label: "Menu card (4:3)", aspect: 4 / 3, maxWidth: 1200 },
+  og: { label: "Open Graph (1.91:1)", aspect: 1.91, maxWidth: 1200 },
+  article: { label: "Article (16:9)", aspect: 16 / 9, maxWidth: 1600 },
+  original: { label: "Original", aspect: null, maxWidth: 1600 },
+} satisfies Record<string, CropPreset>;
+
+export type CropPresetKey = keyof typeof CROP_PRESETS;
+
+// Crop state from the cropper: zoom >= 1 and pan offsets in -1..1 where 0 is centred
+export interface CropState {
+  zoom: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+export const DEFAULT_CROP: CropState = { zoom: 1, offsetX: 0, offsetY: 0 };
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Largest rectangle of the given aspect that fits the image, shrunk by zoom
+// and moved by the pan offsets, in source image pixels
+export const getCropRect = (
+  imageWidth: number,
+  imageHeight: number,
+  aspect: number | null,
+  { zoom, offsetX, offsetY }: CropState
+): CropRect => {
+  const targetAspect = aspect ?? imageWidth / imageHeight;
+  let width = imageWidth;
+  let height = width / targetAspect;
+  if (height > imageHeight) {
+    height = imageHeight;
+    width = height * targetAspect;
+  }
+  width /= zoom;
+  height /= zoom;
+
+  const maxX = imageWidth - width;
+  const maxY = imageHeight - height;
+  return {
+    x: (maxX / 2) * (1 + offsetX),
+    y: (maxY / 2) * (1 + offsetY),
+    width,
+    height,
+  };
+};
+
+export const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = "anonymous";
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Could not load image"));
+    image.src = src;
+  });
+
+// Draw the cropped area onto a canvas, scaled down to the preset's max width
+export const cropImage = async (
+  image: HTMLImageElement,
+  rect: CropRect,
+  maxWidth: number,
+  type: "image/jpeg" | "image/webp" | "image/png" = "image/jpeg"
+) => {
+  const scale = Math.min(1, maxWidth / rect.width);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(rect.width * scale);
+  canvas.height = Math.round(rect.height * scale);
+
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not supported in this browser");
+  context.imageSmoothingQuality = "high";
+  context.drawImage(image, rect.x, rect.y, rect.width, rect.height, 0, 0, canvas.width, canvas.height);
+
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error("Failed to crop image"))),
+      type,
+      0.88
+    );
+  });
+};
@@ -0,0 +1,274 @@
+// A small Markdown parser for article content. It produces a plain tree that
+// components/Markdown.tsx renders as React elements, so raw HTML in an article
+// is always shown as text and never injected into the page.
+//
+// Supported: # headings, paragraphs, - / 1. lists, > quotes, ``` code blocks,
+// --- rules, **bold**, *italic*, `code`, [links](url) and ![images](url).
+// Single line breaks are kept, as articles written before Markdown rely on them.
+
+export type MarkdownInline =
+  | { type: "text"; value: string }
+  | { type: "strong"; children: MarkdownInline[] }
+  | { type: "em"; children: MarkdownInline[] }
+  | { type: "code"; value: string }
+  | { type: "link"; href: string; children: MarkdownInline[] }
+  | { type: "image"; src: string; alt: string }
+  | { type: "break" };
+
+export type MarkdownBlock =
+  | { type: "heading"; level: number; children: MarkdownInline[] }
+  | { type: "paragraph"; children: MarkdownInline[] }
+  | { type: "list"; ordered: boolean; items: MarkdownInline[][] }
+  | { type: "blockquote"; children: MarkdownBlock[] }
+  | { type: "code"; value: string }
+  | { type: "hr" };
+
+// A path on this site. Browsers read "//host" and "/\host" as another site.
+const SITE_PATH = /^\/(?![/\\])/;
+
+// Links may point to the web, email, phone or somewhere on this site
+export const getSafeHref = (url: string): string | null => {
+  const trimmed = url.trim();
+  if (/^(https?:|mailto:|tel:)/i.test(trimmed)) return trimmed;
+  if (trimmed.startsWith("#") || SITE_PATH.test(trimmed)) return trimmed;
+  return null;
+};
+
+// Images only from the web or this site
+export const getSafeImageSrc = (url: string): string | null => {
+  const trimmed = url.trim();
+  if (/^https?:\/\//i.test(trimmed)) return trimmed;
+  if (SITE_PATH.test(trimmed)) return trimmed;
+  return null;
+};
+
+const LINK_PATTERN = /^\[([^\]]+)\]\(\s*([^)\s]+)(?:\s+"[^"]*")?\s*\)/;
+const IMAGE_PATTERN = /^!\[([^\]]*)\]\(\s*([^)\s]+)(?:\s+"[^"]*")?\s*\)/;
+const ESCAPABLE = "\\`*_{}[]()#+-.!>";
+
+const isWordChar = (char: string | undefined) => !!char && /[A-Za-z0-9]/.test(char);
+
+export const parseInline = (source: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let text = "";
+  const flush = () => {
+    if (text) nodes.push({ type: "text", value: text });
+    text = "";
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    const rest = source.slice(i);
+
+    if (char === "\\" && ESCAPABLE.includes(source[i + 1] ?? "")) {
+      text += source[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === "\n") {
+      flush();
+      nodes.push({ type: "break" });
+      i += 1;
+      continue;
+    }
+
+    if (char === "`") {
+      const end = source.indexOf("`", i + 1);
+      if (end > i + 1) {
+        flush();
+        nodes.push({ type: "code", value: source.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (char === "!" && source[i + 1] === "[") {
+      const match = rest.match(IMAGE_PATTERN);
+      if (match) {
+        const src = getSafeImageSrc(match[2]);
+        flush();
+        nodes.push(src ? { type: "image", src, alt: match[1] } : { type: "text", value: match[1] });
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    if (char === "[") {
+      const match = rest.match(LINK_PATTERN);
+      if (match) {
+        const href = getSafeHref(match[2]);
+        const children = parseInline(match[1]);
+        flush();
+        if (href) {
+          nodes.push({ type: "link", href, children });
+        } else {
+          nodes.push(...children);
+        }
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    if ((char === "*" || char === "_") && source[i + 1] === char) {
+      const marker = char + char;
+      const end = source.indexOf(marker, i + 2);
+      if (end > i + 2 && source[i + 2] !== " ") {
+        flush();
+        nodes.push({ type: "strong", children: parseInline(source.slice(i + 2, end)) });
+        i = end + 2;
+        continue;
+      }
+    }
+
+    // Underscores inside words (snake_case) are not emphasis
+    if ((char === "*" || (char === "_" && !isWordChar(source[i - 1]))) && source[i + 1] !== " ") {
+      let end = source.indexOf(char, i + 1);
+      while (end > 0 && source[end + 1] === char) end = source.indexOf(char, end + 2);
+      if (end > i + 1 && !(char === "_" && isWordChar(source[end + 1]))) {
+        flush();
+        nodes.push({ type: "em", children: parseInline(source.slice(i + 1, end)) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    text += char;
+    i += 1;
+  }
+
+  flush();
+  return nodes;
+};
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const HR = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const UNORDERED_ITEM = /^\s{0,3}[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\s{0,3}\d{1,9}[.)]\s+(.*)$/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+const FENCE = /^\s{0,3}```/;
+
+const startsBlock = (line: string) =>
+  HEADING.test(line) || HR.test(line) || UNORDERED_ITEM.test(line) ||
+  ORDERED_ITEM.test(line) || QUOTE.test(line) || FENCE.test(line);
+
+export const parseMarkdown = (source: string | null | undefined): MarkdownBlock[] => {
+  const lines = (source ?? "").replace(/\r\n?/g, "\n").split("\n");
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i += 1;
+      continue;
+    }
+
+    if (FENCE.test(line)) {
+      const code: string[] = [];
+      i += 1;
+      while (i < lines.length && !FENCE.test(lines[i])) {
+        code.push(lines[i]);
+        i += 1;
+      }
+      blocks.push({ type: "code", value: code.join("\n") });
+      i += 1;
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: "heading", level: heading[1].length, children: parseInline(heading[2]) });
+      i += 1;
+      continue;
+    }
+
+    if (HR.test(line)) {
+      blocks.push({ type: "hr" });
+      i += 1;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(lines[i].match(QUOTE)![1]);
+        i += 1;
+      }
+      blocks.push({ type: "blockquote", children: parseMarkdown(quoted.join("\n")) });
+      continue;
+    }
+
+    const ordered = ORDERED_ITEM.test(line);
+    if (ordered || UNORDERED_ITEM.test(line)) {
+      const pattern = ordered ? ORDERED_ITEM : UNORDERED_ITEM;
+      const items: MarkdownInline[][] = [];
+      while (i < lines.length && pattern.test(lines[i])) {
+        items.push(parseInline(lines[i].match(pattern)![1]));
+        i += 1;
+      }
+      blocks.push({ type: "list", ordered, items });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !startsBlock(lines[i]))) {
+      paragraph.push(lines[i]);
+      i += 1;
+    }
+    blocks.push({ type: "paragraph", children: parseInline(paragraph.join("\n")) });
+  }
+
+  return blocks;
+};
+
+const inlineToText = (nodes: MarkdownInline[]): string =>
+  nodes.map(node => {
+    switch (node.type) {
+      case "text":
+      case "code":
+        return node.value;
+      case "strong":
+      case "em":
+      case "link":
+        return inlineToText(node.children);
+      case "image":
+        return "";
+      case "break":
+        return " ";
+    }
+  }).join("");
+
+const blocksToText = (blocks: MarkdownBlock[]): string[] =>
+  blocks.flatMap(block => {
+    switch (block.type) {
+      case "heading":
+      case "paragraph":
+        return [inlineToText(block.children)];
+      case "list":
+        return block.items.map(inlineToText);
+      case "blockquote":
+        return blocksToText(block.children);
+      case "code":
+        return [block.value];
+      case "hr":
+        return [];
+    }
+  });
+
+// Markdown => plain text on one line, for excerpts and meta descriptions.
+// Stray HTML tags are dropped too, since they'd only render as text.
+export const stripMarkdown = (source: string | null | undefined) =>
+  blocksToText(parseMarkdown(source)).join(" ").replace(/<[^>]*>/g, "").replace(/\s+/g, " ").trim();
+
+// Plain text cut at a word boundary
+export const truncateText = (text: string, length = 150) => {
+  if (text.length <= length) return text;
+  return `${text.slice(0, length).replace(/\s+\S*$/, "")}…`;
+};
+
+// Plain-text excerpt of Markdown cut at a word boundary
+export const getExcerpt = (source: string | null | undefined, length = 150) =>
+  truncateText(stripMarkdown(source), length);
@@ -0,0 +1,172 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+// Public bucket created by supabase/create-media-storage.sql
+export const MEDIA_BUCKET = "media";
+
+export const MAX_IMAGE_BYTES = 2 * 1024 * 1024;
+
+// Top-level folders in the bucket, one per kind of content
+export type MediaFolder = "menu" | "articles" | "seo" | "library";
+
+export type MediaAsset = Tables<"media_assets">;
+
+// Where an asset is used, for the media library's usage tracking
+export interface MediaUsage {
+  type: "menu" | "article" | "seo";
+  id: string;
+  label: string;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+};
+
+// Returns a message to show the user, or null when the file can be uploaded
+export const validateImageFile = (file: File): string | null => {
+  if (!EXTENSIONS[file.type]) return "Please upload a JPEG, PNG, WebP or GIF image.";
+  if (file.size > MAX_IMAGE_BYTES) return "Please upload an image smaller than 2MB.";
+  return null;
+};
+
+// "Pad Thai (large).JPG" => "pad-thai-large"
+const slugifyFileName = (name: string) =>
+  name
+    .replace(/\.[^.]+$/, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60) || "image";
+
+export const buildMediaPath = (folder: MediaFolder, fileName: string, contentType: string) =>
+  `${folder}/${Date.now()}-${Math.random().toString(36).slice(2, 8)}-${slugifyFileName(fileName)}.${EXTENSIONS[contentType] ?? "bin"}`;
+
+export const getMediaUrl = (path: string) =>
+  supabase.storage.from(MEDIA_BUCKET).getPublicUrl(path).data.publicUrl;
+
+const getImageSize = async (file: Blob) => {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const size = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return size;
+  } catch {
+    // Anything the browser can't decode
+    return { width: null, height: null };
+  }
+};
+
+interface UploadOptions {
+  fileName?: string;
+  altText?: string;
+}
+
+// Upload an image to the media bucket and record it in the media library
+export const uploadMediaAsset = async (file: Blob, folder: MediaFolder, options: UploadOptions = {}) => {
+  const fileName = options.fileName ?? (file instanceof File ? file.name : "image");
+  const path = buildMediaPath(folder, fileName, file.type);
+  const { error } = await supabase.storage
+    .from(MEDIA_BUCKET)
+    .upload(path, file, {
+      contentType: file.type,
+      cacheControl: "31536000",
+      upsert: false,
+    });
+
+  if (error) throw error;
+
+  const { width, height } = await getImageSize(file);
+  const { data: { user } } = await supabase.auth.getUser();
+  const { data, error: insertError } = await supabase
+    .from('media_assets')
+    .insert({
+      path,
+      file_name: fileName,
+      folder,
+      content_type: file.type,
+      size_bytes: file.size,
+      width,
+      height,
+      alt_text: options.altText?.trim() || null,
+      uploaded_by: user?.id ?? null,
+    })
+    .select()
+    .single();
+
+  if (insertError) throw insertError;
+  return data;
+};
+
+export const fetchMediaAssets = async () => {
+  const { data, error } = await supabase
+    .from('media_assets')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const updateMediaAltText = async (assetId: string, altText: string) => {
+  const { error } = await supabase
+    .from('media_assets')
+    .update({ alt_text: altText.trim() || null, updated_at: new Date().toISOString() })
+    .eq('id', assetId);
+
+  if (error) throw error;
+};
+
+export const deleteMediaAsset = async (asset: MediaAsset) => {
+  const { error: storageError } = await supabase.storage.from(MEDIA_BUCKET).remove([asset.path]);
+  if (storageError) throw storageError;
+
+  const { error } = await supabase
+    .from('media_assets')
+    .delete()
+    .eq('id', asset.id);
+
+  if (error) throw error;
+};
+
+// Media URLs embedded in an article body, e.g. in <img src="...">
+const findMediaUrls = (content: string | null) => {
+  if (!content) return [];
+  const prefix = getMediaUrl("").replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return content.match(new RegExp(`${prefix}[^\\s"'()<>]+`, "g")) || [];
+};
+
+// Map of public URL => everything that references it
+export const fetchMediaUsage = async () => {
+  const [menuItems, articles, seoSettings] = await Promise.all([
+    supabase.from('menu_items').select('id, name, image_url').not('image_url', 'is', null),
+    supabase.from('articles').select('id, title, featured_image, content'),
+    supabase.from('seo_settings').select('id, og_image').not('og_image', 'is', null),
+  ]);
+
+  const error = menuItems.error || articles.error || seoSettings.error;
+  if (error) throw error;
+
+  const usage: Record<string, MediaUsage[]> = {};
+  const add = (url: string | null, entry: MediaUsage) => {
+    if (!url) return;
+    (usage[url] ||= []).push(entry);
+  };
+  menuItems.data?.forEach(item => add(item.image_url, { type: "menu", id: item.id, label: item.name }));
+  articles.data?.forEach(article => {
+    const urls = new Set([article.featured_image, ...findMediaUrls(article.content)]);
+    urls.forEach(url => add(url, { type: "article", id: article.id, label: article.title }));
+  });
+  seoSettings.data?.forEach(settings => add(settings.og_image, { type: "seo", id: settings.id, label: "Open Graph image" }));
+  return usage;
+};
+
+export const matchesMediaSearch = (asset: MediaAsset, search: string) => {
+  const q = search.trim().toLowerCase();
+  return !q || asset.file_name.toLowerCase().includes(q) || (asset.alt_text ?? "").toLowerCase().includes(q);
+};
+
+export const formatFileSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
@@ -0,0 +1,234 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type MenuOption = Tables<"menu_options">;
+
+export type MenuOptionGroup = Tables<"menu_option_groups"> & { menu_options: MenuOption[] };
+
+// Modifier chosen for a cart line. Mirrors the snapshot place_order() stores
+// in order_items.modifiers, plus the option id sent back when ordering.
+export interface SelectedModifier {
+  optionId: string;
+  group: string;
+  option: string;
+  priceDelta: number;
+}
+
+// Shape of each entry in order_items.modifiers
+export interface OrderItemModifier {
+  group: string;
+  option: string;
+  price_delta: number;
+}
+
+// PostgREST select for a menu item with its option groups and options
+export const MENU_ITEM_WITH_OPTIONS_SELECT = '*, menu_option_groups(*, menu_options(*))';
+
+export const isGroupRequired = (group: Pick<MenuOptionGroup, "min_select">) => group.min_select > 0;
+
+// Groups and options in display order, leaving out hidden options
+export const sortOptionGroups = (groups: MenuOptionGroup[] | null | undefined): MenuOptionGroup[] =>
+  [...(groups || [])]
+    .sort((a, b) => a.display_order - b.display_order)
+    .map(group => ({
+      ...group,
+      menu_options: [...group.menu_options]
+        .filter(option => option.is_active)
+        .sort((a, b) => a.display_order - b.display_order),
+    }))
+    .filter(group => group.menu_options.length > 0);
+
+// "Choose 1", "Choose up to 3", "Choose 1 to 2", "Optional"
+export const describeGroupRule = (group: Pick<MenuOptionGroup, "min_select" | "max_select">) => {
+  if (group.min_select === group.max_select) return `Choose ${group.min_select}`;
+  if (group.min_select === 0) return group.max_select === 1 ? "Optional" : `Choose up to ${group.max_select}`;
+  return `Choose ${group.min_select} to ${group.max_select}`;
+};
+
+// Returns the first rule a selection breaks, or null when it can be ordered
+export const validateOptionSelection = (groups: MenuOptionGroup[], selectedIds: string[]): string | null => {
+  for (const group of groups) {
+    const count = group.menu_options.filter(option => selectedIds.includes(option.id)).length;
+    if (count < group.min_select) {
+      return group.min_select === 1
+        ? `Please choose a ${group.name.toLowerCase()}`
+        : `Please choose at least ${group.min_select} for ${group.name}`;
+    }
+    if (count > group.max_select) {
+      return `Choose no more than ${group.max_select} for ${group.name}`;
+    }
+  }
+  return null;
+};
+
+export const getSelectedModifiers = (groups: MenuOptionGroup[], selectedIds: string[]): SelectedModifier[] =>
+  groups.flatMap(group =>
+    group.menu_options
+      .filter(option => selectedIds.includes(option.id))
+      .map(option => ({
+        optionId: option.id,
+        group: group.name,
+        option: option.name,
+        priceDelta: option.price_delta,
+      }))
+  );
+
+export const getModifiersTotal = (modifiers: { priceDelta: number }[]) =>
+  modifiers.reduce((sum, modifier) => sum + modifier.priceDelta, 0);
+
+export const formatPriceDelta = (amount: number) =>
+  amount === 0 ? "" : `${amount > 0 ? "+" : "-"}$${Math.abs(amount).toFixed(2)}`;
+
+// "Prawn, Medium, Add rice" for cart lines and kitchen tickets
+export const formatModifiers = (modifiers: { option: string }[]) =>
+  modifiers.map(modifier => modifier.option).join(", ");
+
+export const parseOrderItemModifiers = (value: unknown): OrderItemModifier[] =>
+  Array.isArray(value)
+    ? value.filter((entry): entry is OrderItemModifier =>
+        !!entry && typeof entry === "object" && typeof (entry as OrderItemModifier).option === "string")
+    : [];
+
+// Editable copy of an item's option groups, used by the MenuManager dialog.
+// New groups and options get their ids up front so saving is a plain upsert.
+export interface OptionDraft {
+  id: string;
+  name: string;
+  price_delta: number;
+  is_active: boolean;
+}
+
+export interface OptionGroupDraft {
+  id: string;
+  name: string;
+  min_select: number;
+  max_select: number;
+  options: OptionDraft[];
+}
+
+export const createOptionDraft = (): OptionDraft => ({
+  id: crypto.randomUUID(),
+  name: "",
+  price_delta: 0,
+  is_active: true,
+});
+
+export const createOptionGroupDraft = (): OptionGroupDraft => ({
+  id: crypto.randomUUID(),
+  name: "",
+  min_select: 1,
+  max_select: 1,
+  options: [createOptionDraft()],
+});
+
+export const toOptionGroupDrafts = (groups: MenuOptionGroup[]): OptionGroupDraft[] =>
+  [...groups]
+    .sort((a, b) => a.display_order - b.display_order)
+    .map(group => ({
+      id: group.id,
+      name: group.name,
+      min_select: group.min_select,
+      max_select: group.max_select,
+      options: [...group.menu_options]
+        .sort((a, b) => a.display_order - b.display_order)
+        .map(({ id, name, price_delta, is_active }) => ({ id, name, price_delta, is_active })),
+    }));
+
+export const validateOptionGroupDrafts = (groups: OptionGroupDraft[]): string | null => {
+  for (const group of groups) {
+    if (!group.name.trim()) return "Every option group needs a name";
+    if (group.options.length === 0) return `Add at least one option to ${group.name}`;
+    if (group.options.some(option => !option.name.trim())) return `Every option in ${group.name} needs a name`;
+    if (group.max_select < 1 || group.min_select > group.max_select) {
+      return `${group.name}: minimum choices can't be more than maximum`;
+    }
+    if (group.min_select > group.options.filter(option => option.is_active).length) {
+      return `${group.name} requires more choices than it has options`;
+    }
+  }
+  return null;
+};
+
+export const fetchMenuOptionGroups = async (menuItemId: string) => {
+  const { data, error } = await supabase
+    .from('menu_option_groups')
+    .select('*, menu_options(*)')
+    .eq('menu_item_id', menuItemId);
+
+  if (error) throw error;
+  return (data || []) as MenuOptionGroup[];
+};
+
+// Replace an item's option groups with the drafts, keeping ids stable so
+// options already sitting in customers' carts stay valid
+export const saveMenuOptionGroups = async (menuItemId: string, groups: OptionGroupDraft[]) => {
+  const groupIds = groups.map(group => group.id);
+  const removeGroups = supabase.from('menu_option_groups').delete().eq('menu_item_id', menuItemId);
+  const { error: deleteGroupsError } = groupIds.length
+    ? await removeGroups.not('id', 'in', `(${groupIds.join(",")})`)
+    : await removeGroups;
+  if (deleteGroupsError) throw deleteGroupsError;
+  if (groups.length === 0) return;
+
+  const now = new Date().toISOString();
+  const { error: groupsError } = await supabase
+    .from('menu_option_groups')
+    .upsert(groups.map((group, index) => ({
+      id: group.id,
+      menu_item_id: menuItemId,
+      name: group.name.trim(),
+      min_select: group.min_select,
+      max_select: group.max_select,
+      display_order: index,
+      updated_at: now,
+    })));
+  if (groupsError) throw groupsError;
+
+  const optionIds = groups.flatMap(group => group.options.map(option => option.id));
+  const { error: deleteOptionsError } = await supabase
+    .from('menu_options')
+    .delete()
+    .in('group_id', groupIds)
+    .not('id', 'in', `(${optionIds.join(",")})`);
+  if (deleteOptionsError) throw deleteOptionsError;
+
+  const { error: optionsError } = await supabase
+    .from('menu_options')
+    .upsert(groups.flatMap(group => group.options.map((option, index) => ({
+      id: option.id,
+      group_id: group.id,
+      name: option.name.trim(),
+      price_delta: option.price_delta,
+      is_active: option.is_active,
+      display_order: index,
+    }))));
+  if (optionsError) throw optionsError;
+};
+
+// Active categories and items for the public menu, option groups sorted
+export const fetchPublicMenu = async () => {
+  const [categoriesResult, itemsResult] = await Promise.all([
+    supabase
+      .from('menu_categories')
+      .select('*')
+      .eq('is_active', true)
+      .order('display_order', { ascending: true }),
+    supabase
+      .from('menu_items')
+      .select(MENU_ITEM_WITH_OPTIONS_SELECT)
+      .eq('is_active', true)
+      .order('name', { ascending: true }),
+  ]);
+
+  if (categoriesResult.error) throw categoriesResult.error;
+  if (itemsResult.error) throw itemsResult.error;
+  return {
+    categories: categoriesResult.data || [],
+    items: (itemsResult.data || []).map(item => ({
+      ...item,
+      menu_option_groups: sortOptionGroups(item.menu_option_groups),
+    })),
+  };
+};
+
+export type PublicMenu = Awaited<ReturnType<typeof fetchPublicMenu>>;
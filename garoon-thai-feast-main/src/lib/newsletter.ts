@@ -0,0 +1,13 @@
+import { supabase } from "@/integrations/supabase/client";
+import { FormGuard, getFormResult, toFormGuardArgs } from "@/lib/formGuard";
+
+// Validated and rate limited by subscribe_newsletter()
+export const subscribeToNewsletter = async (email: string, guard: FormGuard) => {
+  const { data, error } = await supabase.rpc('subscribe_newsletter', {
+    email_address: email.trim(),
+    ...toFormGuardArgs(guard),
+  });
+
+  if (error) throw error;
+  getFormResult(data, "Failed to subscribe. Please try again later.");
+};
@@ -0,0 +1,168 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import type { SelectedModifier } from "@/lib/menuOptions";
+import {
+  addDays,
+  formatDayName,
+  formatMinutes,
+  fromRestaurantTime,
+  getDayHours,
+  getRestaurantTime,
+  hasBusinessHours,
+  parseBusinessHours,
+} from "@/lib/businessHours";
+
+export const ORDER_STATUSES = ["new", "accepted", "preparing", "ready", "collected", "cancelled"] as const;
+
+export type OrderStatus = typeof ORDER_STATUSES[number];
+
+export type Order = Omit<Tables<"orders">, "status"> & { status: OrderStatus };
+
+export type OrderItem = Tables<"order_items">;
+
+export type OrderWithItems = Order & { order_items: OrderItem[] };
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  new: "New",
+  accepted: "Accepted",
+  preparing: "Preparing",
+  ready: "Ready",
+  collected: "Collected",
+  cancelled: "Cancelled",
+};
+
+// Kitchen board columns, in the order an order moves through them
+export const ORDER_BOARD_STATUSES: OrderStatus[] = ["new", "accepted", "preparing", "ready", "collected"];
+
+export const getNextOrderStatus = (status: OrderStatus): OrderStatus | null => {
+  const index = ORDER_BOARD_STATUSES.indexOf(status);
+  return index >= 0 && index < ORDER_BOARD_STATUSES.length - 1 ? ORDER_BOARD_STATUSES[index + 1] : null;
+};
+
+export const getPreviousOrderStatus = (status: OrderStatus): OrderStatus | null => {
+  const index = ORDER_BOARD_STATUSES.indexOf(status);
+  return index > 0 ? ORDER_BOARD_STATUSES[index - 1] : null;
+};
+
+export interface CartItem {
+  // Same dish with different modifiers is a separate line
+  lineId: string;
+  menuItemId: string;
+  name: string;
+  // Item price including modifier price deltas
+  unitPrice: number;
+  modifiers: SelectedModifier[];
+  quantity: number;
+  imageUrl?: string;
+}
+
+export interface PlaceOrderInput {
+  customerName: string;
+  customerEmail: string;
+  customerPhone: string;
+  pickupTime: Date;
+  notes?: string;
+  items: CartItem[];
+}
+
+interface PlaceOrderResult {
+  success: boolean;
+  message: string;
+  order_id?: string;
+  total?: number;
+}
+
+// Minutes the kitchen needs before the earliest pickup
+export const PICKUP_LEAD_MINUTES = 20;
+export const PICKUP_SLOT_MINUTES = 15;
+const PICKUP_SLOT_COUNT = 12;
+// How far ahead to look for the next opening; place_order() allows the same
+const PICKUP_LOOKAHEAD_DAYS = 7;
+
+export const getCartLineId = (menuItemId: string, modifiers: SelectedModifier[]) =>
+  [menuItemId, ...modifiers.map(modifier => modifier.optionId).sort()].join(":");
+
+export const getCartSubtotal = (items: CartItem[]) =>
+  items.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0);
+
+export const formatPrice = (amount: number) => `$${amount.toFixed(2)}`;
+
+const roundUpToSlot = (minutes: number) => Math.ceil(minutes / PICKUP_SLOT_MINUTES) * PICKUP_SLOT_MINUTES;
+
+// Pickup slots on the quarter hour, after the kitchen lead time and within
+// opening hours on the restaurant's clock: the rest of today, or the next day
+// that opens. Hours that can't be read give the next few quarter hours, as
+// place_order() then doesn't check them either.
+export const getPickupSlots = (businessHours: Json | null | undefined, now = new Date()): Date[] => {
+  const earliest = getRestaurantTime(new Date(now.getTime() + PICKUP_LEAD_MINUTES * 60 * 1000));
+  const hours = parseBusinessHours(businessHours);
+
+  if (!hasBusinessHours(hours)) {
+    const first = roundUpToSlot(earliest.minutes);
+    return Array.from({ length: PICKUP_SLOT_COUNT }, (_, index) =>
+      fromRestaurantTime(earliest.date, first + index * PICKUP_SLOT_MINUTES)
+    );
+  }
+
+  for (let daysAhead = -1; daysAhead <= PICKUP_LOOKAHEAD_DAYS; daysAhead++) {
+    const date = addDays(earliest.date, daysAhead);
+    const slots = getDayHours(hours, date).intervals.flatMap(interval => {
+      const times: Date[] = [];
+      // Yesterday's shifts only add slots if they run past midnight
+      const start = roundUpToSlot(Math.max(interval.open, earliest.minutes - daysAhead * 24 * 60));
+      for (let minutes = start; minutes < interval.close; minutes += PICKUP_SLOT_MINUTES) {
+        times.push(fromRestaurantTime(date, minutes));
+      }
+      return times;
+    });
+    if (slots.length) return slots;
+  }
+  return [];
+};
+
+// "5:30pm", "Tomorrow 11:30am" or "Saturday 11:30am", on the restaurant's clock
+export const formatPickupTime = (pickupTime: Date, now = new Date()) => {
+  const pickup = getRestaurantTime(pickupTime);
+  const today = getRestaurantTime(now).date;
+  const time = formatMinutes(pickup.minutes);
+  if (pickup.date === today) return time;
+  if (pickup.date === addDays(today, 1)) return `Tomorrow ${time}`;
+  return `${formatDayName(pickup.weekday)} ${time}`;
+};
+
+// Images aren't saved with the cart, so a restored cart looks them up again
+export const fetchCartItemImages = async (menuItemIds: string[]) => {
+  const { data, error } = await supabase
+    .from('menu_items')
+    .select('id, image_url')
+    .in('id', menuItemIds)
+    .not('image_url', 'is', null);
+
+  if (error) throw error;
+  return Object.fromEntries((data || []).map((item) => [item.id, item.image_url])) as Record<string, string>;
+};
+
+// Prices are recalculated server-side by place_order(); only ids, option ids and quantities are sent
+export const placeOrder = async (input: PlaceOrderInput) => {
+  const { data, error } = await supabase.rpc('place_order', {
+    customer_name: input.customerName,
+    customer_email: input.customerEmail,
+    customer_phone: input.customerPhone,
+    pickup_time: input.pickupTime.toISOString(),
+    notes: input.notes ?? "",
+    order_items: input.items.map((item) => ({
+      menu_item_id: item.menuItemId,
+      quantity: item.quantity,
+      option_ids: item.modifiers.map((modifier) => modifier.optionId),
+    })),
+  });
+
+  if (error) throw error;
+
+  const result = data as unknown as PlaceOrderResult;
+  if (!result?.success || !result.order_id) {
+    throw new Error(result?.message || "Failed to place order");
+  }
+
+  return { orderId: result.order_id, total: result.total ?? getCartSubtotal(input.items) };
+};
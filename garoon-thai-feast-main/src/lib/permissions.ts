@@ -0,0 +1,82 @@
+// Staff roles stored in profiles.role. Anyone without one of these roles
+// (including freshly signed-up accounts) gets no dashboard access at all.
+export const APP_ROLES = ["owner", "manager", "editor", "staff"] as const;
+
+export type AppRole = typeof APP_ROLES[number];
+
+export type Permission =
+  | "dashboard:view"
+  | "menu:manage"
+  | "orders:manage"
+  | "reservations:manage"
+  | "reservations:configure"
+  | "articles:manage"
+  | "contact:manage"
+  | "messages:view"
+  | "subscribers:view"
+  | "media:manage"
+  | "media:delete"
+  | "seo:manage"
+  // The prerender hook URL, which the database calls
+  | "seo:configure"
+  | "users:manage";
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  owner: "Owner",
+  manager: "Manager",
+  editor: "Editor",
+  staff: "Staff",
+};
+
+// Keep in sync with the has_role() checks in the supabase/*.sql policies
+export const ROLE_PERMISSIONS: Record<AppRole, Permission[]> = {
+  owner: [
+    "dashboard:view",
+    "menu:manage",
+    "orders:manage",
+    "reservations:manage",
+    "reservations:configure",
+    "articles:manage",
+    "contact:manage",
+    "messages:view",
+    "subscribers:view",
+    "media:manage",
+    "media:delete",
+    "seo:manage",
+    "seo:configure",
+    "users:manage",
+  ],
+  manager: [
+    "dashboard:view",
+    "menu:manage",
+    "orders:manage",
+    "reservations:manage",
+    "reservations:configure",
+    "articles:manage",
+    "contact:manage",
+    "messages:view",
+    "subscribers:view",
+    "media:manage",
+    "media:delete",
+    "seo:manage",
+    "seo:configure",
+  ],
+  editor: [
+    "dashboard:view",
+    "articles:manage",
+    "media:manage",
+    "seo:manage",
+  ],
+  staff: [
+    "dashboard:view",
+    "orders:manage",
+    "reservations:manage",
+    "messages:view",
+  ],
+};
+
+export const isAppRole = (value: unknown): value is AppRole =>
+  typeof value === "string" && (APP_ROLES as readonly string[]).includes(value);
+
+export const roleHasPermission = (role: AppRole | null, permission: Permission) =>
+  role !== null && ROLE_PERMISSIONS[role].includes(permission);
@@ -0,0 +1,138 @@
+import type { ArticleListItem, fetchLiveArticleCategories } from "@/lib/articleSearch";
+import type { ArticleRow } from "@/lib/articles";
+import type { ArticleCategory, ArticleTag } from "@/lib/articleTaxonomy";
+import type { ContactInfo } from "@/lib/contactInfo";
+import type { PublicMenu } from "@/lib/menuOptions";
+import type { ResolvedSeo, SiteSeoSettings } from "@/lib/seo";
+import type { FeedLinks } from "@/lib/feeds";
+import type { JsonLd } from "@/lib/structuredData";
+
+// Public routes are rendered to static HTML at build time (src/entry-server.tsx,
+// run by plugins/prerender.ts). Each page carries the data it was rendered
+// with, and the browser's first render reads the same data so hydration
+// matches. Anything rendered after that, like client-side navigation, fetches
+// from Supabase as usual.
+
+export type LiveArticleCategory = Awaited<ReturnType<typeof fetchLiveArticleCategories>>[number];
+
+export interface NewsPageData {
+  articles: ArticleListItem[];
+  total: number;
+  categories: LiveArticleCategory[];
+  tags: ArticleTag[];
+}
+
+export interface ArticlePageData {
+  article: ArticleRow;
+  category: ArticleCategory | null;
+  tags: ArticleTag[];
+  related: ArticleRow[];
+}
+
+// Everything the prerender step loads from Supabase in one go
+export interface PrerenderSnapshot {
+  generatedAt: string;
+  seoSettings: SiteSeoSettings | null;
+  contactInfo: ContactInfo | null;
+  menu: PublicMenu;
+  news: NewsPageData;
+  articles: ArticlePageData[];
+  // Written to /sitemap.xml; missing from snapshots saved before it was added
+  sitemapXml?: string | null;
+}
+
+// The part of the snapshot one page needs
+export interface PrerenderData {
+  path: string;
+  seoSettings: SiteSeoSettings | null;
+  contactInfo: ContactInfo | null;
+  menu?: PublicMenu;
+  news?: NewsPageData;
+  article?: ArticlePageData;
+}
+
+export const PRERENDER_DATA_ID = "prerender-data";
+
+let data: PrerenderData | null | undefined;
+let hydrated = false;
+
+const readData = () => {
+  if (data === undefined) {
+    const element = import.meta.env.SSR ? null : document.getElementById(PRERENDER_DATA_ID);
+    data = element?.textContent ? JSON.parse(element.textContent) : null;
+  }
+  return data;
+};
+
+// The server sets the data for each page before rendering it
+export const setPrerenderData = (next: PrerenderData | null) => {
+  data = next;
+};
+
+// True when the HTML in #root was prerendered for this URL. Hosts that fall
+// back to index.html for unknown routes serve the home page's HTML, which
+// mustn't be hydrated as another page. Pages are written as
+// <route>/index.html, which some hosts serve at <route>/.
+export const isPrerenderedPage = () => {
+  const current = readData();
+  const pathname = window.location.pathname.replace(/\/+$/, "") || "/";
+  return !!current && current.path === pathname && !window.location.search;
+};
+
+export const discardPrerenderData = () => {
+  data = null;
+};
+
+// Called once the first render has committed
+export const markHydrated = () => {
+  hydrated = true;
+};
+
+// Rendering on the server, or the browser's first render of a prerendered
+// page. Browser-only state (localStorage, the cart) has to wait for an effect
+// then, or the markup won't match.
+export const isHydrating = () => import.meta.env.SSR || (!hydrated && !!readData());
+
+// Data the page was prerendered with, for initial state. Undefined once the
+// first render is done, so pages navigated to later load fresh data.
+export const getPrerendered = <K extends Exclude<keyof PrerenderData, "path">>(key: K): PrerenderData[K] | undefined => {
+  if (hydrated) return undefined;
+  return readData()?.[key] ?? undefined;
+};
+
+// Head tags gathered from the page hooks while rendering on the server
+export interface PrerenderHead {
+  seo: ResolvedSeo | null;
+  structuredData: Record<string, JsonLd>;
+  feed: { title: string; links: FeedLinks } | null;
+}
+
+let head: PrerenderHead = { seo: null, structuredData: {}, feed: null };
+
+export const resetPrerenderHead = () => {
+  head = { seo: null, structuredData: {}, feed: null };
+};
+
+export const collectPrerenderHead = (update: Partial<PrerenderHead>) => {
+  head = {
+    ...head,
+    ...update,
+    structuredData: { ...head.structuredData, ...update.structuredData },
+  };
+};
+
+export const getPrerenderHead = () => head;
+
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// JSON that is safe inside a <script> element
+export const serializeForScript = (value: unknown) =>
+  JSON.stringify(value)
+    .replace(/</g, "\\u003c")
+    .replace(/\u2028/g, "\\u2028")
+    .replace(/\u2029/g, "\\u2029");
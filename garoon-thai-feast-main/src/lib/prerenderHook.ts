@@ -0,0 +1,29 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// The URL the database calls when prerendered content changes
+// (supabase/add-prerender-hook.sql), e.g. the host's build hook
+export const fetchPrerenderHook = async () => {
+  const { data, error } = await supabase
+    .from('prerender_hook')
+    .select('url, requested_at, last_sent_at')
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+export const savePrerenderHookUrl = async (url: string | null) => {
+  const { error } = await supabase
+    .from('prerender_hook')
+    .update({ url, updated_at: new Date().toISOString() })
+    .eq('id', true);
+
+  if (error) throw error;
+};
+
+// Returns when the request was sent, or null if no hook URL is set
+export const rerunPrerender = async () => {
+  const { data, error } = await supabase.rpc('rerun_prerender');
+  if (error) throw error;
+  return data as string | null;
+};
@@ -0,0 +1,137 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { formatMinutes, getIntervalsForDate, getRestaurantTime } from "@/lib/businessHours";
+
+export const RESERVATION_STATUSES = ["pending", "confirmed", "seated", "cancelled", "no_show"] as const;
+
+export type ReservationStatus = typeof RESERVATION_STATUSES[number];
+
+export type Reservation = Omit<Tables<"reservations">, "status"> & { status: ReservationStatus };
+
+export type ReservationSettings = Tables<"reservation_settings">;
+
+export const RESERVATION_STATUS_LABELS: Record<ReservationStatus, string> = {
+  pending: "Pending",
+  confirmed: "Confirmed",
+  seated: "Seated",
+  cancelled: "Cancelled",
+  no_show: "No-show",
+};
+
+export const DEFAULT_RESERVATION_SETTINGS: Omit<ReservationSettings, "id" | "created_at" | "updated_at"> = {
+  slot_interval_minutes: 30,
+  max_covers_per_slot: 30,
+  max_party_size: 10,
+  last_seating_minutes: 60,
+  booking_window_days: 60,
+};
+
+export interface TimeSlot {
+  // "HH:MM", as stored in reservations.time_slot
+  value: string;
+  label: string;
+  remainingCovers: number;
+}
+
+export interface ReservationRequest {
+  name: string;
+  email: string;
+  phone: string;
+  partySize: number;
+  date: string;
+  timeSlot: string;
+  notes?: string;
+}
+
+interface ReservationResult {
+  success: boolean;
+  message: string;
+  reservation_id?: string;
+}
+
+const toSlotValue = (minutes: number) =>
+  `${Math.floor(minutes / 60).toString().padStart(2, "0")}:${(minutes % 60).toString().padStart(2, "0")}`;
+
+// "YYYY-MM-DD" in local time, matching reservations.reservation_date
+export const toDateValue = (date: Date) =>
+  `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, "0")}-${date.getDate().toString().padStart(2, "0")}`;
+
+export const parseDateValue = (value: string) => {
+  const [year, month, day] = value.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// Today at the restaurant, as a local date for the calendar
+export const getRestaurantToday = (now = new Date()) => parseDateValue(getRestaurantTime(now).date);
+
+// Bookable slots for a date: every interval within opening hours that still
+// leaves time before close and has room for the party. "Now" is the
+// restaurant's clock, as create_reservation() checks it.
+export const getTimeSlots = (
+  businessHours: Json | null | undefined,
+  settings: Omit<ReservationSettings, "id" | "created_at" | "updated_at">,
+  date: Date,
+  bookedCovers: Record<string, number>,
+  now = new Date()
+): TimeSlot[] => {
+  const restaurantNow = getRestaurantTime(now);
+  const isToday = toDateValue(date) === restaurantNow.date;
+  const nowMinutes = restaurantNow.minutes;
+
+  return getIntervalsForDate(businessHours, date).flatMap(interval => {
+    const slots: TimeSlot[] = [];
+    // Bookings after midnight would be for the next date, so the day's slots stop there
+    const lastSeating = Math.min(interval.close - settings.last_seating_minutes, 24 * 60 - 1);
+    for (let minutes = interval.open; minutes <= lastSeating; minutes += settings.slot_interval_minutes) {
+      if (isToday && minutes <= nowMinutes) continue;
+      const value = toSlotValue(minutes);
+      slots.push({
+        value,
+        label: formatMinutes(minutes),
+        remainingCovers: Math.max(0, settings.max_covers_per_slot - (bookedCovers[value] || 0)),
+      });
+    }
+    return slots;
+  });
+};
+
+export const fetchReservationSettings = async () => {
+  const { data, error } = await supabase
+    .from('reservation_settings')
+    .select('*')
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+export const fetchBookedCovers = async (date: string) => {
+  const { data, error } = await supabase.rpc('get_reservation_availability', { booking_date: date });
+  if (error) throw error;
+
+  // time_slot comes back as "HH:MM:SS"
+  return (data || []).reduce<Record<string, number>>((covers, row) => {
+    covers[row.time_slot.slice(0, 5)] = row.booked_covers;
+    return covers;
+  }, {});
+};
+
+export const createReservation = async (request: ReservationRequest) => {
+  const { data, error } = await supabase.rpc('create_reservation', {
+    guest_name: request.name,
+    guest_email: request.email,
+    guest_phone: request.phone,
+    guest_party_size: request.partySize,
+    booking_date: request.date,
+    booking_slot: request.timeSlot,
+    notes: request.notes ?? "",
+  });
+
+  if (error) throw error;
+
+  const result = data as unknown as ReservationResult;
+  if (!result?.success || !result.reservation_id) {
+    throw new Error(result?.message || "Failed to make reservation");
+  }
+  return result.reservation_id;
+};
@@ -0,0 +1,171 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { FeedLinks } from "@/lib/feeds";
+import { escapeHtml } from "@/lib/prerender";
+
+export type SiteSeoSettings = Tables<"seo_settings">;
+
+export const SITE_NAME = "Easy Go Thai";
+
+// Used when seo_settings has no row yet
+export const DEFAULT_SITE_SEO = {
+  title: "Easy Go Thai - Authentic Thai Restaurant | Traditional Thai Cuisine",
+  description: "Experience authentic Thai cuisine at Easy Go Thai. Traditional recipes, fresh ingredients, and warm hospitality. Order online or dine in for the best Thai food experience.",
+  keywords: "Thai restaurant, authentic Thai food, pad thai, curry, tom yum, thai cuisine, takeout",
+  image: "/main_photo.jpg",
+};
+
+// What a route knows about itself. Anything left out falls back to seo_settings.
+export interface PageSeo {
+  title?: string | null;
+  description?: string | null;
+  keywords?: string | null;
+  image?: string | null;
+  type?: "website" | "article";
+  // Canonical path; defaults to the current pathname without query or hash
+  path?: string;
+  noIndex?: boolean;
+  publishedTime?: string | null;
+  modifiedTime?: string | null;
+}
+
+export interface ResolvedSeo {
+  title: string;
+  description: string;
+  keywords: string;
+  image: string;
+  type: "website" | "article";
+  url: string;
+  noIndex: boolean;
+  publishedTime: string | null;
+  modifiedTime: string | null;
+}
+
+export const getSiteUrl = () =>
+  (import.meta.env.VITE_SITE_URL || window.location.origin).replace(/\/+$/, "");
+
+export const toAbsoluteUrl = (url: string) =>
+  /^https?:\/\//i.test(url) ? url : `${getSiteUrl()}${url.startsWith("/") ? "" : "/"}${url}`;
+
+// Descriptions are cut to what search engines actually display
+export const truncateDescription = (text: string, maxLength = 160) => {
+  const clean = text.replace(/\s+/g, " ").trim();
+  if (clean.length <= maxLength) return clean;
+  return `${clean.slice(0, maxLength - 1).replace(/\s+\S*$/, "")}…`;
+};
+
+export const fetchSiteSeoSettings = async () => {
+  const { data, error } = await supabase
+    .from('seo_settings')
+    .select('*')
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+export const resolveSeo = (page: PageSeo, site: SiteSeoSettings | null, pathname: string): ResolvedSeo => {
+  const siteTitle = site?.site_meta_title || DEFAULT_SITE_SEO.title;
+  return {
+    // Page titles get the site name appended unless they already mention it
+    title: !page.title ? siteTitle : page.title.includes(SITE_NAME) ? page.title : `${page.title} | ${SITE_NAME}`,
+    description: truncateDescription(page.description || site?.site_meta_description || DEFAULT_SITE_SEO.description),
+    keywords: page.keywords || site?.site_meta_keywords || DEFAULT_SITE_SEO.keywords,
+    image: toAbsoluteUrl(page.image || site?.og_image || DEFAULT_SITE_SEO.image),
+    type: page.type ?? "website",
+    url: toAbsoluteUrl(page.path ?? pathname),
+    noIndex: page.noIndex ?? false,
+    publishedTime: page.publishedTime ?? null,
+    modifiedTime: page.modifiedTime ?? null,
+  };
+};
+
+const setMeta = (key: "name" | "property", id: string, content: string | null) => {
+  let element = document.head.querySelector<HTMLMetaElement>(`meta[${key}="${id}"]`);
+  if (!content) {
+    element?.remove();
+    return;
+  }
+  if (!element) {
+    element = document.createElement("meta");
+    element.setAttribute(key, id);
+    document.head.appendChild(element);
+  }
+  element.content = content;
+};
+
+const setCanonical = (href: string) => {
+  let element = document.head.querySelector<HTMLLinkElement>('link[rel="canonical"]');
+  if (!element) {
+    element = document.createElement("link");
+    element.rel = "canonical";
+    document.head.appendChild(element);
+  }
+  element.href = href;
+};
+
+const FEED_TYPES: Record<keyof FeedLinks, string> = {
+  rss: "application/rss+xml",
+  atom: "application/atom+xml",
+};
+
+// <link rel="alternate"> tags that let feed readers discover the news feeds.
+// Passing null removes them.
+export const setFeedLinks = (feed: { title: string; links: FeedLinks } | null) => {
+  document.head.querySelectorAll("link[data-feed]").forEach(element => element.remove());
+  if (!feed) return;
+
+  (Object.keys(FEED_TYPES) as (keyof FeedLinks)[]).forEach(format => {
+    const element = document.createElement("link");
+    element.rel = "alternate";
+    element.type = FEED_TYPES[format];
+    element.title = feed.title;
+    element.href = toAbsoluteUrl(feed.links[format]);
+    element.dataset.feed = format;
+    document.head.appendChild(element);
+  });
+};
+
+type MetaTag = ["name" | "property", string, string | null];
+
+const getMetaTags = (seo: ResolvedSeo): MetaTag[] => [
+  ["name", "description", seo.description],
+  ["name", "keywords", seo.keywords],
+  ["name", "robots", seo.noIndex ? "noindex, nofollow" : null],
+
+  ["property", "og:title", seo.title],
+  ["property", "og:description", seo.description],
+  ["property", "og:type", seo.type],
+  ["property", "og:url", seo.url],
+  ["property", "og:image", seo.image],
+  ["property", "og:site_name", SITE_NAME],
+  ["property", "article:published_time", seo.type === "article" ? seo.publishedTime : null],
+  ["property", "article:modified_time", seo.type === "article" ? seo.modifiedTime : null],
+
+  ["name", "twitter:card", "summary_large_image"],
+  ["name", "twitter:title", seo.title],
+  ["name", "twitter:description", seo.description],
+  ["name", "twitter:image", seo.image],
+];
+
+export const applySeo = (seo: ResolvedSeo) => {
+  document.title = seo.title;
+  setCanonical(seo.url);
+  getMetaTags(seo).forEach(([key, id, content]) => setMeta(key, id, content));
+};
+
+// The same tags as HTML, for prerendered pages. applySeo() and
+// setFeedLinks() find and update them after hydration.
+export const renderSeoTags = (seo: ResolvedSeo, feed: { title: string; links: FeedLinks } | null) => [
+  `<title>${escapeHtml(seo.title)}</title>`,
+  `<link rel="canonical" href="${escapeHtml(seo.url)}" />`,
+  ...getMetaTags(seo)
+    .filter(([, , content]) => content)
+    .map(([key, id, content]) => `<meta ${key}="${id}" content="${escapeHtml(content!)}" />`),
+  ...(feed
+    ? (Object.keys(FEED_TYPES) as (keyof FeedLinks)[]).map(format =>
+      `<link rel="alternate" type="${FEED_TYPES[format]}" title="${escapeHtml(feed.title)}" href="${escapeHtml(toAbsoluteUrl(feed.links[format]))}" data-feed="${format}" />`
+    )
+    : []),
+];
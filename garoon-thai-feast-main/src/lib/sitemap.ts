@@ -0,0 +1,44 @@
+import { supabase } from "@/integrations/supabase/client";
+import project from "@/integrations/supabase/project.json";
+
+// The sitemap is generated in the database (supabase/create-sitemap.sql). The
+// prerender step writes it to /sitemap.xml and lists it in robots.txt; the
+// sitemap edge function serves the latest version, for the dashboard.
+export const SITEMAP_URL = `${project.url}/functions/v1/sitemap`;
+
+// "Curries & Soups" => "curries-soups", for /menu#curries-soups. Same rule as
+// menu_category_anchor() in SQL, so sitemap links land on the right category.
+export const getMenuCategoryAnchor = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+export const fetchSitemapStatus = async () => {
+  const { data, error } = await supabase
+    .from('sitemap')
+    .select('url_count, generated_at')
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// Null until a site URL is saved in SEO settings
+export const fetchSitemapXml = async () => {
+  const { data, error } = await supabase
+    .from('sitemap')
+    .select('xml')
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.xml ?? null;
+};
+
+// Returns when it was generated, or null if there's no site URL to build
+// links from yet
+export const rebuildSitemap = async () => {
+  const { data, error } = await supabase.rpc('rebuild_sitemap');
+  if (error) throw error;
+  return data as string | null;
+};
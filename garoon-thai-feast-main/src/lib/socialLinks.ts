@@ -0,0 +1,101 @@
+import type { Json } from "@/integrations/supabase/types";
+
+// Social and review profiles shown in the footer, stored in
+// contact_info.social_links as an ordered list:
+// [{ platform: "facebook", url: "https://facebook.com/..." }, ...]
+
+export const SOCIAL_PLATFORMS = [
+  { id: "facebook", name: "Facebook", hosts: ["facebook.com", "fb.com", "fb.me"] },
+  { id: "instagram", name: "Instagram", hosts: ["instagram.com"] },
+  { id: "google", name: "Google Reviews", hosts: ["google.com", "google.co.nz", "g.page", "goo.gl"] },
+  { id: "tripadvisor", name: "TripAdvisor", hosts: ["tripadvisor.com", "tripadvisor.co.nz", "tripadvisor.com.au", "tripadvisor.co.uk"] },
+  { id: "tiktok", name: "TikTok", hosts: ["tiktok.com"] },
+  { id: "ubereats", name: "Uber Eats", hosts: ["ubereats.com"] },
+  { id: "doordash", name: "DoorDash", hosts: ["doordash.com"] },
+  { id: "youtube", name: "YouTube", hosts: ["youtube.com", "youtu.be"] },
+  { id: "x", name: "X (Twitter)", hosts: ["x.com", "twitter.com"] },
+  // Anything else, e.g. a booking or delivery site
+  { id: "website", name: "Website", hosts: [] },
+] as const;
+
+export type SocialPlatform = (typeof SOCIAL_PLATFORMS)[number]["id"];
+
+export interface SocialLink {
+  platform: SocialPlatform;
+  url: string;
+}
+
+// Shown until social links are saved for the first time
+export const DEFAULT_SOCIAL_LINKS: SocialLink[] = [
+  { platform: "facebook", url: "http://www.facebook.com/EasyGoThai/reviews" },
+  { platform: "google", url: "https://www.google.com/search?q=easy+go+thai+restaurant&sca_esv=b7645fb63843d7af&rlz=1C1CHBF_enNZ1079NZ1079&ei=Auq8aJfVFvuWg8UP74aSwQs&oq=easygo+thai+r&gs_lp=Egxnd3Mtd2l6LXNlcnAiDWVhc3lnbyB0aGFpIHIqAggBMgUQABiABDIGEAAYFhgeMgUQABjvBTIIEAAYgAQYogQyCBAAGKIEGIkFMggQABiABBiiBDIFEAAY7wVIzURQiSZYtzBwAXgBkAEAmAHCAaABsQeqAQMwLja4AQHIAQD4AQGYAgagApUGwgIKEAAYsAMY1gQYR8ICDRAAGLADGNYEGEcYyQPCAg4QABiABBiwAxiSAxiKBcICCxAAGIAEGIYDGIoFmAMAiAYBkAYJkgcDMS41oAfFHrIHAzAuNbgHjgbCBwUwLjMuM8gHEw&sclient=gws-wiz-serp#lrd=0x6d6ddebd52fec907:0x4afd0197496c5b83,1" },
+  { platform: "tripadvisor", url: "https://www.tripadvisor.co.nz/Restaurant_Review-g1760740-d7711451-Reviews-EasyGo_Thai-Mount_Maunganui_Tauranga_Bay_of_Plenty_Region_North_Island.html" },
+];
+
+export const getSocialPlatform = (id: string) => SOCIAL_PLATFORMS.find(platform => platform.id === id);
+
+const isSocialPlatform = (id: unknown): id is SocialPlatform =>
+  typeof id === "string" && !!getSocialPlatform(id);
+
+const isHttpUrl = (value: unknown): value is string =>
+  typeof value === "string" && /^https?:\/\/\S+$/i.test(value.trim());
+
+// Null when nothing has been saved yet. Older rows hold a
+// { facebook: url, google: url } object, sometimes as a JSON string.
+export const parseSocialLinks = (socialLinks: Json | null | undefined): SocialLink[] | null => {
+  if (typeof socialLinks === "string") {
+    try { socialLinks = JSON.parse(socialLinks) as Json; } catch { return null; }
+  }
+  if (!socialLinks || typeof socialLinks !== "object") return null;
+
+  const entries = Array.isArray(socialLinks)
+    ? socialLinks.map(link => link && typeof link === "object" && !Array.isArray(link) ? [link.platform, link.url] : [])
+    : Object.entries(socialLinks);
+  if (!Array.isArray(socialLinks) && entries.length === 0) return null;
+
+  return entries.flatMap(([platform, url]) =>
+    isSocialPlatform(platform) && isHttpUrl(url) ? [{ platform, url: url.trim() }] : []
+  );
+};
+
+// What the footer shows: the saved list, or the defaults before the first save
+export const getSocialLinks = (socialLinks: Json | null | undefined) =>
+  parseSocialLinks(socialLinks) ?? DEFAULT_SOCIAL_LINKS;
+
+const matchesHost = (url: string, hosts: readonly string[]) => {
+  if (!hosts.length) return true;
+  try {
+    const { hostname } = new URL(url);
+    return hosts.some(host => hostname === host || hostname.endsWith(`.${host}`));
+  } catch {
+    return false;
+  }
+};
+
+// Editable copy for the ContactManager editor
+export interface SocialLinkDraft extends SocialLink {
+  id: string;
+}
+
+export const createSocialLinkDraft = (link: SocialLink = { platform: "facebook", url: "" }): SocialLinkDraft => ({
+  id: crypto.randomUUID(),
+  ...link,
+});
+
+export const toSocialLinkDrafts = (socialLinks: Json | null | undefined) =>
+  getSocialLinks(socialLinks).map(createSocialLinkDraft);
+
+// In the stored format; call validateSocialLinkDrafts first
+export const fromSocialLinkDrafts = (links: SocialLinkDraft[]): Json =>
+  links.map(({ platform, url }) => ({ platform, url: url.trim() }));
+
+export const validateSocialLinkDrafts = (links: SocialLinkDraft[]): string | null => {
+  for (const link of links) {
+    const platform = getSocialPlatform(link.platform);
+    const url = link.url.trim();
+    if (!url) return `Enter a link for ${platform.name}, or remove it`;
+    if (!isHttpUrl(url)) return `${platform.name}: enter the full link, starting with https://`;
+    if (!matchesHost(url, platform.hosts)) return `${platform.name}: the link should be on ${platform.hosts[0]}`;
+  }
+  return null;
+};
@@ -0,0 +1,204 @@
+import type { Json } from "@/integrations/supabase/types";
+import { BusinessHours, formatDayName, formatTime24, getUpcomingExceptions, parseBusinessHours } from "@/lib/businessHours";
+import { ContactInfo } from "@/lib/contactInfo";
+import { stripMarkdown } from "@/lib/markdown";
+import { getSocialLinks } from "@/lib/socialLinks";
+import { serializeForScript } from "@/lib/prerender";
+import { DEFAULT_SITE_SEO, SITE_NAME, SiteSeoSettings, getSiteUrl, toAbsoluteUrl, truncateDescription } from "@/lib/seo";
+
+// schema.org JSON-LD builders. Everything comes from the database so the
+// markup can never drift from what the site actually shows.
+
+export type JsonLd = Record<string, unknown>;
+
+export const PRICE_CURRENCY = "NZD";
+
+interface MenuSchemaCategory {
+  id: string;
+  name: string;
+  description?: string | null;
+}
+
+interface MenuSchemaItem {
+  id: string;
+  name: string;
+  description?: string | null;
+  price: number;
+  category_id?: string | null;
+  image_url?: string | null;
+  is_vegan?: boolean | null;
+  is_vegetarian?: boolean | null;
+  is_gluten_free?: boolean | null;
+}
+
+interface ArticleSchemaInput {
+  title: string;
+  content?: string | null;
+  meta_description?: string | null;
+  featured_image?: string | null;
+  category?: string | null;
+  published_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const isHttpUrl = (value: unknown): value is string =>
+  typeof value === "string" && /^https?:\/\/\S+$/i.test(value.trim());
+
+// The profiles linked from the footer
+const getSameAs = (socialLinks: Json | null) => getSocialLinks(socialLinks).map(link => link.url);
+
+export const buildOpeningHoursSpecification = (hours: BusinessHours) =>
+  hours.weekly.flatMap((intervals, weekday) =>
+    intervals.map(interval => ({
+      "@type": "OpeningHoursSpecification",
+      dayOfWeek: `https://schema.org/${formatDayName(weekday)}`,
+      opens: formatTime24(interval.open),
+      closes: formatTime24(interval.close),
+    }))
+  );
+
+// Holidays and closures for the coming year. schema.org marks a closed day
+// as opening and closing at 00:00.
+export const buildSpecialOpeningHoursSpecification = (hours: BusinessHours, now = new Date()) =>
+  getUpcomingExceptions(hours, now, 365).flatMap(exception =>
+    (exception.intervals.length ? exception.intervals : [{ open: 0, close: 0 }]).map(interval => ({
+      "@type": "OpeningHoursSpecification",
+      ...(exception.label ? { name: exception.label } : {}),
+      validFrom: exception.date,
+      validThrough: exception.date,
+      opens: formatTime24(interval.open),
+      closes: formatTime24(interval.close),
+    }))
+  );
+
+export const buildRestaurantSchema = (contact: ContactInfo | null, site: SiteSeoSettings | null): JsonLd => {
+  const siteUrl = getSiteUrl();
+  const schema: JsonLd = {
+    "@context": "https://schema.org",
+    "@type": "Restaurant",
+    "@id": `${siteUrl}/#restaurant`,
+    name: SITE_NAME,
+    description: site?.site_meta_description || DEFAULT_SITE_SEO.description,
+    url: siteUrl,
+    image: toAbsoluteUrl(site?.og_image || DEFAULT_SITE_SEO.image),
+    servesCuisine: "Thai",
+    acceptsReservations: true,
+    hasMenu: `${siteUrl}/menu`,
+  };
+
+  if (contact?.address) schema.address = { "@type": "PostalAddress", streetAddress: contact.address };
+  if (contact?.phone) schema.telephone = contact.phone;
+  if (contact?.email) schema.email = contact.email;
+  if (isHttpUrl(contact?.maps_link)) schema.hasMap = contact.maps_link;
+
+  const hours = parseBusinessHours(contact?.business_hours);
+  const openingHours = buildOpeningHoursSpecification(hours);
+  if (openingHours.length) schema.openingHoursSpecification = openingHours;
+  const specialHours = buildSpecialOpeningHoursSpecification(hours);
+  if (specialHours.length) schema.specialOpeningHoursSpecification = specialHours;
+
+  const sameAs = getSameAs(contact?.social_links ?? null);
+  if (sameAs.length) schema.sameAs = sameAs;
+
+  return schema;
+};
+
+const getSuitableForDiet = (item: MenuSchemaItem) => [
+  item.is_vegan && "https://schema.org/VeganDiet",
+  (item.is_vegetarian || item.is_vegan) && "https://schema.org/VegetarianDiet",
+  item.is_gluten_free && "https://schema.org/GlutenFreeDiet",
+].filter((diet): diet is string => Boolean(diet));
+
+const buildMenuItemSchema = (item: MenuSchemaItem): JsonLd => {
+  const schema: JsonLd = {
+    "@type": "MenuItem",
+    name: item.name,
+    offers: {
+      "@type": "Offer",
+      price: item.price.toFixed(2),
+      priceCurrency: PRICE_CURRENCY,
+    },
+  };
+  if (item.description) schema.description = item.description;
+  if (item.image_url) schema.image = toAbsoluteUrl(item.image_url);
+  const diets = getSuitableForDiet(item);
+  if (diets.length) schema.suitableForDiet = diets;
+  return schema;
+};
+
+// Menu > MenuSection (one per category) > MenuItem. Items without a known
+// category go into an "Other" section so nothing is left out.
+export const buildMenuSchema = (categories: MenuSchemaCategory[], items: MenuSchemaItem[]): JsonLd => {
+  const siteUrl = getSiteUrl();
+  const categoryIds = new Set(categories.map(category => category.id));
+  const sections = categories.map(category => ({
+    name: category.name,
+    description: category.description,
+    items: items.filter(item => item.category_id === category.id),
+  }));
+  const uncategorized = items.filter(item => !item.category_id || !categoryIds.has(item.category_id));
+  if (uncategorized.length) sections.push({ name: "Other", description: null, items: uncategorized });
+
+  return {
+    "@context": "https://schema.org",
+    "@type": "Menu",
+    "@id": `${siteUrl}/menu#menu`,
+    name: `${SITE_NAME} Menu`,
+    url: `${siteUrl}/menu`,
+    inLanguage: "en",
+    hasMenuSection: sections
+      .filter(section => section.items.length > 0)
+      .map(section => ({
+        "@type": "MenuSection",
+        name: section.name,
+        ...(section.description ? { description: section.description } : {}),
+        hasMenuItem: section.items.map(buildMenuItemSchema),
+      })),
+  };
+};
+
+export const buildNewsArticleSchema = (article: ArticleSchemaInput, url: string): JsonLd => {
+  const siteUrl = getSiteUrl();
+  const schema: JsonLd = {
+    "@context": "https://schema.org",
+    "@type": "NewsArticle",
+    mainEntityOfPage: { "@type": "WebPage", "@id": url },
+    headline: article.title.slice(0, 110),
+    datePublished: article.published_at || article.created_at,
+    dateModified: article.updated_at,
+    author: { "@type": "Organization", name: SITE_NAME, url: siteUrl },
+    publisher: {
+      "@type": "Organization",
+      name: SITE_NAME,
+      logo: { "@type": "ImageObject", url: `${siteUrl}/logo.jpg` },
+    },
+  };
+  const description = article.meta_description || stripMarkdown(article.content);
+  if (description) schema.description = truncateDescription(description);
+  if (article.featured_image) schema.image = [toAbsoluteUrl(article.featured_image)];
+  if (article.category) schema.articleSection = article.category;
+  return schema;
+};
+
+const STRUCTURED_DATA_ATTR = "data-structured-data";
+
+// One <script type="application/ld+json"> per id, replaced in place on update
+export const setStructuredData = (id: string, data: JsonLd | null) => {
+  let element = document.head.querySelector<HTMLScriptElement>(`script[${STRUCTURED_DATA_ATTR}="${id}"]`);
+  if (!data) {
+    element?.remove();
+    return;
+  }
+  if (!element) {
+    element = document.createElement("script");
+    element.type = "application/ld+json";
+    element.setAttribute(STRUCTURED_DATA_ATTR, id);
+    document.head.appendChild(element);
+  }
+  element.textContent = JSON.stringify(data);
+};
+
+// The same <script> as HTML, for prerendered pages
+export const renderStructuredData = (id: string, data: JsonLd) =>
+  `<script type="application/ld+json" ${STRUCTURED_DATA_ATTR}="${id}">${serializeForScript(data)}</script>`;
@@ -1,5 +1,16 @@
-import { createRoot } from 'react-dom/client'
+import { createRoot, hydrateRoot } from 'react-dom/client'
 import App from './App.tsx'
+import { discardPrerenderData, isPrerenderedPage } from './lib/prerender'
 import './index.css'
 
-createRoot(document.getElementById("root")!).render(<App />);
+const container = document.getElementById("root")!;
+
+// Pages prerendered at build time already have their markup; hydrate it.
+// Anything else, including a prerendered page served for another URL, renders from scratch.
+if (isPrerenderedPage()) {
+  hydrateRoot(container, <App />);
+} else {
+  discardPrerenderData();
+  container.replaceChildren();
+  createRoot(container).render(<App />);
+}
@@ -10,9 +10,35 @@ import restaurantInterior from "@/assets/restaurant-interior.jpg";
 import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { usePageSeo } from "@/hooks/useSeo";
 import mai_and_gong from '../assets/mai_and_gong.jpg'
+import { ContactInfo } from "@/lib/contactInfo";
+import { submitContactMessage } from "@/lib/contactMessages";
+import { useFormGuard } from "@/hooks/useFormGuard";
+import HoneypotField from "@/components/HoneypotField";
+import { getPrerendered } from "@/lib/prerender";
+import {
+  formatExceptionDate,
+  formatIntervals,
+  getUpcomingExceptions,
+  getWeeklySummary,
+  hasBusinessHours,
+  parseBusinessHours,
+} from "@/lib/businessHours";
+import { useNow } from "@/hooks/useNow";
+
+const toContactDetails = (data: ContactInfo | null) => ({
+  address: data?.address ?? null,
+  phone: data?.phone ?? null,
+  email: data?.email ?? null,
+  business_hours: parseBusinessHours(data?.business_hours),
+});
 
 const About = () => {
+  usePageSeo({
+    title: "About Us",
+    description: "Meet the family behind Easy Go Thai and the traditional recipes we cook every day.",
+  });
   const values = [
     {
       icon: Heart,
@@ -64,15 +90,12 @@ const About = () => {
     }
   ];
 
-  // Contact Info State
-  const [contactInfo, setContactInfo] = useState({
-    address: null,
-    phone: null,
-    email: null,
-    business_hours: {},
-  });
-  const [loadingContactInfo, setLoadingContactInfo] = useState(true);
+  // Contact Info State, prerendered pages start with the row they were built with
+  const [prerenderedContact] = useState(() => getPrerendered("contactInfo"));
+  const [contactInfo, setContactInfo] = useState(() => toContactDetails(prerenderedContact ?? null));
+  const [loadingContactInfo, setLoadingContactInfo] = useState(!prerenderedContact);
   const { toast } = useToast();
+  const now = useNow();
 
   useEffect(() => {
     const fetchContactInfo = async () => {
@@ -81,22 +104,9 @@ const About = () => {
           .from('contact_info')
           .select('*')
           .maybeSingle();
-        if (error || !data) {
-          setContactInfo({ address: null, phone: null, email: null, business_hours: {} });
-        } else {
-          const parsed = { ...data };
-          if (typeof parsed.business_hours === 'string') {
-            try { parsed.business_hours = JSON.parse(parsed.business_hours); } catch { parsed.business_hours = {}; }
-          }
-          setContactInfo({
-            address: parsed.address,
-            phone: parsed.phone,
-            email: parsed.email,
-            business_hours: parsed.business_hours || {},
-          });
-        }
+        setContactInfo(toContactDetails(error ? null : data));
       } catch {
-        setContactInfo({ address: null, phone: null, email: null, business_hours: {} });
+        setContactInfo(toContactDetails(null));
       } finally {
         setLoadingContactInfo(false);
       }
@@ -113,6 +123,7 @@ const About = () => {
     message: ""
   });
   const [sendingMessage, setSendingMessage] = useState(false);
+  const contactGuard = useFormGuard("contact");
 
   const handleContactSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -135,33 +146,22 @@ const About = () => {
     }
     setSendingMessage(true);
     try {
-      const { error: dbError } = await supabase
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any -- temporary until contact_messages is added to generated Supabase types
-        .from('contact_messages' as any) // cast to any until types include this table
-        .insert([
-          {
-            name,
-            email: contactForm.email,
-            message: contactForm.message
-          }
-        ]);
-      if (dbError) {
-        toast({
-          title: "Error",
-          description: "Failed to send message. Please try again later.",
-          variant: "destructive",
-        });
-        return;
-      }
+      await submitContactMessage({
+        name,
+        email: contactForm.email,
+        subject: contactForm.subject,
+        message: contactForm.message,
+      }, await contactGuard.getGuard());
       toast({
         title: "Message Sent Successfully!",
         description: "Your message has been sent and will be reviewed by our team. We'll get back to you soon!",
       });
       setContactForm({ firstName: "", lastName: "", email: "", subject: "", message: "" });
-    } catch {
+      contactGuard.reset();
+    } catch (error) {
       toast({
-        title: "Message Saved",
-        description: "Your message has been saved locally. Please contact us directly if urgent.",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to send message. Please try again later.",
         variant: "destructive",
       });
     } finally {
@@ -371,10 +371,17 @@ const About = () => {
                   <div>
                     <h3 className="font-semibold text-foreground mb-1">Hours</h3>
                     <div className="text-muted-foreground">
-                      {loadingContactInfo ? "Loading..." : Object.keys(contactInfo.business_hours).length > 0 ? (
-                        Object.entries(contactInfo.business_hours).map(([day, hours]) => (
-                          <p key={day}>{day}: {String(hours)}</p>
-                        ))
+                      {loadingContactInfo ? "Loading..." : hasBusinessHours(contactInfo.business_hours) ? (
+                        <>
+                          {getWeeklySummary(contactInfo.business_hours).map(({ days, hours }) => (
+                            <p key={days}>{days}: {hours}</p>
+                          ))}
+                          {now && getUpcomingExceptions(contactInfo.business_hours, now, 30).map(exception => (
+                            <p key={exception.date} className="text-thai-gold">
+                              {exception.label || "Special hours"} ({formatExceptionDate(exception.date)}): {formatIntervals(exception.intervals)}
+                            </p>
+                          ))}
+                        </>
                       ) : <span className="italic">Not available</span>}
                     </div>
                   </div>
@@ -388,6 +395,7 @@ const About = () => {
             {/*      Send us a Message*/}
             {/*    </h3>*/}
             {/*    <form className="space-y-4" onSubmit={handleContactSubmit}>*/}
+            {/*      <HoneypotField id="contact-website" value={contactGuard.honeypot} onChange={contactGuard.setHoneypot} />*/}
             {/*      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">*/}
             {/*        <div>*/}
             {/*          <Label htmlFor="first-name">First Name</Label>*/}
@@ -1,50 +1,170 @@
-import { useParams, Link } from "react-router-dom";
-import { useState, useEffect } from "react";
+import { useParams, useNavigate, useSearchParams, Link } from "react-router-dom";
+import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import Layout from "@/components/Layout";
-import { Calendar, Clock, ArrowLeft, ArrowRight, Share2 } from "lucide-react";
+import Markdown from "@/components/Markdown";
+import { Calendar, Clock, ArrowLeft, ArrowRight, Share2, EyeOff, Tag } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { usePageSeo, useStructuredData } from "@/hooks/useSeo";
+import { getSiteUrl } from "@/lib/seo";
+import {
+  ARTICLE_STATUS_LABELS,
+  LIVE_ARTICLE_STATUSES,
+  fetchArticlePreview,
+  findRedirectSlug,
+  getArticlePath,
+  isUuid,
+} from "@/lib/articles";
+import {
+  ArticleCategory,
+  ArticleTag,
+  fetchArticleCategory,
+  fetchRelatedArticles,
+  fetchTagsForArticle,
+  getCategoryPath,
+  getTagPath,
+} from "@/lib/articleTaxonomy";
+import { getExcerpt, stripMarkdown } from "@/lib/markdown";
+import { buildNewsArticleSchema } from "@/lib/structuredData";
+import { RESTAURANT_TIME_ZONE } from "@/lib/businessHours";
+import { getPrerendered } from "@/lib/prerender";
 
 interface Article {
   id: string;
+  slug: string;
   title: string;
   content: string;
   category?: string;
+  category_id?: string;
   featured_image?: string;
+  meta_title?: string;
+  meta_description?: string;
+  meta_keywords?: string;
   status: "draft" | "published" | "scheduled";
   published_at?: string;
   created_at: string;
   updated_at: string;
 }
 
-const Article = () => {
-  const { id } = useParams();
-  const [article, setArticle] = useState<Article | null>(null);
-  const [relatedArticles, setRelatedArticles] = useState<Article[]>([]);
-  const [loading, setLoading] = useState(true);
+interface ArticleProps {
+  // /news/preview/:id shows any article, for editors or holders of a preview token
+  preview?: boolean;
+}
+
+const Article = ({ preview = false }: ArticleProps) => {
+  const { slug, id } = useParams();
+  const [searchParams] = useSearchParams();
+  const previewToken = searchParams.get("token");
+  const navigate = useNavigate();
+  // Prerendered articles skip the initial fetch; the build re-runs when they change
+  const [prerendered] = useState(() => preview ? undefined : getPrerendered("article"));
+  const [article, setArticle] = useState<Article | null>(prerendered?.article ?? null);
+  const [relatedArticles, setRelatedArticles] = useState<Article[]>(prerendered?.related ?? []);
+  const [category, setCategory] = useState<ArticleCategory | null>(prerendered?.category ?? null);
+  const [tags, setTags] = useState<ArticleTag[]>(prerendered?.tags ?? []);
+  const [loading, setLoading] = useState(!prerendered);
+  const skipInitialFetch = useRef(!!prerendered);
   const { toast } = useToast();
 
+  usePageSeo(article ? {
+    title: article.meta_title || article.title,
+    description: article.meta_description || stripMarkdown(article.content),
+    keywords: article.meta_keywords,
+    image: article.featured_image,
+    type: "article",
+    path: getArticlePath(article),
+    publishedTime: article.published_at,
+    modifiedTime: article.updated_at,
+    noIndex: preview,
+  } : { noIndex: preview || !loading });
+  useStructuredData("article", article && !preview ? buildNewsArticleSchema(article, `${getSiteUrl()}${getArticlePath(article)}`) : null);
+
   useEffect(() => {
-    if (id) {
-      fetchArticle(id);
-      fetchRelatedArticles(id);
+    if (skipInitialFetch.current) {
+      skipInitialFetch.current = false;
+      return;
     }
-  }, [id]);
+    // A related article link changes the slug while the last one may still be
+    // loading; only the latest request's results are used
+    let cancelled = false;
+    const isCurrent = () => !cancelled;
+    setCategory(null);
+    setTags([]);
+    setRelatedArticles([]);
+    if (preview && id) {
+      fetchPreview(id, isCurrent);
+    } else if (slug) {
+      fetchArticle(slug, isCurrent);
+    }
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [slug, id, preview, previewToken]);
 
-  const fetchArticle = async (articleId: string) => {
+  const fetchPreview = async (articleId: string, isCurrent: () => boolean) => {
+    setLoading(true);
+    try {
+      const data = await fetchArticlePreview(articleId, previewToken);
+      if (!isCurrent()) return;
+      setArticle(data);
+      if (!data) throw new Error("Article not found");
+      loadArticleExtras(data, isCurrent);
+    } catch (error) {
+      if (!isCurrent()) return;
+      console.error('Error fetching article preview:', error);
+      toast({
+        title: "Error",
+        description: previewToken ? "This preview link is invalid or has expired" : "Article not found",
+        variant: "destructive",
+      });
+    } finally {
+      if (isCurrent()) setLoading(false);
+    }
+  };
+
+  // Resolves the current slug, an old slug from the history or a legacy UUID
+  // link. Anything but the current slug redirects to the canonical URL.
+  const fetchArticle = async (slugOrId: string, isCurrent: () => boolean) => {
+    setLoading(true);
+    // Keep showing the loader while the redirected URL loads
+    let redirecting = false;
     try {
       const { data, error } = await supabase
         .from('articles')
         .select('*')
-        .eq('id', articleId)
-        .eq('status', 'published')
-        .single();
+        .eq(isUuid(slugOrId) ? 'id' : 'slug', slugOrId)
+        .in('status', LIVE_ARTICLE_STATUSES)
+        .lte('published_at', new Date().toISOString())
+        .maybeSingle();
 
+      if (!isCurrent()) return;
       if (error) throw error;
-      setArticle(data);
+
+      if (data) {
+        if (data.slug !== slugOrId) {
+          redirecting = true;
+          navigate(getArticlePath(data), { replace: true });
+          return;
+        }
+        setArticle(data);
+        loadArticleExtras(data, isCurrent);
+        return;
+      }
+
+      const redirectSlug = isUuid(slugOrId) ? null : await findRedirectSlug(slugOrId);
+      if (!isCurrent()) return;
+      if (redirectSlug) {
+        redirecting = true;
+        navigate(`/news/${redirectSlug}`, { replace: true });
+        return;
+      }
+      setArticle(null);
+      throw new Error("Article not found");
     } catch (error) {
+      if (!isCurrent()) return;
       console.error('Error fetching article:', error);
       toast({
         title: "Error",
@@ -52,22 +172,22 @@ const Article = () => {
         variant: "destructive",
       });
     } finally {
-      setLoading(false);
+      if (!redirecting && isCurrent()) setLoading(false);
     }
   };
 
-  const fetchRelatedArticles = async (currentId: string) => {
+  // Category, tags and related articles are extras: the article shows without them
+  const loadArticleExtras = async (current: Article, isCurrent: () => boolean) => {
     try {
-      const { data, error } = await supabase
-        .from('articles')
-        .select('*')
-        .eq('status', 'published')
-        .neq('id', currentId)
-        .order('published_at', { ascending: false })
-        .limit(3);
-
-      if (error) throw error;
-      setRelatedArticles(data || []);
+      const [currentCategory, currentTags, related] = await Promise.all([
+        current.category_id ? fetchArticleCategory(current.category_id) : Promise.resolve(null),
+        fetchTagsForArticle(current.id),
+        fetchRelatedArticles(current.id),
+      ]);
+      if (!isCurrent()) return;
+      setCategory(currentCategory);
+      setTags(currentTags);
+      setRelatedArticles(related);
     } catch (error) {
       console.error('Error fetching related articles:', error);
     }
@@ -77,7 +197,8 @@ const Article = () => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
       month: 'long',
-      day: 'numeric'
+      day: 'numeric',
+      timeZone: RESTAURANT_TIME_ZONE
     });
   };
 
@@ -116,7 +237,13 @@ const Article = () => {
         <div className="min-h-screen flex items-center justify-center">
           <div className="text-center">
             <h1 className="text-2xl font-bold text-foreground mb-4">Article Not Found</h1>
-            <p className="text-muted-foreground mb-6">The article you're looking for doesn't exist.</p>
+            <p className="text-muted-foreground mb-6">
+              {preview
+                ? previewToken
+                  ? "This preview link is invalid or has expired. Ask for a new one."
+                  : "Sign in to the admin dashboard or use a preview link to see this article."
+                : "The article you're looking for doesn't exist."}
+            </p>
             <Button variant="hero" asChild>
               <Link to="/news">Back to News</Link>
             </Button>
@@ -128,6 +255,24 @@ const Article = () => {
 
   return (
     <Layout>
+      {preview && (
+        <div className="bg-thai-gold text-thai-charcoal">
+          <div className="container mx-auto px-4 py-3 flex flex-wrap items-center gap-2 text-sm">
+            <EyeOff className="h-4 w-4" />
+            <span className="font-semibold">Preview</span>
+            <span>
+              {article.status ? ARTICLE_STATUS_LABELS[article.status] : "Draft"}
+              {article.status === "published"
+                ? " article. This is how it looks on the site."
+                : " article. It is not visible on the site yet."}
+            </span>
+            {article.status === "published" && (
+              <Link to={getArticlePath(article)} className="underline font-medium">View live article</Link>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Hero Section */}
       <section className="py-20">
         <div className="container mx-auto px-4">
@@ -151,9 +296,15 @@ const Article = () => {
           {/* Article Header */}
           <div className="max-w-4xl mx-auto mb-8">
             <div className="flex items-center gap-3 mb-4">
-              {article.category && (
+              {category ? (
+                <Link to={getCategoryPath(category)}>
+                  <Badge variant="default" className="bg-thai-gold text-thai-charcoal">
+                    {category.name}
+                  </Badge>
+                </Link>
+              ) : article.category && (
                 <Badge variant="default" className="bg-thai-gold text-thai-charcoal">
-                  {article.category.charAt(0).toUpperCase() + article.category.slice(1)}
+                  {article.category}
                 </Badge>
               )}
               <div className="flex items-center text-sm text-muted-foreground">
@@ -178,11 +329,22 @@ const Article = () => {
 
           {/* Article Content */}
           <div className="max-w-4xl mx-auto prose prose-lg max-w-none ml-8">
-            <div className="text-foreground leading-relaxed whitespace-pre-wrap">
-              {article.content}
-            </div>
+            <Markdown content={article.content} className="text-lg" />
           </div>
 
+          {tags.length > 0 && (
+            <div className="max-w-4xl mx-auto mt-8 flex flex-wrap items-center gap-2">
+              <Tag className="h-4 w-4 text-thai-gold" />
+              {tags.map((tag) => (
+                <Link key={tag.id} to={getTagPath(tag)}>
+                  <Badge variant="outline" className="hover:bg-thai-gold/10 transition-colors">
+                    {tag.name}
+                  </Badge>
+                </Link>
+              ))}
+            </div>
+          )}
+
           {/* Navigation */}
           <div className="max-w-4xl mx-auto mt-16 pt-8 border-t border-thai-gold/20">
             <div className="flex justify-between items-center">
@@ -209,7 +371,7 @@ const Article = () => {
               <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
                 {relatedArticles.map((relatedArticle) => (
                   <div key={relatedArticle.id} className="group">
-                    <Link to={`/news/${relatedArticle.id}`}>
+                    <Link to={getArticlePath(relatedArticle)}>
                       <div className="bg-card rounded-lg overflow-hidden border border-thai-gold/20 card-elegant">
                         <img 
                           src={relatedArticle.featured_image || "https://images.unsplash.com/photo-1556909114-f6e7ad7d3136?w=400&h=300&fit=crop"} 
@@ -219,14 +381,14 @@ const Article = () => {
                         <div className="p-6">
                           {relatedArticle.category && (
                             <Badge variant="outline" className="mb-3">
-                              {relatedArticle.category.charAt(0).toUpperCase() + relatedArticle.category.slice(1)}
+                              {relatedArticle.category}
                             </Badge>
                           )}
                           <h3 className="font-playfair text-lg font-semibold text-foreground group-hover:text-thai-gold transition-colors mb-2">
                             {relatedArticle.title}
                           </h3>
                           <p className="text-muted-foreground text-sm mb-3">
-                            {relatedArticle.content.substring(0, 100)}...
+                            {getExcerpt(relatedArticle.content, 100)}
                           </p>
                           <p className="text-xs text-muted-foreground">
                             {formatDate(relatedArticle.published_at || relatedArticle.created_at)}
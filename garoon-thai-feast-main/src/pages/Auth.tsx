@@ -4,13 +4,14 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { usePageSeo } from "@/hooks/useSeo";
 import { Eye, EyeOff, ArrowLeft } from "lucide-react";
 
 const Auth = () => {
+  usePageSeo({ title: "Staff Sign In", noIndex: true });
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [showPassword, setShowPassword] = useState(false);
@@ -56,33 +57,6 @@ const Auth = () => {
     }
   };
 
-  const handleSignUp = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setLoading(true);
-    setError("");
-
-    try {
-      const { error } = await supabase.auth.signUp({
-        email,
-        password,
-        options: {
-          emailRedirectTo: `${window.location.origin}/admin`
-        }
-      });
-
-      if (error) throw error;
-
-      toast({
-        title: "Check your email",
-        description: "We've sent you a confirmation link to complete your registration.",
-      });
-    } catch (error: any) {
-      setError(error.message);
-    } finally {
-      setLoading(false);
-    }
-  };
-
   return (
       <div className="min-h-screen bg-hero-gradient flex items-center justify-center p-4">
         <div className="w-full max-w-md">
@@ -103,115 +77,58 @@ const Auth = () => {
               <p className="text-muted-foreground">
                 Access your restaurant management dashboard
               </p>
+              <p className="text-xs text-muted-foreground">
+                Staff accounts are created by the restaurant owner.
+              </p>
             </CardHeader>
             <CardContent>
-              <Tabs defaultValue="signin" className="w-full">
-                <TabsList className="grid w-full grid-cols-2">
-                  <TabsTrigger value="signin">Sign In</TabsTrigger>
-                  <TabsTrigger value="signup">Sign Up</TabsTrigger>
-                </TabsList>
-
-                <TabsContent value="signin">
-                  <form onSubmit={handleSignIn} className="space-y-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="signin-email">Email</Label>
-                      <Input
-                          id="signin-email"
-                          type="email"
-                          value={email}
-                          onChange={(e) => setEmail(e.target.value)}
-                          placeholder="admin@easygothai.com"
-                          required
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="signin-password">Password</Label>
-                      <div className="relative">
-                        <Input
-                            id="signin-password"
-                            type={showPassword ? "text" : "password"}
-                            value={password}
-                            onChange={(e) => setPassword(e.target.value)}
-                            placeholder="Enter your password"
-                            required
-                        />
-                        <Button
-                            type="button"
-                            variant="ghost"
-                            size="sm"
-                            className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
-                            onClick={() => setShowPassword(!showPassword)}
-                        >
-                          {showPassword ? (
-                              <EyeOff className="h-4 w-4" />
-                          ) : (
-                              <Eye className="h-4 w-4" />
-                          )}
-                        </Button>
-                      </div>
-                    </div>
-                    {error && (
-                        <Alert variant="destructive">
-                          <AlertDescription>{error}</AlertDescription>
-                        </Alert>
-                    )}
-                    <Button type="submit" variant="hero" className="w-full" disabled={loading}>
-                      {loading ? "Signing in..." : "Sign In"}
+              <form onSubmit={handleSignIn} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="signin-email">Email</Label>
+                  <Input
+                      id="signin-email"
+                      type="email"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      placeholder="admin@easygothai.com"
+                      required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="signin-password">Password</Label>
+                  <div className="relative">
+                    <Input
+                        id="signin-password"
+                        type={showPassword ? "text" : "password"}
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        placeholder="Enter your password"
+                        required
+                    />
+                    <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
+                        onClick={() => setShowPassword(!showPassword)}
+                    >
+                      {showPassword ? (
+                          <EyeOff className="h-4 w-4" />
+                      ) : (
+                          <Eye className="h-4 w-4" />
+                      )}
                     </Button>
-                  </form>
-                </TabsContent>
-
-                {/*<TabsContent value="signup">*/}
-                {/*  <form onSubmit={handleSignUp} className="space-y-4">*/}
-                {/*    <div className="space-y-2">*/}
-                {/*      <Label htmlFor="signup-email">Email</Label>*/}
-                {/*      <Input*/}
-                {/*          id="signup-email"*/}
-                {/*          type="email"*/}
-                {/*          value={email}*/}
-                {/*          onChange={(e) => setEmail(e.target.value)}*/}
-                {/*          placeholder="admin@easygothai.com"*/}
-                {/*          required*/}
-                {/*      />*/}
-                {/*    </div>*/}
-                {/*    <div className="space-y-2">*/}
-                {/*      <Label htmlFor="signup-password">Password</Label>*/}
-                {/*      <div className="relative">*/}
-                {/*        <Input*/}
-                {/*            id="signup-password"*/}
-                {/*            type={showPassword ? "text" : "password"}*/}
-                {/*            value={password}*/}
-                {/*            onChange={(e) => setPassword(e.target.value)}*/}
-                {/*            placeholder="Create a secure password"*/}
-                {/*            required*/}
-                {/*            minLength={6}*/}
-                {/*        />*/}
-                {/*        <Button*/}
-                {/*            type="button"*/}
-                {/*            variant="ghost"*/}
-                {/*            size="sm"*/}
-                {/*            className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"*/}
-                {/*            onClick={() => setShowPassword(!showPassword)}*/}
-                {/*        >*/}
-                {/*          {showPassword ? (*/}
-                {/*              <EyeOff className="h-4 w-4" />*/}
-                {/*          ) : (*/}
-                {/*              <Eye className="h-4 w-4" />*/}
-                {/*          )}*/}
-                {/*        </Button>*/}
-                {/*      </div>*/}
-                {/*    </div>*/}
-                {/*    {error && (*/}
-                {/*        <Alert variant="destructive">*/}
-                {/*          <AlertDescription>{error}</AlertDescription>*/}
-                {/*        </Alert>*/}
-                {/*    )}*/}
-                {/*    <Button type="submit" variant="hero" className="w-full" disabled={loading}>*/}
-                {/*      {loading ? "Creating account..." : "Create Account"}*/}
-                {/*    </Button>*/}
-                {/*  </form>*/}
-                {/*</TabsContent>*/}
-              </Tabs>
+                  </div>
+                </div>
+                {error && (
+                    <Alert variant="destructive">
+                      <AlertDescription>{error}</AlertDescription>
+                    </Alert>
+                )}
+                <Button type="submit" variant="hero" className="w-full" disabled={loading}>
+                  {loading ? "Signing in..." : "Sign In"}
+                </Button>
+              </form>
             </CardContent>
           </Card>
         </div>
@@ -1,10 +1,10 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState } from "react";
 import { Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import Layout from "@/components/Layout";
 import { Star, Clock, Users, Award, ArrowRight, Utensils, Heart, Globe } from "lucide-react";
-import { useToast } from "@/hooks/use-toast";
+import { usePageSeo } from "@/hooks/useSeo";
 // import heroImage from "@/assets/hero-thai-dishes.jpg";
 import main_photo from '/main_photo.jpg'
 // import restaurantInterior from "@/assets/restaurant-interior.jpg";
@@ -84,53 +84,31 @@ const defaultTestimonials = [
 ];
 
 const Index = () => {
-  const [testimonials, setTestimonials] = useState<Testimonial[]>([]);
-  const [stats, setStats] = useState<StatItem[]>([]);
-  const [features, setFeatures] = useState<Feature[]>([]);
-  const [loading, setLoading] = useState(true);
-  const { toast } = useToast();
-
-  const fetchData = useCallback(async () => {
-    try {
-      setLoading(true);
-      
-      // For now, use default data since we don't have these tables yet
-      // In a real implementation, you would fetch from database tables
-      setFeatures(defaultFeatures.map((f, i) => ({ 
-        id: `feature-${i}`, 
-        icon_name: f.icon.name || 'Utensils', 
-        title: f.title, 
-        description: f.description, 
-        display_order: i, 
-        is_active: true 
-      })));
-      
-      setStats(defaultStats.map((s, i) => ({ 
-        id: `stat-${i}`, 
-        icon_name: s.icon.name || 'Star', 
-        value: s.value, 
-        label: s.label, 
-        display_order: i, 
-        is_active: true 
-      })));
-      
-      setTestimonials(defaultTestimonials.map(t => ({ ...t, is_active: true })));
-
-    } catch (error) {
-      console.error('Error fetching data:', error);
-      toast({
-        title: "Error",
-        description: "Failed to load page data",
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
-    }
-  }, [toast]);
-
-  useEffect(() => {
-    fetchData();
-  }, [fetchData]);
+  usePageSeo();
+  // No tables for these yet, so the defaults render straight away
+  const [testimonials] = useState<Testimonial[]>(() =>
+    defaultTestimonials.map(t => ({ ...t, is_active: true }))
+  );
+  const [stats] = useState<StatItem[]>(() =>
+    defaultStats.map((s, i) => ({ 
+      id: `stat-${i}`, 
+      icon_name: s.icon.name || 'Star', 
+      value: s.value, 
+      label: s.label, 
+      display_order: i, 
+      is_active: true 
+    }))
+  );
+  const [features] = useState<Feature[]>(() =>
+    defaultFeatures.map((f, i) => ({ 
+      id: `feature-${i}`, 
+      icon_name: f.icon.name || 'Utensils', 
+      title: f.title, 
+      description: f.description, 
+      display_order: i, 
+      is_active: true 
+    }))
+  );
 
   const getIcon = (iconName: string) => {
     const iconMap: { [key: string]: React.ElementType } = {
@@ -145,19 +123,6 @@ const Index = () => {
     return iconMap[iconName] || Utensils;
   };
 
-  if (loading) {
-    return (
-      <Layout>
-        <div className="min-h-screen flex items-center justify-center">
-          <div className="text-center">
-            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-thai-gold mx-auto mb-4"></div>
-            <p className="text-muted-foreground">Loading...</p>
-          </div>
-        </div>
-      </Layout>
-    );
-  }
-
   return (
     <Layout>
       {/* Hero Section */}
@@ -346,11 +311,11 @@ const Index = () => {
               Visit us today or order online for an authentic Thai dining experience
             </p>
             <div className="flex flex-col sm:flex-row gap-4 justify-center">
-              {/*<Button variant="elegant" size="xl" asChild>*/}
-              {/*  <Link to="/menu">*/}
-              {/*    Reserve a Table*/}
-              {/*  </Link>*/}
-              {/*</Button>*/}
+              <Button variant="elegant" size="xl" asChild>
+                <Link to="/reservations">
+                  Reserve a Table
+                </Link>
+              </Button>
               {/*<Button variant="accent" size="xl">*/}
               {/*  <a href="https://www.order.store/store/easygo-thai-restaurant-and-takeaways/KpMs6bO6RsCV6m8RKZRVHw">Order for Pickup</a>*/}
               {/*</Button>*/}
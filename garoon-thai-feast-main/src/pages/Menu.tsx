@@ -1,13 +1,26 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import Layout from "@/components/Layout";
-import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { usePageSeo, useStructuredData } from "@/hooks/useSeo";
+import { buildMenuSchema } from "@/lib/structuredData";
+import { getMenuCategoryAnchor } from "@/lib/sitemap";
 import { useAuth } from "@/hooks/useAuth";
+import { useCart } from "@/hooks/useCart";
+import MenuItemOptionsDialog from "@/components/MenuItemOptionsDialog";
+import {
+  MenuOptionGroup,
+  SelectedModifier,
+  describeGroupRule,
+  fetchPublicMenu,
+  getModifiersTotal,
+} from "@/lib/menuOptions";
+import { getPrerendered } from "@/lib/prerender";
 import React from "react";
-import { Search, X } from "lucide-react";
+import { Plus, Search, X } from "lucide-react";
 import glutenFreeIcon from "@/assets/gluten_free.png";
 import veganIcon from "@/assets/vegan.png";
 import vegetarianIcon from "@/assets/vegetarian.png";
@@ -33,23 +46,51 @@ interface MenuItem {
   is_vegan?: boolean;
   is_spicy?: boolean; // new
   is_vegetarian?: boolean; // new
+  menu_option_groups: MenuOptionGroup[];
 }
 
 const Menu = () => {
+  usePageSeo({
+    title: "Menu",
+    description: "Browse our full menu of authentic Thai dishes and order online for pickup.",
+  });
+  // A prerendered menu shows straight away and is refreshed in the background,
+  // since prices and availability matter for orders
+  const [prerendered] = useState(() => getPrerendered("menu"));
   const [activeCategory, setActiveCategory] = useState("all");
-  const [categories, setCategories] = useState<Category[]>([]);
-  const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [categories, setCategories] = useState<Category[]>(prerendered?.categories ?? []);
+  const [menuItems, setMenuItems] = useState<MenuItem[]>(prerendered?.items ?? []);
+  const [loading, setLoading] = useState(!prerendered);
   const [search, setSearch] = useState("");
   const [searchInput, setSearchInput] = useState("");
+  const [optionsItem, setOptionsItem] = useState<MenuItem | null>(null);
   const { toast } = useToast();
   const { user, loading: authLoading } = useAuth();
+  const { addItem } = useCart();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const menuRef = useRef<HTMLElement>(null);
+  const scrolledToAnchor = useRef(false);
+  useStructuredData("menu", loading ? null : buildMenuSchema(categories, menuItems));
 
   useEffect(() => {
     fetchData();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // The sitemap and shared links point at /menu#<category>
+  useEffect(() => {
+    if (loading) return;
+    const anchor = decodeURIComponent(location.hash.slice(1));
+    const match = anchor && categories.find(category => getMenuCategoryAnchor(category.name) === anchor);
+    if (!match) return;
+    setActiveCategory(match.id);
+    if (!scrolledToAnchor.current) {
+      scrolledToAnchor.current = true;
+      menuRef.current?.scrollIntoView({ behavior: "smooth" });
+    }
+  }, [loading, categories, location.hash]);
+
   // Debounce search input
   useEffect(() => {
     const handler = setTimeout(() => setSearch(searchInput), 250);
@@ -58,24 +99,10 @@ const Menu = () => {
 
   const fetchData = async () => {
     try {
-      setLoading(true);
-      // Fetch categories
-      const { data: categoriesData, error: categoriesError } = await supabase
-        .from('menu_categories')
-        .select('*')
-        .eq('is_active', true)
-        .order('display_order', { ascending: true });
-      // This throw is caught locally, safe to ignore warning
-      if (categoriesError) throw categoriesError;
-      // Fetch menu items
-      const { data: menuItemsData, error: menuItemsError } = await supabase
-        .from('menu_items')
-        .select('*')
-        .eq('is_active', true)
-        .order('name', { ascending: true });
-      if (menuItemsError) throw menuItemsError;
-      setCategories(categoriesData || []);
-      setMenuItems(menuItemsData || []);
+      if (!prerendered) setLoading(true);
+      const menu = await fetchPublicMenu();
+      setCategories(menu.categories);
+      setMenuItems(menu.items);
     } catch (error) {
       console.error('Error fetching data:', error);
       toast({
@@ -101,6 +128,41 @@ const Menu = () => {
     );
   });
 
+  const selectCategory = (category: { id: string; name: string }) => {
+    setActiveCategory(category.id);
+    const anchor = category.id === "all" ? "" : getMenuCategoryAnchor(category.name);
+    navigate({ hash: anchor }, { replace: true });
+  };
+
+  const addToCart = (item: MenuItem, modifiers: SelectedModifier[] = [], quantity = 1) => {
+    addItem({
+      menuItemId: item.id,
+      name: item.name,
+      unitPrice: item.price + getModifiersTotal(modifiers),
+      modifiers,
+      imageUrl: item.image_url,
+    }, quantity);
+    toast({
+      title: "Added to order",
+      description: `${item.name} has been added to your cart.`,
+    });
+  };
+
+  // Items with option groups need choices made before they go in the cart
+  const handleAddToCart = (item: MenuItem) => {
+    if (item.menu_option_groups.length > 0) {
+      setOptionsItem(item);
+      return;
+    }
+    addToCart(item);
+  };
+
+  const handleAddWithOptions = (modifiers: SelectedModifier[], quantity: number) => {
+    if (!optionsItem) return;
+    addToCart(optionsItem, modifiers, quantity);
+    setOptionsItem(null);
+  };
+
   const allCategories = [
     { id: "all", name: "All Items" },
     ...categories
@@ -134,7 +196,7 @@ const Menu = () => {
       </section>
 
       {/* Menu Section */}
-      <section className="py-16 bg-background">
+      <section ref={menuRef} className="py-16 bg-background scroll-mt-20">
         <div className="container mx-auto px-4">
           {/* Category Filter & Search */}
           <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-12">
@@ -144,7 +206,7 @@ const Menu = () => {
                   key={category.id}
                   variant={activeCategory === category.id ? "hero" : "elegant"}
                   size="sm"
-                  onClick={() => setActiveCategory(category.id)}
+                  onClick={() => selectCategory(category)}
                   className="transition-all duration-300"
                 >
                   {category.name}
@@ -341,6 +403,23 @@ const Menu = () => {
                       </Badge>
                     )}
                   </div>
+
+                  {item.menu_option_groups.length > 0 && (
+                    <ul className="text-sm text-muted-foreground space-y-1 mt-2">
+                      {item.menu_option_groups.map(group => (
+                        <li key={group.id}>
+                          <span className="font-medium text-foreground">{group.name}:</span>{" "}
+                          {group.menu_options.map(option => option.name).join(" / ")}
+                          <span className="text-xs"> ({describeGroupRule(group).toLowerCase()})</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  <Button variant="hero" size="sm" className="w-full mt-4" onClick={() => handleAddToCart(item)}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    {item.menu_option_groups.length > 0 ? "Choose Options" : "Add to Order"}
+                  </Button>
                 </CardContent>
               </Card>
             ))}
@@ -354,6 +433,13 @@ const Menu = () => {
             </div>
           )}
 
+          <MenuItemOptionsDialog
+            item={optionsItem}
+            groups={optionsItem?.menu_option_groups ?? []}
+            onOpenChange={(open) => !open && setOptionsItem(null)}
+            onAdd={handleAddWithOptions}
+          />
+
           {/* Menu Note */}
           <div className="text-center mt-12 p-6 bg-thai-beige-light/30 rounded-lg">
             <p className="text-muted-foreground">
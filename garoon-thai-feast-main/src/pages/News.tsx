@@ -1,29 +1,66 @@
-import { useState, useEffect } from "react";
-import { Link } from "react-router-dom";
+import { useState, useEffect, useRef, FormEvent } from "react";
+import { Link, useParams, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import Layout from "@/components/Layout";
-import { Calendar, Clock, ArrowRight, Newspaper } from "lucide-react";
+import { Calendar, Clock, ArrowRight, ArrowLeft, Newspaper, Tag, Search, X } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-
-interface Article {
-  id: string;
-  title: string;
-  content: string;
-  category?: string;
-  featured_image?: string;
-  status: "draft" | "published" | "scheduled";
-  published_at?: string;
-  created_at: string;
-  updated_at: string;
-}
-
+import { useFeedLinks, usePageSeo } from "@/hooks/useSeo";
+import { getArticlePath } from "@/lib/articles";
+import { submitContactMessage } from "@/lib/contactMessages";
+import { subscribeToNewsletter } from "@/lib/newsletter";
+import { useFormGuard } from "@/hooks/useFormGuard";
+import HoneypotField from "@/components/HoneypotField";
+import { truncateText } from "@/lib/markdown";
+import { getFeedPaths, getFeedTitle } from "@/lib/feeds";
+import { LiveArticleCategory, getPrerendered } from "@/lib/prerender";
+import { RESTAURANT_TIME_ZONE } from "@/lib/businessHours";
+import { ArticleTag, fetchArticleTags, getCategoryPath, getTagPath } from "@/lib/articleTaxonomy";
+import {
+  ArticleListItem,
+  fetchLiveArticleCategories,
+  getPageCount,
+  searchArticles,
+  splitHighlights,
+} from "@/lib/articleSearch";
+
+// Search matches from ts_headline(), shown as <mark>
+const Highlighted = ({ text }: { text: string }) => (
+  <>
+    {splitHighlights(text).map((part, index) =>
+      part.highlighted ? (
+        <mark key={index} className="bg-thai-gold/30 text-inherit rounded-sm px-0.5">{part.text}</mark>
+      ) : (
+        part.text
+      )
+    )}
+  </>
+);
+
+// Also serves /news/category/:category and /news/tag/:tag. The page number
+// and search query live in ?page= and ?q= so results can be linked to.
 const News = () => {
-  const [selectedCategory, setSelectedCategory] = useState("all");
-  const [articles, setArticles] = useState<Article[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { category: categorySlug, tag: tagSlug } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get("q")?.trim() || "";
+  const page = Math.max(1, parseInt(searchParams.get("page") || "1", 10) || 1);
+  // Only /news itself is prerendered; its first render uses that data and
+  // skips the initial fetch
+  const [prerendered] = useState(() => getPrerendered("news"));
+  const [articles, setArticles] = useState<ArticleListItem[]>(prerendered?.articles ?? []);
+  const [total, setTotal] = useState(prerendered?.total ?? 0);
+  const [categories, setCategories] = useState<LiveArticleCategory[]>(prerendered?.categories ?? []);
+  const [articleTags, setArticleTags] = useState<ArticleTag[]>(prerendered?.tags ?? []);
+  const [loading, setLoading] = useState(!prerendered);
+  // The full-page loader is only for the first load; later pages and
+  // searches keep the list on screen while they load
+  const [loadedOnce, setLoadedOnce] = useState(!!prerendered);
+  const skipInitialFetch = useRef(!!prerendered);
+  const [searchInput, setSearchInput] = useState(query);
+  const listRef = useRef<HTMLElement | null>(null);
   const [email, setEmail] = useState("");
   const [subscribing, setSubscribing] = useState(false);
   const [contactForm, setContactForm] = useState({
@@ -33,59 +70,117 @@ const News = () => {
     message: ""
   });
   const [sendingMessage, setSendingMessage] = useState(false);
+  const newsletterGuard = useFormGuard("newsletter");
+  const contactGuard = useFormGuard("contact");
   const { toast } = useToast();
 
   useEffect(() => {
-    fetchArticles();
+    if (!skipInitialFetch.current) fetchFilters();
   }, []);
 
-  const fetchArticles = async () => {
+  useEffect(() => {
+    if (skipInitialFetch.current) {
+      skipInitialFetch.current = false;
+      return;
+    }
+    // Only the latest filters' results are shown, however the requests finish
+    let cancelled = false;
+    const fetchArticles = async () => {
+      try {
+        setLoading(true);
+        const result = await searchArticles({ query, categorySlug, tagSlug, page });
+        if (cancelled) return;
+        setArticles(result.articles);
+        setTotal(result.total);
+      } catch (error) {
+        if (cancelled) return;
+        console.error('Error fetching articles:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load articles",
+          variant: "destructive",
+        });
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+          setLoadedOnce(true);
+        }
+      }
+    };
+    fetchArticles();
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [categorySlug, tagSlug, query, page]);
+
+  useEffect(() => {
+    setSearchInput(query);
+  }, [query]);
+
+  const fetchFilters = async () => {
     try {
-      setLoading(true);
-      const { data, error } = await supabase
-        .from('articles')
-        .select('*')
-        .eq('status', 'published')
-        .order('published_at', { ascending: false });
-
-      if (error) throw error;
-      setArticles(data || []);
+      const [categoryRows, tagRows] = await Promise.all([fetchLiveArticleCategories(), fetchArticleTags()]);
+      setCategories(categoryRows);
+      setArticleTags(tagRows);
     } catch (error) {
-      console.error('Error fetching articles:', error);
-      toast({
-        title: "Error",
-        description: "Failed to load articles",
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
+      console.error('Error fetching categories:', error);
     }
   };
 
-  // Get unique categories from articles
-  const categories = [
-    { id: "all", name: "All News" },
-    ...Array.from(new Set(articles.map(article => article.category).filter(Boolean)))
-      .map(category => ({ id: category!, name: category!.charAt(0).toUpperCase() + category!.slice(1) }))
-  ];
+  const activeCategory = categorySlug ? categories.find(category => category.slug === categorySlug) : undefined;
+  const activeTag = tagSlug ? articleTags.find(tag => tag.slug === tagSlug) : undefined;
+  const pageCount = getPageCount(total);
+  const basePath = activeCategory ? getCategoryPath(activeCategory) : activeTag ? getTagPath(activeTag) : "/news";
+
+  // Links keep the search query; the page only carries over where it says so
+  const withParams = (path: string, targetPage = 1) => {
+    const params = new URLSearchParams();
+    if (query) params.set("q", query);
+    if (targetPage > 1) params.set("page", String(targetPage));
+    const search = params.toString();
+    return search ? `${path}?${search}` : path;
+  };
+
+  const handleSearch = (e: FormEvent) => {
+    e.preventDefault();
+    const next = new URLSearchParams();
+    if (searchInput.trim()) next.set("q", searchInput.trim());
+    setSearchParams(next);
+  };
+
+  const clearSearch = () => {
+    setSearchInput("");
+    setSearchParams(new URLSearchParams());
+  };
 
-  const filteredArticles = selectedCategory === "all" 
-    ? articles 
-    : articles.filter(article => article.category === selectedCategory);
+  usePageSeo({
+    title: activeCategory
+      ? `${activeCategory.name} News`
+      : activeTag
+        ? `Articles tagged ${activeTag.name}`
+        : "News & Updates",
+    description: activeCategory?.description
+      || (activeTag
+        ? `News and stories about ${activeTag.name} from Easy Go Thai.`
+        : "Stay updated with the latest happenings, events and specials at Easy Go Thai."),
+    path: page > 1 ? `${basePath}?page=${page}` : basePath,
+    // Search results and empty listings aren't worth indexing
+    noIndex: !!query || (loadedOnce && !loading && total === 0 && (!!categorySlug || !!tagSlug)),
+  });
+
+  // Category pages offer their own feed; everything else gets the full news feed
+  useFeedLinks(getFeedTitle(activeCategory), getFeedPaths(activeCategory?.slug));
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
       month: 'long',
-      day: 'numeric'
+      day: 'numeric',
+      timeZone: RESTAURANT_TIME_ZONE
     });
   };
 
-  const getExcerpt = (content: string, length = 150) => {
-    if (content.length <= length) return content;
-    return content.substring(0, length) + "...";
-  };
-
   const handleSubscribe = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -100,71 +195,20 @@ const News = () => {
 
     setSubscribing(true);
     try {
-      console.log('Attempting to subscribe email:', email);
-      
-      // Insert directly into database
-      const { data: dbData, error: dbError } = await supabase
-        .from('member_subscriptions')
-        .insert([{
-          email: email,
-          is_subscribed: true,
-          subscribed_at: new Date().toISOString()
-        }])
-        .select();
-
-      if (dbError) {
-        console.error('Database insert failed:', dbError);
-        toast({
-          title: "Error",
-          description: "Failed to subscribe. Please try again later.",
-          variant: "destructive",
-        });
-        return;
-      }
-
-      console.log('Successfully added to database:', dbData);
+      await subscribeToNewsletter(email, await newsletterGuard.getGuard());
       toast({
         title: "Success!",
         description: "Thank you for subscribing to our newsletter!",
       });
       setEmail("");
+      newsletterGuard.reset();
     } catch (error) {
       console.error('Error subscribing:', error);
-      
-      // Fallback: Store locally only
-      try {
-        const subscriptions = JSON.parse(localStorage.getItem('newsletter_subscriptions') || '[]');
-        const existingSubscription = subscriptions.find((sub: any) => sub.email === email);
-        
-        if (!existingSubscription) {
-          const newSubscription = {
-            email: email,
-            is_subscribed: true,
-            subscribed_at: new Date().toISOString()
-          };
-          subscriptions.push(newSubscription);
-          localStorage.setItem('newsletter_subscriptions', JSON.stringify(subscriptions));
-          
-          toast({
-            title: "Success!",
-            description: "Thank you for subscribing to our newsletter! (Stored locally)",
-          });
-          setEmail("");
-        } else {
-          toast({
-            title: "Already Subscribed",
-            description: "This email is already subscribed to our newsletter",
-            variant: "destructive",
-          });
-        }
-      } catch (localError) {
-        console.error('Local storage error:', localError);
-        toast({
-          title: "Error",
-          description: "Failed to subscribe. Please try again later.",
-          variant: "destructive",
-        });
-      }
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to subscribe. Please try again later.",
+        variant: "destructive",
+      });
     } finally {
       setSubscribing(false);
     }
@@ -193,25 +237,12 @@ const News = () => {
 
     setSendingMessage(true);
     try {
-      // Store contact form submission in contact_messages table
-      const { error: dbError } = await supabase
-        .from('contact_messages')
-        .insert([
-          {
-            name: contactForm.name,
-            email: contactForm.email,
-            message: contactForm.message
-          }
-        ]);
-
-      if (dbError) {
-        toast({
-          title: "Error",
-          description: "Failed to send message. Please try again later.",
-          variant: "destructive",
-        });
-        return;
-      }
+      await submitContactMessage({
+        name: contactForm.name,
+        email: contactForm.email,
+        subject: contactForm.subject,
+        message: contactForm.message,
+      }, await contactGuard.getGuard());
 
       toast({
         title: "Message Sent Successfully!",
@@ -223,10 +254,11 @@ const News = () => {
         subject: "",
         message: ""
       });
+      contactGuard.reset();
     } catch (error) {
       toast({
-        title: "Message Saved",
-        description: "Your message has been saved locally. Please contact us directly if urgent.",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to send message. Please try again later.",
         variant: "destructive",
       });
     } finally {
@@ -236,7 +268,7 @@ const News = () => {
 
 
 
-  if (loading) {
+  if (loading && !loadedOnce) {
     return (
       <Layout>
         <div className="min-h-screen flex items-center justify-center">
@@ -264,132 +296,222 @@ const News = () => {
       </section>
 
       {/* News Section */}
-      <section className="py-16 bg-background">
+      <section ref={listRef} className="py-16 bg-background scroll-mt-20">
         <div className="container mx-auto px-4">
+          {/* Search */}
+          <form onSubmit={handleSearch} className="max-w-xl mx-auto mb-8 flex gap-2" role="search">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                type="search"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                placeholder="Search news and events"
+                aria-label="Search articles"
+                className="pl-9"
+              />
+            </div>
+            <Button type="submit" variant="hero">Search</Button>
+          </form>
+
           {/* Category Filter */}
           <div className="flex flex-wrap justify-center gap-2 mb-12">
+            <Button
+              variant={!categorySlug && !tagSlug ? "hero" : "elegant"}
+              size="sm"
+              asChild
+              className="transition-all duration-300"
+            >
+              <Link to={withParams("/news")}>All News</Link>
+            </Button>
             {categories.map((category) => (
               <Button
                 key={category.id}
-                variant={selectedCategory === category.id ? "hero" : "elegant"}
+                variant={categorySlug === category.slug ? "hero" : "elegant"}
                 size="sm"
-                onClick={() => setSelectedCategory(category.id)}
+                asChild
                 className="transition-all duration-300"
               >
-                {category.name}
+                <Link to={withParams(getCategoryPath(category))}>{category.name}</Link>
               </Button>
             ))}
           </div>
 
-          {/* Featured Article */}
-          {filteredArticles.length > 0 && (
-            <div className="mb-16">
-              <h2 className="font-playfair text-3xl font-bold text-foreground mb-8">Latest Story</h2>
-              {(() => {
-                const featured = filteredArticles[0];
-                return (
-                  <Card className="card-elegant border-thai-gold/20 overflow-hidden group">
-                    <div className="md:flex">
-                      <div className="md:w-1/2">
-                        <img 
-                          src={featured.featured_image || "https://images.unsplash.com/photo-1512058564366-18510be2db19?w=600&h=400&fit=crop"} 
-                          alt={featured.title}
-                          className="w-full h-64 md:h-full object-cover transition-transform duration-500 group-hover:scale-105"
-                        />
-                      </div>
-                      <div className="md:w-1/2 p-8">
-                        <div className="flex items-center gap-3 mb-4">
-                          {featured.category && (
-                            <Badge variant="default" className="bg-thai-gold text-thai-charcoal">
-                              {featured.category.charAt(0).toUpperCase() + featured.category.slice(1)}
-                            </Badge>
-                          )}
-                          <div className="flex items-center text-sm text-muted-foreground">
-                            <Calendar className="h-4 w-4 mr-1" />
-                            {formatDate(featured.published_at || featured.created_at)}
+          {tagSlug && (
+            <div className="flex items-center justify-center gap-2 -mt-6 mb-12 text-muted-foreground">
+              <Tag className="h-4 w-4 text-thai-gold" />
+              Articles tagged <span className="font-semibold text-foreground">{activeTag?.name ?? tagSlug}</span>
+            </div>
+          )}
+
+          {query && (
+            <div className="flex flex-wrap items-center justify-center gap-2 -mt-6 mb-12 text-muted-foreground">
+              {total} {total === 1 ? "result" : "results"} for
+              <span className="font-semibold text-foreground">"{query}"</span>
+              <Button variant="ghost" size="sm" onClick={clearSearch}>
+                <X className="h-4 w-4 mr-1" />
+                Clear search
+              </Button>
+            </div>
+          )}
+
+          <div className={loading ? "opacity-60 transition-opacity" : "transition-opacity"}>
+            {/* Featured Article */}
+            {page === 1 && !query && articles.length > 0 && (
+              <div className="mb-16">
+                <h2 className="font-playfair text-3xl font-bold text-foreground mb-8">Latest Story</h2>
+                {(() => {
+                  const featured = articles[0];
+                  return (
+                    <Card className="card-elegant border-thai-gold/20 overflow-hidden group">
+                      <div className="md:flex">
+                        <div className="md:w-1/2">
+                          <img 
+                            src={featured.featured_image || "https://images.unsplash.com/photo-1512058564366-18510be2db19?w=600&h=400&fit=crop"} 
+                            alt={featured.title}
+                            className="w-full h-64 md:h-full object-cover transition-transform duration-500 group-hover:scale-105"
+                          />
+                        </div>
+                        <div className="md:w-1/2 p-8">
+                          <div className="flex items-center gap-3 mb-4">
+                            {featured.category && (
+                              <Badge variant="default" className="bg-thai-gold text-thai-charcoal">
+                                {featured.category}
+                              </Badge>
+                            )}
+                            <div className="flex items-center text-sm text-muted-foreground">
+                              <Calendar className="h-4 w-4 mr-1" />
+                              {formatDate(featured.published_at || featured.created_at)}
+                            </div>
                           </div>
+                          <h3 className="font-playfair text-2xl font-bold text-foreground mb-4 group-hover:text-thai-gold transition-colors">
+                            {featured.title}
+                          </h3>
+                          <p className="text-muted-foreground leading-relaxed mb-6">
+                            {truncateText(featured.excerpt)}
+                          </p>
+                          <Button variant="hero" asChild>
+                            <Link to={getArticlePath(featured)}>
+                              Read Full Story
+                              <ArrowRight className="ml-2 h-4 w-4" />
+                            </Link>
+                          </Button>
                         </div>
-                        <h3 className="font-playfair text-2xl font-bold text-foreground mb-4 group-hover:text-thai-gold transition-colors">
-                          {featured.title}
-                        </h3>
-                        <p className="text-muted-foreground leading-relaxed mb-6">
-                          {getExcerpt(featured.content)}
-                        </p>
-                        <Button variant="hero" asChild>
-                          <Link to={`/news/${featured.id}`}>
-                            Read Full Story
-                            <ArrowRight className="ml-2 h-4 w-4" />
-                          </Link>
-                        </Button>
                       </div>
+                    </Card>
+                  );
+                })()}
+              </div>
+            )}
+
+            {/* Articles Grid */}
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+              {articles
+                .slice(page === 1 && !query ? 1 : 0) // Skip the featured article
+                .map((article, index) => (
+                  <Card 
+                    key={article.id} 
+                    className="card-elegant border-thai-gold/20 group overflow-hidden animate-scale-in"
+                    style={{ animationDelay: `${index * 0.1}s` }}
+                  >
+                    <div className="relative">
+                      <img 
+                        src={article.featured_image || "https://images.unsplash.com/photo-1512058564366-18510be2db19?w=600&h=400&fit=crop"} 
+                        alt={article.title}
+                        className="w-full h-48 object-cover transition-transform duration-500 group-hover:scale-110"
+                      />
+                      <div className="absolute inset-0 bg-thai-charcoal/20 group-hover:bg-thai-charcoal/10 transition-colors duration-300" />
+                      {article.category && (
+                        <div className="absolute top-3 left-3">
+                          <Badge variant="secondary" className="bg-white/90 text-thai-charcoal">
+                            {article.category}
+                          </Badge>
+                        </div>
+                      )}
                     </div>
-                  </Card>
-                );
-              })()}
-            </div>
-          )}
 
-          {/* Articles Grid */}
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-            {filteredArticles
-              .slice(1) // Skip the first article since it's featured
-              .map((article, index) => (
-                <Card 
-                  key={article.id} 
-                  className="card-elegant border-thai-gold/20 group overflow-hidden animate-scale-in"
-                  style={{ animationDelay: `${index * 0.1}s` }}
-                >
-                  <div className="relative">
-                    <img 
-                      src={article.featured_image || "https://images.unsplash.com/photo-1512058564366-18510be2db19?w=600&h=400&fit=crop"} 
-                      alt={article.title}
-                      className="w-full h-48 object-cover transition-transform duration-500 group-hover:scale-110"
-                    />
-                    <div className="absolute inset-0 bg-thai-charcoal/20 group-hover:bg-thai-charcoal/10 transition-colors duration-300" />
-                    {article.category && (
-                      <div className="absolute top-3 left-3">
-                        <Badge variant="secondary" className="bg-white/90 text-thai-charcoal">
-                          {article.category.charAt(0).toUpperCase() + article.category.slice(1)}
-                        </Badge>
-                      </div>
-                    )}
-                  </div>
-
-                  <CardContent className="p-6">
-                    <div className="flex items-center gap-4 text-sm text-muted-foreground mb-3">
-                      <div className="flex items-center">
-                        <Calendar className="h-4 w-4 mr-1" />
-                        {formatDate(article.published_at || article.created_at)}
+                    <CardContent className="p-6">
+                      <div className="flex items-center gap-4 text-sm text-muted-foreground mb-3">
+                        <div className="flex items-center">
+                          <Calendar className="h-4 w-4 mr-1" />
+                          {formatDate(article.published_at || article.created_at)}
+                        </div>
                       </div>
-                    </div>
                     
-                    <h3 className="font-playfair text-xl font-semibold text-foreground group-hover:text-thai-gold transition-colors mb-3">
-                      {article.title}
-                    </h3>
+                      <h3 className="font-playfair text-xl font-semibold text-foreground group-hover:text-thai-gold transition-colors mb-3">
+                        <Highlighted text={article.title_highlight} />
+                      </h3>
                     
-                    <p className="text-muted-foreground text-sm leading-relaxed mb-4">
-                      {getExcerpt(article.content, 120)}
-                    </p>
-
-                    <Button variant="ghost" size="sm" asChild className="p-0 h-auto text-thai-gold hover:text-thai-gold/80">
-                      <Link to={`/news/${article.id}`} className="flex items-center">
-                        Read More
-                        <ArrowRight className="ml-1 h-4 w-4" />
-                      </Link>
-                    </Button>
-                  </CardContent>
-                </Card>
-              ))}
+                      <p className="text-muted-foreground text-sm leading-relaxed mb-4">
+                        {query
+                          ? <Highlighted text={article.excerpt} />
+                          : truncateText(article.excerpt, 120)}
+                      </p>
+
+                      <Button variant="ghost" size="sm" asChild className="p-0 h-auto text-thai-gold hover:text-thai-gold/80">
+                        <Link to={getArticlePath(article)} className="flex items-center">
+                          Read More
+                          <ArrowRight className="ml-1 h-4 w-4" />
+                        </Link>
+                      </Button>
+                    </CardContent>
+                  </Card>
+                ))}
+            </div>
           </div>
 
-          {filteredArticles.length === 0 && (
+          {/* Pagination */}
+          {pageCount > 1 && (
+            <nav className="flex flex-wrap items-center justify-center gap-2 mt-12" aria-label="Pagination">
+              {page > 1 && (
+                <Button variant="elegant" size="sm" asChild>
+                  <Link to={withParams(basePath, page - 1)} onClick={() => listRef.current?.scrollIntoView({ behavior: "smooth" })}>
+                    <ArrowLeft className="mr-1 h-4 w-4" />
+                    Newer
+                  </Link>
+                </Button>
+              )}
+              {Array.from({ length: pageCount }, (_, index) => index + 1).map((pageNumber) => (
+                <Button
+                  key={pageNumber}
+                  variant={pageNumber === page ? "hero" : "elegant"}
+                  size="sm"
+                  asChild
+                >
+                  <Link
+                    to={withParams(basePath, pageNumber)}
+                    aria-current={pageNumber === page ? "page" : undefined}
+                    onClick={() => listRef.current?.scrollIntoView({ behavior: "smooth" })}
+                  >
+                    {pageNumber}
+                  </Link>
+                </Button>
+              ))}
+              {page < pageCount && (
+                <Button variant="elegant" size="sm" asChild>
+                  <Link to={withParams(basePath, page + 1)} onClick={() => listRef.current?.scrollIntoView({ behavior: "smooth" })}>
+                    Older
+                    <ArrowRight className="ml-1 h-4 w-4" />
+                  </Link>
+                </Button>
+              )}
+            </nav>
+          )}
+
+          {!loading && articles.length === 0 && (
             <div className="text-center py-12">
               <Newspaper className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
               <h3 className="text-xl font-semibold text-foreground mb-2">No Articles Found</h3>
               <p className="text-muted-foreground">
-                {selectedCategory === "all" 
-                  ? "No articles have been published yet." 
-                  : `No articles found in the "${selectedCategory}" category.`}
+                {query
+                  ? `Nothing matched "${query}". Try different words.`
+                  : page > 1
+                    ? "There are no more articles."
+                    : categorySlug
+                      ? `No articles found in the "${activeCategory?.name ?? categorySlug}" category.`
+                      : tagSlug
+                        ? `No articles tagged "${activeTag?.name ?? tagSlug}".`
+                        : "No articles have been published yet."}
               </p>
             </div>
           )}
@@ -408,6 +530,7 @@ const News = () => {
               delivered straight to your inbox.
             </p>
             <form onSubmit={handleSubscribe} className="flex flex-col sm:flex-row gap-4 max-w-md mx-auto">
+              <HoneypotField id="newsletter-website" value={newsletterGuard.honeypot} onChange={newsletterGuard.setHoneypot} />
               <input 
                 type="email" 
                 value={email}
@@ -448,6 +571,7 @@ const News = () => {
 
       {/*    <div className="max-w-2xl mx-auto">*/}
       {/*      <form onSubmit={handleContactSubmit} className="space-y-6">*/}
+      {/*        <HoneypotField id="contact-website" value={contactGuard.honeypot} onChange={contactGuard.setHoneypot} />*/}
       {/*        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">*/}
       {/*          <div>*/}
       {/*            <label htmlFor="name" className="block text-sm font-medium text-foreground mb-2">*/}
@@ -1,8 +1,10 @@
 import { useLocation } from "react-router-dom";
 import { useEffect } from "react";
+import { usePageSeo } from "@/hooks/useSeo";
 
 const NotFound = () => {
   const location = useLocation();
+  usePageSeo({ title: "Page Not Found", noIndex: true });
 
   useEffect(() => {
     console.error(
@@ -0,0 +1,330 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Calendar } from "@/components/ui/calendar";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import Layout from "@/components/Layout";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { useToast } from "@/hooks/use-toast";
+import { usePageSeo } from "@/hooks/useSeo";
+import { getIntervalsForDate } from "@/lib/businessHours";
+import {
+  DEFAULT_RESERVATION_SETTINGS,
+  TimeSlot,
+  createReservation,
+  fetchBookedCovers,
+  fetchReservationSettings,
+  getRestaurantToday,
+  getTimeSlots,
+  toDateValue,
+} from "@/lib/reservations";
+import { CalendarDays, CheckCircle2, Clock, Users } from "lucide-react";
+
+const emptyDetails = {
+  name: "",
+  email: "",
+  phone: "",
+  notes: "",
+};
+
+const Reservations = () => {
+  usePageSeo({
+    title: "Reserve a Table",
+    description: "Book a table at Easy Go Thai online in a few clicks.",
+  });
+  const [settings, setSettings] = useState(DEFAULT_RESERVATION_SETTINGS);
+  const [businessHours, setBusinessHours] = useState<Json | null>(null);
+  const [partySize, setPartySize] = useState(2);
+  const [date, setDate] = useState<Date | undefined>();
+  const [slots, setSlots] = useState<TimeSlot[]>([]);
+  const [loadingSlots, setLoadingSlots] = useState(false);
+  const [timeSlot, setTimeSlot] = useState("");
+  const [details, setDetails] = useState(emptyDetails);
+  const [submitting, setSubmitting] = useState(false);
+  const [confirmed, setConfirmed] = useState<{ date: Date; slot: TimeSlot; partySize: number } | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const [reservationSettings, { data: contactInfo }] = await Promise.all([
+          fetchReservationSettings(),
+          supabase.from('contact_info').select('business_hours').maybeSingle(),
+        ]);
+        if (reservationSettings) setSettings(reservationSettings);
+        setBusinessHours(contactInfo?.business_hours ?? null);
+      } catch (error) {
+        console.error('Error loading reservation settings:', error);
+      }
+    };
+    loadSettings();
+  }, []);
+
+  useEffect(() => {
+    if (!date) return;
+    let cancelled = false;
+    const loadSlots = async () => {
+      setLoadingSlots(true);
+      try {
+        const bookedCovers = await fetchBookedCovers(toDateValue(date));
+        if (!cancelled) setSlots(getTimeSlots(businessHours, settings, date, bookedCovers));
+      } catch (error) {
+        console.error('Error loading availability:', error);
+        if (!cancelled) setSlots([]);
+      } finally {
+        if (!cancelled) setLoadingSlots(false);
+      }
+    };
+    loadSlots();
+    return () => {
+      cancelled = true;
+    };
+  }, [date, businessHours, settings]);
+
+  const today = getRestaurantToday();
+  const lastBookableDay = new Date(today);
+  lastBookableDay.setDate(lastBookableDay.getDate() + settings.booking_window_days);
+
+  const isDayDisabled = (day: Date) =>
+    day < today || day > lastBookableDay || getIntervalsForDate(businessHours, day).length === 0;
+
+  const handleDateSelect = (day: Date | undefined) => {
+    setDate(day);
+    setTimeSlot("");
+    if (!day) setSlots([]);
+  };
+
+  const handlePartySizeChange = (value: string) => {
+    const size = parseInt(value, 10);
+    setPartySize(size);
+    // The chosen slot may not fit the bigger party
+    const selected = slots.find(slot => slot.value === timeSlot);
+    if (selected && selected.remainingCovers < size) setTimeSlot("");
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const selectedSlot = slots.find(slot => slot.value === timeSlot);
+    if (!date || !selectedSlot) {
+      toast({
+        title: "Missing Information",
+        description: "Please choose a date and time",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (!details.name.trim() || !details.phone.trim() || !details.email.includes('@')) {
+      toast({
+        title: "Missing Information",
+        description: "Please enter your name, phone number and a valid email",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await createReservation({
+        name: details.name,
+        email: details.email,
+        phone: details.phone,
+        partySize,
+        date: toDateValue(date),
+        timeSlot: selectedSlot.value,
+        notes: details.notes,
+      });
+      setConfirmed({ date, slot: selectedSlot, partySize });
+      setDetails(emptyDetails);
+      setTimeSlot("");
+      setDate(undefined);
+      setSlots([]);
+    } catch (error) {
+      console.error('Error creating reservation:', error);
+      toast({
+        title: "Booking Failed",
+        description: error instanceof Error ? error.message : "Please try again or call us to book.",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Layout>
+      {/* Hero Section */}
+      <section className="py-20 bg-hero-gradient">
+        <div className="container mx-auto px-4 text-center">
+          <h1 className="font-playfair text-5xl md:text-6xl font-bold text-thai-charcoal mb-4">
+            Reserve a Table
+          </h1>
+          <p className="text-xl text-thai-charcoal/80 max-w-2xl mx-auto">
+            Book your table online and we'll have it ready for you
+          </p>
+        </div>
+      </section>
+
+      <section className="py-20 bg-background">
+        <div className="container mx-auto px-4 max-w-4xl">
+          {confirmed ? (
+            <Card className="card-elegant border-thai-gold/20 text-center">
+              <CardContent className="p-12 space-y-4">
+                <CheckCircle2 className="h-16 w-16 text-thai-green mx-auto" />
+                <h2 className="font-playfair text-3xl font-bold">Booking Requested</h2>
+                <p className="text-muted-foreground">
+                  Table for {confirmed.partySize} on{" "}
+                  {confirmed.date.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}{" "}
+                  at {confirmed.slot.label}. We'll be in touch to confirm your reservation.
+                </p>
+                <div className="flex flex-col sm:flex-row gap-4 justify-center pt-4">
+                  <Button variant="hero" onClick={() => setConfirmed(null)}>
+                    Make Another Booking
+                  </Button>
+                  <Button variant="outline" asChild>
+                    <Link to="/menu">View Menu</Link>
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ) : (
+            <form onSubmit={handleSubmit}>
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                <Card className="card-elegant border-thai-gold/20">
+                  <CardHeader>
+                    <CardTitle className="font-playfair flex items-center gap-2">
+                      <CalendarDays className="h-5 w-5 text-thai-gold" />
+                      When
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
+                    <div className="space-y-2">
+                      <Label className="flex items-center gap-2">
+                        <Users className="h-4 w-4" />
+                        Party Size
+                      </Label>
+                      <Select value={partySize.toString()} onValueChange={handlePartySizeChange}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Array.from({ length: settings.max_party_size }, (_, index) => index + 1).map(size => (
+                            <SelectItem key={size} value={size.toString()}>
+                              {size} {size === 1 ? "guest" : "guests"}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-muted-foreground">
+                        For groups larger than {settings.max_party_size}, please call us.
+                      </p>
+                    </div>
+
+                    <div className="flex justify-center">
+                      <Calendar
+                        mode="single"
+                        selected={date}
+                        onSelect={handleDateSelect}
+                        disabled={isDayDisabled}
+                        fromDate={today}
+                        toDate={lastBookableDay}
+                        className="rounded-md border"
+                      />
+                    </div>
+
+                    {date && (
+                      <div className="space-y-2">
+                        <Label className="flex items-center gap-2">
+                          <Clock className="h-4 w-4" />
+                          Time
+                        </Label>
+                        {loadingSlots ? (
+                          <p className="text-sm text-muted-foreground">Checking availability...</p>
+                        ) : slots.length === 0 ? (
+                          <p className="text-sm text-muted-foreground">
+                            No times available on this day. Please choose another date.
+                          </p>
+                        ) : (
+                          <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                            {slots.map(slot => (
+                              <Button
+                                key={slot.value}
+                                type="button"
+                                size="sm"
+                                variant={timeSlot === slot.value ? "hero" : "outline"}
+                                disabled={slot.remainingCovers < partySize}
+                                onClick={() => setTimeSlot(slot.value)}
+                              >
+                                {slot.label}
+                              </Button>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card className="card-elegant border-thai-gold/20">
+                  <CardHeader>
+                    <CardTitle className="font-playfair">Your Details</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="reservation-name">Name *</Label>
+                      <Input
+                        id="reservation-name"
+                        value={details.name}
+                        onChange={(e) => setDetails({ ...details, name: e.target.value })}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="reservation-phone">Phone *</Label>
+                      <Input
+                        id="reservation-phone"
+                        type="tel"
+                        value={details.phone}
+                        onChange={(e) => setDetails({ ...details, phone: e.target.value })}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="reservation-email">Email *</Label>
+                      <Input
+                        id="reservation-email"
+                        type="email"
+                        value={details.email}
+                        onChange={(e) => setDetails({ ...details, email: e.target.value })}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="reservation-notes">Notes</Label>
+                      <Textarea
+                        id="reservation-notes"
+                        placeholder="Allergies, high chair, special occasion..."
+                        value={details.notes}
+                        onChange={(e) => setDetails({ ...details, notes: e.target.value })}
+                        rows={4}
+                      />
+                    </div>
+                    <Button type="submit" variant="hero" className="w-full" disabled={submitting || !timeSlot}>
+                      {submitting ? "Booking..." : "Request Booking"}
+                    </Button>
+                  </CardContent>
+                </Card>
+              </div>
+            </form>
+          )}
+        </div>
+      </section>
+    </Layout>
+  );
+};
+
+export default Reservations;
@@ -1,11 +1,12 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
-import { useAuth } from "@/hooks/useAuth";
+import { useAuth, useRole } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { usePageSeo } from "@/hooks/useSeo";
 import { 
   Users, 
   FileText, 
@@ -21,15 +22,45 @@ import {
 } from "lucide-react";
 import MenuManager from "@/components/admin/MenuManager";
 import ArticleManager from "@/components/admin/ArticleManager";
+import ArticleTaxonomyManager from "@/components/admin/ArticleTaxonomyManager";
 import ContactManager from "@/components/admin/ContactManager";
 import ContactMessageManager from "@/components/admin/ContactMessageManager";
 import NewsletterSubscriberManager from "@/components/admin/NewsletterSubscriberManager";
 import SEOManager from "@/components/admin/SEOManager";
 import UserManager from "@/components/admin/UserManager";
 import CategoryManager from "@/components/admin/CategoryManager";
+import OrderBoard from "@/components/admin/OrderBoard";
+import ReservationManager from "@/components/admin/ReservationManager";
+import MediaLibrary from "@/components/admin/MediaLibrary";
+import { Permission, ROLE_LABELS } from "@/lib/permissions";
+import { fetchUnreadMessageCount } from "@/lib/contactMessages";
+
+interface DashboardTab {
+  value: string;
+  label: string;
+  permission: Permission;
+}
+
+const dashboardTabs: DashboardTab[] = [
+  { value: "overview", label: "Overview", permission: "dashboard:view" },
+  { value: "orders", label: "Orders", permission: "orders:manage" },
+  { value: "reservations", label: "Bookings", permission: "reservations:manage" },
+  { value: "categories", label: "Categories", permission: "menu:manage" },
+  { value: "menu", label: "Menu", permission: "menu:manage" },
+  { value: "articles", label: "Articles", permission: "articles:manage" },
+  { value: "topics", label: "Topics", permission: "articles:manage" },
+  { value: "contact", label: "Contact", permission: "contact:manage" },
+  { value: "messages", label: "Messages", permission: "messages:view" },
+  { value: "subscribers", label: "Subscribers", permission: "subscribers:view" },
+  { value: "media", label: "Media", permission: "media:manage" },
+  { value: "seo", label: "SEO", permission: "seo:manage" },
+  { value: "users", label: "Users", permission: "users:manage" },
+];
 
 const Dashboard = () => {
+  usePageSeo({ title: "Admin Dashboard", noIndex: true });
   const { user, signOut } = useAuth();
+  const { role, can } = useRole();
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState("overview");
   const [stats, setStats] = useState({
@@ -38,41 +69,28 @@ const Dashboard = () => {
     subscribers: 0,
     profiles: 0
   });
+  const [unreadMessages, setUnreadMessages] = useState(0);
+  const canViewMessages = can("messages:view");
 
-  // Update stats with real-time data from localStorage
   useEffect(() => {
-    const updateStats = () => {
-      try {
-        // Get newsletter subscribers count
-        const subscribers = JSON.parse(localStorage.getItem('newsletter_subscriptions') || '[]');
-        const activeSubscribers = subscribers.filter((sub: any) => sub.is_subscribed).length;
-        
-        // Get contact messages count
-        const messages = JSON.parse(localStorage.getItem('contact_messages') || '[]');
-        const pendingMessages = messages.filter((msg: any) => msg.status === 'pending').length;
-        
-        setStats(prev => ({
-          ...prev,
-          subscribers: activeSubscribers,
-          // You can add more real-time stats here
-        }));
-      } catch (error) {
-        console.error('Error updating stats:', error);
-      }
-    };
+    fetchStats();
+  }, []);
 
-    // Update stats immediately
-    updateStats();
-    
-    // Update stats every 5 seconds
-    const interval = setInterval(updateStats, 5000);
-    
-    return () => clearInterval(interval);
+  // New contact messages, shown on the Messages tab
+  const refreshUnreadMessages = useCallback(async () => {
+    try {
+      setUnreadMessages(await fetchUnreadMessageCount());
+    } catch (error) {
+      console.error('Error fetching unread messages:', error);
+    }
   }, []);
 
   useEffect(() => {
-    fetchStats();
-  }, []);
+    if (!canViewMessages) return;
+    refreshUnreadMessages();
+    const interval = setInterval(refreshUnreadMessages, 60000);
+    return () => clearInterval(interval);
+  }, [canViewMessages, refreshUnreadMessages]);
 
   const fetchStats = async () => {
     try {
@@ -110,6 +128,8 @@ const Dashboard = () => {
     }
   };
 
+  const visibleTabs = dashboardTabs.filter((tab) => can(tab.permission));
+
   const statCards = [
     {
       title: "Menu Items",
@@ -153,6 +173,7 @@ const Dashboard = () => {
               </h1>
               <p className="text-thai-beige-light text-sm">
                 Welcome back, {user?.email}
+                {role && ` (${ROLE_LABELS[role]})`}
               </p>
             </div>
             <Button 
@@ -169,16 +190,20 @@ const Dashboard = () => {
 
       <div className="container mx-auto px-4 py-8">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-9">
-            <TabsTrigger value="overview">Overview</TabsTrigger>
-            <TabsTrigger value="categories">Categories</TabsTrigger>
-            <TabsTrigger value="menu">Menu</TabsTrigger>
-            <TabsTrigger value="articles">Articles</TabsTrigger>
-            <TabsTrigger value="contact">Contact</TabsTrigger>
-            <TabsTrigger value="messages">Messages</TabsTrigger>
-            <TabsTrigger value="subscribers">Subscribers</TabsTrigger>
-            <TabsTrigger value="seo">SEO</TabsTrigger>
-            <TabsTrigger value="users">Users</TabsTrigger>
+          <TabsList
+            className="grid w-full"
+            style={{ gridTemplateColumns: `repeat(${visibleTabs.length}, minmax(0, 1fr))` }}
+          >
+            {visibleTabs.map((tab) => (
+              <TabsTrigger key={tab.value} value={tab.value}>
+                {tab.label}
+                {tab.value === "messages" && unreadMessages > 0 && (
+                  <Badge className="ml-1 h-5 min-w-5 justify-center px-1.5 bg-thai-red text-white" aria-label={`${unreadMessages} unread`}>
+                    {unreadMessages}
+                  </Badge>
+                )}
+              </TabsTrigger>
+            ))}
           </TabsList>
 
           <TabsContent value="overview" className="space-y-6">
@@ -208,30 +233,36 @@ const Dashboard = () => {
               </CardHeader>
               <CardContent>
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                  <Button
-                    variant="hero"
-                    className="h-16 flex-col space-y-2"
-                    onClick={() => setActiveTab("menu")}
-                  >
-                    <Utensils className="h-6 w-6" />
-                    <span>Add Menu Item</span>
-                  </Button>
-                  <Button
-                    variant="elegant"
-                    className="h-16 flex-col space-y-2"
-                    onClick={() => setActiveTab("articles")}
-                  >
-                    <FileText className="h-6 w-6" />
-                    <span>Write Article</span>
-                  </Button>
-                  <Button
-                    variant="accent"
-                    className="h-16 flex-col space-y-2"
-                    onClick={() => setActiveTab("seo")}
-                  >
-                    <Settings className="h-6 w-6" />
-                    <span>Update Settings</span>
-                  </Button>
+                  {can("menu:manage") && (
+                    <Button
+                      variant="hero"
+                      className="h-16 flex-col space-y-2"
+                      onClick={() => setActiveTab("menu")}
+                    >
+                      <Utensils className="h-6 w-6" />
+                      <span>Add Menu Item</span>
+                    </Button>
+                  )}
+                  {can("articles:manage") && (
+                    <Button
+                      variant="elegant"
+                      className="h-16 flex-col space-y-2"
+                      onClick={() => setActiveTab("articles")}
+                    >
+                      <FileText className="h-6 w-6" />
+                      <span>Write Article</span>
+                    </Button>
+                  )}
+                  {can("seo:manage") && (
+                    <Button
+                      variant="accent"
+                      className="h-16 flex-col space-y-2"
+                      onClick={() => setActiveTab("seo")}
+                    >
+                      <Settings className="h-6 w-6" />
+                      <span>Update Settings</span>
+                    </Button>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -287,37 +318,77 @@ const Dashboard = () => {
             </Card>
           </TabsContent>
 
-          <TabsContent value="categories">
-            <CategoryManager />
-          </TabsContent>
+          {can("orders:manage") && (
+            <TabsContent value="orders">
+              <OrderBoard />
+            </TabsContent>
+          )}
 
-          <TabsContent value="menu">
-            <MenuManager />
-          </TabsContent>
+          {can("reservations:manage") && (
+            <TabsContent value="reservations">
+              <ReservationManager />
+            </TabsContent>
+          )}
 
-          <TabsContent value="articles">
-            <ArticleManager />
-          </TabsContent>
+          {can("menu:manage") && (
+            <TabsContent value="categories">
+              <CategoryManager />
+            </TabsContent>
+          )}
 
-          <TabsContent value="contact">
-            <ContactManager />
-          </TabsContent>
+          {can("menu:manage") && (
+            <TabsContent value="menu">
+              <MenuManager />
+            </TabsContent>
+          )}
 
-          <TabsContent value="messages">
-            <ContactMessageManager />
-          </TabsContent>
+          {can("articles:manage") && (
+            <TabsContent value="articles">
+              <ArticleManager />
+            </TabsContent>
+          )}
 
-          <TabsContent value="subscribers">
-            <NewsletterSubscriberManager />
-          </TabsContent>
+          {can("articles:manage") && (
+            <TabsContent value="topics">
+              <ArticleTaxonomyManager />
+            </TabsContent>
+          )}
 
-          <TabsContent value="seo">
-            <SEOManager />
-          </TabsContent>
+          {can("contact:manage") && (
+            <TabsContent value="contact">
+              <ContactManager />
+            </TabsContent>
+          )}
 
-          <TabsContent value="users">
-            <UserManager />
-          </TabsContent>
+          {can("messages:view") && (
+            <TabsContent value="messages">
+              <ContactMessageManager onUnreadCountChange={setUnreadMessages} />
+            </TabsContent>
+          )}
+
+          {can("subscribers:view") && (
+            <TabsContent value="subscribers">
+              <NewsletterSubscriberManager />
+            </TabsContent>
+          )}
+
+          {can("media:manage") && (
+            <TabsContent value="media">
+              <MediaLibrary />
+            </TabsContent>
+          )}
+
+          {can("seo:manage") && (
+            <TabsContent value="seo">
+              <SEOManager />
+            </TabsContent>
+          )}
+
+          {can("users:manage") && (
+            <TabsContent value="users">
+              <UserManager />
+            </TabsContent>
+          )}
         </Tabs>
       </div>
     </div>
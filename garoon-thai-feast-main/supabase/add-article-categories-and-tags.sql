@@ -0,0 +1,352 @@
+-- Migration: Managed article categories and tags
+-- Categories move from free text on articles to the article_categories table,
+-- so "Events" and "events" are one category. articles.category stays as a
+-- copy of the category name for existing readers (badges, structured data,
+-- revisions); sync_article_category() keeps it in step with category_id.
+-- Tags are many-to-many through article_tag_links. Both are listed at
+-- /news/category/:slug and /news/tag/:slug and drive related articles.
+-- Requires add-article-slugs.sql and create-article-revisions-table.sql.
+
+CREATE TABLE IF NOT EXISTS article_categories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  slug text NOT NULL,
+  description text,
+  display_order integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc', now()),
+  updated_at timestamp with time zone NOT NULL DEFAULT timezone('utc', now())
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS article_categories_name_key ON article_categories (lower(name));
+CREATE UNIQUE INDEX IF NOT EXISTS article_categories_slug_key ON article_categories (slug);
+
+CREATE TABLE IF NOT EXISTS article_tags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  slug text NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc', now())
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS article_tags_name_key ON article_tags (lower(name));
+CREATE UNIQUE INDEX IF NOT EXISTS article_tags_slug_key ON article_tags (slug);
+
+CREATE TABLE IF NOT EXISTS article_tag_links (
+  article_id uuid NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+  tag_id uuid NOT NULL REFERENCES article_tags(id) ON DELETE CASCADE,
+  PRIMARY KEY (article_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS article_tag_links_tag_id_idx ON article_tag_links (tag_id);
+
+-- Slugs always follow the name, using slugify() from add-article-slugs.sql.
+-- Names that differ only in punctuation ("Thai Food", "Thai-Food") get
+-- numbered slugs, like articles do.
+CREATE OR REPLACE FUNCTION set_taxonomy_slug()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  base text;
+  suffix integer := 1;
+  taken boolean;
+BEGIN
+  NEW.name := trim(NEW.name);
+  base := slugify(NEW.name);
+  NEW.slug := base;
+
+  LOOP
+    EXECUTE format('SELECT EXISTS (SELECT 1 FROM %I WHERE slug = $1 AND id <> $2)', TG_TABLE_NAME)
+    INTO taken
+    USING NEW.slug, NEW.id;
+    EXIT WHEN NOT taken;
+    suffix := suffix + 1;
+    NEW.slug := base || '-' || suffix;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_article_category_slug ON article_categories;
+CREATE TRIGGER set_article_category_slug
+BEFORE INSERT OR UPDATE OF name ON article_categories
+FOR EACH ROW EXECUTE FUNCTION set_taxonomy_slug();
+
+DROP TRIGGER IF EXISTS set_article_tag_slug ON article_tags;
+CREATE TRIGGER set_article_tag_slug
+BEFORE INSERT OR UPDATE OF name ON article_tags
+FOR EACH ROW EXECUTE FUNCTION set_taxonomy_slug();
+
+-- Backfill categories from the free-text column, merging case variants and
+-- keeping the spelling of the oldest article
+INSERT INTO article_categories (name, slug)
+SELECT DISTINCT ON (lower(trim(category))) trim(category), slugify(trim(category))
+FROM articles
+WHERE nullif(trim(category), '') IS NOT NULL
+ORDER BY lower(trim(category)), created_at
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS category_id uuid REFERENCES article_categories(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS articles_category_id_idx ON articles (category_id);
+
+UPDATE articles
+SET category_id = article_categories.id,
+    category = article_categories.name
+FROM article_categories
+WHERE lower(trim(articles.category)) = lower(article_categories.name)
+  AND articles.category_id IS NULL;
+
+-- category_id is the source of truth. Writes that only set the category name
+-- (older clients, restored revisions) are matched to a category by name, and
+-- a new category is created if none matches.
+CREATE OR REPLACE FUNCTION sync_article_category()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.category_id IS NOT DISTINCT FROM OLD.category_id
+     AND NEW.category IS DISTINCT FROM OLD.category THEN
+    NEW.category_id := NULL;
+    IF nullif(trim(NEW.category), '') IS NOT NULL THEN
+      SELECT id INTO NEW.category_id FROM article_categories WHERE lower(name) = lower(trim(NEW.category));
+      IF NEW.category_id IS NULL THEN
+        INSERT INTO article_categories (name, slug) VALUES (trim(NEW.category), slugify(trim(NEW.category)))
+        RETURNING id INTO NEW.category_id;
+      END IF;
+    END IF;
+  ELSIF TG_OP = 'INSERT' AND NEW.category_id IS NULL AND nullif(trim(NEW.category), '') IS NOT NULL THEN
+    SELECT id INTO NEW.category_id FROM article_categories WHERE lower(name) = lower(trim(NEW.category));
+    IF NEW.category_id IS NULL THEN
+      INSERT INTO article_categories (name, slug) VALUES (trim(NEW.category), slugify(trim(NEW.category)))
+      RETURNING id INTO NEW.category_id;
+    END IF;
+  END IF;
+
+  NEW.category := (SELECT name FROM article_categories WHERE id = NEW.category_id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_article_category ON articles;
+CREATE TRIGGER sync_article_category
+BEFORE INSERT OR UPDATE OF category, category_id ON articles
+FOR EACH ROW EXECUTE FUNCTION sync_article_category();
+
+-- Revisions keep the category's id, so restoring one brings back that
+-- category even if it was renamed since, rather than recreating the old name.
+-- No foreign key: a missing id tells restoreArticleRevision() the category was
+-- merged or deleted.
+ALTER TABLE article_revisions ADD COLUMN IF NOT EXISTS category_id uuid;
+
+UPDATE article_revisions
+SET category_id = article_categories.id
+FROM article_categories
+WHERE lower(trim(article_revisions.category)) = lower(article_categories.name)
+  AND article_revisions.category_id IS NULL;
+
+-- As in create-article-revisions-table.sql, plus category_id
+CREATE OR REPLACE FUNCTION record_article_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Saves that change nothing but updated_at don't need a revision
+  IF TG_OP = 'UPDATE'
+     AND NEW.title IS NOT DISTINCT FROM OLD.title
+     AND NEW.slug IS NOT DISTINCT FROM OLD.slug
+     AND NEW.content IS NOT DISTINCT FROM OLD.content
+     AND NEW.category IS NOT DISTINCT FROM OLD.category
+     AND NEW.category_id IS NOT DISTINCT FROM OLD.category_id
+     AND NEW.featured_image IS NOT DISTINCT FROM OLD.featured_image
+     AND NEW.meta_title IS NOT DISTINCT FROM OLD.meta_title
+     AND NEW.meta_description IS NOT DISTINCT FROM OLD.meta_description
+     AND NEW.meta_keywords IS NOT DISTINCT FROM OLD.meta_keywords
+     AND NEW.status IS NOT DISTINCT FROM OLD.status
+     AND NEW.published_at IS NOT DISTINCT FROM OLD.published_at THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO article_revisions (
+    article_id, title, slug, content, category, category_id, featured_image,
+    meta_title, meta_description, meta_keywords, status, published_at,
+    created_by, created_by_name
+  )
+  VALUES (
+    NEW.id, NEW.title, NEW.slug, NEW.content, NEW.category, NEW.category_id, NEW.featured_image,
+    NEW.meta_title, NEW.meta_description, NEW.meta_keywords, NEW.status, NEW.published_at,
+    auth.uid(), (SELECT display_name FROM profiles WHERE user_id = auth.uid())
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- Renaming a category renames it on its articles too
+CREATE OR REPLACE FUNCTION rename_article_category()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE articles SET category = NEW.name WHERE category_id = NEW.id AND category IS DISTINCT FROM NEW.name;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS rename_article_category ON article_categories;
+CREATE TRIGGER rename_article_category
+AFTER UPDATE OF name ON article_categories
+FOR EACH ROW EXECUTE FUNCTION rename_article_category();
+
+ALTER TABLE article_categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE article_tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE article_tag_links ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public can read article categories" ON article_categories;
+CREATE POLICY "Public can read article categories" ON article_categories
+FOR SELECT TO anon, authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Editors can manage article categories" ON article_categories;
+CREATE POLICY "Editors can manage article categories" ON article_categories
+FOR ALL TO authenticated
+USING (has_role(ARRAY['owner', 'manager', 'editor']))
+WITH CHECK (has_role(ARRAY['owner', 'manager', 'editor']));
+
+DROP POLICY IF EXISTS "Public can read article tags" ON article_tags;
+CREATE POLICY "Public can read article tags" ON article_tags
+FOR SELECT TO anon, authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Editors can manage article tags" ON article_tags;
+CREATE POLICY "Editors can manage article tags" ON article_tags
+FOR ALL TO authenticated
+USING (has_role(ARRAY['owner', 'manager', 'editor']))
+WITH CHECK (has_role(ARRAY['owner', 'manager', 'editor']));
+
+DROP POLICY IF EXISTS "Public can read article tag links" ON article_tag_links;
+CREATE POLICY "Public can read article tag links" ON article_tag_links
+FOR SELECT TO anon, authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Editors can manage article tag links" ON article_tag_links;
+CREATE POLICY "Editors can manage article tag links" ON article_tag_links
+FOR ALL TO authenticated
+USING (has_role(ARRAY['owner', 'manager', 'editor']))
+WITH CHECK (has_role(ARRAY['owner', 'manager', 'editor']));
+
+-- Merges and set_article_tags() run with the caller's rights, so the policies
+-- above decide who may use them
+CREATE OR REPLACE FUNCTION merge_article_categories(source_id uuid, target_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF source_id = target_id THEN
+    RAISE EXCEPTION 'Cannot merge a category into itself';
+  END IF;
+
+  UPDATE articles SET category_id = target_id WHERE category_id = source_id;
+  DELETE FROM article_categories WHERE id = source_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION merge_article_tags(source_id uuid, target_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF source_id = target_id THEN
+    RAISE EXCEPTION 'Cannot merge a tag into itself';
+  END IF;
+
+  INSERT INTO article_tag_links (article_id, tag_id)
+  SELECT article_id, target_id FROM article_tag_links WHERE tag_id = source_id
+  ON CONFLICT DO NOTHING;
+  DELETE FROM article_tags WHERE id = source_id;
+END;
+$$;
+
+-- Replaces an article's tags in one go, creating tags that don't exist yet.
+-- A name matches an existing tag by name, ignoring case, or by slug, so
+-- "Thai-Food" reuses "Thai Food".
+CREATE OR REPLACE FUNCTION set_article_tags(target_article_id uuid, tag_names text[])
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  tag_name text;
+  found_tag_id uuid;
+  tag_ids uuid[] := '{}';
+BEGIN
+  FOREACH tag_name IN ARRAY coalesce(tag_names, '{}') LOOP
+    tag_name := regexp_replace(trim(tag_name), '\s+', ' ', 'g');
+    CONTINUE WHEN tag_name = '';
+
+    SELECT id INTO found_tag_id
+    FROM article_tags
+    WHERE lower(name) = lower(tag_name) OR slug = slugify(tag_name)
+    ORDER BY lower(name) = lower(tag_name) DESC
+    LIMIT 1;
+
+    IF found_tag_id IS NULL THEN
+      INSERT INTO article_tags (name, slug) VALUES (tag_name, slugify(tag_name))
+      RETURNING id INTO found_tag_id;
+    END IF;
+
+    tag_ids := tag_ids || found_tag_id;
+  END LOOP;
+
+  DELETE FROM article_tag_links
+  WHERE article_id = target_article_id AND tag_id <> ALL (tag_ids);
+
+  INSERT INTO article_tag_links (article_id, tag_id)
+  SELECT target_article_id, unnest(tag_ids)
+  ON CONFLICT DO NOTHING;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION merge_article_categories(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION merge_article_tags(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_article_tags(uuid, text[]) TO authenticated;
+
+-- Live articles ranked by shared tags, then same category, then recency.
+-- Each shared tag counts double so a close topic beats a shared category.
+CREATE OR REPLACE FUNCTION get_related_articles(current_article_id uuid, max_results integer DEFAULT 3)
+RETURNS SETOF articles
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT candidate.*
+  FROM articles AS candidate
+  CROSS JOIN (SELECT category_id FROM articles WHERE id = current_article_id) AS current_article
+  LEFT JOIN LATERAL (
+    SELECT count(*) AS shared_tags
+    FROM article_tag_links AS candidate_tags
+    JOIN article_tag_links AS current_tags
+      ON current_tags.tag_id = candidate_tags.tag_id
+     AND current_tags.article_id = current_article_id
+    WHERE candidate_tags.article_id = candidate.id
+  ) AS overlap ON true
+  WHERE candidate.id <> current_article_id
+    AND candidate.status IN ('published', 'scheduled')
+    AND candidate.published_at <= now()
+  ORDER BY
+    overlap.shared_tags * 2
+      + CASE WHEN candidate.category_id = current_article.category_id THEN 1 ELSE 0 END DESC,
+    candidate.published_at DESC
+  LIMIT max_results;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_related_articles(uuid, integer) TO anon, authenticated;
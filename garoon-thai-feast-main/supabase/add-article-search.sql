@@ -0,0 +1,137 @@
+-- Migration: Full-text search and paginated listing for News
+-- search_vector indexes the title (weight A) and content (weight B).
+-- search_articles() returns one page of live articles as a light list row:
+-- no full content, just a plain-text excerpt, plus the total for pagination.
+-- With a search query, title and excerpt come from ts_headline() with matches
+-- wrapped in the control characters \x02 and \x03, which the client turns into
+-- <mark> elements. Both are stripped from the text first so they only ever
+-- come from ts_headline().
+
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A')
+    || setweight(to_tsvector('english', coalesce(content, '')), 'B')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS articles_search_vector_idx ON articles USING gin (search_vector);
+
+-- Article Markdown => plain text for excerpts, so headlines never cut through
+-- a link or leave stray markers. Follows stripMarkdown() in src/lib/markdown.ts
+-- closely enough for a list card; control characters are dropped too.
+CREATE OR REPLACE FUNCTION article_plain_text(content text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT trim(regexp_replace(
+    regexp_replace(
+      regexp_replace(
+        regexp_replace(
+          regexp_replace(
+            regexp_replace(
+              regexp_replace(
+                regexp_replace(
+                  regexp_replace(coalesce(content, ''), '[\x01-\x08\x0b\x0c\x0e-\x1f\x7f]', '', 'g'),
+                  '^[ \t]*(```|~~~).*$', '', 'gn'),
+                '^[ \t]*([-*_][ \t]*){3,}$', '', 'gn'),
+              '!\[([^]]*)\]\([^)]*\)', '\1', 'g'),
+            '\[([^]]*)\]\([^)]*\)', '\1', 'g'),
+          '<[^>]*>', '', 'g'),
+        '^[ \t]*(#{1,6}|>+|[-*+]|[0-9]+\.)[ \t]+', '', 'gn'),
+      '\*\*|__|~~|[*`]', '', 'g'),
+    '\s+', ' ', 'g'));
+$$;
+
+CREATE OR REPLACE FUNCTION search_articles(
+  search_query text DEFAULT NULL,
+  category_slug text DEFAULT NULL,
+  tag_slug text DEFAULT NULL,
+  page_size integer DEFAULT 9,
+  page_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  slug text,
+  title text,
+  category text,
+  category_id uuid,
+  featured_image text,
+  published_at timestamp with time zone,
+  created_at timestamp with time zone,
+  title_highlight text,
+  excerpt text,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT CASE
+      WHEN nullif(trim(search_query), '') IS NULL THEN NULL
+      ELSE websearch_to_tsquery('english', search_query)
+    END AS tsq
+  ),
+  matches AS (
+    SELECT articles.*,
+           query.tsq,
+           CASE WHEN query.tsq IS NULL THEN 0 ELSE ts_rank(articles.search_vector, query.tsq) END AS rank
+    FROM articles
+    CROSS JOIN query
+    WHERE articles.status IN ('published', 'scheduled')
+      AND articles.published_at <= now()
+      AND (query.tsq IS NULL OR articles.search_vector @@ query.tsq)
+      AND (category_slug IS NULL OR articles.category_id = (
+        SELECT article_categories.id FROM article_categories WHERE article_categories.slug = category_slug
+      ))
+      AND (tag_slug IS NULL OR EXISTS (
+        SELECT 1
+        FROM article_tag_links
+        JOIN article_tags ON article_tags.id = article_tag_links.tag_id
+        WHERE article_tag_links.article_id = articles.id
+          AND article_tags.slug = tag_slug
+      ))
+  ),
+  page AS (
+    SELECT matches.*, count(*) OVER () AS total
+    FROM matches
+    ORDER BY matches.rank DESC, matches.published_at DESC
+    LIMIT greatest(least(page_size, 50), 1)
+    OFFSET greatest(page_offset, 0)
+  )
+  SELECT
+    page.id,
+    page.slug,
+    page.title,
+    page.category,
+    page.category_id,
+    -- Images pasted in before the media library are inline data URLs of
+    -- several hundred KB, far too heavy for a list. Cards fall back to a
+    -- default image; re-pick the image in ArticleManager to fix one.
+    CASE WHEN page.featured_image LIKE 'data:%' THEN NULL ELSE page.featured_image END,
+    page.published_at,
+    page.created_at,
+    CASE
+      WHEN page.tsq IS NULL THEN page.title
+      ELSE ts_headline(
+        'english',
+        regexp_replace(page.title, '[\x01-\x1f\x7f]', '', 'g'),
+        page.tsq,
+        E'StartSel="\x02", StopSel="\x03", HighlightAll=true'
+      )
+    END,
+    CASE
+      WHEN page.tsq IS NULL THEN left(article_plain_text(page.content), 600)
+      ELSE ts_headline(
+        'english',
+        article_plain_text(page.content),
+        page.tsq,
+        E'StartSel="\x02", StopSel="\x03", MinWords=15, MaxWords=35, MaxFragments=2, FragmentDelimiter=" … "'
+      )
+    END,
+    page.total
+  FROM page
+  ORDER BY page.rank DESC, page.published_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_articles(text, text, text, integer, integer) TO anon, authenticated;
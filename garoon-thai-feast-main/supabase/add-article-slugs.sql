@@ -0,0 +1,84 @@
+-- Migration: Human-readable article slugs with redirect history
+-- Articles are served at /news/:slug. When a slug changes the old one is kept
+-- in article_slug_history so inbound links can redirect to the current URL.
+-- Old /news/:uuid links are redirected by the client.
+
+CREATE OR REPLACE FUNCTION slugify(value text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT coalesce(
+    nullif(left(trim(BOTH '-' FROM regexp_replace(lower(value), '[^a-z0-9]+', '-', 'g')), 80), ''),
+    'article'
+  );
+$$;
+
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS slug text;
+
+-- Backfill existing rows, numbering duplicates in creation order
+WITH numbered AS (
+  SELECT id,
+         slugify(title) AS base,
+         row_number() OVER (PARTITION BY slugify(title) ORDER BY created_at, id) AS n
+  FROM articles
+  WHERE slug IS NULL
+)
+UPDATE articles
+SET slug = CASE WHEN numbered.n = 1 THEN numbered.base ELSE numbered.base || '-' || numbered.n END
+FROM numbered
+WHERE articles.id = numbered.id;
+
+ALTER TABLE articles ALTER COLUMN slug SET NOT NULL;
+
+ALTER TABLE articles DROP CONSTRAINT IF EXISTS articles_slug_format;
+ALTER TABLE articles ADD CONSTRAINT articles_slug_format
+  CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$');
+
+CREATE UNIQUE INDEX IF NOT EXISTS articles_slug_key ON articles (slug);
+
+CREATE TABLE IF NOT EXISTS article_slug_history (
+  slug text PRIMARY KEY,
+  article_id uuid NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc', now())
+);
+
+CREATE INDEX IF NOT EXISTS article_slug_history_article_id_idx ON article_slug_history (article_id);
+
+ALTER TABLE article_slug_history ENABLE ROW LEVEL SECURITY;
+
+-- Readable by anyone so the public site can resolve redirects. Rows are only
+-- written by the trigger below.
+DROP POLICY IF EXISTS "Public can read article slug history" ON article_slug_history;
+CREATE POLICY "Public can read article slug history" ON article_slug_history
+FOR SELECT TO anon, authenticated
+USING (true);
+
+CREATE OR REPLACE FUNCTION track_article_slug()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.slug IS NULL OR NEW.slug = '' THEN
+    NEW.slug := slugify(NEW.title);
+  END IF;
+
+  -- A slug in use by an article always wins over an old redirect
+  DELETE FROM article_slug_history WHERE slug = NEW.slug;
+
+  IF TG_OP = 'UPDATE' AND OLD.slug IS DISTINCT FROM NEW.slug THEN
+    INSERT INTO article_slug_history (slug, article_id)
+    VALUES (OLD.slug, NEW.id)
+    ON CONFLICT (slug) DO UPDATE SET article_id = EXCLUDED.article_id, created_at = EXCLUDED.created_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS track_article_slug ON articles;
+CREATE TRIGGER track_article_slug
+BEFORE INSERT OR UPDATE OF slug, title ON articles
+FOR EACH ROW EXECUTE FUNCTION track_article_slug();
@@ -0,0 +1,72 @@
+-- Migration: Contact message inbox
+-- Adds the subject the contact forms collect, a status for working through
+-- messages, internal notes, and a log of the replies sent to each one.
+-- Existing messages start as 'new'.
+
+ALTER TABLE contact_messages ADD COLUMN IF NOT EXISTS subject text;
+ALTER TABLE contact_messages ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'new'
+  CHECK (status IN ('new', 'read', 'replied', 'archived', 'spam'));
+-- Staff only; never shown to the sender
+ALTER TABLE contact_messages ADD COLUMN IF NOT EXISTS internal_notes text;
+ALTER TABLE contact_messages ADD COLUMN IF NOT EXISTS updated_at timestamp with time zone NOT NULL DEFAULT timezone('utc', now());
+
+CREATE INDEX IF NOT EXISTS contact_messages_status_idx ON contact_messages (status, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS contact_message_replies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid NOT NULL REFERENCES contact_messages(id) ON DELETE CASCADE,
+  sent_to text NOT NULL,
+  subject text NOT NULL,
+  body text NOT NULL,
+  sent_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc', now())
+);
+
+CREATE INDEX IF NOT EXISTS contact_message_replies_message_idx ON contact_message_replies (message_id, created_at);
+
+ALTER TABLE contact_message_replies ENABLE ROW LEVEL SECURITY;
+
+-- The public form can only create new messages, not set their status or notes
+DROP POLICY IF EXISTS "Anyone can submit contact messages" ON contact_messages;
+CREATE POLICY "Anyone can submit contact messages" ON contact_messages
+FOR INSERT TO anon, authenticated
+WITH CHECK (status = 'new' AND internal_notes IS NULL);
+
+DROP POLICY IF EXISTS "Staff can update contact messages" ON contact_messages;
+CREATE POLICY "Staff can update contact messages" ON contact_messages
+FOR UPDATE TO authenticated
+USING (has_role(ARRAY['owner', 'manager', 'staff']))
+WITH CHECK (has_role(ARRAY['owner', 'manager', 'staff']));
+
+DROP POLICY IF EXISTS "Staff can read contact message replies" ON contact_message_replies;
+CREATE POLICY "Staff can read contact message replies" ON contact_message_replies
+FOR SELECT TO authenticated
+USING (has_role(ARRAY['owner', 'manager', 'staff']));
+
+-- Replies are a log, so they can be added but not edited
+DROP POLICY IF EXISTS "Staff can log contact message replies" ON contact_message_replies;
+CREATE POLICY "Staff can log contact message replies" ON contact_message_replies
+FOR INSERT TO authenticated
+WITH CHECK (has_role(ARRAY['owner', 'manager', 'staff']) AND sent_by = auth.uid());
+
+-- Logging a reply moves the message to 'replied'
+CREATE OR REPLACE FUNCTION mark_contact_message_replied()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE contact_messages
+  SET status = 'replied', updated_at = now()
+  WHERE id = NEW.message_id;
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION mark_contact_message_replied() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS mark_contact_message_replied ON contact_message_replies;
+CREATE TRIGGER mark_contact_message_replied
+AFTER INSERT ON contact_message_replies
+FOR EACH ROW EXECUTE FUNCTION mark_contact_message_replied();
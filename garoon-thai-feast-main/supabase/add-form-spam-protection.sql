@@ -0,0 +1,341 @@
+-- Migration: Spam protection for the public contact and newsletter forms
+-- Both forms now go through submit_contact_message() and subscribe_newsletter()
+-- instead of inserting directly, so every submission is validated here:
+--   * a honeypot field people never see; bots that fill it in are dropped
+--   * a minimum time between the form appearing and being submitted,
+--     measured from a single-use token issue_form_token() hands out when the
+--     form is shown; submissions without one, or sent too soon, are refused
+--   * rate limits per IP address and per email
+--   * a spam score from links and keywords; high-scoring messages go
+--     straight to the spam folder
+-- The IP is the one Cloudflare reports in CF-Connecting-IP, or else the last
+-- X-Forwarded-For entry, which our own proxy appended; earlier entries come
+-- from the client and can be anything.
+-- Requires add-contact-message-inbox.sql.
+
+ALTER TABLE contact_messages ADD COLUMN IF NOT EXISTS spam_score integer NOT NULL DEFAULT 0;
+ALTER TABLE contact_messages ADD COLUMN IF NOT EXISTS spam_reasons text[] NOT NULL DEFAULT '{}';
+-- Flagged in the dashboard's subscriber list
+ALTER TABLE member_subscriptions ADD COLUMN IF NOT EXISTS spam_score integer NOT NULL DEFAULT 0;
+
+-- Secret salt for the IP hashes, so they can't be reversed by hashing every
+-- IPv4 address
+CREATE TABLE IF NOT EXISTS form_submission_salt (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  salt text NOT NULL DEFAULT gen_random_uuid()::text
+);
+
+INSERT INTO form_submission_salt DEFAULT VALUES ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE form_submission_salt ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON form_submission_salt FROM anon, authenticated;
+
+-- Tokens issued to forms on the page. Deleted when used, and pruned after a day.
+CREATE TABLE IF NOT EXISTS form_tokens (
+  token uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  form text NOT NULL CHECK (form IN ('contact', 'newsletter')),
+  issued_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE form_tokens ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON form_tokens FROM anon, authenticated;
+
+-- Recent submissions, for the rate limits. IPs are only stored as salted
+-- hashes and rows are pruned after a day.
+CREATE TABLE IF NOT EXISTS form_submissions (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  form text NOT NULL CHECK (form IN ('contact', 'newsletter')),
+  ip_hash text,
+  email text NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc', now())
+);
+
+CREATE INDEX IF NOT EXISTS form_submissions_ip_idx ON form_submissions (form, ip_hash, created_at);
+CREATE INDEX IF NOT EXISTS form_submissions_email_idx ON form_submissions (form, email, created_at);
+
+-- No policies: only the functions below read or write it
+ALTER TABLE form_submissions ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON form_submissions FROM anon, authenticated;
+
+-- The public can no longer insert directly
+DROP POLICY IF EXISTS "Anyone can submit contact messages" ON contact_messages;
+DROP POLICY IF EXISTS "Anyone can subscribe" ON member_subscriptions;
+REVOKE INSERT ON contact_messages FROM anon;
+REVOKE INSERT ON member_subscriptions FROM anon;
+
+-- From supabase/functions/subscribe-newsletter.sql. Unused by the site, and
+-- callable by anyone without any of the checks below.
+DROP FUNCTION IF EXISTS subscribe_newsletter(TEXT);
+DROP FUNCTION IF EXISTS submit_contact_form(TEXT, TEXT, TEXT, TEXT);
+-- Earlier versions of the functions below took the time on the form from the
+-- browser
+DROP FUNCTION IF EXISTS submit_contact_message(TEXT, TEXT, TEXT, TEXT, TEXT, NUMERIC);
+DROP FUNCTION IF EXISTS subscribe_newsletter(TEXT, TEXT, NUMERIC);
+
+-- Called when a form is shown; the token goes back with the submission
+CREATE OR REPLACE FUNCTION issue_form_token(form_name TEXT)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_token uuid;
+BEGIN
+  IF form_name NOT IN ('contact', 'newsletter') THEN
+    RAISE EXCEPTION 'Unknown form %', form_name;
+  END IF;
+
+  DELETE FROM form_tokens WHERE issued_at < now() - interval '1 day';
+
+  INSERT INTO form_tokens (form) VALUES (form_name)
+  RETURNING token INTO new_token;
+  RETURN new_token;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION issue_form_token(TEXT) TO anon;
+GRANT EXECUTE ON FUNCTION issue_form_token(TEXT) TO authenticated;
+
+-- Uses up the token and returns the seconds since it was issued, or NULL if
+-- it's unknown, already used, for another form or over a day old
+CREATE OR REPLACE FUNCTION redeem_form_token(form_name TEXT, submitted_token uuid)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  issued timestamp with time zone;
+BEGIN
+  DELETE FROM form_tokens
+  WHERE token = submitted_token AND form = form_name
+  RETURNING issued_at INTO issued;
+
+  IF issued IS NULL OR issued < now() - interval '1 day' THEN
+    RETURN NULL;
+  END IF;
+  RETURN extract(epoch FROM now() - issued);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION redeem_form_token(TEXT, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Records the submission and returns false if it goes over the limits for
+-- the last hour
+CREATE OR REPLACE FUNCTION check_form_rate_limit(form_name TEXT, submitter_email TEXT, max_per_ip INTEGER, max_per_email INTEGER)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  headers json := current_setting('request.headers', true)::json;
+  submitter_ip text := nullif(trim(coalesce(
+    headers->>'cf-connecting-ip',
+    substring(headers->>'x-forwarded-for' FROM '[^,]*$')
+  )), '');
+  submitter_ip_hash text;
+  ip_count integer;
+  email_count integer;
+BEGIN
+  IF submitter_ip IS NOT NULL THEN
+    SELECT md5(salt || submitter_ip) INTO submitter_ip_hash FROM form_submission_salt;
+  END IF;
+
+  DELETE FROM form_submissions WHERE created_at < now() - interval '1 day';
+
+  SELECT count(*) FILTER (WHERE ip_hash = submitter_ip_hash),
+         count(*) FILTER (WHERE email = submitter_email)
+  INTO ip_count, email_count
+  FROM form_submissions
+  WHERE form = form_name
+    AND created_at > now() - interval '1 hour';
+
+  INSERT INTO form_submissions (form, ip_hash, email)
+  VALUES (form_name, submitter_ip_hash, submitter_email);
+
+  RETURN ip_count < max_per_ip AND email_count < max_per_email;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION check_form_rate_limit(TEXT, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Each reason adds to the score; 5 or more is spam. Submissions faster than
+-- the minimum never get here, but quick ones still count against a message.
+CREATE OR REPLACE FUNCTION score_contact_message(contact_name TEXT, contact_subject TEXT, contact_message TEXT, seconds_to_submit NUMERIC)
+RETURNS TABLE (score INTEGER, reasons TEXT[])
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  content text := lower(concat_ws(' ', contact_name, contact_subject, contact_message));
+  link_count integer := (SELECT count(*) FROM regexp_matches(content, '(https?://|www\.)', 'g'));
+  keyword text;
+BEGIN
+  score := 0;
+  reasons := '{}';
+
+  IF seconds_to_submit < 15 THEN
+    score := score + 2;
+    reasons := reasons || format('sent %ss after opening the page', round(seconds_to_submit, 1));
+  END IF;
+
+  IF link_count >= 3 THEN
+    score := score + 3;
+    reasons := reasons || format('%s links', link_count);
+  ELSIF link_count > 0 THEN
+    score := score + link_count;
+    reasons := reasons || format('%s link%s', link_count, CASE WHEN link_count > 1 THEN 's' ELSE '' END);
+  END IF;
+
+  IF contact_name ~* '(https?://|www\.|\.com\M)' THEN
+    score := score + 3;
+    reasons := reasons || 'link in name'::text;
+  END IF;
+
+  IF contact_message ~* '\[url=|<a\s+href' THEN
+    score := score + 3;
+    reasons := reasons || 'link markup'::text;
+  END IF;
+
+  FOREACH keyword IN ARRAY ARRAY[
+    'seo', 'backlink', 'crypto', 'bitcoin', 'casino', 'viagra', 'loan', 'forex',
+    'guest post', 'rank your website', 'first page of google', 'web design services',
+    'increase your traffic', 'marketing services', 'investment opportunity'
+  ] LOOP
+    IF content ~ ('\m' || keyword || '\M') THEN
+      score := score + 2;
+      reasons := reasons || format('keyword "%s"', keyword);
+    END IF;
+  END LOOP;
+
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION score_contact_message(TEXT, TEXT, TEXT, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION submit_contact_message(
+  contact_name TEXT,
+  contact_email TEXT,
+  contact_subject TEXT,
+  contact_message TEXT,
+  honeypot TEXT,
+  form_token uuid DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  spam RECORD;
+  seconds_on_form numeric;
+BEGIN
+  -- Looks like it worked, so the bot has nothing to adjust
+  IF coalesce(honeypot, '') <> '' THEN
+    RETURN json_build_object('success', true, 'message', 'Message sent');
+  END IF;
+
+  IF coalesce(trim(contact_name), '') = '' OR coalesce(trim(contact_message), '') = ''
+     OR coalesce(contact_email, '') !~* '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RETURN json_build_object('success', false, 'message', 'Please provide your name, a valid email and a message');
+  END IF;
+
+  IF length(contact_name) > 100 OR length(contact_email) > 254
+     OR length(coalesce(contact_subject, '')) > 200 OR length(contact_message) > 5000 THEN
+    RETURN json_build_object('success', false, 'message', 'Your message is too long');
+  END IF;
+
+  seconds_on_form := redeem_form_token('contact', form_token);
+  IF seconds_on_form IS NULL THEN
+    RETURN json_build_object('success', false, 'message', 'This form has expired. Please reload the page and try again.');
+  ELSIF seconds_on_form < 5 THEN
+    RETURN json_build_object('success', false, 'message', 'That was quick! Please check your message and send it again.');
+  END IF;
+
+  IF NOT check_form_rate_limit('contact', lower(trim(contact_email)), 5, 3) THEN
+    RETURN json_build_object('success', false, 'message', 'Too many messages. Please try again later or give us a call.');
+  END IF;
+
+  SELECT * INTO spam FROM score_contact_message(contact_name, contact_subject, contact_message, seconds_on_form);
+
+  INSERT INTO contact_messages (name, email, subject, message, status, spam_score, spam_reasons)
+  VALUES (
+    trim(contact_name),
+    trim(contact_email),
+    nullif(trim(contact_subject), ''),
+    trim(contact_message),
+    CASE WHEN spam.score >= 5 THEN 'spam' ELSE 'new' END,
+    spam.score,
+    spam.reasons
+  );
+
+  RETURN json_build_object('success', true, 'message', 'Message sent');
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN json_build_object('success', false, 'message', 'Failed to send message. Please try again later.');
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_contact_message(TEXT, TEXT, TEXT, TEXT, TEXT, uuid) TO anon;
+GRANT EXECUTE ON FUNCTION submit_contact_message(TEXT, TEXT, TEXT, TEXT, TEXT, uuid) TO authenticated;
+
+-- Existing subscribers get the same reply as new ones, so the form can't be
+-- used to find out who is subscribed. Someone who unsubscribed stays that way:
+-- anyone could otherwise sign them up again.
+CREATE OR REPLACE FUNCTION subscribe_newsletter(
+  email_address TEXT,
+  honeypot TEXT,
+  form_token uuid DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  subscriber_email text := lower(trim(coalesce(email_address, '')));
+  seconds_on_form numeric;
+BEGIN
+  IF coalesce(honeypot, '') <> '' THEN
+    RETURN json_build_object('success', true, 'message', 'Subscribed');
+  END IF;
+
+  IF subscriber_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' OR length(subscriber_email) > 254 THEN
+    RETURN json_build_object('success', false, 'message', 'Please enter a valid email address');
+  END IF;
+
+  seconds_on_form := redeem_form_token('newsletter', form_token);
+  IF seconds_on_form IS NULL THEN
+    RETURN json_build_object('success', false, 'message', 'This form has expired. Please reload the page and try again.');
+  ELSIF seconds_on_form < 3 THEN
+    RETURN json_build_object('success', false, 'message', 'That was quick! Please try again in a moment.');
+  END IF;
+
+  IF NOT check_form_rate_limit('newsletter', subscriber_email, 10, 3) THEN
+    RETURN json_build_object('success', false, 'message', 'Too many attempts. Please try again later.');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM member_subscriptions WHERE lower(email) = subscriber_email) THEN
+    INSERT INTO member_subscriptions (email, is_subscribed, subscribed_at, spam_score)
+    VALUES (
+      subscriber_email,
+      true,
+      now(),
+      -- Shown as "Likely bot" in the dashboard
+      CASE WHEN seconds_on_form < 8 THEN 2 ELSE 0 END
+    );
+  END IF;
+
+  RETURN json_build_object('success', true, 'message', 'Subscribed');
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN json_build_object('success', false, 'message', 'Failed to subscribe. Please try again later.');
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION subscribe_newsletter(TEXT, TEXT, uuid) TO anon;
+GRANT EXECUTE ON FUNCTION subscribe_newsletter(TEXT, TEXT, uuid) TO authenticated;
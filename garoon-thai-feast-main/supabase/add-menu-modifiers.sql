@@ -0,0 +1,170 @@
+-- Migration: Add option groups and options (modifiers) to menu items
+-- e.g. "Choice of protein" (chicken / beef / prawn +$3), "Spice level" 1-5, "Extras" (add rice).
+-- A group is required when min_select > 0. Order lines keep a snapshot of the
+-- chosen modifiers so later menu edits don't change past orders.
+
+CREATE TABLE IF NOT EXISTS menu_option_groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  menu_item_id uuid NOT NULL REFERENCES menu_items(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  min_select integer NOT NULL DEFAULT 0 CHECK (min_select >= 0),
+  max_select integer NOT NULL DEFAULT 1 CHECK (max_select >= 1),
+  display_order integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc', now()),
+  updated_at timestamp with time zone NOT NULL DEFAULT timezone('utc', now()),
+  CHECK (min_select <= max_select)
+);
+
+CREATE TABLE IF NOT EXISTS menu_options (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id uuid NOT NULL REFERENCES menu_option_groups(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  price_delta numeric(10, 2) NOT NULL DEFAULT 0,
+  display_order integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc', now())
+);
+
+CREATE INDEX IF NOT EXISTS menu_option_groups_item_idx ON menu_option_groups (menu_item_id);
+CREATE INDEX IF NOT EXISTS menu_options_group_idx ON menu_options (group_id);
+
+-- [{ "group": "Protein", "option": "Prawn", "price_delta": 3 }]
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS modifiers jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE menu_option_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE menu_options ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can read menu option groups" ON menu_option_groups
+FOR SELECT TO anon, authenticated
+USING (true);
+
+CREATE POLICY "Managers can manage menu option groups" ON menu_option_groups
+FOR ALL TO authenticated
+USING (has_role(ARRAY['owner', 'manager']))
+WITH CHECK (has_role(ARRAY['owner', 'manager']));
+
+CREATE POLICY "Public can read menu options" ON menu_options
+FOR SELECT TO anon, authenticated
+USING (true);
+
+CREATE POLICY "Managers can manage menu options" ON menu_options
+FOR ALL TO authenticated
+USING (has_role(ARRAY['owner', 'manager']))
+WITH CHECK (has_role(ARRAY['owner', 'manager']));
+
+-- place_order() now accepts { menu_item_id, quantity, option_ids } per line and
+-- prices each line as the item price plus the chosen options' price deltas.
+CREATE OR REPLACE FUNCTION place_order(
+  customer_name TEXT,
+  customer_email TEXT,
+  customer_phone TEXT,
+  pickup_time TIMESTAMPTZ,
+  notes TEXT,
+  order_items JSONB
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_order_id UUID;
+  line JSONB;
+  item RECORD;
+  option_group RECORD;
+  line_quantity INTEGER;
+  line_option_ids UUID[];
+  line_modifiers JSONB;
+  line_unit_price NUMERIC(10, 2);
+  selected_count INTEGER;
+  order_subtotal NUMERIC(10, 2) := 0;
+BEGIN
+  IF coalesce(trim(customer_name), '') = '' OR coalesce(trim(customer_phone), '') = ''
+     OR customer_email !~* '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RETURN json_build_object('success', false, 'message', 'Please provide your name, phone and a valid email');
+  END IF;
+
+  IF pickup_time < now() THEN
+    RETURN json_build_object('success', false, 'message', 'Pickup time must be in the future');
+  END IF;
+
+  IF jsonb_typeof(order_items) <> 'array' OR jsonb_array_length(order_items) = 0 THEN
+    RETURN json_build_object('success', false, 'message', 'Your cart is empty');
+  END IF;
+
+  INSERT INTO orders (customer_name, customer_email, customer_phone, pickup_time, notes)
+  VALUES (trim(customer_name), trim(customer_email), trim(customer_phone), pickup_time, nullif(trim(notes), ''))
+  RETURNING id INTO new_order_id;
+
+  FOR line IN SELECT * FROM jsonb_array_elements(order_items)
+  LOOP
+    line_quantity := (line->>'quantity')::INTEGER;
+    IF line_quantity IS NULL OR line_quantity < 1 OR line_quantity > 50 THEN
+      RAISE EXCEPTION 'Invalid quantity';
+    END IF;
+
+    SELECT id, name, price INTO item
+    FROM menu_items
+    WHERE id = (line->>'menu_item_id')::UUID AND is_active = true;
+
+    IF item.id IS NULL THEN
+      RAISE EXCEPTION 'A menu item in your cart is no longer available';
+    END IF;
+
+    SELECT coalesce(array_agg(value::UUID), '{}') INTO line_option_ids
+    FROM jsonb_array_elements_text(coalesce(line->'option_ids', '[]'::jsonb));
+
+    -- Every chosen option must be an active option of this item
+    IF EXISTS (
+      SELECT 1 FROM unnest(line_option_ids) AS chosen(id)
+      WHERE NOT EXISTS (
+        SELECT 1 FROM menu_options o
+        JOIN menu_option_groups g ON g.id = o.group_id
+        WHERE o.id = chosen.id AND o.is_active AND g.menu_item_id = item.id
+      )
+    ) THEN
+      RAISE EXCEPTION 'An option for % is no longer available', item.name;
+    END IF;
+
+    FOR option_group IN SELECT * FROM menu_option_groups WHERE menu_item_id = item.id
+    LOOP
+      SELECT count(*) INTO selected_count
+      FROM menu_options o
+      WHERE o.group_id = option_group.id AND o.id = ANY(line_option_ids);
+
+      IF selected_count < option_group.min_select OR selected_count > option_group.max_select THEN
+        RAISE EXCEPTION 'Please check your % choice for %', option_group.name, item.name;
+      END IF;
+    END LOOP;
+
+    SELECT
+      coalesce(jsonb_agg(jsonb_build_object('group', g.name, 'option', o.name, 'price_delta', o.price_delta)
+        ORDER BY g.display_order, o.display_order), '[]'::jsonb),
+      item.price + coalesce(sum(o.price_delta), 0)
+    INTO line_modifiers, line_unit_price
+    FROM menu_options o
+    JOIN menu_option_groups g ON g.id = o.group_id
+    WHERE o.id = ANY(line_option_ids);
+
+    INSERT INTO order_items (order_id, menu_item_id, name, unit_price, quantity, line_total, modifiers)
+    VALUES (new_order_id, item.id, item.name, line_unit_price, line_quantity, line_unit_price * line_quantity, line_modifiers);
+
+    order_subtotal := order_subtotal + line_unit_price * line_quantity;
+  END LOOP;
+
+  UPDATE orders SET subtotal = order_subtotal, total = order_subtotal WHERE id = new_order_id;
+
+  RETURN json_build_object(
+    'success', true,
+    'message', 'Order placed successfully',
+    'order_id', new_order_id,
+    'total', order_subtotal
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN json_build_object('success', false, 'message', SQLERRM);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION place_order(TEXT, TEXT, TEXT, TIMESTAMPTZ, TEXT, JSONB) TO anon;
+GRANT EXECUTE ON FUNCTION place_order(TEXT, TEXT, TEXT, TIMESTAMPTZ, TEXT, JSONB) TO authenticated;
@@ -0,0 +1,290 @@
+-- Migration: Check bookings and pickup orders against opening hours
+-- The booking form and cart only offer times within contact_info.business_hours,
+-- but create_reservation() and place_order() didn't check them, so calling
+-- them directly could book 3am or order for pickup on a closed day.
+-- get_opening_intervals() reads the hours the way src/lib/businessHours.ts
+-- does, holidays and closures included, for a date at the restaurant
+-- (Pacific/Auckland).
+
+-- Opening intervals for a date in minutes since midnight, e.g. {"[660,1320)"}.
+-- A shift past midnight ends after 1440: 17:00-01:00 is [1020,1500).
+-- Empty when closed. NULL when the hours are still in the free-text format
+-- from before the hours editor, which only the browser parses; saving them
+-- once in the dashboard converts them.
+CREATE OR REPLACE FUNCTION get_opening_intervals(day DATE)
+RETURNS int4range[]
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  hours jsonb;
+  day_hours jsonb;
+BEGIN
+  SELECT business_hours::jsonb INTO hours FROM contact_info LIMIT 1;
+
+  -- Older rows hold it as a JSON string
+  IF jsonb_typeof(hours) = 'string' THEN
+    BEGIN
+      hours := (hours #>> '{}')::jsonb;
+    EXCEPTION
+      WHEN OTHERS THEN
+        RETURN NULL;
+    END;
+  END IF;
+
+  IF jsonb_typeof(hours -> 'weekly') IS DISTINCT FROM 'object' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT exception -> 'hours' INTO day_hours
+  FROM jsonb_array_elements(
+    CASE WHEN jsonb_typeof(hours -> 'exceptions') = 'array' THEN hours -> 'exceptions' ELSE '[]'::jsonb END
+  ) AS exception
+  WHERE exception ->> 'date' = day::TEXT
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    day_hours := hours -> 'weekly' -> to_char(day, 'FMday');
+  END IF;
+
+  -- Times are "HH:MM"; a close at or before the open is the next morning, so "00:00" is midnight
+  RETURN ARRAY(
+    SELECT int4range(open_minutes, CASE WHEN close_minutes <= open_minutes THEN close_minutes + 24 * 60 ELSE close_minutes END)
+    FROM (
+      SELECT split_part(shift ->> 'open', ':', 1)::INTEGER * 60 + split_part(shift ->> 'open', ':', 2)::INTEGER AS open_minutes,
+             split_part(shift ->> 'close', ':', 1)::INTEGER * 60 + split_part(shift ->> 'close', ':', 2)::INTEGER AS close_minutes
+      FROM jsonb_array_elements(CASE WHEN jsonb_typeof(day_hours) = 'array' THEN day_hours ELSE '[]'::jsonb END) AS shift
+      WHERE shift ->> 'open' ~ '^\d{1,2}:\d{2}$'
+        AND shift ->> 'close' ~ '^\d{1,2}:\d{2}$'
+    ) parsed
+    ORDER BY open_minutes
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_opening_intervals(DATE) FROM PUBLIC, anon, authenticated;
+
+-- As in create-reservations-table.sql, plus the opening hours. Slots step from
+-- the start of each shift, like getTimeSlots() in src/lib/reservations.ts, and
+-- the last one leaves last_seating_minutes before close.
+CREATE OR REPLACE FUNCTION create_reservation(
+  guest_name TEXT,
+  guest_email TEXT,
+  guest_phone TEXT,
+  guest_party_size INTEGER,
+  booking_date DATE,
+  booking_slot TIME,
+  notes TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settings RECORD;
+  booked INTEGER;
+  new_id UUID;
+  opening int4range[];
+  slot_minutes INTEGER := extract(hour FROM booking_slot)::INTEGER * 60 + extract(minute FROM booking_slot)::INTEGER;
+BEGIN
+  SELECT * INTO settings FROM reservation_settings LIMIT 1;
+
+  IF coalesce(trim(guest_name), '') = '' OR coalesce(trim(guest_phone), '') = ''
+     OR guest_email !~* '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RETURN json_build_object('success', false, 'message', 'Please provide your name, phone and a valid email');
+  END IF;
+
+  IF guest_party_size < 1 OR guest_party_size > settings.max_party_size THEN
+    RETURN json_build_object('success', false, 'message',
+      format('Online bookings are for 1 to %s guests. Please call us for larger groups.', settings.max_party_size));
+  END IF;
+
+  IF booking_date + booking_slot < now() AT TIME ZONE 'Pacific/Auckland'
+     OR booking_date > (now() AT TIME ZONE 'Pacific/Auckland')::DATE + settings.booking_window_days THEN
+    RETURN json_build_object('success', false, 'message', 'That date is outside our booking window');
+  END IF;
+
+  opening := get_opening_intervals(booking_date);
+
+  IF opening IS NULL THEN
+    -- Hours the database can't read: fall back to the plain slot grid
+    IF extract(minute FROM booking_slot)::INTEGER % settings.slot_interval_minutes <> 0 THEN
+      RETURN json_build_object('success', false, 'message', 'Invalid time slot');
+    END IF;
+  ELSIF NOT EXISTS (
+    SELECT 1
+    FROM unnest(opening) AS shift
+    WHERE slot_minutes >= lower(shift)
+      AND slot_minutes <= upper(shift) - settings.last_seating_minutes
+      AND (slot_minutes - lower(shift)) % settings.slot_interval_minutes = 0
+  ) THEN
+    RETURN json_build_object('success', false, 'message', 'We don''t take bookings at that time. Please choose another slot.');
+  END IF;
+
+  -- Serialise bookings for the same slot so two guests can't take the last table at once
+  PERFORM pg_advisory_xact_lock(hashtext(booking_date::TEXT || booking_slot::TEXT));
+
+  SELECT coalesce(sum(r.party_size), 0) INTO booked
+  FROM reservations r
+  WHERE r.reservation_date = booking_date
+    AND r.time_slot = booking_slot
+    AND r.status NOT IN ('cancelled', 'no_show');
+
+  IF booked + guest_party_size > settings.max_covers_per_slot THEN
+    RETURN json_build_object('success', false, 'message', 'Sorry, that time is fully booked. Please choose another slot.');
+  END IF;
+
+  INSERT INTO reservations (name, email, phone, party_size, reservation_date, time_slot, notes)
+  VALUES (trim(guest_name), trim(guest_email), trim(guest_phone), guest_party_size, booking_date, booking_slot, nullif(trim(notes), ''))
+  RETURNING id INTO new_id;
+
+  RETURN json_build_object('success', true, 'message', 'Reservation requested', 'reservation_id', new_id);
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN json_build_object('success', false, 'message', SQLERRM);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_reservation(TEXT, TEXT, TEXT, INTEGER, DATE, TIME, TEXT) TO anon;
+GRANT EXECUTE ON FUNCTION create_reservation(TEXT, TEXT, TEXT, INTEGER, DATE, TIME, TEXT) TO authenticated;
+
+-- As in add-menu-modifiers.sql, plus the opening hours. getPickupSlots() in
+-- src/lib/orders.ts offers the next week, so anything later is refused too.
+CREATE OR REPLACE FUNCTION place_order(
+  customer_name TEXT,
+  customer_email TEXT,
+  customer_phone TEXT,
+  pickup_time TIMESTAMPTZ,
+  notes TEXT,
+  order_items JSONB
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_order_id UUID;
+  line JSONB;
+  item RECORD;
+  option_group RECORD;
+  line_quantity INTEGER;
+  line_option_ids UUID[];
+  line_modifiers JSONB;
+  line_unit_price NUMERIC(10, 2);
+  selected_count INTEGER;
+  order_subtotal NUMERIC(10, 2) := 0;
+  pickup_local TIMESTAMP := pickup_time AT TIME ZONE 'Pacific/Auckland';
+  pickup_minutes INTEGER := extract(hour FROM pickup_local)::INTEGER * 60 + extract(minute FROM pickup_local)::INTEGER;
+  opening int4range[];
+  late_opening int4range[];
+BEGIN
+  IF coalesce(trim(customer_name), '') = '' OR coalesce(trim(customer_phone), '') = ''
+     OR customer_email !~* '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RETURN json_build_object('success', false, 'message', 'Please provide your name, phone and a valid email');
+  END IF;
+
+  IF pickup_time < now() THEN
+    RETURN json_build_object('success', false, 'message', 'Pickup time must be in the future');
+  END IF;
+
+  IF pickup_time > now() + interval '8 days' THEN
+    RETURN json_build_object('success', false, 'message', 'Pickup time is too far ahead');
+  END IF;
+
+  -- Early morning pickups can also fall in the previous day's late shift
+  opening := get_opening_intervals(pickup_local::DATE);
+  late_opening := get_opening_intervals(pickup_local::DATE - 1);
+  IF opening IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM unnest(opening) AS shift
+    WHERE pickup_minutes >= lower(shift) AND pickup_minutes < upper(shift)
+  ) AND NOT EXISTS (
+    SELECT 1 FROM unnest(coalesce(late_opening, '{}')) AS shift
+    WHERE pickup_minutes + 24 * 60 >= lower(shift) AND pickup_minutes + 24 * 60 < upper(shift)
+  ) THEN
+    RETURN json_build_object('success', false, 'message', 'We''re not open for pickup at that time. Please choose another.');
+  END IF;
+
+  IF jsonb_typeof(order_items) <> 'array' OR jsonb_array_length(order_items) = 0 THEN
+    RETURN json_build_object('success', false, 'message', 'Your cart is empty');
+  END IF;
+
+  INSERT INTO orders (customer_name, customer_email, customer_phone, pickup_time, notes)
+  VALUES (trim(customer_name), trim(customer_email), trim(customer_phone), pickup_time, nullif(trim(notes), ''))
+  RETURNING id INTO new_order_id;
+
+  FOR line IN SELECT * FROM jsonb_array_elements(order_items)
+  LOOP
+    line_quantity := (line->>'quantity')::INTEGER;
+    IF line_quantity IS NULL OR line_quantity < 1 OR line_quantity > 50 THEN
+      RAISE EXCEPTION 'Invalid quantity';
+    END IF;
+
+    SELECT id, name, price INTO item
+    FROM menu_items
+    WHERE id = (line->>'menu_item_id')::UUID AND is_active = true;
+
+    IF item.id IS NULL THEN
+      RAISE EXCEPTION 'A menu item in your cart is no longer available';
+    END IF;
+
+    SELECT coalesce(array_agg(value::UUID), '{}') INTO line_option_ids
+    FROM jsonb_array_elements_text(coalesce(line->'option_ids', '[]'::jsonb));
+
+    -- Every chosen option must be an active option of this item
+    IF EXISTS (
+      SELECT 1 FROM unnest(line_option_ids) AS chosen(id)
+      WHERE NOT EXISTS (
+        SELECT 1 FROM menu_options o
+        JOIN menu_option_groups g ON g.id = o.group_id
+        WHERE o.id = chosen.id AND o.is_active AND g.menu_item_id = item.id
+      )
+    ) THEN
+      RAISE EXCEPTION 'An option for % is no longer available', item.name;
+    END IF;
+
+    FOR option_group IN SELECT * FROM menu_option_groups WHERE menu_item_id = item.id
+    LOOP
+      SELECT count(*) INTO selected_count
+      FROM menu_options o
+      WHERE o.group_id = option_group.id AND o.id = ANY(line_option_ids);
+
+      IF selected_count < option_group.min_select OR selected_count > option_group.max_select THEN
+        RAISE EXCEPTION 'Please check your % choice for %', option_group.name, item.name;
+      END IF;
+    END LOOP;
+
+    SELECT
+      coalesce(jsonb_agg(jsonb_build_object('group', g.name, 'option', o.name, 'price_delta', o.price_delta)
+        ORDER BY g.display_order, o.display_order), '[]'::jsonb),
+      item.price + coalesce(sum(o.price_delta), 0)
+    INTO line_modifiers, line_unit_price
+    FROM menu_options o
+    JOIN menu_option_groups g ON g.id = o.group_id
+    WHERE o.id = ANY(line_option_ids);
+
+    INSERT INTO order_items (order_id, menu_item_id, name, unit_price, quantity, line_total, modifiers)
+    VALUES (new_order_id, item.id, item.name, line_unit_price, line_quantity, line_unit_price * line_quantity, line_modifiers);
+
+    order_subtotal := order_subtotal + line_unit_price * line_quantity;
+  END LOOP;
+
+  UPDATE orders SET subtotal = order_subtotal, total = order_subtotal WHERE id = new_order_id;
+
+  RETURN json_build_object(
+    'success', true,
+    'message', 'Order placed successfully',
+    'order_id', new_order_id,
+    'total', order_subtotal
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN json_build_object('success', false, 'message', SQLERRM);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION place_order(TEXT, TEXT, TEXT, TIMESTAMPTZ, TEXT, JSONB) TO anon;
+GRANT EXECUTE ON FUNCTION place_order(TEXT, TEXT, TEXT, TIMESTAMPTZ, TEXT, JSONB) TO authenticated;
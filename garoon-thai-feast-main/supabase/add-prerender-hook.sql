@@ -0,0 +1,202 @@
+-- Migration: Prerender hook
+-- The public pages are prerendered at build time (plugins/prerender.ts), so
+-- they go stale when content changes. prerender_hook holds a URL to POST to
+-- when that happens: a host's build hook, or a job that runs
+-- `npm run prerender`. Triggers on everything the prerendered pages show only
+-- mark a run as requested; a pg_cron job sends one request a minute at most,
+-- so saving a menu item with its options doesn't start a handful of builds.
+-- Admins can also send one straight away from SEO settings.
+
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+CREATE TABLE IF NOT EXISTS prerender_hook (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  url text,
+  requested_at timestamp with time zone,
+  last_sent_at timestamp with time zone,
+  updated_at timestamp with time zone NOT NULL DEFAULT timezone('utc', now())
+);
+
+INSERT INTO prerender_hook (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+-- The database sends requests to it, so only ever an HTTPS endpoint
+UPDATE prerender_hook SET url = NULL WHERE url !~ '^https://[^/\s]+';
+ALTER TABLE prerender_hook DROP CONSTRAINT IF EXISTS prerender_hook_url_https;
+ALTER TABLE prerender_hook ADD CONSTRAINT prerender_hook_url_https
+  CHECK (url ~ '^https://[^/\s]+');
+
+ALTER TABLE prerender_hook ENABLE ROW LEVEL SECURITY;
+
+-- Build hook URLs work as secrets, and the database sends requests to
+-- whatever is set, so only owners and managers can see or change it. Editors
+-- can still re-run prerendering.
+DROP POLICY IF EXISTS "SEO managers can read the prerender hook" ON prerender_hook;
+DROP POLICY IF EXISTS "Managers can read the prerender hook" ON prerender_hook;
+CREATE POLICY "Managers can read the prerender hook" ON prerender_hook
+FOR SELECT TO authenticated
+USING (has_role(ARRAY['owner', 'manager']));
+
+DROP POLICY IF EXISTS "SEO managers can update the prerender hook" ON prerender_hook;
+DROP POLICY IF EXISTS "Managers can update the prerender hook" ON prerender_hook;
+CREATE POLICY "Managers can update the prerender hook" ON prerender_hook
+FOR UPDATE TO authenticated
+USING (has_role(ARRAY['owner', 'manager']))
+WITH CHECK (has_role(ARRAY['owner', 'manager']));
+
+-- Returns when the request was sent, or NULL if no URL is set
+CREATE OR REPLACE FUNCTION send_prerender_request()
+RETURNS timestamp with time zone
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  hook_url text;
+  sent_time timestamp with time zone := now();
+BEGIN
+  SELECT nullif(trim(url), '') INTO hook_url FROM prerender_hook;
+
+  IF hook_url IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM net.http_post(
+    url := hook_url,
+    body := jsonb_build_object('reason', 'content-changed', 'requested_at', sent_time)
+  );
+
+  UPDATE prerender_hook SET last_sent_at = sent_time WHERE id;
+  RETURN sent_time;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION send_prerender_request() FROM PUBLIC, anon, authenticated;
+
+-- Run by pg_cron: sends one request if anything changed since the last one
+CREATE OR REPLACE FUNCTION flush_prerender_requests()
+RETURNS timestamp with time zone
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM prerender_hook
+    WHERE requested_at IS NOT NULL
+      AND (last_sent_at IS NULL OR requested_at > last_sent_at)
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN send_prerender_request();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION flush_prerender_requests() FROM PUBLIC, anon, authenticated;
+
+-- The Re-run button in SEO settings. Returns NULL when no URL is set.
+CREATE OR REPLACE FUNCTION rerun_prerender()
+RETURNS timestamp with time zone
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(ARRAY['owner', 'manager', 'editor']) THEN
+    RAISE EXCEPTION 'Only SEO managers can re-run prerendering';
+  END IF;
+
+  UPDATE prerender_hook SET requested_at = now() WHERE id;
+  RETURN send_prerender_request();
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION rerun_prerender() TO authenticated;
+
+CREATE OR REPLACE FUNCTION request_prerender()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE prerender_hook SET requested_at = now() WHERE id;
+  RETURN NULL;
+END;
+$$;
+
+-- Same rule as the sitemap: drafts aren't prerendered, so saving one changes
+-- nothing. Scheduled articles are picked up when publish_scheduled_articles()
+-- flips them.
+CREATE OR REPLACE FUNCTION request_prerender_for_article()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (TG_OP <> 'INSERT' AND OLD.status IN ('published', 'scheduled'))
+     OR (TG_OP <> 'DELETE' AND NEW.status IN ('published', 'scheduled')) THEN
+    UPDATE prerender_hook SET requested_at = now() WHERE id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS request_prerender ON articles;
+CREATE TRIGGER request_prerender
+AFTER INSERT OR UPDATE OR DELETE ON articles
+FOR EACH ROW EXECUTE FUNCTION request_prerender_for_article();
+
+DROP TRIGGER IF EXISTS request_prerender ON article_categories;
+CREATE TRIGGER request_prerender
+AFTER INSERT OR UPDATE OR DELETE ON article_categories
+FOR EACH STATEMENT EXECUTE FUNCTION request_prerender();
+
+DROP TRIGGER IF EXISTS request_prerender ON article_tags;
+CREATE TRIGGER request_prerender
+AFTER INSERT OR UPDATE OR DELETE ON article_tags
+FOR EACH STATEMENT EXECUTE FUNCTION request_prerender();
+
+DROP TRIGGER IF EXISTS request_prerender ON article_tag_links;
+CREATE TRIGGER request_prerender
+AFTER INSERT OR UPDATE OR DELETE ON article_tag_links
+FOR EACH STATEMENT EXECUTE FUNCTION request_prerender();
+
+DROP TRIGGER IF EXISTS request_prerender ON menu_categories;
+CREATE TRIGGER request_prerender
+AFTER INSERT OR UPDATE OR DELETE ON menu_categories
+FOR EACH STATEMENT EXECUTE FUNCTION request_prerender();
+
+DROP TRIGGER IF EXISTS request_prerender ON menu_items;
+CREATE TRIGGER request_prerender
+AFTER INSERT OR UPDATE OR DELETE ON menu_items
+FOR EACH STATEMENT EXECUTE FUNCTION request_prerender();
+
+DROP TRIGGER IF EXISTS request_prerender ON menu_option_groups;
+CREATE TRIGGER request_prerender
+AFTER INSERT OR UPDATE OR DELETE ON menu_option_groups
+FOR EACH STATEMENT EXECUTE FUNCTION request_prerender();
+
+DROP TRIGGER IF EXISTS request_prerender ON menu_options;
+CREATE TRIGGER request_prerender
+AFTER INSERT OR UPDATE OR DELETE ON menu_options
+FOR EACH STATEMENT EXECUTE FUNCTION request_prerender();
+
+-- Address, phone and hours are in the footer of every page
+DROP TRIGGER IF EXISTS request_prerender ON contact_info;
+CREATE TRIGGER request_prerender
+AFTER INSERT OR UPDATE OR DELETE ON contact_info
+FOR EACH STATEMENT EXECUTE FUNCTION request_prerender();
+
+DROP TRIGGER IF EXISTS request_prerender ON seo_settings;
+CREATE TRIGGER request_prerender
+AFTER INSERT OR UPDATE OR DELETE ON seo_settings
+FOR EACH STATEMENT EXECUTE FUNCTION request_prerender();
+
+SELECT cron.unschedule(jobid) FROM cron.job WHERE jobname = 'flush-prerender-requests';
+SELECT cron.schedule(
+  'flush-prerender-requests',
+  '* * * * *',
+  $$SELECT public.flush_prerender_requests()$$
+);
@@ -0,0 +1,156 @@
+-- Migration: Enforce profiles.role with row level security
+-- Roles: owner, manager, editor, staff. Accounts without a role (e.g. anyone who
+-- signs up through Supabase Auth) can read public content only.
+-- Keep the role lists below in sync with src/lib/permissions.ts
+
+-- 1. Constrain profiles.role to the known staff roles
+UPDATE profiles SET role = NULL
+WHERE role IS NOT NULL AND role NOT IN ('owner', 'manager', 'editor', 'staff');
+
+ALTER TABLE profiles ALTER COLUMN role SET DEFAULT NULL;
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_role_check;
+ALTER TABLE profiles
+ADD CONSTRAINT profiles_role_check
+CHECK (role IS NULL OR role IN ('owner', 'manager', 'editor', 'staff'));
+
+-- Promote the restaurant owner after running this migration, e.g.:
+-- UPDATE profiles SET role = 'owner'
+-- WHERE user_id = (SELECT id FROM auth.users WHERE email = 'owner@example.com');
+
+-- 2. Role helper used by every policy below.
+-- SECURITY DEFINER so it can read profiles without recursing into its own policies.
+CREATE OR REPLACE FUNCTION has_role(allowed_roles TEXT[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE user_id = auth.uid()
+      AND role = ANY (allowed_roles)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION has_role(TEXT[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION has_role(TEXT[]) TO anon;
+
+-- 3. Replace the permissive policies with role-based ones
+DO $$
+DECLARE
+  pol RECORD;
+BEGIN
+  FOR pol IN
+    SELECT policyname, tablename FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename IN ('menu_categories', 'menu_items', 'articles', 'contact_info',
+                        'seo_settings', 'contact_messages', 'member_subscriptions', 'profiles')
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', pol.policyname, pol.tablename);
+  END LOOP;
+END $$;
+
+ALTER TABLE menu_categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE menu_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE articles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE contact_info ENABLE ROW LEVEL SECURITY;
+ALTER TABLE seo_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE contact_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE member_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+
+-- Menu: public reads active rows, owner/manager manage everything
+CREATE POLICY "Public can read active categories" ON menu_categories
+FOR SELECT TO anon, authenticated
+USING (is_active = true OR has_role(ARRAY['owner', 'manager']));
+
+CREATE POLICY "Managers can manage categories" ON menu_categories
+FOR ALL TO authenticated
+USING (has_role(ARRAY['owner', 'manager']))
+WITH CHECK (has_role(ARRAY['owner', 'manager']));
+
+CREATE POLICY "Public can read active menu items" ON menu_items
+FOR SELECT TO anon, authenticated
+USING (is_active = true OR has_role(ARRAY['owner', 'manager']));
+
+CREATE POLICY "Managers can manage menu items" ON menu_items
+FOR ALL TO authenticated
+USING (has_role(ARRAY['owner', 'manager']))
+WITH CHECK (has_role(ARRAY['owner', 'manager']));
+
+-- Articles: public reads published rows, owner/manager/editor manage everything
+CREATE POLICY "Public can read published articles" ON articles
+FOR SELECT TO anon, authenticated
+USING (status = 'published' OR has_role(ARRAY['owner', 'manager', 'editor']));
+
+CREATE POLICY "Editors can manage articles" ON articles
+FOR ALL TO authenticated
+USING (has_role(ARRAY['owner', 'manager', 'editor']))
+WITH CHECK (has_role(ARRAY['owner', 'manager', 'editor']));
+
+-- Contact info: public read, owner/manager write
+CREATE POLICY "Public can read contact info" ON contact_info
+FOR SELECT TO anon, authenticated
+USING (true);
+
+CREATE POLICY "Managers can manage contact info" ON contact_info
+FOR ALL TO authenticated
+USING (has_role(ARRAY['owner', 'manager']))
+WITH CHECK (has_role(ARRAY['owner', 'manager']));
+
+-- SEO settings: public read, owner/manager/editor write
+CREATE POLICY "Public can read SEO settings" ON seo_settings
+FOR SELECT TO anon, authenticated
+USING (true);
+
+CREATE POLICY "Editors can manage SEO settings" ON seo_settings
+FOR ALL TO authenticated
+USING (has_role(ARRAY['owner', 'manager', 'editor']))
+WITH CHECK (has_role(ARRAY['owner', 'manager', 'editor']));
+
+-- Contact messages: anyone can submit, only staff can read
+CREATE POLICY "Anyone can submit contact messages" ON contact_messages
+FOR INSERT TO anon, authenticated
+WITH CHECK (true);
+
+CREATE POLICY "Staff can read contact messages" ON contact_messages
+FOR SELECT TO authenticated
+USING (has_role(ARRAY['owner', 'manager', 'staff']));
+
+CREATE POLICY "Managers can manage contact messages" ON contact_messages
+FOR DELETE TO authenticated
+USING (has_role(ARRAY['owner', 'manager']));
+
+-- Newsletter: anyone can subscribe, only owner/manager can read or remove
+CREATE POLICY "Anyone can subscribe" ON member_subscriptions
+FOR INSERT TO anon, authenticated
+WITH CHECK (true);
+
+CREATE POLICY "Managers can read subscriptions" ON member_subscriptions
+FOR SELECT TO authenticated
+USING (has_role(ARRAY['owner', 'manager']));
+
+CREATE POLICY "Managers can update subscriptions" ON member_subscriptions
+FOR UPDATE TO authenticated
+USING (has_role(ARRAY['owner', 'manager']))
+WITH CHECK (has_role(ARRAY['owner', 'manager']));
+
+CREATE POLICY "Managers can delete subscriptions" ON member_subscriptions
+FOR DELETE TO authenticated
+USING (has_role(ARRAY['owner', 'manager']));
+
+-- Profiles: users read their own profile, the owner manages roles
+CREATE POLICY "Users can read own profile" ON profiles
+FOR SELECT TO authenticated
+USING (user_id = auth.uid() OR has_role(ARRAY['owner']));
+
+CREATE POLICY "Owner can update profiles" ON profiles
+FOR UPDATE TO authenticated
+USING (has_role(ARRAY['owner']))
+WITH CHECK (has_role(ARRAY['owner']));
+
+-- Tighten the blanket grants from fix-rls-policies.sql
+REVOKE ALL ON member_subscriptions FROM anon;
+GRANT INSERT ON member_subscriptions TO anon;
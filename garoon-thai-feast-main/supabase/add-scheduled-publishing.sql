@@ -0,0 +1,56 @@
+-- Migration: Scheduled article publishing
+-- A scheduled article has status 'scheduled' and goes live at published_at.
+-- publish_scheduled_articles() flips due articles to 'published' and runs every
+-- minute via pg_cron. The public read policy also checks published_at, so an
+-- article is never visible early and is visible on time even between runs.
+
+-- Published rows from before this migration may have no date
+UPDATE articles
+SET published_at = created_at
+WHERE status = 'published' AND published_at IS NULL;
+
+ALTER TABLE articles DROP CONSTRAINT IF EXISTS articles_scheduled_has_date;
+ALTER TABLE articles ADD CONSTRAINT articles_scheduled_has_date
+  CHECK (status IS DISTINCT FROM 'scheduled' OR published_at IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS articles_status_published_at_idx ON articles (status, published_at);
+
+DROP POLICY IF EXISTS "Public can read published articles" ON articles;
+CREATE POLICY "Public can read published articles" ON articles
+FOR SELECT TO anon, authenticated
+USING (
+  (status IN ('published', 'scheduled') AND published_at <= now())
+  OR has_role(ARRAY['owner', 'manager', 'editor'])
+);
+
+CREATE OR REPLACE FUNCTION publish_scheduled_articles()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  published_count integer;
+BEGIN
+  UPDATE articles
+  SET status = 'published',
+      updated_at = timezone('utc', now())
+  WHERE status = 'scheduled'
+    AND published_at <= now();
+
+  GET DIAGNOSTICS published_count = ROW_COUNT;
+  RETURN published_count;
+END;
+$$;
+
+-- Only the scheduler (and the service role) should run this
+REVOKE EXECUTE ON FUNCTION publish_scheduled_articles() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.unschedule(jobid) FROM cron.job WHERE jobname = 'publish-scheduled-articles';
+SELECT cron.schedule(
+  'publish-scheduled-articles',
+  '* * * * *',
+  $$SELECT public.publish_scheduled_articles()$$
+);
@@ -0,0 +1,66 @@
+-- Migration: Shareable preview links for unpublished articles
+-- Editors can open any article at /news/preview/:id through their own session.
+-- To share a draft with someone who can't sign in, ArticleManager creates a
+-- random, expiring token and the link carries it as ?token=. The article is
+-- then read through get_article_preview(), which checks the token instead of
+-- the public read policy. Links last 7 days; the database sets the token and
+-- expiry itself, so a client can't mint a longer-lived or guessable link.
+
+CREATE TABLE IF NOT EXISTS article_preview_tokens (
+  token text PRIMARY KEY DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  article_id uuid NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+  expires_at timestamp with time zone NOT NULL DEFAULT timezone('utc', now()) + interval '7 days',
+  created_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc', now())
+);
+
+ALTER TABLE article_preview_tokens
+  ALTER COLUMN expires_at SET DEFAULT timezone('utc', now()) + interval '7 days';
+
+UPDATE article_preview_tokens
+SET expires_at = created_at + interval '7 days'
+WHERE expires_at > created_at + interval '7 days';
+
+ALTER TABLE article_preview_tokens DROP CONSTRAINT IF EXISTS article_preview_tokens_max_lifetime;
+ALTER TABLE article_preview_tokens ADD CONSTRAINT article_preview_tokens_max_lifetime
+  CHECK (expires_at <= created_at + interval '7 days');
+
+CREATE INDEX IF NOT EXISTS article_preview_tokens_article_id_idx ON article_preview_tokens (article_id);
+
+ALTER TABLE article_preview_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Tokens are never readable by the public; they are only checked by the function below
+DROP POLICY IF EXISTS "Editors can manage article preview tokens" ON article_preview_tokens;
+CREATE POLICY "Editors can manage article preview tokens" ON article_preview_tokens
+FOR ALL TO authenticated
+USING (has_role(ARRAY['owner', 'manager', 'editor']))
+WITH CHECK (has_role(ARRAY['owner', 'manager', 'editor']));
+
+-- Editors only pick the article; token, created_at and expires_at come from
+-- the defaults and can't be changed afterwards
+REVOKE INSERT, UPDATE ON article_preview_tokens FROM anon, authenticated;
+GRANT INSERT (article_id) ON article_preview_tokens TO authenticated;
+
+CREATE OR REPLACE FUNCTION get_article_preview(preview_token text)
+RETURNS SETOF articles
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT articles.*
+  FROM article_preview_tokens
+  JOIN articles ON articles.id = article_preview_tokens.article_id
+  WHERE article_preview_tokens.token = preview_token
+    AND article_preview_tokens.expires_at > now();
+$$;
+
+GRANT EXECUTE ON FUNCTION get_article_preview(text) TO anon, authenticated;
+
+-- Expired tokens are useless, so clear them out daily
+SELECT cron.unschedule(jobid) FROM cron.job WHERE jobname = 'delete-expired-article-preview-tokens';
+SELECT cron.schedule(
+  'delete-expired-article-preview-tokens',
+  '0 3 * * *',
+  $$DELETE FROM public.article_preview_tokens WHERE expires_at <= now()$$
+);
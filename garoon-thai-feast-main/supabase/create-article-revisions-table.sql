@@ -0,0 +1,102 @@
+-- Migration: Article revision history
+-- Every insert or update of an article writes a snapshot to article_revisions,
+-- so edits can be compared and restored from ArticleManager. Also keeps the
+-- original published_at when an already published article is edited.
+
+CREATE TABLE IF NOT EXISTS article_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  article_id uuid NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  slug text,
+  content text,
+  category text,
+  featured_image text,
+  meta_title text,
+  meta_description text,
+  meta_keywords text,
+  status article_status,
+  published_at timestamp with time zone,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_by_name text,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc', now())
+);
+
+CREATE INDEX IF NOT EXISTS article_revisions_article_id_idx ON article_revisions (article_id, created_at DESC);
+
+ALTER TABLE article_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Only staff who manage articles can see history. Rows are written by the
+-- trigger below and never edited.
+DROP POLICY IF EXISTS "Editors can read article revisions" ON article_revisions;
+CREATE POLICY "Editors can read article revisions" ON article_revisions
+FOR SELECT TO authenticated
+USING (has_role(ARRAY['owner', 'manager', 'editor']));
+
+CREATE OR REPLACE FUNCTION preserve_article_published_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.status = 'published' AND NEW.status = 'published' AND OLD.published_at IS NOT NULL THEN
+    NEW.published_at := OLD.published_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS preserve_article_published_at ON articles;
+CREATE TRIGGER preserve_article_published_at
+BEFORE UPDATE ON articles
+FOR EACH ROW EXECUTE FUNCTION preserve_article_published_at();
+
+CREATE OR REPLACE FUNCTION record_article_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Saves that change nothing but updated_at don't need a revision
+  IF TG_OP = 'UPDATE'
+     AND NEW.title IS NOT DISTINCT FROM OLD.title
+     AND NEW.slug IS NOT DISTINCT FROM OLD.slug
+     AND NEW.content IS NOT DISTINCT FROM OLD.content
+     AND NEW.category IS NOT DISTINCT FROM OLD.category
+     AND NEW.featured_image IS NOT DISTINCT FROM OLD.featured_image
+     AND NEW.meta_title IS NOT DISTINCT FROM OLD.meta_title
+     AND NEW.meta_description IS NOT DISTINCT FROM OLD.meta_description
+     AND NEW.meta_keywords IS NOT DISTINCT FROM OLD.meta_keywords
+     AND NEW.status IS NOT DISTINCT FROM OLD.status
+     AND NEW.published_at IS NOT DISTINCT FROM OLD.published_at THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO article_revisions (
+    article_id, title, slug, content, category, featured_image,
+    meta_title, meta_description, meta_keywords, status, published_at,
+    created_by, created_by_name
+  )
+  VALUES (
+    NEW.id, NEW.title, NEW.slug, NEW.content, NEW.category, NEW.featured_image,
+    NEW.meta_title, NEW.meta_description, NEW.meta_keywords, NEW.status, NEW.published_at,
+    auth.uid(), (SELECT display_name FROM profiles WHERE user_id = auth.uid())
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_article_revision ON articles;
+CREATE TRIGGER record_article_revision
+AFTER INSERT OR UPDATE ON articles
+FOR EACH ROW EXECUTE FUNCTION record_article_revision();
+
+-- Seed one revision per existing article so history starts from today's version
+INSERT INTO article_revisions (
+  article_id, title, slug, content, category, featured_image,
+  meta_title, meta_description, meta_keywords, status, published_at, created_at
+)
+SELECT id, title, slug, content, category, featured_image,
+       meta_title, meta_description, meta_keywords, status, published_at, updated_at
+FROM articles
+WHERE NOT EXISTS (SELECT 1 FROM article_revisions WHERE article_revisions.article_id = articles.id);
@@ -0,0 +1,55 @@
+-- Migration: Track files in the "media" storage bucket for the admin media library
+-- One row per uploaded file, holding its alt text and dimensions. Public URLs are
+-- derived from path on the client. Usage (which menu items / articles use an
+-- asset) is worked out from the image URL columns, so nothing else references this table.
+-- Run after supabase/create-media-storage.sql.
+
+CREATE TABLE IF NOT EXISTS media_assets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  path text NOT NULL UNIQUE,
+  file_name text NOT NULL,
+  folder text NOT NULL DEFAULT 'library',
+  content_type text NOT NULL,
+  size_bytes integer NOT NULL DEFAULT 0,
+  width integer,
+  height integer,
+  alt_text text,
+  uploaded_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc', now()),
+  updated_at timestamp with time zone NOT NULL DEFAULT timezone('utc', now())
+);
+
+CREATE INDEX IF NOT EXISTS media_assets_created_at_idx ON media_assets (created_at DESC);
+
+ALTER TABLE media_assets ENABLE ROW LEVEL SECURITY;
+
+-- Alt text is public information, so the site can read it alongside image URLs
+CREATE POLICY "Public can read media assets" ON media_assets
+FOR SELECT TO anon, authenticated
+USING (true);
+
+CREATE POLICY "Content staff can add media assets" ON media_assets
+FOR INSERT TO authenticated
+WITH CHECK (has_role(ARRAY['owner', 'manager', 'editor']));
+
+CREATE POLICY "Content staff can update media assets" ON media_assets
+FOR UPDATE TO authenticated
+USING (has_role(ARRAY['owner', 'manager', 'editor']))
+WITH CHECK (has_role(ARRAY['owner', 'manager', 'editor']));
+
+CREATE POLICY "Managers can delete media assets" ON media_assets
+FOR DELETE TO authenticated
+USING (has_role(ARRAY['owner', 'manager']));
+
+-- Backfill files uploaded before the library existed (including migrated base64 images)
+INSERT INTO media_assets (path, file_name, folder, content_type, size_bytes, created_at)
+SELECT
+  o.name,
+  regexp_replace(o.name, '^.*/', ''),
+  split_part(o.name, '/', 1),
+  coalesce(o.metadata->>'mimetype', 'application/octet-stream'),
+  coalesce((o.metadata->>'size')::INTEGER, 0),
+  o.created_at
+FROM storage.objects o
+WHERE o.bucket_id = 'media'
+ON CONFLICT (path) DO NOTHING;
@@ -0,0 +1,41 @@
+-- Migration: Create the public "media" storage bucket for uploaded images
+-- Menu, article and Open Graph images are uploaded here by src/lib/media.ts and
+-- only their public URLs are saved in image_url / featured_image / og_image.
+-- Existing base64 rows can be converted with `npm run migrate:images`.
+-- No SVG: opened from its public URL, an SVG runs any script inside it.
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'media',
+  'media',
+  true,
+  2097152,
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/gif']
+)
+ON CONFLICT (id) DO UPDATE
+SET public = EXCLUDED.public,
+    file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+DROP POLICY IF EXISTS "Public can read media" ON storage.objects;
+DROP POLICY IF EXISTS "Content staff can upload media" ON storage.objects;
+DROP POLICY IF EXISTS "Content staff can update media" ON storage.objects;
+DROP POLICY IF EXISTS "Content staff can delete media" ON storage.objects;
+
+CREATE POLICY "Public can read media" ON storage.objects
+FOR SELECT TO anon, authenticated
+USING (bucket_id = 'media');
+
+-- Same roles that can edit the menu, articles or SEO settings
+CREATE POLICY "Content staff can upload media" ON storage.objects
+FOR INSERT TO authenticated
+WITH CHECK (bucket_id = 'media' AND public.has_role(ARRAY['owner', 'manager', 'editor']));
+
+CREATE POLICY "Content staff can update media" ON storage.objects
+FOR UPDATE TO authenticated
+USING (bucket_id = 'media' AND public.has_role(ARRAY['owner', 'manager', 'editor']))
+WITH CHECK (bucket_id = 'media' AND public.has_role(ARRAY['owner', 'manager', 'editor']));
+
+CREATE POLICY "Content staff can delete media" ON storage.objects
+FOR DELETE TO authenticated
+USING (bucket_id = 'media' AND public.has_role(ARRAY['owner', 'manager']));
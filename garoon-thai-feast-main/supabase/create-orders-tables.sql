@@ -0,0 +1,133 @@
+-- Migration: Create orders and order_items tables for online pickup ordering
+-- Orders are placed through the place_order() function below so prices are
+-- always taken from menu_items rather than trusted from the browser.
+
+CREATE TABLE IF NOT EXISTS orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_name text NOT NULL,
+  customer_email text NOT NULL,
+  customer_phone text NOT NULL,
+  pickup_time timestamp with time zone NOT NULL,
+  notes text,
+  status text NOT NULL DEFAULT 'new'
+    CHECK (status IN ('new', 'accepted', 'preparing', 'ready', 'collected', 'cancelled')),
+  payment_method text NOT NULL DEFAULT 'pay_at_pickup'
+    CHECK (payment_method IN ('pay_at_pickup')),
+  payment_status text NOT NULL DEFAULT 'unpaid'
+    CHECK (payment_status IN ('unpaid', 'paid', 'refunded')),
+  subtotal numeric(10, 2) NOT NULL DEFAULT 0,
+  total numeric(10, 2) NOT NULL DEFAULT 0,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc', now()),
+  updated_at timestamp with time zone NOT NULL DEFAULT timezone('utc', now())
+);
+
+CREATE TABLE IF NOT EXISTS order_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  menu_item_id uuid REFERENCES menu_items(id) ON DELETE SET NULL,
+  name text NOT NULL,
+  unit_price numeric(10, 2) NOT NULL,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  line_total numeric(10, 2) NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc', now())
+);
+
+CREATE INDEX IF NOT EXISTS orders_status_idx ON orders (status, pickup_time);
+CREATE INDEX IF NOT EXISTS order_items_order_id_idx ON order_items (order_id);
+
+-- Only staff can see or update orders; customers go through place_order()
+ALTER TABLE orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read orders" ON orders
+FOR SELECT TO authenticated
+USING (has_role(ARRAY['owner', 'manager', 'staff']));
+
+CREATE POLICY "Staff can update orders" ON orders
+FOR UPDATE TO authenticated
+USING (has_role(ARRAY['owner', 'manager', 'staff']))
+WITH CHECK (has_role(ARRAY['owner', 'manager', 'staff']));
+
+CREATE POLICY "Managers can delete orders" ON orders
+FOR DELETE TO authenticated
+USING (has_role(ARRAY['owner', 'manager']));
+
+CREATE POLICY "Staff can read order items" ON order_items
+FOR SELECT TO authenticated
+USING (has_role(ARRAY['owner', 'manager', 'staff']));
+
+-- Place an order. order_items is a JSON array of { menu_item_id, quantity }.
+CREATE OR REPLACE FUNCTION place_order(
+  customer_name TEXT,
+  customer_email TEXT,
+  customer_phone TEXT,
+  pickup_time TIMESTAMPTZ,
+  notes TEXT,
+  order_items JSONB
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_order_id UUID;
+  line JSONB;
+  item RECORD;
+  line_quantity INTEGER;
+  order_subtotal NUMERIC(10, 2) := 0;
+BEGIN
+  IF coalesce(trim(customer_name), '') = '' OR coalesce(trim(customer_phone), '') = ''
+     OR customer_email !~* '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RETURN json_build_object('success', false, 'message', 'Please provide your name, phone and a valid email');
+  END IF;
+
+  IF pickup_time < now() THEN
+    RETURN json_build_object('success', false, 'message', 'Pickup time must be in the future');
+  END IF;
+
+  IF jsonb_typeof(order_items) <> 'array' OR jsonb_array_length(order_items) = 0 THEN
+    RETURN json_build_object('success', false, 'message', 'Your cart is empty');
+  END IF;
+
+  INSERT INTO orders (customer_name, customer_email, customer_phone, pickup_time, notes)
+  VALUES (trim(customer_name), trim(customer_email), trim(customer_phone), pickup_time, nullif(trim(notes), ''))
+  RETURNING id INTO new_order_id;
+
+  FOR line IN SELECT * FROM jsonb_array_elements(order_items)
+  LOOP
+    line_quantity := (line->>'quantity')::INTEGER;
+    IF line_quantity IS NULL OR line_quantity < 1 OR line_quantity > 50 THEN
+      RAISE EXCEPTION 'Invalid quantity';
+    END IF;
+
+    SELECT id, name, price INTO item
+    FROM menu_items
+    WHERE id = (line->>'menu_item_id')::UUID AND is_active = true;
+
+    IF item.id IS NULL THEN
+      RAISE EXCEPTION 'A menu item in your cart is no longer available';
+    END IF;
+
+    INSERT INTO order_items (order_id, menu_item_id, name, unit_price, quantity, line_total)
+    VALUES (new_order_id, item.id, item.name, item.price, line_quantity, item.price * line_quantity);
+
+    order_subtotal := order_subtotal + item.price * line_quantity;
+  END LOOP;
+
+  UPDATE orders SET subtotal = order_subtotal, total = order_subtotal WHERE id = new_order_id;
+
+  RETURN json_build_object(
+    'success', true,
+    'message', 'Order placed successfully',
+    'order_id', new_order_id,
+    'total', order_subtotal
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN json_build_object('success', false, 'message', SQLERRM);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION place_order(TEXT, TEXT, TEXT, TIMESTAMPTZ, TEXT, JSONB) TO anon;
+GRANT EXECUTE ON FUNCTION place_order(TEXT, TEXT, TEXT, TIMESTAMPTZ, TEXT, JSONB) TO authenticated;
@@ -0,0 +1,145 @@
+-- Migration: Create reservations and reservation_settings tables for table bookings
+-- Bookings are made through create_reservation() which enforces the capacity rules.
+-- Available time slots are derived client-side from contact_info.business_hours.
+-- Times are in the restaurant's timezone (Pacific/Auckland).
+
+CREATE TABLE IF NOT EXISTS reservation_settings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  slot_interval_minutes integer NOT NULL DEFAULT 30 CHECK (slot_interval_minutes IN (15, 30, 60)),
+  max_covers_per_slot integer NOT NULL DEFAULT 30 CHECK (max_covers_per_slot > 0),
+  max_party_size integer NOT NULL DEFAULT 10 CHECK (max_party_size > 0),
+  last_seating_minutes integer NOT NULL DEFAULT 60 CHECK (last_seating_minutes >= 0),
+  booking_window_days integer NOT NULL DEFAULT 60 CHECK (booking_window_days > 0),
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc', now()),
+  updated_at timestamp with time zone NOT NULL DEFAULT timezone('utc', now())
+);
+
+INSERT INTO reservation_settings (slot_interval_minutes)
+SELECT 30 WHERE NOT EXISTS (SELECT 1 FROM reservation_settings);
+
+CREATE TABLE IF NOT EXISTS reservations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  email text NOT NULL,
+  phone text NOT NULL,
+  party_size integer NOT NULL CHECK (party_size > 0),
+  reservation_date date NOT NULL,
+  time_slot time NOT NULL,
+  notes text,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'confirmed', 'seated', 'cancelled', 'no_show')),
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc', now()),
+  updated_at timestamp with time zone NOT NULL DEFAULT timezone('utc', now())
+);
+
+CREATE INDEX IF NOT EXISTS reservations_date_slot_idx ON reservations (reservation_date, time_slot);
+
+ALTER TABLE reservation_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reservations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can read reservation settings" ON reservation_settings
+FOR SELECT TO anon, authenticated
+USING (true);
+
+CREATE POLICY "Managers can manage reservation settings" ON reservation_settings
+FOR ALL TO authenticated
+USING (has_role(ARRAY['owner', 'manager']))
+WITH CHECK (has_role(ARRAY['owner', 'manager']));
+
+CREATE POLICY "Staff can read reservations" ON reservations
+FOR SELECT TO authenticated
+USING (has_role(ARRAY['owner', 'manager', 'staff']));
+
+CREATE POLICY "Staff can update reservations" ON reservations
+FOR UPDATE TO authenticated
+USING (has_role(ARRAY['owner', 'manager', 'staff']))
+WITH CHECK (has_role(ARRAY['owner', 'manager', 'staff']));
+
+CREATE POLICY "Managers can delete reservations" ON reservations
+FOR DELETE TO authenticated
+USING (has_role(ARRAY['owner', 'manager']));
+
+-- Covers already booked per time slot on a date. Exposes no guest details.
+CREATE OR REPLACE FUNCTION get_reservation_availability(booking_date DATE)
+RETURNS TABLE (time_slot TIME, booked_covers INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.time_slot, sum(r.party_size)::INTEGER
+  FROM reservations r
+  WHERE r.reservation_date = booking_date
+    AND r.status NOT IN ('cancelled', 'no_show')
+  GROUP BY r.time_slot;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_reservation_availability(DATE) TO anon;
+GRANT EXECUTE ON FUNCTION get_reservation_availability(DATE) TO authenticated;
+
+CREATE OR REPLACE FUNCTION create_reservation(
+  guest_name TEXT,
+  guest_email TEXT,
+  guest_phone TEXT,
+  guest_party_size INTEGER,
+  booking_date DATE,
+  booking_slot TIME,
+  notes TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settings RECORD;
+  booked INTEGER;
+  new_id UUID;
+BEGIN
+  SELECT * INTO settings FROM reservation_settings LIMIT 1;
+
+  IF coalesce(trim(guest_name), '') = '' OR coalesce(trim(guest_phone), '') = ''
+     OR guest_email !~* '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RETURN json_build_object('success', false, 'message', 'Please provide your name, phone and a valid email');
+  END IF;
+
+  IF guest_party_size < 1 OR guest_party_size > settings.max_party_size THEN
+    RETURN json_build_object('success', false, 'message',
+      format('Online bookings are for 1 to %s guests. Please call us for larger groups.', settings.max_party_size));
+  END IF;
+
+  IF booking_date + booking_slot < now() AT TIME ZONE 'Pacific/Auckland'
+     OR booking_date > (now() AT TIME ZONE 'Pacific/Auckland')::DATE + settings.booking_window_days THEN
+    RETURN json_build_object('success', false, 'message', 'That date is outside our booking window');
+  END IF;
+
+  IF extract(minute FROM booking_slot)::INTEGER % settings.slot_interval_minutes <> 0 THEN
+    RETURN json_build_object('success', false, 'message', 'Invalid time slot');
+  END IF;
+
+  -- Serialise bookings for the same slot so two guests can't take the last table at once
+  PERFORM pg_advisory_xact_lock(hashtext(booking_date::TEXT || booking_slot::TEXT));
+
+  SELECT coalesce(sum(r.party_size), 0) INTO booked
+  FROM reservations r
+  WHERE r.reservation_date = booking_date
+    AND r.time_slot = booking_slot
+    AND r.status NOT IN ('cancelled', 'no_show');
+
+  IF booked + guest_party_size > settings.max_covers_per_slot THEN
+    RETURN json_build_object('success', false, 'message', 'Sorry, that time is fully booked. Please choose another slot.');
+  END IF;
+
+  INSERT INTO reservations (name, email, phone, party_size, reservation_date, time_slot, notes)
+  VALUES (trim(guest_name), trim(guest_email), trim(guest_phone), guest_party_size, booking_date, booking_slot, nullif(trim(notes), ''))
+  RETURNING id INTO new_id;
+
+  RETURN json_build_object('success', true, 'message', 'Reservation requested', 'reservation_id', new_id);
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN json_build_object('success', false, 'message', SQLERRM);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_reservation(TEXT, TEXT, TEXT, INTEGER, DATE, TIME, TEXT) TO anon;
+GRANT EXECUTE ON FUNCTION create_reservation(TEXT, TEXT, TEXT, INTEGER, DATE, TIME, TEXT) TO authenticated;
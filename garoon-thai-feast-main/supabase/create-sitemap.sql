@@ -0,0 +1,207 @@
+-- Migration: Generated sitemap.xml
+-- generate_sitemap() writes the whole sitemap into the single row of the
+-- sitemap table: the public pages from App.tsx, news category pages, every
+-- live article (lastmod from updated_at) and an anchor per active menu
+-- category. Triggers regenerate it whenever an article goes live, changes or
+-- is taken down, and when the menu or categories change; admins can also
+-- rebuild it from SEO settings. The prerender step writes the XML to the
+-- site's /sitemap.xml, and the sitemap edge function serves the latest.
+-- URLs are absolute, so nothing is generated until seo_settings.site_url is set.
+
+ALTER TABLE seo_settings ADD COLUMN IF NOT EXISTS site_url text;
+
+CREATE TABLE IF NOT EXISTS sitemap (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  xml text NOT NULL,
+  url_count integer NOT NULL DEFAULT 0,
+  generated_at timestamp with time zone NOT NULL DEFAULT timezone('utc', now())
+);
+
+ALTER TABLE sitemap ENABLE ROW LEVEL SECURITY;
+
+-- Written only by generate_sitemap()
+DROP POLICY IF EXISTS "Public can read the sitemap" ON sitemap;
+CREATE POLICY "Public can read the sitemap" ON sitemap
+FOR SELECT TO anon, authenticated
+USING (true);
+
+-- Same rule as getMenuCategoryAnchor() in src/lib/sitemap.ts
+CREATE OR REPLACE FUNCTION menu_category_anchor(category_name text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT trim(BOTH '-' FROM regexp_replace(lower(category_name), '[^a-z0-9]+', '-', 'g'));
+$$;
+
+CREATE OR REPLACE FUNCTION generate_sitemap()
+RETURNS timestamp with time zone
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  base_url text;
+  sitemap_xml text;
+  total integer;
+  generated_time timestamp with time zone := now();
+BEGIN
+  SELECT rtrim(trim(site_url), '/') INTO base_url
+  FROM seo_settings
+  WHERE nullif(trim(site_url), '') IS NOT NULL
+  ORDER BY updated_at DESC
+  LIMIT 1;
+
+  IF base_url IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  WITH live_articles AS (
+    SELECT slug, category_id, updated_at
+    FROM articles
+    WHERE status IN ('published', 'scheduled')
+      AND published_at <= now()
+  ),
+  menu_updated AS (
+    SELECT greatest(
+      (SELECT max(updated_at) FROM menu_categories WHERE is_active),
+      (SELECT max(updated_at) FROM menu_items WHERE is_active)
+    ) AS lastmod
+  ),
+  -- Static routes from App.tsx; /auth, /admin and previews stay out
+  pages (sort_order, path, lastmod, changefreq, priority) AS (
+    VALUES
+      (1, '/', NULL::timestamp with time zone, 'weekly', '1.0'),
+      (2, '/menu', (SELECT lastmod FROM menu_updated), 'weekly', '0.9'),
+      (3, '/reservations', NULL, 'monthly', '0.8'),
+      (4, '/news', (SELECT max(updated_at) FROM live_articles), 'daily', '0.8'),
+      (5, '/about', NULL, 'monthly', '0.6')
+  ),
+  entries AS (
+    SELECT sort_order, path, lastmod, changefreq, priority FROM pages
+    UNION ALL
+    SELECT DISTINCT ON (anchor)
+           6, '/menu#' || anchor, updated_at, 'weekly', '0.7'
+    FROM (
+      SELECT menu_category_anchor(name) AS anchor, updated_at
+      FROM menu_categories
+      WHERE is_active
+    ) AS menu_anchors
+    WHERE anchor <> ''
+    UNION ALL
+    SELECT 7, '/news/category/' || article_categories.slug, max(live_articles.updated_at), 'weekly', '0.5'
+    FROM article_categories
+    JOIN live_articles ON live_articles.category_id = article_categories.id
+    GROUP BY article_categories.slug
+    UNION ALL
+    SELECT 8, '/news/' || slug, updated_at, 'monthly', '0.6'
+    FROM live_articles
+  )
+  SELECT
+    count(*),
+    '<?xml version="1.0" encoding="UTF-8"?>' || chr(10) || xmlelement(
+      name urlset,
+      xmlattributes('http://www.sitemaps.org/schemas/sitemap/0.9' AS xmlns),
+      xmlagg(
+        xmlelement(
+          name url,
+          xmlelement(name loc, base_url || entries.path),
+          CASE WHEN entries.lastmod IS NOT NULL THEN
+            xmlelement(name lastmod, to_char(entries.lastmod AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS"Z"'))
+          END,
+          xmlelement(name changefreq, entries.changefreq),
+          xmlelement(name priority, entries.priority)
+        )
+        ORDER BY entries.sort_order, entries.lastmod DESC NULLS LAST, entries.path
+      )
+    )::text
+  INTO total, sitemap_xml
+  FROM entries;
+
+  INSERT INTO sitemap (id, xml, url_count, generated_at)
+  VALUES (true, sitemap_xml, total, generated_time)
+  ON CONFLICT (id) DO UPDATE
+  SET xml = EXCLUDED.xml,
+      url_count = EXCLUDED.url_count,
+      generated_at = EXCLUDED.generated_at;
+
+  RETURN generated_time;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION generate_sitemap() FROM PUBLIC, anon, authenticated;
+
+-- The Rebuild button in SEO settings. Returns NULL when no site URL is set.
+CREATE OR REPLACE FUNCTION rebuild_sitemap()
+RETURNS timestamp with time zone
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(ARRAY['owner', 'manager', 'editor']) THEN
+    RAISE EXCEPTION 'Only SEO managers can rebuild the sitemap';
+  END IF;
+
+  RETURN generate_sitemap();
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION rebuild_sitemap() TO authenticated;
+
+-- Drafts aren't in the sitemap, so saving one leaves it alone. Scheduled
+-- articles are picked up when publish_scheduled_articles() flips them.
+CREATE OR REPLACE FUNCTION refresh_sitemap_for_article()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (TG_OP <> 'INSERT' AND OLD.status IN ('published', 'scheduled'))
+     OR (TG_OP <> 'DELETE' AND NEW.status IN ('published', 'scheduled')) THEN
+    PERFORM generate_sitemap();
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_sitemap ON articles;
+CREATE TRIGGER refresh_sitemap
+AFTER INSERT OR UPDATE OR DELETE ON articles
+FOR EACH ROW EXECUTE FUNCTION refresh_sitemap_for_article();
+
+CREATE OR REPLACE FUNCTION refresh_sitemap()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM generate_sitemap();
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_sitemap ON menu_categories;
+CREATE TRIGGER refresh_sitemap
+AFTER INSERT OR UPDATE OR DELETE ON menu_categories
+FOR EACH STATEMENT EXECUTE FUNCTION refresh_sitemap();
+
+DROP TRIGGER IF EXISTS refresh_sitemap ON menu_items;
+CREATE TRIGGER refresh_sitemap
+AFTER INSERT OR UPDATE OR DELETE ON menu_items
+FOR EACH STATEMENT EXECUTE FUNCTION refresh_sitemap();
+
+-- Renames move the category page
+DROP TRIGGER IF EXISTS refresh_sitemap ON article_categories;
+CREATE TRIGGER refresh_sitemap
+AFTER UPDATE OF slug OR DELETE ON article_categories
+FOR EACH STATEMENT EXECUTE FUNCTION refresh_sitemap();
+
+DROP TRIGGER IF EXISTS refresh_sitemap ON seo_settings;
+CREATE TRIGGER refresh_sitemap
+AFTER INSERT OR UPDATE OF site_url ON seo_settings
+FOR EACH STATEMENT EXECUTE FUNCTION refresh_sitemap();
+
+SELECT generate_sitemap();
@@ -0,0 +1,5 @@
+-- Migration: Publish order changes to Supabase Realtime for the kitchen order board
+-- REPLICA IDENTITY FULL sends the previous row on UPDATE so status moves can be tracked.
+ALTER TABLE orders REPLICA IDENTITY FULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE orders;
@@ -0,0 +1,32 @@
+// Serves the sitemap stored by generate_sitemap() (supabase/create-sitemap.sql).
+// Deploy with `supabase functions deploy sitemap`; it's public, so JWT
+// verification is off in supabase/config.toml.
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL")!,
+  Deno.env.get("SUPABASE_ANON_KEY")!,
+);
+
+Deno.serve(async () => {
+  const { data, error } = await supabase
+    .from("sitemap")
+    .select("xml, generated_at")
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error loading sitemap:", error);
+    return new Response("Sitemap unavailable", { status: 503 });
+  }
+  if (!data) {
+    return new Response("Sitemap not generated yet", { status: 404 });
+  }
+
+  return new Response(data.xml, {
+    headers: {
+      "Content-Type": "application/xml; charset=utf-8",
+      "Last-Modified": new Date(data.generated_at).toUTCString(),
+      "Cache-Control": "public, max-age=3600",
+    },
+  });
+});